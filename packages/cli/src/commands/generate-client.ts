@@ -0,0 +1,95 @@
+import { readFile } from 'fs/promises'
+import { basename, join, relative, resolve } from 'path'
+import pc from 'picocolors'
+import ora from 'ora'
+import { fileExists, writeGeneratedFile } from '../utils/code-generator.js'
+import { generateClientFiles } from '../utils/client-generator.js'
+import { loadContract } from '../utils/contract-loader.js'
+import type { GenerateClientOptions } from '../types/index.js'
+
+/**
+ * Routes entry points of the templates, in lookup order
+ */
+const ROUTES_CANDIDATES = ['src/routes/index.ts', 'packages/routes/src/index.ts']
+
+/**
+ * Generate a standalone typed client package from the project's routes
+ */
+export async function generateClient(name: string | undefined, options: GenerateClientOptions): Promise<void> {
+  console.log(pc.cyan(pc.bold('\n🎯 Outscope Client Generator\n')))
+
+  const cwd = process.cwd()
+
+  const packageJsonPath = join(cwd, 'package.json')
+  if (!(await fileExists(packageJsonPath))) {
+    console.error(pc.red('\n✗ No package.json found. Are you in an Outscope project?\n'))
+    process.exit(1)
+  }
+
+  const routesFile = options.routes ? resolve(cwd, options.routes) : await findRoutesFile(cwd)
+  if (!routesFile) {
+    console.error(pc.red(`\n✗ No routes found at ${ROUTES_CANDIDATES.join(' or ')}. Pass --routes <file>.\n`))
+    process.exit(1)
+  }
+
+  const project = JSON.parse(await readFile(packageJsonPath, 'utf-8')) as { name?: string }
+  const packageName = name ?? `${project.name ?? basename(cwd)}-client`
+  const outDir = resolve(cwd, options.out ?? (await defaultOutDir(cwd)))
+
+  const spinner = ora(`Loading routes from ${relative(cwd, routesFile)}...`).start()
+
+  try {
+    const manifest = await loadContract(cwd, routesFile, options.export ?? 'routes')
+
+    spinner.text = 'Generating client...'
+    const files = generateClientFiles(manifest, {
+      packageName,
+      version: await readVersion(join(outDir, 'package.json')),
+    })
+
+    for (const file of files) {
+      await writeGeneratedFile(join(outDir, file.path), file.content)
+    }
+
+    spinner.succeed(pc.green(`Client "${packageName}" generated with ${manifest.procedures.length} procedures`))
+
+    console.log(pc.dim('\nGenerated files:'))
+    for (const file of files) {
+      console.log(pc.cyan(`  ${relative(cwd, join(outDir, file.path))}`))
+    }
+
+    console.log(pc.yellow('\n💡 Re-run this command after changing your routes\n'))
+  } catch (error) {
+    spinner.fail(pc.red('Failed to generate client'))
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+async function findRoutesFile(cwd: string): Promise<string | undefined> {
+  for (const candidate of ROUTES_CANDIDATES) {
+    if (await fileExists(join(cwd, candidate))) {
+      return join(cwd, candidate)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Monorepos get the client as a workspace package
+ */
+async function defaultOutDir(cwd: string): Promise<string> {
+  return (await fileExists(join(cwd, 'pnpm-workspace.yaml'))) ? 'packages/client' : 'client'
+}
+
+/**
+ * Keep the version of a previously generated package, so regenerating
+ * does not undo a release bump
+ */
+async function readVersion(packageJsonPath: string): Promise<string | undefined> {
+  try {
+    return (JSON.parse(await readFile(packageJsonPath, 'utf-8')) as { version?: string }).version
+  } catch {
+    return undefined
+  }
+}
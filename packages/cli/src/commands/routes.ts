@@ -0,0 +1,52 @@
+import { join, relative, resolve } from 'path'
+import pc from 'picocolors'
+import ora from 'ora'
+import { fileExists } from '../utils/code-generator.js'
+import { formatRouteTable, loadRouteTable } from '../utils/route-table.js'
+import type { RoutesOptions } from '../types/index.js'
+
+/**
+ * App entry points of the templates, in lookup order
+ */
+const APP_CANDIDATES = ['src/app.ts', 'src/index.ts']
+
+/**
+ * Print the route table of the project's app
+ */
+export async function routes(options: RoutesOptions): Promise<void> {
+  const cwd = process.cwd()
+
+  const appFile = options.app ? resolve(cwd, options.app) : await findAppFile(cwd)
+  if (!appFile) {
+    console.error(pc.red(`\n✗ No app found at ${APP_CANDIDATES.join(' or ')}. Pass --app <file>.\n`))
+    process.exit(1)
+  }
+
+  // Keep stdout clean for --json, so the output can be piped
+  const spinner = ora({ text: `Loading app from ${relative(cwd, appFile)}...`, isSilent: options.json }).start()
+
+  try {
+    const table = await loadRouteTable(cwd, appFile, options.export ?? 'app')
+    spinner.stop()
+
+    if (options.json) {
+      console.log(JSON.stringify(table, null, 2))
+      return
+    }
+
+    console.log(table.length > 0 ? `\n${formatRouteTable(table)}\n` : pc.yellow('\nNo procedures registered\n'))
+  } catch (error) {
+    spinner.fail(pc.red('Failed to describe routes'))
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+async function findAppFile(cwd: string): Promise<string | undefined> {
+  for (const candidate of APP_CANDIDATES) {
+    if (await fileExists(join(cwd, candidate))) {
+      return join(cwd, candidate)
+    }
+  }
+  return undefined
+}
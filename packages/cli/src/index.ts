@@ -5,7 +5,9 @@ import pc from 'picocolors'
 import { createRequire } from 'module'
 import { createProject } from './commands/create.js'
 import { generate } from './commands/generate.js'
-import type { CreateProjectCliOptions } from './types/index.js'
+import { generateClient } from './commands/generate-client.js'
+import { routes } from './commands/routes.js'
+import type { CreateProjectCliOptions, GenerateClientOptions, RoutesOptions } from './types/index.js'
 
 const require = createRequire(import.meta.url)
 const pkg = require('../package.json')
@@ -46,10 +48,18 @@ program
       '    - feature: Complete feature module (controller + service + repository + routes + schema)\n' +
       '    - controller: Controller file only\n' +
       '    - service: Service file only\n' +
-      '    - repository: Repository file only'
+      '    - repository: Repository file only\n' +
+      '    - client: Typed client package generated from the routes'
   )
-  .action(async (type: string | undefined, name: string | undefined) => {
+  .option('-r, --routes <file>', 'Routes file for client generation')
+  .option('-e, --export <name>', 'Export name of the routes router', 'routes')
+  .option('-o, --out <dir>', 'Output directory for client generation')
+  .action(async (type: string | undefined, name: string | undefined, options: GenerateClientOptions) => {
     try {
+      if (type === 'client') {
+        await generateClient(name, options)
+        return
+      }
       await generate(type, name)
     } catch (error) {
       console.error(pc.red('\n✗ Error generating code:'))
@@ -58,6 +68,23 @@ program
     }
   })
 
+// Routes command
+program
+  .command('routes')
+  .description('List the procedures of the app with their URLs, access policies, handlers and middlewares')
+  .option('-a, --app <file>', 'Module exporting the app (defaults to src/app.ts or src/index.ts)')
+  .option('-e, --export <name>', 'Export name of the app or of the createApp() promise', 'app')
+  .option('--json', 'Print the route table as JSON')
+  .action(async (options: RoutesOptions) => {
+    try {
+      await routes(options)
+    } catch (error) {
+      console.error(pc.red('\n✗ Error listing routes:'))
+      console.error(error)
+      process.exit(1)
+    }
+  })
+
 // Parse arguments
 program.parse(process.argv)
 
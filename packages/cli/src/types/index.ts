@@ -28,3 +28,68 @@ export interface TemplateContext {
   includePrisma: boolean
   templateRootPath?: string
 }
+
+export interface GenerateClientOptions {
+  routes?: string
+  export?: string
+  out?: string
+}
+
+/**
+ * JSON Schema of a contract input, output or error data
+ */
+export type JsonSchema = boolean | { [key: string]: unknown }
+
+/**
+ * A procedure of the routes router, as loaded by `outscope generate client`
+ */
+export interface ProcedureManifest {
+  path: string[]
+  method: string
+  route: string
+  inputStructure: 'compact' | 'detailed'
+  outputStructure: 'compact' | 'detailed'
+  summary?: string
+  description?: string
+  deprecated?: boolean
+  input?: JsonSchema
+  /** Whether the output is an event iterator; `output` then describes its events */
+  streamed?: boolean
+  output?: JsonSchema
+  errors: {
+    code: string
+    status?: number
+    message?: string
+    data?: JsonSchema
+  }[]
+}
+
+export interface ContractManifest {
+  procedures: ProcedureManifest[]
+}
+
+export interface RoutesOptions {
+  app?: string
+  export?: string
+  json?: boolean
+}
+
+/**
+ * A procedure mounted on the app, as returned by `app.describeRoutes()`
+ */
+export interface RouteManifest {
+  procedure: string
+  method: string
+  path: string
+  restUrl: string
+  rpcUrl: string
+  access: {
+    policy: string
+    permissions: string[]
+    policies: string[]
+  }
+  handler: string
+  middlewares: string[]
+  interceptors: string[]
+  deprecated: boolean
+}
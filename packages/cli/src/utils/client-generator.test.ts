@@ -0,0 +1,224 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { generateClientFiles, procedureTypeName, schemaToType } from './client-generator'
+import type { ContractManifest } from '../types/index'
+
+const manifest: ContractManifest = {
+  procedures: [
+    {
+      path: ['tasks', 'create'],
+      method: 'POST',
+      route: '/tasks',
+      inputStructure: 'compact',
+      outputStructure: 'compact',
+      summary: 'Create a task',
+      input: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          dueAt: { type: 'string', format: 'date-time', 'x-native-type': 'date' },
+        },
+        required: ['title'],
+      },
+      output: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, title: { type: 'string' } },
+        required: ['id', 'title'],
+      },
+      errors: [],
+    },
+    {
+      path: ['tasks', 'get'],
+      method: 'GET',
+      route: '/projects/{projectId}/tasks/{id}',
+      inputStructure: 'compact',
+      outputStructure: 'compact',
+      input: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string' },
+          id: { type: 'number' },
+          fields: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['projectId', 'id'],
+      },
+      errors: [{ code: 'NOT_FOUND', status: 404, data: { type: 'object', properties: { id: { type: 'number' } } } }],
+    },
+    {
+      path: ['tasks', 'remove'],
+      method: 'DELETE',
+      route: '/tasks/{id}',
+      inputStructure: 'compact',
+      outputStructure: 'compact',
+      input: {
+        type: 'object',
+        properties: { id: { type: 'number' }, reason: { type: 'string' } },
+        required: ['id'],
+      },
+      errors: [],
+    },
+    {
+      path: ['tasks', 'exists'],
+      method: 'HEAD',
+      route: '/tasks',
+      inputStructure: 'compact',
+      outputStructure: 'compact',
+      input: { type: 'object', properties: { title: { type: 'string' } } },
+      errors: [],
+    },
+    {
+      path: ['tasks', 'feed'],
+      method: 'GET',
+      route: '/tasks/feed',
+      inputStructure: 'compact',
+      outputStructure: 'compact',
+      streamed: true,
+      output: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] },
+      errors: [],
+    },
+  ],
+}
+
+let dir: string | undefined
+
+afterEach(async () => {
+  if (dir) await rm(dir, { recursive: true, force: true })
+  dir = undefined
+})
+
+async function importClient() {
+  dir = await mkdtemp(join(tmpdir(), 'outscope-client-test-'))
+  for (const file of generateClientFiles(manifest, { packageName: 'tasks-client' })) {
+    await writeFile(join(dir, file.path), file.content, 'utf-8')
+  }
+  return import(pathToFileURL(join(dir, 'index.js')).href)
+}
+
+describe('client generator', () => {
+  it('converts JSON Schema to TypeScript types', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        status: { enum: ['open', 'done'] },
+        'due-at': { type: 'string', format: 'date-time', 'x-native-type': 'date' },
+        tags: { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+      },
+      required: ['status'],
+    }
+
+    expect(schemaToType(schema, 'output')).toBe(
+      "{\n  status: 'open' | 'done'\n  'due-at'?: string\n  tags?: Array<string | null>\n}"
+    )
+    expect(schemaToType(schema.properties['due-at'], 'input')).toBe('Date | string')
+    expect(schemaToType(schema.properties['due-at'], 'rpc')).toBe('Date')
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'number' } }, 'output')).toBe(
+      'Record<string, number>'
+    )
+    expect(procedureTypeName(['user-settings', 'update'])).toBe('UserSettingsUpdate')
+  })
+
+  it('generates typed procedures, declared errors and the RPC client', () => {
+    const files = Object.fromEntries(
+      generateClientFiles(manifest, { packageName: 'tasks-client' }).map((file) => [file.path, file.content])
+    )
+
+    expect(files['index.d.ts']).toContain(
+      '    /** Create a task */\n' +
+        '    create(input: TasksCreateInput, options?: RequestOptions): Promise<TasksCreateOutput>'
+    )
+    expect(files['index.d.ts']).toContain("export type TasksGetError = (ApiError<'NOT_FOUND', {")
+    expect(files['index.d.ts']).toContain('export type TasksGetOutput = unknown')
+    expect(files['rpc.d.ts']).toContain("ORPCError<'NOT_FOUND', {")
+    expect(files['rpc.d.ts']).toContain('dueAt?: Date')
+    expect(JSON.parse(files['package.json'])).toMatchObject({ name: 'tasks-client', version: '0.0.0' })
+  })
+
+  it('generates streamed procedures only in the RPC client', async () => {
+    const files = Object.fromEntries(
+      generateClientFiles(manifest, { packageName: 'tasks-client' }).map((file) => [file.path, file.content])
+    )
+    const { procedures } = await importClient()
+
+    expect(files['rpc.d.ts']).toContain(
+      'feed: ORPCClient<Record<never, never>, undefined, AsyncIteratorObject<{\n      title: string\n    }, unknown, void>, Error>'
+    )
+    expect(files['index.d.ts']).not.toContain('feed')
+    expect(procedures.tasks).not.toHaveProperty('feed')
+  })
+
+  it('regenerates identical files', () => {
+    expect(generateClientFiles(manifest, { packageName: 'tasks-client', version: '1.2.0' })).toEqual(
+      generateClientFiles(manifest, { packageName: 'tasks-client', version: '1.2.0' })
+    )
+  })
+
+  it('sends requests to the contract paths with auth headers', async () => {
+    const { createClient } = await importClient()
+    const requests: { url: string; init: RequestInit }[] = []
+    const client = createClient({
+      baseUrl: 'https://api.example.com/api/',
+      auth: async () => 'token',
+      fetch: async (url: string, init: RequestInit) => {
+        requests.push({ url, init })
+        return new Response(JSON.stringify({ id: 1, title: 'Write docs' }))
+      },
+    })
+
+    const created = await client.tasks.create({ title: 'Write docs' })
+    await client.tasks.get({ projectId: 'a b', id: 7, fields: ['title'] }, { headers: { 'x-trace': '1' } })
+
+    expect(created).toEqual({ id: 1, title: 'Write docs' })
+    expect(requests[0].url).toBe('https://api.example.com/api/tasks')
+    expect(requests[0].init).toMatchObject({ method: 'POST', body: '{"title":"Write docs"}' })
+    expect(requests[0].init.headers).toMatchObject({ authorization: 'Bearer token' })
+    expect(requests[1].url).toBe('https://api.example.com/api/projects/a%20b/tasks/7?fields%5B0%5D=title')
+    expect(requests[1].init).toMatchObject({ method: 'GET', body: undefined })
+    expect(requests[1].init.headers).toMatchObject({ 'x-trace': '1' })
+  })
+
+  it('sends the input where the OpenAPI handler reads it for each method', async () => {
+    const { createClient } = await importClient()
+    const requests: { url: string; init: RequestInit }[] = []
+    const client = createClient({
+      baseUrl: 'https://api.example.com/api',
+      fetch: async (url: string, init: RequestInit) => {
+        requests.push({ url, init })
+        return new Response(null)
+      },
+    })
+
+    await client.tasks.remove({ id: 7, reason: 'duplicate' })
+    await client.tasks.exists({ title: 'Write docs' })
+
+    expect(requests[0].url).toBe('https://api.example.com/api/tasks/7')
+    expect(requests[0].init).toMatchObject({ method: 'DELETE', body: '{"reason":"duplicate"}' })
+    expect(requests[1].url).toBe('https://api.example.com/api/tasks?title=Write+docs')
+    expect(requests[1].init).toMatchObject({ method: 'HEAD', body: undefined })
+  })
+
+  it('throws ApiError with the code, status and data of error responses', async () => {
+    const { createClient, isApiError } = await importClient()
+    const client = createClient({
+      baseUrl: 'https://api.example.com/api',
+      fetch: async () =>
+        new Response(
+          JSON.stringify({ defined: true, code: 'NOT_FOUND', status: 404, message: 'Not found', data: { id: 7 } }),
+          { status: 404 }
+        ),
+    })
+
+    const error = await client.tasks.get({ projectId: 'p', id: 7 }).catch((error: unknown) => error)
+
+    expect(isApiError(error)).toBe(true)
+    expect(error).toMatchObject({
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Not found',
+      data: { id: 7 },
+      defined: true,
+    })
+  })
+})
@@ -0,0 +1,586 @@
+import type { ContractManifest, JsonSchema, ProcedureManifest } from '../types/index.js'
+
+/**
+ * How generated types treat values JSON cannot carry natively.
+ * REST inputs accept dates as Date or ISO string, REST outputs are ISO
+ * strings and the RPC protocol keeps Date and bigint.
+ */
+export type TypeMode = 'input' | 'output' | 'rpc'
+
+export interface GeneratedFile {
+  path: string
+  content: string
+}
+
+export interface ClientGeneratorOptions {
+  packageName: string
+  version?: string
+}
+
+interface ProcedureTree {
+  [key: string]: ProcedureManifest | ProcedureTree
+}
+
+const HEADER = '// Generated by outscope generate client. Do not edit.\n'
+
+const COMMON_ERROR_CODES = [
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'METHOD_NOT_SUPPORTED',
+  'NOT_ACCEPTABLE',
+  'TIMEOUT',
+  'CONFLICT',
+  'PRECONDITION_FAILED',
+  'PAYLOAD_TOO_LARGE',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'UNPROCESSABLE_CONTENT',
+  'TOO_MANY_REQUESTS',
+  'CLIENT_CLOSED_REQUEST',
+  'INTERNAL_SERVER_ERROR',
+  'NOT_IMPLEMENTED',
+  'BAD_GATEWAY',
+  'SERVICE_UNAVAILABLE',
+  'GATEWAY_TIMEOUT',
+]
+
+/**
+ * Convert a JSON Schema to a TypeScript type expression
+ */
+export function schemaToType(schema: JsonSchema | undefined, mode: TypeMode, indent = ''): string {
+  if (schema === undefined || schema === true) return 'unknown'
+  if (schema === false) return 'never'
+
+  if ('const' in schema) return literal(schema.const)
+  if (Array.isArray(schema.enum)) return union(schema.enum.map(literal))
+
+  if (schema['x-native-type'] === 'date') {
+    return mode === 'rpc' ? 'Date' : mode === 'input' ? 'Date | string' : 'string'
+  }
+  if (schema['x-native-type'] === 'bigint') {
+    return mode === 'rpc' ? 'bigint' : 'string'
+  }
+
+  const anyOf = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined
+  if (Array.isArray(anyOf)) {
+    return union(anyOf.map((member) => schemaToType(member, mode, indent)))
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[])
+      .map((member) => parenthesize(schemaToType(member, mode, indent)))
+      .join(' & ')
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type) => schemaToType({ ...schema, type }, mode, indent)))
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string'
+    case 'number':
+    case 'integer':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array':
+      return arrayType(schema, mode, indent)
+    case 'object':
+      return objectType(schema, mode, indent)
+  }
+
+  return schema.properties ? objectType(schema, mode, indent) : 'unknown'
+}
+
+function arrayType(schema: Record<string, unknown>, mode: TypeMode, indent: string): string {
+  if (Array.isArray(schema.prefixItems)) {
+    const items = (schema.prefixItems as JsonSchema[]).map((item) => schemaToType(item, mode, indent))
+    return `[${items.join(', ')}]`
+  }
+
+  const item = schemaToType(schema.items as JsonSchema | undefined, mode, indent)
+  return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`
+}
+
+function objectType(schema: Record<string, unknown>, mode: TypeMode, indent: string): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>
+  const required = new Set((schema.required ?? []) as string[])
+  const additional = schema.additionalProperties as JsonSchema | undefined
+  const inner = `${indent}  `
+
+  const lines = Object.keys(properties).map((name) => {
+    const property = properties[name]
+    const optional = required.has(name) ? '' : '?'
+    const type = schemaToType(property, mode, inner)
+    return `${docComment(property, inner)}${inner}${propertyName(name)}${optional}: ${type}`
+  })
+
+  if (lines.length === 0) {
+    if (additional === false) return 'Record<string, never>'
+    return `Record<string, ${schemaToType(additional, mode, indent)}>`
+  }
+
+  // Declared properties must fit the index signature, so extra ones stay unknown
+  if (additional !== undefined && additional !== false) {
+    lines.push(`${inner}[key: string]: unknown`)
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)]
+  if (unique.length === 0) return 'never'
+  return unique.includes('unknown') ? 'unknown' : unique.join(' | ')
+}
+
+function parenthesize(type: string): string {
+  return type.includes(' | ') ? `(${type})` : type
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`
+  }
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name)
+}
+
+function docComment(schema: JsonSchema | undefined, indent: string): string {
+  if (typeof schema !== 'object') return ''
+
+  const lines: string[] = []
+  if (typeof schema.description === 'string') lines.push(schema.description)
+  if (schema.deprecated === true) lines.push('@deprecated')
+  if (lines.length === 0) return ''
+
+  const text = lines.map((line) => line.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')).join('\n')
+  return text.includes('\n')
+    ? `${indent}/**\n${text.split('\n').map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`
+    : `${indent}/** ${text} */\n`
+}
+
+function procedureDoc(procedure: ProcedureManifest, indent: string): string {
+  const description = procedure.summary ?? procedure.description
+  return docComment({ description, deprecated: procedure.deprecated }, indent)
+}
+
+/**
+ * Name of the types generated for a procedure, e.g. tasks.create -> TasksCreate
+ */
+export function procedureTypeName(path: string[]): string {
+  return path
+    .flatMap((segment) => segment.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+function buildTree(procedures: ProcedureManifest[]): ProcedureTree {
+  const tree: ProcedureTree = {}
+
+  for (const procedure of procedures) {
+    let node = tree
+    for (const segment of procedure.path.slice(0, -1)) {
+      node = (node[segment] ??= {}) as ProcedureTree
+    }
+    node[procedure.path[procedure.path.length - 1]] = procedure
+  }
+
+  return tree
+}
+
+function isProcedure(node: ProcedureManifest | ProcedureTree): node is ProcedureManifest {
+  return Array.isArray(node.path) && typeof node.method === 'string'
+}
+
+function renderTree(
+  tree: ProcedureTree,
+  indent: string,
+  render: (procedure: ProcedureManifest, name: string, indent: string) => string,
+  separator = ''
+): string {
+  const inner = `${indent}  `
+  const lines = Object.keys(tree).map((name) => {
+    const node = tree[name]
+    return isProcedure(node)
+      ? `${render(node, name, inner)}${separator}`
+      : `${inner}${propertyName(name)}: ${renderTree(node, inner, render, separator)}${separator}`
+  })
+
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+/**
+ * Whether a procedure may be called without input
+ */
+function isInputOptional(procedure: ProcedureManifest): boolean {
+  const { input } = procedure
+  if (input === undefined || input === true) return true
+  if (input === false) return false
+  return input.type === 'object' && !(Array.isArray(input.required) && input.required.length > 0)
+}
+
+function inputType(procedure: ProcedureManifest, mode: TypeMode, indent = ''): string {
+  return procedure.input === undefined ? 'undefined' : schemaToType(procedure.input, mode, indent)
+}
+
+function errorDataType(error: ProcedureManifest['errors'][number], mode: TypeMode, indent = ''): string {
+  return error.data === undefined ? 'undefined' : schemaToType(error.data, mode, indent)
+}
+
+function generatePackageJson(options: ClientGeneratorOptions): string {
+  const pkg = {
+    name: options.packageName,
+    version: options.version ?? '0.0.0',
+    description: 'Typed API client generated by outscope generate client',
+    type: 'module',
+    main: './index.js',
+    types: './index.d.ts',
+    exports: {
+      '.': { types: './index.d.ts', import: './index.js' },
+      './rpc': { types: './rpc.d.ts', import: './rpc.js' },
+    },
+    peerDependencies: { '@orpc/client': '^1.9.0' },
+    peerDependenciesMeta: { '@orpc/client': { optional: true } },
+  }
+
+  return `${JSON.stringify(pkg, null, 2)}\n`
+}
+
+function generateHeadersModule(): string {
+  return `${HEADER}
+export async function resolveHeaders(config) {
+  const headers = { ...(typeof config.headers === 'function' ? await config.headers() : config.headers) }
+  const token = config.auth ? await config.auth() : undefined
+  if (token) {
+    headers.authorization = \`Bearer \${token}\`
+  }
+  return headers
+}
+`
+}
+
+function generateIndexModule(tree: ProcedureTree): string {
+  const table = renderTree(tree, '', (procedure, name, indent) => {
+    const entry = [`method: ${literal(procedure.method)}`, `path: ${literal(procedure.route)}`]
+    if (procedure.inputStructure === 'detailed') entry.push(`inputStructure: 'detailed'`)
+    if (procedure.outputStructure === 'detailed') entry.push(`outputStructure: 'detailed'`)
+    return `${indent}${propertyName(name)}: { ${entry.join(', ')} }`
+  }, ',')
+
+  return `${HEADER}
+import { resolveHeaders } from './headers.js'
+
+export const procedures = ${table}
+
+export class ApiError extends Error {
+  constructor(status, body) {
+    super(body?.message ?? \`Request failed with status \${status}\`)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = body?.code ?? 'UNKNOWN'
+    this.data = body?.data
+    this.defined = body?.defined === true
+  }
+}
+
+export function isApiError(error) {
+  return error instanceof ApiError
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function appendQuery(search, key, value) {
+  if (value === undefined) return
+  if (value instanceof Date) {
+    search.append(key, value.toISOString())
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => appendQuery(search, \`\${key}[\${index}]\`, item))
+  } else if (isPlainObject(value)) {
+    for (const [name, item] of Object.entries(value)) appendQuery(search, \`\${key}[\${name}]\`, item)
+  } else {
+    search.append(key, value === null ? '' : String(value))
+  }
+}
+
+function buildPath(template, params) {
+  return template.replace(/\\{(\\+?)([^}]+)\\}/g, (_match, wildcard, name) => {
+    const value = String(params[name])
+    return wildcard ? value.split('/').map(encodeURIComponent).join('/') : encodeURIComponent(value)
+  })
+}
+
+// oRPC's OpenAPI handler reads compact GET inputs from the query string and
+// every other input from the body; HEAD requests cannot carry a body at all
+const BODILESS_METHODS = new Set(['GET', 'HEAD'])
+
+function splitInput(procedure, input) {
+  const bodiless = BODILESS_METHODS.has(procedure.method)
+
+  if (procedure.inputStructure === 'detailed') {
+    const body = bodiless ? undefined : input.body
+    return { params: input.params ?? {}, query: input.query, headers: input.headers ?? {}, body }
+  }
+
+  const names = [...procedure.path.matchAll(/\\{\\+?([^}]+)\\}/g)].map((match) => match[1])
+  if (!isPlainObject(input)) {
+    return { params: {}, query: undefined, headers: {}, body: bodiless ? undefined : input }
+  }
+
+  const params = {}
+  const rest = { ...input }
+  for (const name of names) {
+    params[name] = rest[name]
+    delete rest[name]
+  }
+
+  return bodiless
+    ? { params, query: rest, headers: {}, body: undefined }
+    : { params, query: undefined, headers: {}, body: rest }
+}
+
+async function call(config, procedure, input = {}, options = {}) {
+  const { params, query, headers, body } = splitInput(procedure, input)
+
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query ?? {})) appendQuery(search, key, value)
+  const queryString = search.toString()
+  const baseUrl = config.baseUrl.replace(/\\/$/, '')
+  const url = \`\${baseUrl}\${buildPath(procedure.path, params)}\${queryString ? \`?\${queryString}\` : ''}\`
+
+  const requestHeaders = { ...(await resolveHeaders(config)), ...options.headers }
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) requestHeaders[name] = String(value)
+  }
+  if (body !== undefined) requestHeaders['content-type'] = 'application/json'
+
+  const response = await (config.fetch ?? fetch)(url, {
+    method: procedure.method,
+    headers: requestHeaders,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: options.signal,
+  })
+
+  const text = await response.text()
+  let payload = text
+  try {
+    payload = text ? JSON.parse(text) : undefined
+  } catch {
+    // Not JSON, keep the text
+  }
+
+  if (!response.ok) {
+    throw new ApiError(response.status, isPlainObject(payload) ? payload : undefined)
+  }
+
+  return procedure.outputStructure === 'detailed'
+    ? { status: response.status, headers: Object.fromEntries(response.headers), body: payload }
+    : payload
+}
+
+function bind(node, config) {
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [
+      key,
+      typeof value.method === 'string' && typeof value.path === 'string'
+        ? (input, options) => call(config, value, input, options)
+        : bind(value, config),
+    ])
+  )
+}
+
+export function createClient(config) {
+  return bind(procedures, config)
+}
+`
+}
+
+function generateIndexTypes(procedures: ProcedureManifest[], tree: ProcedureTree): string {
+  const types = procedures.map((procedure) => {
+    const name = procedureTypeName(procedure.path)
+    const lines = [
+      `export type ${name}Input = ${inputType(procedure, 'input')}`,
+      `export type ${name}Output = ${schemaToType(procedure.output, 'output')}`,
+    ]
+
+    if (procedure.errors.length > 0) {
+      const declared = procedure.errors.map(
+        (error) => `(ApiError<${literal(error.code)}, ${errorDataType(error, 'output')}> & { readonly defined: true })`
+      )
+      lines.push(
+        `/** Errors of ${procedure.path.join('.')}; narrow declared ones with \`error.defined\` and \`error.code\` */`,
+        `export type ${name}Error = ${[...declared, '(ApiError & { readonly defined: false })'].join(' | ')}`
+      )
+    }
+
+    return lines.join('\n')
+  })
+
+  const client = renderTree(tree, '', (procedure, name, indent) => {
+    const typeName = procedureTypeName(procedure.path)
+    const doc = procedureDoc(procedure, indent)
+    const input = `input${isInputOptional(procedure) ? '?' : ''}: ${typeName}Input`
+    return `${doc}${indent}${propertyName(name)}(${input}, options?: RequestOptions): Promise<${typeName}Output>`
+  })
+
+  return `${HEADER}
+export interface ClientConfig {
+  /** Base URL of the REST API including its prefix, e.g. https://api.example.com/api */
+  baseUrl: string
+  /** Headers sent with every request */
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>)
+  /** Token sent as \`Authorization: Bearer <token>\`; return undefined to send none */
+  auth?: () => string | null | undefined | Promise<string | null | undefined>
+  /** Fetch implementation, defaults to the global fetch */
+  fetch?: (input: string | Request, init?: RequestInit) => Promise<Response>
+}
+
+export interface RequestOptions {
+  /** Headers sent with this request */
+  headers?: Record<string, string>
+  /** Signal cancelling this request */
+  signal?: AbortSignal
+}
+
+export type CommonErrorCode =
+${COMMON_ERROR_CODES.map((code) => `  | ${literal(code)}`).join('\n')}
+
+/** Error response of the API */
+export declare class ApiError<TCode extends string = string, TData = unknown> extends Error {
+  readonly status: number
+  readonly code: TCode
+  readonly data: TData
+  /** Whether the error is declared in the contract */
+  readonly defined: boolean
+}
+
+export declare function isApiError(error: unknown): error is ApiError
+
+${types.join('\n\n')}
+
+export interface Client ${client}
+
+export declare const procedures: Record<string, unknown>
+
+export declare function createClient(config: ClientConfig): Client
+`
+}
+
+function generateRpcModule(): string {
+  return `${HEADER}
+import { resolveHeaders } from './headers.js'
+
+export function createRPCLinkOptions(config) {
+  return {
+    url: config.url,
+    fetch: config.fetch,
+    headers: () => resolveHeaders(config),
+  }
+}
+`
+}
+
+function generateRpcTypes(tree: ProcedureTree): string {
+  const client = renderTree(tree, '', (procedure, name, indent) => {
+    const input = inputType(procedure, 'rpc', indent)
+    const events = schemaToType(procedure.output, 'rpc', indent)
+    const output = procedure.streamed ? `AsyncIteratorObject<${events}, unknown, void>` : events
+    const errors = procedure.errors.map(
+      (error) => `ORPCError<${literal(error.code)}, ${errorDataType(error, 'rpc', indent)}>`
+    )
+    const doc = procedureDoc(procedure, indent)
+    const error = [...errors, 'Error'].join(' | ')
+    return `${doc}${indent}${propertyName(name)}: ORPCClient<Record<never, never>, ${input}, ${output}, ${error}>`
+  })
+
+  return `${HEADER}
+import type { Client as ORPCClient, ORPCError } from '@orpc/client'
+import type { ClientConfig } from './index.js'
+
+export interface RPCLinkConfig extends Omit<ClientConfig, 'baseUrl'> {
+  /** URL of the RPC handler, e.g. https://api.example.com/rpc */
+  url: string
+}
+
+export interface RPCLinkOptions {
+  url: string
+  headers: () => Promise<Record<string, string>>
+  fetch?: ClientConfig['fetch']
+}
+
+/** Options for \`new RPCLink()\` from @orpc/client/fetch */
+export declare function createRPCLinkOptions(config: RPCLinkConfig): RPCLinkOptions
+
+export interface RPCClient ${client}
+`
+}
+
+function generateReadme(options: ClientGeneratorOptions): string {
+  return `# ${options.packageName}
+
+Typed API client generated by \`outscope generate client\`.
+Do not edit these files; regenerate them when the routes change.
+
+## REST
+
+\`\`\`ts
+import { createClient, isApiError } from '${options.packageName}'
+
+const client = createClient({
+  baseUrl: 'https://api.example.com/api',
+  auth: () => getAccessToken(),
+})
+
+try {
+  const task = await client.tasks.create({ title: 'Write docs' })
+} catch (error) {
+  if (isApiError(error) && error.code === 'UNAUTHORIZED') {
+    // ...
+  }
+}
+\`\`\`
+
+## RPC
+
+The RPC protocol keeps dates, bigints and streamed outputs. It needs \`@orpc/client\`.
+
+\`\`\`ts
+import { createORPCClient } from '@orpc/client'
+import { RPCLink } from '@orpc/client/fetch'
+import { createRPCLinkOptions, type RPCClient } from '${options.packageName}/rpc'
+
+const client: RPCClient = createORPCClient(
+  new RPCLink(createRPCLinkOptions({ url: 'https://api.example.com/rpc', auth: () => getAccessToken() }))
+)
+\`\`\`
+`
+}
+
+/**
+ * Generate a standalone client package from the procedures of a routes router
+ */
+export function generateClientFiles(manifest: ContractManifest, options: ClientGeneratorOptions): GeneratedFile[] {
+  const tree = buildTree(manifest.procedures)
+  // The REST client reads each response as a single JSON body, so streamed
+  // procedures are only available through the RPC client
+  const restProcedures = manifest.procedures.filter((procedure) => !procedure.streamed)
+  const restTree = buildTree(restProcedures)
+
+  return [
+    { path: 'README.md', content: generateReadme(options) },
+    { path: 'headers.js', content: generateHeadersModule() },
+    { path: 'index.d.ts', content: generateIndexTypes(restProcedures, restTree) },
+    { path: 'index.js', content: generateIndexModule(restTree) },
+    { path: 'package.json', content: generatePackageJson(options) },
+    { path: 'rpc.d.ts', content: generateRpcTypes(tree) },
+    { path: 'rpc.js', content: generateRpcModule() },
+  ]
+}
@@ -0,0 +1,148 @@
+import { runWithTsx } from './tsx-runner.js'
+import type { ContractManifest } from '../types/index.js'
+
+/**
+ * Script run with the project's tsx. It imports the routes router, walks its
+ * procedures and converts their zod schemas to JSON Schema with the
+ * project's own zod, then writes the manifest to the given file.
+ */
+const LOADER_SCRIPT = `import { createRequire } from 'node:module'
+import { writeFile } from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+
+const [routesFile, exportName, outputFile] = process.argv.slice(2)
+const require = createRequire(routesFile)
+
+const nativeTypes = { date: { type: 'string', format: 'date-time' }, bigint: { type: 'string' } }
+
+const ZOD_3_MESSAGE =
+  'zod 3 schemas cannot be converted to JSON Schema. ' +
+  'Upgrade to zod 4, or import z from "zod/v4" (available since zod 3.25).'
+
+const MISSING_ZOD_MESSAGE =
+  'zod 4 could not be loaded from the project to convert the schema. ' +
+  'Install zod 4, or zod 3.25 or later, which provides "zod/v4".'
+
+// zod 3.25 exports zod 3 from "zod" and zod 4, with toJSONSchema, from "zod/v4"
+async function loadConverter() {
+  for (const specifier of ['zod', 'zod/v4']) {
+    try {
+      const zod = await import(pathToFileURL(require.resolve(specifier)).href)
+      const toJSONSchema = zod.toJSONSchema ?? zod.default?.toJSONSchema
+      if (toJSONSchema) {
+        return (schema, io) => {
+          const { $schema, ...jsonSchema } = toJSONSchema(schema, {
+            io,
+            unrepresentable: 'any',
+            override: ({ zodSchema, jsonSchema }) => {
+              const type = zodSchema._zod.def.type
+              if (nativeTypes[type]) {
+                Object.assign(jsonSchema, nativeTypes[type], { 'x-native-type': type })
+              }
+            },
+          })
+          return jsonSchema
+        }
+      }
+    } catch {}
+  }
+  return undefined
+}
+
+const convert = await loadConverter()
+
+// Failures name the schema, e.g. "tasks.create input", rather than leaving
+// its type as unknown in the generated client
+function toJsonSchema(schema, io, name) {
+  if (!schema) return undefined
+  if (!convert) throw new Error(\`\${name}: \${MISSING_ZOD_MESSAGE}\`)
+  // zod 3 schemas lack the _zod internals toJSONSchema reads
+  if (schema._def && !schema._zod) throw new Error(\`\${name}: \${ZOD_3_MESSAGE}\`)
+  try {
+    return convert(schema, io)
+  } catch (error) {
+    throw new Error(\`\${name}: cannot convert the schema to JSON Schema: \${error.message}\`)
+  }
+}
+
+// eventIterator() keeps its schemas under a symbol of @orpc/contract
+function eventIteratorDetails(schema) {
+  const standard = schema?.['~standard']
+  if (!standard || standard.vendor !== 'orpc') return undefined
+  const symbol = Object.getOwnPropertySymbols(standard).find(
+    (key) => key.description === 'ORPC_EVENT_ITERATOR_DETAILS'
+  )
+  return symbol ? standard[symbol] : undefined
+}
+
+function describe(def, path) {
+  const route = def.route ?? {}
+  const name = path.join('.')
+  const events = eventIteratorDetails(def.outputSchema)
+  return {
+    path,
+    method: route.method ?? 'POST',
+    route: route.path ?? '/' + path.map(encodeURIComponent).join('/'),
+    inputStructure: route.inputStructure ?? 'compact',
+    outputStructure: route.outputStructure ?? 'compact',
+    summary: route.summary,
+    description: route.description,
+    deprecated: route.deprecated,
+    input: toJsonSchema(def.inputSchema, 'input', \`\${name} input\`),
+    streamed: events ? true : undefined,
+    output: events
+      ? toJsonSchema(events.yields, 'output', \`\${name} events\`)
+      : toJsonSchema(def.outputSchema, 'output', \`\${name} output\`),
+    errors: Object.keys(def.errorMap ?? {}).sort().map((code) => ({
+      code,
+      status: def.errorMap[code]?.status,
+      message: def.errorMap[code]?.message,
+      data: toJsonSchema(def.errorMap[code]?.data, 'output', \`\${name} \${code} error data\`),
+    })),
+  }
+}
+
+function walk(router, path, procedures) {
+  if (router['~orpc']) {
+    procedures.push(describe(router['~orpc'], path))
+    return
+  }
+  for (const key of Object.keys(router).sort()) {
+    if (router[key] && typeof router[key] === 'object') {
+      walk(router[key], [...path, key], procedures)
+    }
+  }
+}
+
+const module = await import(pathToFileURL(routesFile).href)
+const routes = module[exportName]
+if (!routes || typeof routes !== 'object') {
+  throw new Error(\`\${routesFile} has no export named "\${exportName}"\`)
+}
+
+const procedures = []
+try {
+  walk(routes, [], procedures)
+} catch (error) {
+  console.error(error.message)
+  process.exit(1)
+}
+await writeFile(outputFile, JSON.stringify({ procedures }))
+
+// Importing the routes may have opened handles, e.g. database clients
+process.exit(0)
+`
+
+/**
+ * Load the procedures of a routes router with the project's tsx
+ */
+export async function loadContract(
+  cwd: string,
+  routesFile: string,
+  exportName: string
+): Promise<ContractManifest> {
+  return runWithTsx<ContractManifest>(cwd, LOADER_SCRIPT, [routesFile, exportName], {
+    loads: 'routes',
+    from: routesFile,
+  })
+}
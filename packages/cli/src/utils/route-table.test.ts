@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { formatRouteTable } from './route-table'
+import type { RouteManifest } from '../types/index'
+
+const routes: RouteManifest[] = [
+  {
+    procedure: 'tasks.create',
+    method: 'POST',
+    path: '/tasks',
+    restUrl: '/api/tasks',
+    rpcUrl: '/rpc/tasks/create',
+    access: { policy: 'permission', permissions: ['task:create'], policies: ['public', 'auth', 'permission'] },
+    handler: 'TaskController.create',
+    middlewares: ['access', 'auth', 'permission'],
+    interceptors: ['audit'],
+    deprecated: false,
+  },
+  {
+    procedure: 'tasks.list',
+    method: 'GET',
+    path: '/tasks',
+    restUrl: '/api/tasks',
+    rpcUrl: '/rpc/tasks/list',
+    access: { policy: 'public', permissions: [], policies: ['public'] },
+    handler: 'TaskController.list',
+    middlewares: ['access'],
+    interceptors: ['audit'],
+    deprecated: true,
+  },
+]
+
+describe('formatRouteTable', () => {
+  it('aligns the routes in columns', () => {
+    expect(formatRouteTable(routes, false).split('\n')).toEqual([
+      'METHOD  URL         PROCEDURE                ACCESS                    HANDLER                MIDDLEWARES',
+      'POST    /api/tasks  tasks.create             permission (task:create)  TaskController.create  access → auth → permission',
+      'GET     /api/tasks  tasks.list (deprecated)  public                    TaskController.list    access',
+      '',
+      'Interceptors: audit',
+    ])
+  })
+
+  it('pads cells before coloring them', () => {
+    const lines = formatRouteTable(routes, true).split('\n')
+
+    expect(lines[1]).toContain('\x1b[36m/api/tasks\x1b[39m')
+    expect(lines[1].replace(/\x1b\[\d+m/g, '')).toBe(formatRouteTable(routes, false).split('\n')[1])
+  })
+})
@@ -0,0 +1,83 @@
+import pc from 'picocolors'
+import { runWithTsx } from './tsx-runner.js'
+import type { RouteManifest } from '../types/index.js'
+
+/**
+ * Script run with the project's tsx. It imports the app, which may be
+ * exported as a promise of createApp(), and writes its route table to the
+ * given file.
+ */
+const LOADER_SCRIPT = `import { writeFile } from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+
+const [appFile, exportName, outputFile] = process.argv.slice(2)
+
+const module = await import(pathToFileURL(appFile).href)
+const app = await module[exportName]
+if (!app || typeof app.describeRoutes !== 'function') {
+  throw new Error(\`\${appFile} has no export named "\${exportName}" with a describeRoutes() method\`)
+}
+
+await writeFile(outputFile, JSON.stringify(app.describeRoutes()))
+
+// Creating the app may have opened handles, e.g. database clients
+process.exit(0)
+`
+
+/**
+ * Load the route table of an app with the project's tsx
+ */
+export async function loadRouteTable(cwd: string, appFile: string, exportName: string): Promise<RouteManifest[]> {
+  return runWithTsx<RouteManifest[]>(cwd, LOADER_SCRIPT, [appFile, exportName], {
+    loads: 'app',
+    from: appFile,
+  })
+}
+
+/**
+ * Format a route table as aligned columns
+ *
+ * @param routes - Routes returned by `app.describeRoutes()`
+ * @param colors - Disable to print without ANSI colors
+ */
+export function formatRouteTable(routes: RouteManifest[], colors = pc.isColorSupported): string {
+  const c = pc.createColors(colors)
+
+  const header = ['METHOD', 'URL', 'PROCEDURE', 'ACCESS', 'HANDLER', 'MIDDLEWARES']
+  const rows = routes.map((route) => [
+    route.method,
+    route.restUrl,
+    route.deprecated ? `${route.procedure} (deprecated)` : route.procedure,
+    formatAccess(route.access),
+    route.handler,
+    route.middlewares.join(' → '),
+  ])
+  const styles = [c.bold, c.cyan, (text: string) => text, c.yellow, c.green, c.dim]
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)))
+  // Pad before styling, since ANSI codes would count towards the width
+  const line = (cells: string[], style: (column: number, text: string) => string) =>
+    cells
+      .map((cell, column) => style(column, column === cells.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join('  ')
+
+  const lines = [
+    line(header, (_column, text) => c.dim(text)),
+    ...rows.map((row, index) =>
+      line(row, (column, text) =>
+        column === 2 && routes[index].deprecated ? c.strikethrough(text) : styles[column](text)
+      )
+    ),
+  ]
+
+  const interceptors = routes[0]?.interceptors ?? []
+  if (interceptors.length > 0) {
+    lines.push('', c.dim(`Interceptors: ${interceptors.join(' → ')}`))
+  }
+
+  return lines.join('\n')
+}
+
+function formatAccess(access: RouteManifest['access']): string {
+  return access.permissions.length > 0 ? `${access.policy} (${access.permissions.join(', ')})` : access.policy
+}
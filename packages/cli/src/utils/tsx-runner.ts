@@ -0,0 +1,60 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { execa } from 'execa'
+
+/**
+ * Find a binary in node_modules/.bin of the directory or its parents
+ */
+async function findBinary(cwd: string, name: string): Promise<string | undefined> {
+  let dir = cwd
+
+  while (true) {
+    const candidate = join(dir, 'node_modules', '.bin', name)
+    try {
+      await stat(candidate)
+      return candidate
+    } catch {
+      // Keep looking in the parent directory
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) return undefined
+    dir = parent
+  }
+}
+
+/**
+ * Run a loader script with the project's tsx and read back the JSON it writes.
+ * The script receives `args` followed by the path of the output file.
+ */
+export async function runWithTsx<T>(
+  cwd: string,
+  script: string,
+  args: string[],
+  what: { loads: string; from: string }
+): Promise<T> {
+  const tsx = await findBinary(cwd, 'tsx')
+  if (!tsx) {
+    throw new Error(`tsx is required to load the ${what.loads}. Install it as a dev dependency (e.g. pnpm add -D tsx).`)
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'outscope-'))
+
+  try {
+    const loaderPath = join(dir, 'loader.mjs')
+    const outputPath = join(dir, 'output.json')
+    await writeFile(loaderPath, script, 'utf-8')
+
+    try {
+      await execa(tsx, [loaderPath, ...args, outputPath], { cwd })
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr
+      throw new Error(`Failed to load ${what.loads} from ${what.from}${stderr ? `:\n${stderr}` : ''}`)
+    }
+
+    return JSON.parse(await readFile(outputPath, 'utf-8')) as T
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
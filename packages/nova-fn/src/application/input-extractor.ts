@@ -58,11 +58,23 @@ export class InputExtractor {
   /**
    * Extract and parse request body
    *
+   * JSON bodies are parsed as JSON. Form bodies (multipart/form-data and
+   * application/x-www-form-urlencoded) are parsed into fields, with file parts
+   * as `File` values and repeated fields as arrays.
+   *
    * @param context - Hono context
    * @returns Parsed body or empty object if parsing fails
    */
   private async extractBody(context: Context): Promise<Record<string, unknown>> {
+    const contentType = context.req.header('content-type')?.toLowerCase() ?? ''
+
     try {
+      if (
+        contentType.startsWith('multipart/form-data') ||
+        contentType.startsWith('application/x-www-form-urlencoded')
+      ) {
+        return await context.req.parseBody({ all: true })
+      }
       return await context.req.json()
     } catch {
       return {}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { createApp } from './create-app.js'
+import { defineAccess } from '../domain/access.js'
+import { AppValidationError } from '../domain/app-validation.js'
+import type { BaseORPCContext } from '../domain/context.js'
+import type { EndpointDescriptor } from '../domain/endpoint.js'
+import { defineHandle, defineHandlers } from '../functional/define-handlers.js'
+import type { Plugin } from '../plugins/types.js'
+
+const routes = {
+  tasks: {
+    list: oc
+      .route({ method: 'GET', path: '/tasks' })
+      .input(z.object({ done: z.coerce.boolean().optional() }))
+      .output(z.array(z.object({ title: z.string() }))),
+    create: oc
+      .route({ method: 'POST', path: '/tasks' })
+      .input(z.object({ title: z.string() }))
+      .output(z.object({ title: z.string() })),
+  },
+}
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { kind: 'plain', producer: implement(routes).$context<BaseORPCContext>() },
+  },
+})
+
+const handle = defineHandle(access)
+
+const handlers = {
+  tasks: defineHandlers(routes.tasks, {
+    list: handle.public((input: { done?: boolean }) => [
+      { title: input.done ? 'Done task' : 'Open task' },
+    ]),
+    create: handle.public((input: { title: string }) => ({ title: input.title })),
+  }),
+}
+
+describe('createApp', () => {
+  it('serves the handlers over REST and RPC under their prefixes', async () => {
+    const app = await createApp({
+      routes,
+      access,
+      handlers,
+      apiPrefix: '/v1',
+      rpcPrefix: '/internal/rpc',
+    })
+
+    const rest = await app.fetch(new Request('http://localhost/v1/tasks?done=true'))
+    const rpc = await app.fetch(
+      new Request('http://localhost/internal/rpc/tasks/create', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ json: { title: 'Write tests' } }),
+      }),
+    )
+
+    expect(await rest.json()).toEqual([{ title: 'Done task' }])
+    expect(await rpc.json()).toEqual({ json: { title: 'Write tests' } })
+    expect((await app.fetch(new Request('http://localhost/api/tasks'))).status).toBe(404)
+  })
+
+  it('runs plugin middleware and procedure interceptors with the endpoint of the handler', async () => {
+    const seen: EndpointDescriptor[] = []
+    const plugin: Plugin = {
+      name: 'test',
+      middleware: async (c, next) => {
+        await next()
+        c.header('X-Plugin', 'test')
+      },
+      procedureInterceptor: async ({ endpoint }, next) => {
+        seen.push(endpoint)
+        return next()
+      },
+    }
+    const app = await createApp({ routes, access, handlers, plugins: [plugin] })
+
+    const response = await app.fetch(new Request('http://localhost/api/tasks'))
+
+    expect(response.headers.get('X-Plugin')).toBe('test')
+    expect(await response.json()).toEqual([{ title: 'Open task' }])
+    expect(seen).toHaveLength(1)
+    expect(seen[0]).toMatchObject({
+      path: ['tasks', 'list'],
+      handler: 'tasks.list',
+      access: { policy: 'public' },
+    })
+  })
+
+  it('refuses to start with unimplemented procedures in strict validation', async () => {
+    const incomplete = {
+      tasks: defineHandlers(routes.tasks, { list: handlers.tasks.list }),
+    }
+
+    const app = createApp({ routes, access, handlers: incomplete, validation: 'strict' })
+
+    await expect(app).rejects.toBeInstanceOf(AppValidationError)
+    await expect(app).rejects.toThrow('tasks.create')
+  })
+})
@@ -1,20 +1,53 @@
 import { Hono } from 'hono'
 import type { Context, Next } from 'hono'
 import type { AnyContractRouter } from '@orpc/contract'
+import type { StandardHandleResult, StandardHandlerInterceptorOptions } from '@orpc/server/standard'
 import { ORPCHono } from './orpc-hono.js'
+import { HotReloader } from './hot-reload.js'
+import type { HotReloadOptions } from './hot-reload.js'
+import { ServerLifecycle } from './server-lifecycle.js'
+import type { ShutdownOptions } from './server-lifecycle.js'
+import { createTenancyMiddleware, withTenantContext } from './tenancy.js'
+import type { TenancyOptions } from './tenancy.js'
+import { createTracingMiddleware, withTraceContext } from './tracing.js'
+import type { TracingOptions } from './tracing.js'
+import { WebSocketTransport } from './websocket.js'
+import type { WebSocketHandlers, WebSocketOptions } from './websocket.js'
+import { loadSchemaConverters } from './openapi.js'
+import { createDeprecationMiddleware, markOperationsDeprecated } from './versioning.js'
+import type { StreamingOptions } from '../domain/stream.js'
 import { defaultContextFactory } from '../domain/context.js'
+import { createTimeoutInterceptor } from '../domain/timeout.js'
+import { matchRequestEndpoint } from '../domain/endpoint.js'
+import { describeRouter } from '../domain/route-table.js'
+import type { RouteDescription } from '../domain/route-table.js'
+import { reportValidationIssues, validateApp } from '../domain/app-validation.js'
+import type { ValidationMode } from '../domain/app-validation.js'
 import type { BaseORPCContext, ContextFactory } from '../domain/context.js'
+import {
+  collectHandlers,
+  listHandlerImplementations,
+} from '../functional/define-handlers.js'
 import type { HandlerMap } from '../functional/define-handlers.js'
-import type { Plugin, PluginContext, ServerInfo } from '../plugins/types.js'
+import type {
+  ApiVersionConfig,
+  Plugin,
+  PluginContext,
+  ServerInfo,
+} from '../plugins/types.js'
 import type { HonoMiddleware } from '../domain/types.js'
 import type { AccessConfig } from '../domain/access.js'
+import { getLogger } from '../infrastructure/logger/index.js'
 
 /**
  * Application configuration for the lite/functional version
  */
-export interface AppConfig<TContext extends BaseORPCContext = BaseORPCContext> {
+export interface AppConfig<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter,
+> {
   /** Root route router */
-  routes: AnyContractRouter
+  routes: TRoutes
   /** Global access policy registry */
   access: AccessConfig
   /** Handler map */
@@ -31,6 +64,24 @@ export interface AppConfig<TContext extends BaseORPCContext = BaseORPCContext> {
   onError?: (error: Error, c: Context) => void
   /** Global Hono middleware interceptors */
   interceptors?: HonoMiddleware[]
+  /** Graceful shutdown behaviour of the server started by listen()/serve() */
+  shutdown?: ShutdownOptions
+  /** Request ID and trace context propagation; `false` disables it */
+  tracing?: TracingOptions | false
+  /** Heartbeats of streamed procedure outputs (SSE and oRPC event streams) */
+  streaming?: StreamingOptions
+  /** Serve the RPC router over WebSocket on the server started by listen()/serve() */
+  websocket?: WebSocketOptions | boolean
+  /** Default procedure timeout in milliseconds; handlers override it with `.timeout()` */
+  timeout?: number
+  /** Watch handler modules and swap changed handlers into the running server (development only) */
+  hotReload?: HotReloadOptions
+  /** Check the handlers against `routes` and `access` at startup; `false` skips it (default 'warn') */
+  validation?: ValidationMode | false
+  /** Additional API versions, keyed by name, with their own routes, handlers and prefixes */
+  versions?: Record<string, ApiVersionConfig>
+  /** Resolve and validate the tenant of each request, exposed as `context.tenant` */
+  tenancy?: TenancyOptions
 }
 
 /**
@@ -41,13 +92,18 @@ export type ErrorHandler = (error: Error, c: Context) => void
 /**
  * Application wrapper returned by createApp
  */
-export interface OutscopeApp<TContext extends BaseORPCContext = BaseORPCContext> {
+export interface OutscopeApp<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter,
+> {
   /** Underlying Hono instance */
   hono: Hono
   /** oRPC router structure */
   router: any
   /** Route router */
-  routes: AnyContractRouter
+  routes: TRoutes
+  /** Prefix the RPC handler is mounted on */
+  rpcPrefix: string
   /** Active plugins */
   plugins: Plugin[]
   /** Start Node.js server */
@@ -56,17 +112,20 @@ export interface OutscopeApp<TContext extends BaseORPCContext = BaseORPCContext>
   serve(options: { port: number; hostname?: string }): void
   /** Edge runtime fetch handler */
   fetch(request: Request, env?: unknown, executionCtx?: unknown): Promise<Response>
-  /** Get cached OpenAPI spec */
-  getOpenAPISpec(): Promise<object>
+  /** Get cached OpenAPI spec of the main API, or of an additional version */
+  getOpenAPISpec(version?: string): Promise<object>
+  /** Describe every mounted procedure: URLs, access policy, handler key and middleware chain; versions follow the main API */
+  describeRoutes(): RouteDescription[]
   /** Register additional handlers at runtime */
   registerHandlers(handlers: HandlerMap): Promise<void>
-  /** Graceful shutdown */
-  shutdown(): Promise<void>
+  /** Graceful shutdown: drain in-flight requests, then run plugin onShutdown hooks in reverse */
+  shutdown(options?: { timeout?: number }): Promise<void>
 }
 
 const DEFAULTS = {
   apiPrefix: '/api',
   rpcPrefix: '/rpc',
+  heartbeatInterval: 5000,
 } as const
 
 /**
@@ -92,9 +151,12 @@ const DEFAULTS = {
  * app.listen(3000)
  * ```
  */
-export async function createApp<TContext extends BaseORPCContext = BaseORPCContext>(
-  config: AppConfig<TContext>,
-): Promise<OutscopeApp<TContext>> {
+export async function createApp<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter,
+>(
+  config: AppConfig<TContext, TRoutes>,
+): Promise<OutscopeApp<TContext, TRoutes>> {
   const {
     routes,
     handlers,
@@ -105,10 +167,34 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     plugins = [],
     onError,
     interceptors = [],
+    shutdown: shutdownOptions,
+    tracing = {},
+    streaming = {},
+    websocket = false,
+    timeout,
+    hotReload,
+    validation = 'warn',
+    versions = {},
+    tenancy,
   } = config
 
-  // 1. Create Hono app
+  // Logger for messages about the app itself, as opposed to its requests
+  const logger = (tracing === false ? undefined : tracing.logger) ?? getLogger()
+
+  // 1. Create Hono app, tracking in-flight requests for graceful shutdown
   const app = new Hono()
+  const lifecycle = new ServerLifecycle(shutdownOptions)
+  app.use('*', lifecycle.middleware())
+
+  // Assign request IDs and trace context before anything logs
+  if (tracing !== false) {
+    app.use('*', createTracingMiddleware(tracing))
+  }
+
+  // Resolve the tenant before plugin middleware, so plugins can label requests with it
+  if (tenancy) {
+    app.use('*', createTenancyMiddleware(tenancy))
+  }
 
   // 2. Apply global error handler
   if (onError) {
@@ -123,6 +209,7 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     app,
     routes,
     config,
+    lifecycle,
   } as Omit<PluginContext, 'router'>
 
   for (const plugin of plugins) {
@@ -144,14 +231,109 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
   }
 
   // 6. Setup ORPCHono and register handlers
-  const orpcHono = new ORPCHono({
-    routes,
-    access,
-  })
+  // Outermost, so the deadline covers plugin interceptors as well
+  const procedureInterceptors = [
+    createTimeoutInterceptor(timeout),
+    ...plugins.flatMap((plugin) =>
+      plugin.procedureInterceptor ? [plugin.procedureInterceptor] : [],
+    ),
+  ]
+  const orpcHono = new ORPCHono({ routes, access, procedureInterceptors })
+
+  // Handler modules replace the procedures they declare in `handlers`
+  let hotReloader: HotReloader | null = null
+  // Handler maps of the hot reloaded modules, until they are validated
+  let reloadableHandlers: Array<{ file: string; handlers: HandlerMap }> | null = []
+  if (hotReload) {
+    const { modules, ...options } = hotReload
+    hotReloader = new HotReloader(
+      {
+        pattern: modules,
+        register: async (module, file) => {
+          const found = collectHandlers(module)
+          // Imported here, so edge runtimes without node:path can load the app
+          const { relative } = await import('node:path')
+          reloadableHandlers?.push({ file: relative(process.cwd(), file), handlers: found })
+          return orpcHono.applyHandlers(app, { handlers: found })
+        },
+        onReload: () => installRouter(),
+      },
+      { logger, ...options },
+    )
+    await hotReloader.load()
+  }
 
-  const router = await orpcHono.applyHandlers(app, { handlers })
+  const apiVersions = Object.entries(versions).map(([name, version]) => ({
+    name,
+    routes: version.routes,
+    access: version.access ?? access,
+    handlers: version.handlers,
+    apiPrefix: version.apiPrefix,
+    rpcPrefix: version.rpcPrefix ?? `${rpcPrefix}/${name}`,
+    deprecated: version.deprecated ?? false,
+  }))
+
+  // Report every contract and access problem at once, rather than failing
+  // on the first unknown procedure or policy during registration
+  if (validation) {
+    const transactions = plugins.some((plugin) => plugin.name === 'transaction')
+    const issues = [
+      ...validateApp({
+        routes,
+        access,
+        implementations: listHandlerImplementations(routes, handlers, reloadableHandlers),
+        transactions,
+      }),
+      ...apiVersions.flatMap((version) =>
+        validateApp({
+          routes: version.routes,
+          access: version.access,
+          implementations: listHandlerImplementations(version.routes, version.handlers),
+          transactions,
+        }).map((issue) => ({ ...issue, message: `${version.name}: ${issue.message}` })),
+      ),
+    ]
+    reportValidationIssues(issues, validation, logger)
+  }
+  reloadableHandlers = null
+
+  const baseRouter: AnyContractRouter = await orpcHono.applyHandlers(app, { handlers })
+
+  const versionRouters = await Promise.all(
+    apiVersions.map(async (version) => ({
+      ...version,
+      router: await new ORPCHono({
+        routes: version.routes,
+        access: version.access,
+        procedureInterceptors,
+      }).applyHandlers(app, { handlers: version.handlers }),
+    })),
+  )
+
+  // Procedures added by registerHandlers(), kept across reloads
+  const registeredRouter: Record<string, unknown> = {}
+
+  // The router object is shared with plugins, so it is updated in place
+  const router: any = { ...(hotReloader ? hotReloader.router(baseRouter) : baseRouter) }
+
+  // 7. Create handlers for API, RPC and WebSocket routes
+  let webSocketTransport: WebSocketTransport | null = null
+
+  // oRPC handlers index the router when they are created, so changing the
+  // router means creating new handlers
+  let createHandlers = () => {}
+
+  // Swap in the current procedures. Synchronous, so every request is
+  // served entirely by either the previous or the new router.
+  const installRouter = () => {
+    const next = hotReloader ? hotReloader.router(baseRouter) : baseRouter
+    for (const key of Object.keys(router)) {
+      delete router[key]
+    }
+    Object.assign(router, next, registeredRouter)
+    createHandlers()
+  }
 
-  // 7. Create handlers for API and RPC routes
   const setupHandlers = async () => {
     let OpenAPIHandler: any
     let RPCHandler: any
@@ -187,37 +369,109 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     }
 
     const handlerOptions = {
+      eventIteratorKeepAliveEnabled: streaming.heartbeatInterval !== false,
+      eventIteratorKeepAliveInterval:
+        streaming.heartbeatInterval || DEFAULTS.heartbeatInterval,
+      eventIteratorKeepAliveComment: streaming.heartbeatComment,
       plugins: CORSPlugin ? [new CORSPlugin()] : [],
       interceptors: onErrorInterceptor
         ? [onErrorInterceptor((error: unknown) => console.error('oRPC Error:', error))]
         : [],
+      // Runs before access middlewares, so plugins see rejected requests' endpoints
+      clientInterceptors: [
+        ({
+          context,
+          procedure,
+          next,
+        }: {
+          context: BaseORPCContext
+          procedure: object
+          next: () => Promise<unknown>
+        }) => {
+          matchRequestEndpoint(context.honoContext, procedure)
+          matchRequestEndpoint(context, procedure)
+          return next()
+        },
+      ],
     }
 
-    if (OpenAPIHandler) {
-      const openAPIHandler = new OpenAPIHandler(router, handlerOptions)
-
-      app.use(`${apiPrefix}/*`, async (c: Context, next: Next) => {
-        const context = await createContext({ honoContext: c })
-        const { matched, response } = await openAPIHandler.handle(c.req.raw, {
-          prefix: apiPrefix,
+    // Messages on a connection share its Hono context, so each message gets
+    // its own oRPC context to key per-call state such as the matched endpoint
+    const webSocketHandlerOptions = {
+      ...handlerOptions,
+      rootInterceptors: [
+        ({
+          next,
+          ...options
+        }: StandardHandlerInterceptorOptions<BaseORPCContext> & {
+          next: (
+            options: StandardHandlerInterceptorOptions<BaseORPCContext>,
+          ) => Promise<StandardHandleResult>
+        }) => next({ ...options, context: { ...options.context } }),
+      ],
+      clientInterceptors: [
+        ({
           context,
-        })
+          procedure,
+          next,
+        }: {
+          context: BaseORPCContext
+          procedure: object
+          next: () => Promise<unknown>
+        }) => {
+          matchRequestEndpoint(context, procedure)
+          return next()
+        },
+      ],
+    }
 
-        if (matched) {
-          return c.newResponse(response.body, response)
-        }
+    let openAPIHandler: any
+    let rpcHandler: any
+    let createWebSocketHandlers: (() => WebSocketHandlers) | null = null
 
-        await next()
+    if (websocket) {
+      const [{ RPCHandler: WsRPCHandler }, { RPCHandler: BunWsRPCHandler }] =
+        await Promise.all([import('@orpc/server/ws'), import('@orpc/server/bun-ws')])
+
+      createWebSocketHandlers = () => ({
+        node: new WsRPCHandler(router, webSocketHandlerOptions),
+        bun: new BunWsRPCHandler(router, webSocketHandlerOptions),
       })
     }
 
-    if (RPCHandler) {
-      const rpcHandler = new RPCHandler(router, handlerOptions)
+    createHandlers = () => {
+      openAPIHandler = OpenAPIHandler ? new OpenAPIHandler(router, handlerOptions) : undefined
+      rpcHandler = RPCHandler ? new RPCHandler(router, handlerOptions) : undefined
+      if (webSocketTransport && createWebSocketHandlers) {
+        webSocketTransport.setHandlers(createWebSocketHandlers())
+      }
+    }
+
+    createHandlers()
+
+    // Requests the handler does not match, or under a skipped prefix, fall
+    // through to the next mount
+    const mount = (
+      prefix: string,
+      getHandler: () => any,
+      skip: string[] = [],
+    ) => {
+      app.use(`${prefix}/*`, async (c: Context, next: Next) => {
+        const { path } = c.req
+        if (
+          skip.some(
+            (skipped) => path === skipped || path.startsWith(`${skipped}/`),
+          )
+        ) {
+          return next()
+        }
 
-      app.use(`${rpcPrefix}/*`, async (c: Context, next: Next) => {
-        const context = await createContext({ honoContext: c })
-        const { matched, response } = await rpcHandler.handle(c.req.raw, {
-          prefix: rpcPrefix,
+        const context = withTenantContext(
+          withTraceContext(await createContext({ honoContext: c }), c),
+          c,
+        )
+        const { matched, response } = await getHandler().handle(c.req.raw, {
+          prefix,
           context,
         })
 
@@ -228,9 +482,56 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
         await next()
       })
     }
+
+    // Versions are served by their own mounts, even where their prefixes
+    // are inside the main ones
+    const versionPrefixes = versionRouters.flatMap((version) => [
+      version.apiPrefix,
+      version.rpcPrefix,
+    ])
+    if (OpenAPIHandler) {
+      mount(apiPrefix, () => openAPIHandler, versionPrefixes)
+    }
+    if (RPCHandler) {
+      mount(rpcPrefix, () => rpcHandler, versionPrefixes)
+    }
+
+    // Additional API versions; their routers do not change
+    for (const version of versionRouters) {
+      if (version.deprecated) {
+        const deprecation = createDeprecationMiddleware(
+          version.name,
+          version.deprecated === true ? {} : version.deprecated,
+        )
+        app.use(`${version.apiPrefix}/*`, deprecation)
+        app.use(`${version.rpcPrefix}/*`, deprecation)
+      }
+
+      if (OpenAPIHandler) {
+        const handler = new OpenAPIHandler(version.router, handlerOptions)
+        mount(version.apiPrefix, () => handler)
+      }
+      if (RPCHandler) {
+        const handler = new RPCHandler(version.router, handlerOptions)
+        mount(version.rpcPrefix, () => handler)
+      }
+    }
+
+    // Connections are accepted once the server starts
+    if (websocket && createWebSocketHandlers) {
+      webSocketTransport = new WebSocketTransport(
+        websocket === true ? {} : websocket,
+        createWebSocketHandlers(),
+      )
+      app.get(
+        webSocketTransport.path,
+        webSocketTransport.route(createContext as ContextFactory<BaseORPCContext>),
+      )
+    }
   }
 
   await setupHandlers()
+  hotReloader?.watch()
 
   // 8. Call plugins (onReady phase)
   const readyContext = {
@@ -238,6 +539,7 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     routes,
     router,
     config,
+    lifecycle,
   } as PluginContext
 
   for (const plugin of plugins) {
@@ -246,56 +548,79 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     }
   }
 
-  // 9. Create OpenAPI spec generator
-  let cachedOpenAPISpec: object | null = null
+  // 9. Create OpenAPI spec generator, one spec per API version
+  const cachedOpenAPISpecs = new Map<string, object>()
+
+  const getOpenAPISpec = async (versionName?: string): Promise<object> => {
+    const version =
+      versionName === undefined
+        ? undefined
+        : apiVersions.find(({ name }) => name === versionName)
+    if (versionName !== undefined && !version) {
+      throw new Error(`Unknown API version "${versionName}"`)
+    }
 
-  const getOpenAPISpec = async (): Promise<object> => {
-    if (cachedOpenAPISpec) {
-      return cachedOpenAPISpec
+    const cacheKey = versionName ?? ''
+    const cached = cachedOpenAPISpecs.get(cacheKey)
+    if (cached) {
+      return cached
     }
 
+    const info = { title: 'API', version: versionName ?? '1.0.0' }
+
     try {
       const { OpenAPIGenerator } = await import('@orpc/openapi')
-      const { ZodToJsonSchemaConverter } = await import('@orpc/zod')
-
       const generator = new OpenAPIGenerator({
-        schemaConverters: [new ZodToJsonSchemaConverter()],
+        schemaConverters: await loadSchemaConverters(logger),
       })
 
-      cachedOpenAPISpec = await generator.generate(routes, {
-        info: {
-          title: 'API',
-          version: '1.0.0',
-        },
+      const spec = await generator.generate(version?.routes ?? routes, {
+        info,
         servers: [
           {
-            url: apiPrefix,
+            url: version?.apiPrefix ?? apiPrefix,
             description: 'API Server',
           },
         ],
       })
 
-      return cachedOpenAPISpec
+      cachedOpenAPISpecs.set(
+        cacheKey,
+        version?.deprecated ? markOperationsDeprecated(spec) : spec,
+      )
+      return cachedOpenAPISpecs.get(cacheKey)!
     } catch {
       return {
         openapi: '3.0.0',
-        info: { title: 'API', version: '1.0.0' },
+        info,
         paths: {},
       }
     }
   }
 
   // 10. Build OutscopeApp wrapper
-  const outscopeApp: OutscopeApp<TContext> = {
+  const handleSignal = (signal: NodeJS.Signals) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`)
+    outscopeApp.shutdown().then(
+      () => process.exit(0),
+      (error) => {
+        logger.error('Graceful shutdown failed:', error)
+        process.exit(1)
+      },
+    )
+  }
+
+  const outscopeApp: OutscopeApp<TContext, TRoutes> = {
     hono: app,
     router,
     routes,
+    rpcPrefix,
     plugins,
 
     listen(port: number, callback?: (info: ServerInfo) => void) {
       import('@hono/node-server')
         .then(({ serve }) => {
-          serve(
+          const server = serve(
             {
               fetch: app.fetch,
               port,
@@ -307,6 +632,10 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
               callback?.({ port: info.port })
             },
           )
+
+          lifecycle.attachNodeServer(server)
+          webSocketTransport?.attachNodeServer(server, app.fetch)
+          lifecycle.installSignalHandlers(handleSignal)
         })
         .catch((error) => {
           console.error('Failed to start server. Install @hono/node-server:', error.message)
@@ -316,12 +645,16 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     serve(options: { port: number; hostname?: string }) {
       const bunServe = (globalThis as any).Bun?.serve
       if (bunServe) {
-        bunServe({
+        const server = bunServe({
           fetch: app.fetch,
           port: options.port,
           hostname: options.hostname,
+          websocket: webSocketTransport?.bunWebSocket(),
         })
 
+        lifecycle.attachBunServer(server)
+        lifecycle.installSignalHandlers(handleSignal)
+
         for (const plugin of plugins) {
           plugin.onStart?.({ port: options.port })
         }
@@ -330,23 +663,48 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
       }
     },
 
-    fetch: app.fetch.bind(app) as OutscopeApp<TContext>['fetch'],
+    fetch: app.fetch.bind(app) as OutscopeApp<TContext, TRoutes>['fetch'],
 
     getOpenAPISpec,
 
+    describeRoutes() {
+      const interceptors = plugins.flatMap((plugin) =>
+        plugin.procedureInterceptor ? [plugin.name] : [],
+      )
+      return [
+        ...describeRouter(router, { apiPrefix, rpcPrefix, interceptors }),
+        ...versionRouters.flatMap((version) =>
+          describeRouter(version.router, {
+            apiPrefix: version.apiPrefix,
+            rpcPrefix: version.rpcPrefix,
+            interceptors,
+            version: version.name,
+          }),
+        ),
+      ]
+    },
+
     async registerHandlers(additionalHandlers: HandlerMap) {
       const additionalRouter = await orpcHono.applyHandlers(app, {
         handlers: additionalHandlers,
       })
-      Object.assign(router, additionalRouter)
+      Object.assign(registeredRouter, additionalRouter)
+      installRouter()
     },
 
-    async shutdown() {
-      for (const plugin of plugins) {
-        if (plugin.onShutdown) {
-          await plugin.onShutdown()
+    shutdown(options?: { timeout?: number }) {
+      const shutdown = lifecycle.shutdown(async () => {
+        for (const plugin of [...plugins].reverse()) {
+          if (plugin.onShutdown) {
+            await plugin.onShutdown()
+          }
         }
-      }
+      }, options?.timeout)
+
+      // Open sockets would hold the server open until the deadline
+      webSocketTransport?.close()
+      hotReloader?.close()
+      return shutdown
     },
   }
 
@@ -0,0 +1,135 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { createApp, type OutscopeApp } from './create-app.js'
+import { defineAccess } from '../domain/access.js'
+import type { BaseORPCContext } from '../domain/context.js'
+import { handle } from '../functional/define-handlers.js'
+
+const task = z.object({ title: z.string() })
+
+const routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/tasks' }).output(z.array(task)),
+    get: oc
+      .route({ method: 'GET', path: '/tasks/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(task),
+  },
+  health: oc.route({ method: 'GET', path: '/health' }).output(z.object({ ok: z.boolean() })),
+}
+
+function taskHandlers(title: string, withGet = true) {
+  return `import { handle } from '../../functional/define-handlers.js'
+
+export const taskHandlers = {
+  tasks: {
+    list: handle.public(() => [{ title: '${title}' }]),${
+      withGet
+        ? `
+    get: handle.public((input: { id: string }) => ({ title: input.id })),`
+        : ''
+    }
+  },
+}
+`
+}
+
+const HEALTH_HANDLERS = `import { handle } from '../../functional/define-handlers.js'
+
+export const healthHandlers = {
+  health: handle.public(() => ({ ok: true })),
+}
+`
+
+describe('hot reload', () => {
+  let dir: string
+  let app: OutscopeApp
+  const logger = { info: vi.fn(), warn: vi.fn() }
+
+  beforeEach(async () => {
+    // Inside the package, so the fixtures resolve the package's modules
+    dir = await mkdtemp(join(__dirname, '.hot-reload-'))
+    await writeFile(join(dir, 'task.handlers.ts'), taskHandlers('v1'))
+
+    app = await createApp({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: {
+          public: { kind: 'plain', producer: implement(routes).$context<BaseORPCContext>() },
+        },
+      }),
+      // Replaced by the module, which declares the same procedure
+      handlers: { tasks: { list: handle.public(() => [{ title: 'static' }]) } },
+      hotReload: { modules: `${dir}/*.handlers.ts`, debounce: 10, logger },
+    })
+    // The watcher starts in the background
+    await vi.waitFor(() =>
+      expect(logger.info).toHaveBeenCalledWith(`[hot-reload] Watching ${dir}/*.handlers.ts`),
+    )
+  })
+
+  afterEach(async () => {
+    await app.shutdown()
+    await rm(dir, { recursive: true, force: true })
+    vi.clearAllMocks()
+  })
+
+  async function get(path: string) {
+    const response = await app.fetch(new Request(`http://localhost/api${path}`))
+    const body = await response.text()
+    return {
+      status: response.status,
+      body: response.status === 200 ? JSON.parse(body) : undefined,
+    }
+  }
+
+  it('serves the handlers of modules over the handlers option', async () => {
+    expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v1' }] })
+    expect(await get('/tasks/1')).toEqual({ status: 200, body: { title: '1' } })
+  })
+
+  it('swaps changed handler maps into the running app', async () => {
+    await writeFile(join(dir, 'task.handlers.ts'), taskHandlers('v2', false))
+
+    await vi.waitFor(
+      async () => expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v2' }] }),
+      { timeout: 5000 },
+    )
+    expect((await get('/tasks/1')).status).toBe(404)
+    expect(app.router).not.toHaveProperty('tasks.get')
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringMatching(/Reloaded .*task\.handlers\.ts: tasks\.list, removed tasks\.get$/),
+    )
+  })
+
+  it('loads added and drops deleted modules', async () => {
+    await writeFile(join(dir, 'health.handlers.ts'), HEALTH_HANDLERS)
+    await vi.waitFor(
+      async () => expect(await get('/health')).toEqual({ status: 200, body: { ok: true } }),
+      { timeout: 5000 },
+    )
+
+    await rm(join(dir, 'health.handlers.ts'))
+    await vi.waitFor(async () => expect((await get('/health')).status).toBe(404), {
+      timeout: 5000,
+    })
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringMatching(/Removed .*health\.handlers\.ts: health$/),
+    )
+  })
+
+  it('keeps the previous handlers when a module fails to load', async () => {
+    await writeFile(join(dir, 'task.handlers.ts'), 'export const broken = ;')
+    await vi.waitFor(() => expect(logger.warn).toHaveBeenCalled(), { timeout: 5000 })
+
+    expect(logger.warn.mock.calls[0][0]).toMatch(
+      /Failed to reload .*task\.handlers\.ts, keeping its procedures/,
+    )
+    expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v1' }] })
+  })
+})
@@ -0,0 +1,426 @@
+import type { Dirent, FSWatcher } from 'node:fs'
+import type { AnyContractRouter } from '@orpc/contract'
+import { mergeRouters } from './orpc-hono.js'
+import { getLogger } from '../infrastructure/logger/index.js'
+
+/**
+ * Hot reload of procedure modules during development
+ *
+ * Watches the modules matched by a glob pattern and re-imports changed files
+ * with a cache-busting query. Each module contributes its own router
+ * fragment, so a reload replaces exactly the procedures of the files that
+ * changed, and drops the ones a file no longer declares. Only the changed
+ * modules are re-imported; the modules they import stay cached, so changes
+ * to services or to the routes contract still need a restart.
+ *
+ * Where `fs.watch` cannot watch recursively (Linux before Node 20), each
+ * directory under the pattern's root is watched on its own instead. Node
+ * modules are imported when a reloader is created, so the package still
+ * loads on edge runtimes.
+ */
+
+/**
+ * Hot reload configuration
+ */
+export interface HotReloadOptions {
+  /**
+   * Glob pattern of the modules exporting handler maps
+   * (e.g., 'src/features/**\/*.handlers.ts')
+   */
+  modules: string
+
+  /**
+   * Milliseconds to wait for further changes before reloading, since
+   * editors often write a file several times when saving
+   * @default 100
+   */
+  debounce?: number
+
+  /**
+   * Receives reload messages
+   * @default the app logger
+   */
+  logger?: HotReloadLogger
+}
+
+/**
+ * Logger for hot reload messages
+ */
+export interface HotReloadLogger {
+  info?: (message: string) => void
+  warn?: (message: string, ...args: unknown[]) => void
+}
+
+/**
+ * How the reloader turns modules into procedures and installs them
+ */
+export interface HotReloaderConfig {
+  /** Glob pattern of the watched modules */
+  pattern: string
+  /** Working directory for relative patterns (defaults to process.cwd()) */
+  cwd?: string
+  /** Build the router fragment of a module imported from `file` (absolute path) */
+  register: (module: Record<string, unknown>, file: string) => Promise<AnyContractRouter>
+  /** Called once changed modules are loaded; read the new procedures with `router()` */
+  onReload: () => void
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  debounce: 100,
+} as const
+
+/**
+ * Loads procedure modules and swaps them in when their files change
+ *
+ * @example
+ * ```typescript
+ * const reloader = new HotReloader({
+ *   pattern: 'src/features/**\/*.handlers.ts',
+ *   register: (module) => orpcHono.applyHandlers(app, { handlers: collectHandlers(module) }),
+ *   onReload: () => installRouter(reloader.router()),
+ * })
+ *
+ * const router = await reloader.load()
+ * reloader.watch()
+ * ```
+ */
+export class HotReloader {
+  private readonly modules = new Map<string, AnyContractRouter>()
+  private readonly initialProcedures = new Set<string>()
+  private readonly pending = new Set<string>()
+  private readonly cwd: string
+  private readonly debounce: number
+  private readonly logger: HotReloadLogger
+  private readonly path: Promise<typeof import('node:path')>
+  private watchers: FSWatcher[] = []
+  private readonly watchedDirectories = new Set<string>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private reloading: Promise<void> = Promise.resolve()
+  private generation = 0
+  private closed = false
+
+  /**
+   * @param config - Watched modules and how to install them
+   * @param options - Hot reload configuration
+   */
+  constructor(
+    private readonly config: HotReloaderConfig,
+    options: Omit<HotReloadOptions, 'modules'> = {},
+  ) {
+    this.cwd = config.cwd ?? process.cwd()
+    this.debounce = options.debounce ?? DEFAULTS.debounce
+    this.logger = options.logger ?? getLogger()
+    this.path = import('node:path')
+  }
+
+  /**
+   * Import all matched modules
+   *
+   * @returns Router merged from the modules' fragments
+   */
+  async load(): Promise<AnyContractRouter> {
+    for (const file of await this.findFiles()) {
+      try {
+        await this.loadModule(file, false)
+      } catch (error) {
+        this.logger.warn?.(`[hot-reload] Failed to load ${await this.relative(file)}:`, error)
+      }
+    }
+
+    for (const fragment of this.modules.values()) {
+      for (const procedure of procedurePaths(fragment)) {
+        this.initialProcedures.add(procedure)
+      }
+    }
+
+    return this.router()
+  }
+
+  /**
+   * Router merged from the modules' fragments, on top of `base`.
+   * Procedures of `base` that a module declared when it was first loaded
+   * are left out, so they disappear when the module stops declaring them.
+   *
+   * @param base - Procedures registered without the reloader
+   */
+  router(base: AnyContractRouter = {}): AnyContractRouter {
+    const router = omitProcedures(base, this.initialProcedures)
+
+    for (const fragment of this.modules.values()) {
+      mergeRouters(
+        router as Record<string, unknown>,
+        copyRouter(fragment) as Record<string, unknown>,
+      )
+    }
+
+    return router
+  }
+
+  /**
+   * Watch the directory of the glob pattern and reload changed modules
+   */
+  watch(): void {
+    if (this.watchers.length > 0 || this.closed) {
+      return
+    }
+
+    Promise.all([import('node:fs'), this.path])
+      .then(([fs, path]) => {
+        if (this.closed) {
+          return
+        }
+        const root = globRoot(path, this.config.pattern, this.cwd)
+        try {
+          this.watchers.push(
+            fs.watch(root, { recursive: true }, (_event, filename) => {
+              if (filename) {
+                this.pending.add(path.resolve(root, filename.toString()))
+              }
+              this.schedule()
+            }),
+          )
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+            throw error
+          }
+          this.watchDirectory(fs, path, root)
+        }
+        this.logger.info?.(`[hot-reload] Watching ${this.config.pattern}`)
+      })
+      .catch((error: Error) =>
+        this.logger.warn?.('[hot-reload] Failed to watch for changes:', error),
+      )
+  }
+
+  /**
+   * Reload the given modules, then load added and drop deleted ones.
+   * Failures are logged, and the previous procedures stay in place.
+   *
+   * @param files - Changed files; other paths are ignored
+   */
+  reload(files: Iterable<string> = []): Promise<void> {
+    const paths = [...files]
+    // Serialized, so a slow import cannot swap in an outdated router
+    this.reloading = this.reloading
+      .then(async () => {
+        const path = await this.path
+        await this.reloadModules(new Set(paths.map((file) => path.resolve(this.cwd, file))))
+      })
+      .catch((error) => this.logger.warn?.('[hot-reload] Reload failed:', error))
+    return this.reloading
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  close(): void {
+    this.closed = true
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    for (const watcher of this.watchers) {
+      watcher.close()
+    }
+    this.watchers = []
+    this.watchedDirectories.clear()
+  }
+
+  /**
+   * Watch a directory and its subdirectories one by one, including
+   * directories created later, for platforms without recursive watching
+   */
+  private watchDirectory(
+    fs: typeof import('node:fs'),
+    path: typeof import('node:path'),
+    directory: string,
+  ): void {
+    if (this.closed || this.watchedDirectories.has(directory)) {
+      return
+    }
+
+    let entries: Dirent[]
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true })
+    } catch {
+      // Removed before it could be watched
+      return
+    }
+
+    this.watchedDirectories.add(directory)
+    const watcher = fs.watch(directory, (_event, filename) => {
+      if (filename) {
+        const file = path.resolve(directory, filename.toString())
+        this.pending.add(file)
+        if (fs.statSync(file, { throwIfNoEntry: false })?.isDirectory()) {
+          this.watchDirectory(fs, path, file)
+        }
+      }
+      this.schedule()
+    })
+    // Emitted when the directory is removed; it is watched again if recreated
+    watcher.on('error', () => {
+      watcher.close()
+      this.watchedDirectories.delete(directory)
+    })
+    this.watchers.push(watcher)
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        this.watchDirectory(fs, path, path.join(directory, entry.name))
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      const files = [...this.pending]
+      this.pending.clear()
+      void this.reload(files)
+    }, this.debounce)
+    this.timer.unref?.()
+  }
+
+  private async reloadModules(changed: Set<string>): Promise<void> {
+    const files = new Set(await this.findFiles())
+    let updated = false
+
+    for (const file of this.modules.keys()) {
+      if (!files.has(file)) {
+        const removed = procedurePaths(this.modules.get(file)!)
+        this.modules.delete(file)
+        updated = true
+        this.logger.info?.(
+          `[hot-reload] Removed ${await this.relative(file)}${listProcedures(removed)}`,
+        )
+      }
+    }
+
+    for (const file of files) {
+      const isNew = !this.modules.has(file)
+      if (!isNew && !changed.has(file)) {
+        continue
+      }
+
+      const previous = procedurePaths(this.modules.get(file) ?? {})
+      try {
+        const current = procedurePaths(await this.loadModule(file, true))
+        const removed = previous.filter((procedure) => !current.includes(procedure))
+        updated = true
+        this.logger.info?.(
+          `[hot-reload] ${isNew ? 'Loaded' : 'Reloaded'} ${await this.relative(file)}${listProcedures(current)}` +
+            (removed.length > 0 ? `, removed ${removed.join(', ')}` : ''),
+        )
+      } catch (error) {
+        this.logger.warn?.(
+          `[hot-reload] Failed to reload ${await this.relative(file)}, keeping its procedures:`,
+          error,
+        )
+      }
+    }
+
+    if (updated) {
+      this.config.onReload()
+    }
+  }
+
+  private async loadModule(file: string, fresh: boolean): Promise<AnyContractRouter> {
+    const url =
+      process.platform === 'win32'
+        ? `file:///${file.replace(/\\/g, '/')}`
+        : `file://${file}`
+    const module = await import(fresh ? `${url}?reload=${++this.generation}` : url)
+    const fragment = await this.config.register(module, file)
+    this.modules.set(file, fragment)
+    return fragment
+  }
+
+  private async findFiles(): Promise<string[]> {
+    // Dynamic import glob to support optional dependency
+    let globSync: (
+      pattern: string,
+      options?: { absolute?: boolean; cwd?: string },
+    ) => string[]
+    try {
+      const glob = await import('glob')
+      globSync = glob.globSync
+    } catch {
+      throw new Error(
+        'The "glob" package is required for hot reload. Install it with: npm install glob',
+      )
+    }
+
+    return globSync(this.config.pattern, { absolute: true, cwd: this.cwd }).sort()
+  }
+
+  private async relative(file: string): Promise<string> {
+    return (await this.path).relative(this.cwd, file)
+  }
+}
+
+/**
+ * Deepest directory of a glob pattern without magic characters
+ */
+function globRoot(path: typeof import('node:path'), pattern: string, cwd: string): string {
+  const segments = pattern.split('/')
+  const index = segments.findIndex((segment) => /[*?[\]{}()!]/.test(segment))
+  return path.resolve(cwd, segments.slice(0, index === -1 ? -1 : index).join('/') || '.')
+}
+
+/**
+ * Dotted paths of the procedures of a router
+ */
+function procedurePaths(router: AnyContractRouter, prefix: string[] = []): string[] {
+  if ('~orpc' in router) {
+    return [prefix.join('.')]
+  }
+
+  return Object.entries(router).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null
+      ? procedurePaths(value as AnyContractRouter, [...prefix, key])
+      : [],
+  )
+}
+
+/**
+ * Copy of a router without the given procedures; procedures are shared
+ */
+function omitProcedures(
+  router: AnyContractRouter,
+  omitted: Set<string>,
+  prefix: string[] = [],
+): AnyContractRouter {
+  const copy: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(router)) {
+    const procedurePath = [...prefix, key]
+    if (typeof value !== 'object' || value === null || '~orpc' in value) {
+      if (!omitted.has(procedurePath.join('.'))) {
+        copy[key] = value
+      }
+    } else {
+      copy[key] = omitProcedures(value as AnyContractRouter, omitted, procedurePath)
+    }
+  }
+
+  return copy as AnyContractRouter
+}
+
+/**
+ * Copy of a router's structure, so merging does not change the original
+ */
+function copyRouter(router: AnyContractRouter): AnyContractRouter {
+  return omitProcedures(router, new Set())
+}
+
+function listProcedures(procedures: string[]): string {
+  return procedures.length > 0 ? `: ${procedures.join(', ')}` : ''
+}
@@ -22,11 +22,15 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
   private readonly interceptors: HonoMiddleware[]
   private readonly routes?: TContract
   private readonly access: ORPCHonoOptions<TContract>['access']
+  private readonly procedureInterceptors: NonNullable<
+    ORPCHonoOptions<TContract>['procedureInterceptors']
+  >
 
   constructor(options: ORPCHonoOptions<TContract>) {
     this.interceptors = options.interceptors ?? []
     this.routes = options.routes
     this.access = options.access
+    this.procedureInterceptors = options.procedureInterceptors ?? []
   }
 
   /**
@@ -47,6 +51,7 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
     const registrar = new HandlerRegistrar({
       routes: this.routes as AnyContractRouter,
       access: this.access,
+      procedureInterceptors: this.procedureInterceptors,
     })
 
     return registrar.register(options.handlers)
@@ -70,3 +75,28 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
     return undefined
   }
 }
+
+/**
+ * Deep merge two router structures
+ *
+ * @param target - Target router to merge into
+ * @param source - Source router to merge from
+ */
+export function mergeRouters(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (key in target && isPlainObject(target[key]) && isPlainObject(value)) {
+      // Both are objects, merge recursively
+      mergeRouters(target[key] as Record<string, unknown>, value as Record<string, unknown>)
+    } else {
+      // Not both objects, or key doesn't exist, overwrite
+      target[key] = value
+    }
+  }
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
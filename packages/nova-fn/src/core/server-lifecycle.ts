@@ -0,0 +1,293 @@
+import type { Context, Next } from 'hono'
+
+/**
+ * Server lifecycle management for graceful shutdown
+ *
+ * Tracks in-flight requests, holds on to the server started by
+ * listen()/serve() and drains it within a deadline on shutdown.
+ */
+
+/**
+ * Graceful shutdown configuration
+ */
+export interface ShutdownOptions {
+  /**
+   * Maximum time (ms) to wait for in-flight requests before
+   * open connections are closed forcefully
+   * @default 10000
+   */
+  timeout?: number
+
+  /**
+   * Process signals that trigger `app.shutdown()` once the server is started.
+   * `true` listens for SIGTERM and SIGINT. The process exits after shutdown completes.
+   * @default false
+   */
+  signals?: boolean | NodeJS.Signals[]
+}
+
+/**
+ * Minimal shape of the Node.js server returned by @hono/node-server
+ */
+export interface NodeServerLike {
+  close(callback?: (error?: Error) => void): unknown
+  closeIdleConnections?(): void
+  closeAllConnections?(): void
+}
+
+/**
+ * Minimal shape of the server returned by Bun.serve
+ */
+export interface BunServerLike {
+  stop(closeActiveConnections?: boolean): unknown
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  timeout: 10_000,
+  signals: ['SIGTERM', 'SIGINT'] as NodeJS.Signals[],
+} as const
+
+/**
+ * Coordinates request draining and server shutdown
+ *
+ * @example
+ * ```typescript
+ * const lifecycle = new ServerLifecycle({ timeout: 5000 })
+ * app.use('*', lifecycle.middleware())
+ * lifecycle.attachNodeServer(serve({ fetch: app.fetch, port: 3000 }))
+ *
+ * await lifecycle.shutdown(async () => {
+ *   await prisma.$disconnect()
+ * })
+ * ```
+ */
+export class ServerLifecycle {
+  private inFlight = 0
+  private idleWaiters: Array<() => void> = []
+  private nodeServer: NodeServerLike | null = null
+  private bunServer: BunServerLike | null = null
+  private shutdownPromise: Promise<void> | null = null
+  private readonly signalHandlers = new Map<NodeJS.Signals, () => void>()
+  private readonly drainExemptPaths = new Set<string>()
+
+  constructor(private readonly options: ShutdownOptions = {}) {}
+
+  /**
+   * Number of requests currently being handled
+   */
+  get activeRequests(): number {
+    return this.inFlight
+  }
+
+  /**
+   * Whether shutdown has started
+   */
+  get isShuttingDown(): boolean {
+    return this.shutdownPromise !== null
+  }
+
+  /**
+   * Keep answering a path while shutting down, e.g. health probes.
+   * Requests to exempt paths are not counted as in-flight.
+   *
+   * @param path - Request path, matched exactly
+   */
+  exemptFromDrain(path: string): void {
+    this.drainExemptPaths.add(path)
+  }
+
+  /**
+   * Hono middleware that counts in-flight requests.
+   * A request stays in flight until its response body has been fully sent
+   * or cancelled, so streaming responses are drained as well.
+   * Once shutdown has started, new requests on kept-alive connections
+   * are rejected with 503 and `Connection: close`.
+   */
+  middleware() {
+    return async (c: Context, next: Next): Promise<Response | void> => {
+      if (this.drainExemptPaths.has(c.req.path)) {
+        return next()
+      }
+
+      if (this.isShuttingDown) {
+        return c.json({ error: 'Service Unavailable' }, 503, { Connection: 'close' })
+      }
+
+      this.inFlight++
+      let released = false
+      const release = () => {
+        if (released) return
+        released = true
+        this.inFlight--
+        if (this.inFlight === 0) {
+          this.notifyIdle()
+        }
+      }
+
+      try {
+        await next()
+      } catch (error) {
+        release()
+        throw error
+      }
+
+      const body = c.res.body
+      // Hono discards the body of HEAD responses without reading it
+      if (!body || c.req.method === 'HEAD') {
+        release()
+        return
+      }
+      c.res = new Response(onBodySettled(body, release), c.res)
+    }
+  }
+
+  /**
+   * Register the Node.js server started by listen()
+   */
+  attachNodeServer(server: NodeServerLike): void {
+    this.nodeServer = server
+  }
+
+  /**
+   * Register the Bun server started by serve()
+   */
+  attachBunServer(server: BunServerLike): void {
+    this.bunServer = server
+  }
+
+  /**
+   * Install process signal handlers as configured in `options.signals`.
+   * Safe to call more than once.
+   *
+   * @param onSignal - Invoked when one of the signals is received
+   */
+  installSignalHandlers(onSignal: (signal: NodeJS.Signals) => void): void {
+    const signals =
+      this.options.signals === true ? DEFAULTS.signals : this.options.signals || []
+
+    if (typeof process === 'undefined' || typeof process.once !== 'function') {
+      return
+    }
+
+    for (const signal of signals) {
+      if (this.signalHandlers.has(signal)) continue
+
+      const handler = () => onSignal(signal)
+      this.signalHandlers.set(signal, handler)
+      process.once(signal, handler)
+    }
+  }
+
+  /**
+   * Stop accepting connections, wait for in-flight requests up to the
+   * configured deadline, then run the given cleanup.
+   * Repeated calls return the same promise.
+   *
+   * @param cleanup - Runs after the server has drained (e.g. plugin onShutdown hooks)
+   * @param timeout - Overrides `options.timeout` for this call
+   */
+  shutdown(cleanup: () => Promise<void>, timeout?: number): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(cleanup, timeout ?? this.options.timeout ?? DEFAULTS.timeout)
+    }
+    return this.shutdownPromise
+  }
+
+  private async run(cleanup: () => Promise<void>, timeout: number): Promise<void> {
+    this.removeSignalHandlers()
+
+    const deadline = new Promise<'timeout'>((resolve) => {
+      const timer = setTimeout(() => resolve('timeout'), timeout)
+      ;(timer as { unref?: () => void }).unref?.()
+    })
+
+    const closed = this.closeServer()
+    const drained = await Promise.race([
+      Promise.all([closed, this.waitForIdle()]).then(() => 'drained' as const),
+      deadline,
+    ])
+
+    if (drained === 'timeout') {
+      this.forceClose()
+    }
+
+    await cleanup()
+  }
+
+  private closeServer(): Promise<void> {
+    if (this.nodeServer) {
+      const server = this.nodeServer
+      return new Promise<void>((resolve) => {
+        server.close(() => resolve())
+        // Keep-alive connections would otherwise hold the server open
+        server.closeIdleConnections?.()
+      })
+    }
+
+    if (this.bunServer) {
+      // Without `true`, Bun lets in-flight requests finish
+      return Promise.resolve(this.bunServer.stop()).then(() => undefined)
+    }
+
+    return Promise.resolve()
+  }
+
+  private forceClose(): void {
+    this.nodeServer?.closeAllConnections?.()
+    this.bunServer?.stop(true)
+  }
+
+  private waitForIdle(): Promise<void> {
+    if (this.inFlight === 0) {
+      return Promise.resolve()
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve))
+  }
+
+  private notifyIdle(): void {
+    const waiters = this.idleWaiters
+    this.idleWaiters = []
+    for (const resolve of waiters) {
+      resolve()
+    }
+  }
+
+  private removeSignalHandlers(): void {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.removeListener(signal, handler)
+    }
+    this.signalHandlers.clear()
+  }
+}
+
+/**
+ * Pass a response body through, calling `settled` once it has been
+ * read to the end, has failed or was cancelled by the client
+ */
+function onBodySettled(body: ReadableStream<Uint8Array>, settled: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          settled()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        settled()
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      settled()
+      return reader.cancel(reason)
+    },
+  })
+}
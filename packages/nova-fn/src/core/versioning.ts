@@ -0,0 +1,106 @@
+import type { MiddlewareHandler } from 'hono'
+import { getRequestLogger } from './tracing.js'
+
+/**
+ * API versioning
+ *
+ * Additional versions of the API are mounted next to the main one, each
+ * with its own routes, controllers and prefixes. Deprecated versions keep
+ * working, but announce their retirement with `Deprecation`, `Sunset` and
+ * `Link` response headers (RFC 9745 and RFC 8594) and log every call, so
+ * remaining clients can be found before the version is removed.
+ */
+
+/**
+ * Deprecation of an API version
+ */
+export interface DeprecationOptions {
+  /** When the version was deprecated, sent as `Deprecation: @<epoch seconds>` */
+  since?: Date | string
+
+  /** When the version stops being served, sent as the `Sunset` header */
+  sunset?: Date | string
+
+  /** Migration guide, sent as `Link: <url>; rel="deprecation"` */
+  link?: string
+
+  /**
+   * Called for every request to the version; `false` disables it
+   * @default Logs a warning with the request logger
+   */
+  onRequest?: ((usage: DeprecatedUsage) => void) | false
+}
+
+/**
+ * A request to a deprecated API version
+ */
+export interface DeprecatedUsage {
+  /** Version name, e.g. 'v1' */
+  version: string
+  /** HTTP method of the request */
+  method: string
+  /** URL path of the request */
+  path: string
+  /** User-Agent of the client, if sent */
+  userAgent?: string
+}
+
+/**
+ * Create middleware announcing the deprecation of an API version
+ *
+ * @param version - Version name
+ * @param options - Deprecation dates, link and usage hook
+ * @returns Hono middleware for the prefixes of the version
+ */
+export function createDeprecationMiddleware(version: string, options: DeprecationOptions = {}): MiddlewareHandler {
+  const { since, sunset, link, onRequest } = options
+  const headers: Record<string, string> = {
+    // RFC 9745 only defines dates; `true` is what earlier drafts used
+    Deprecation: since === undefined ? 'true' : `@${Math.floor(new Date(since).getTime() / 1000)}`,
+    ...(sunset === undefined ? {} : { Sunset: new Date(sunset).toUTCString() }),
+    ...(link === undefined ? {} : { Link: `<${link}>; rel="deprecation"` }),
+  }
+
+  return async (c, next) => {
+    const usage: DeprecatedUsage = {
+      version,
+      method: c.req.method,
+      path: c.req.path,
+      userAgent: c.req.header('user-agent'),
+    }
+
+    if (onRequest) {
+      onRequest(usage)
+    } else if (onRequest !== false) {
+      getRequestLogger(c).warn(usage, `Deprecated API version ${version} called: ${usage.method} ${usage.path}`)
+    }
+
+    await next()
+
+    for (const [name, value] of Object.entries(headers)) {
+      c.header(name, value, name === 'Link' ? { append: true } : undefined)
+    }
+  }
+}
+
+/**
+ * Mark every operation of an OpenAPI document as deprecated
+ *
+ * @param spec - Generated OpenAPI document
+ * @returns The same document
+ */
+export function markOperationsDeprecated<T extends object>(spec: T): T {
+  const paths = (spec as { paths?: Record<string, Record<string, unknown>> }).paths ?? {}
+
+  for (const pathItem of Object.values(paths)) {
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (HTTP_METHODS.has(method) && typeof operation === 'object' && operation !== null) {
+        Object.assign(operation, { deprecated: true })
+      }
+    }
+  }
+
+  return spec
+}
+
+const HTTP_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'])
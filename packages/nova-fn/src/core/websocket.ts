@@ -0,0 +1,289 @@
+import type { Context } from 'hono'
+import type { IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+import type { BunWsHandler } from '@orpc/server/bun-ws'
+import type { WsHandler } from '@orpc/server/ws'
+import type { BaseORPCContext, ContextFactory } from '../domain/context.js'
+import { withTenantContext } from './tenancy.js'
+import { withTraceContext } from './tracing.js'
+
+/**
+ * WebSocket transport for the RPC router
+ *
+ * Serves the same router as the `/rpc` handler over a persistent connection.
+ * The upgrade request passes through the app's middleware like any other
+ * request, and its context is created once per connection. Access policies
+ * run on every message, since each message is a separate procedure call.
+ * Browsers send cookies with cross-site upgrades, so upgrades are only
+ * accepted from allowed origins.
+ */
+
+/**
+ * WebSocket transport configuration
+ */
+export interface WebSocketOptions {
+  /**
+   * Path accepting WebSocket upgrades
+   * @default '/ws'
+   */
+  path?: string
+
+  /**
+   * Origins allowed to open connections, e.g. `'https://app.example.com'`,
+   * or `'*'` for any. Upgrades from other origins are rejected with 403.
+   * Upgrades without an `Origin` header come from non-browser clients and
+   * are accepted.
+   * @default origins on the host the upgrade was sent to
+   */
+  origins?: string[]
+}
+
+/**
+ * oRPC handlers serving the router on each runtime
+ */
+export interface WebSocketHandlers {
+  node: WsHandler<any>
+  bun: BunWsHandler<any>
+}
+
+/**
+ * Minimal shape of the Node.js server returned by @hono/node-server
+ */
+export interface NodeUpgradeServerLike {
+  on(event: 'upgrade', listener: (request: IncomingMessage, socket: Duplex, head: Buffer) => void): unknown
+  listenerCount(event: 'upgrade'): number
+}
+
+/**
+ * Runtime server that takes over a request's connection, shaped after
+ * Bun's server; listen() provides the same shape on Node.js
+ */
+interface UpgradableServer {
+  upgrade(request: Request, options: { data: WebSocketData }): boolean
+}
+
+/**
+ * Data attached to an accepted connection
+ */
+interface WebSocketData {
+  context: BaseORPCContext
+}
+
+/**
+ * Minimal shape of a server-side socket of ws and Bun
+ */
+interface SocketLike {
+  close(code?: number, reason?: string): void
+}
+
+/**
+ * Minimal shape of a Bun server-side socket
+ */
+interface BunSocketLike extends SocketLike {
+  data: WebSocketData
+  send(message: string | ArrayBufferLike | Uint8Array): number
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  path: '/ws',
+} as const
+
+/**
+ * Close code sent to open connections on shutdown ("going away")
+ */
+const GOING_AWAY = 1001
+
+/**
+ * Accepts WebSocket connections on Node.js and Bun
+ *
+ * @example
+ * ```typescript
+ * const transport = new WebSocketTransport({ path: '/ws' }, handlers)
+ * app.get(transport.path, transport.route(createContext))
+ * transport.attachNodeServer(serve({ fetch: app.fetch, port: 3000 }), app.fetch)
+ * ```
+ */
+export class WebSocketTransport {
+  readonly path: string
+  private readonly origins: string[] | undefined
+  private readonly sockets = new Set<SocketLike>()
+
+  /**
+   * @param options - Transport configuration
+   * @param handlers - oRPC handlers serving the router on each runtime
+   */
+  constructor(
+    options: WebSocketOptions,
+    private handlers: WebSocketHandlers
+  ) {
+    this.path = options.path ?? DEFAULTS.path
+    this.origins = options.origins
+  }
+
+  /**
+   * Replace the handlers, e.g. after the router changed. Connections
+   * accepted on Node.js keep the handler they were accepted with.
+   *
+   * @param handlers - oRPC handlers serving the new router
+   */
+  setHandlers(handlers: WebSocketHandlers): void {
+    this.handlers = handlers
+  }
+
+  /**
+   * Hono handler accepting upgrades. The per-connection context is created
+   * here, after the app's middleware ran for the upgrade request.
+   *
+   * @param createContext - The app's context factory
+   */
+  route(createContext: ContextFactory<BaseORPCContext>) {
+    return async (c: Context): Promise<Response> => {
+      if (!this.allowsOrigin(c.req.header('origin'), c.req.url)) {
+        return c.text('Forbidden', 403)
+      }
+
+      const server = c.env as Partial<UpgradableServer> | undefined
+
+      if (typeof server?.upgrade !== 'function') {
+        return c.text('Upgrade Required', 426, { Upgrade: 'websocket' })
+      }
+
+      const context = withTenantContext(withTraceContext(await createContext({ honoContext: c }), c), c)
+      if (!server.upgrade(c.req.raw, { data: { context } })) {
+        return c.text('Bad Request', 400)
+      }
+
+      // The runtime has taken over the connection; this response is discarded
+      return new Response(null)
+    }
+  }
+
+  /**
+   * Accept upgrades on the Node.js server started by listen().
+   * Upgrade requests are routed through `fetch`, so they pass the app's
+   * middleware before the connection is accepted.
+   *
+   * @param server - Node.js HTTP server
+   * @param fetch - The app's fetch handler
+   */
+  attachNodeServer(
+    server: NodeUpgradeServerLike,
+    fetch: (request: Request, env: unknown) => Response | Promise<Response>
+  ): void {
+    const wss = loadWs().then(({ WebSocketServer }) => new WebSocketServer({ noServer: true }))
+    wss.catch((error: Error) => console.error(error.message))
+
+    server.on('upgrade', async (incoming, socket, head) => {
+      const url = new URL(incoming.url ?? '/', `http://${incoming.headers.host ?? 'localhost'}`)
+      if (url.pathname !== this.path) {
+        // Leave the socket to other upgrade listeners, if any
+        if (server.listenerCount('upgrade') === 1) {
+          socket.destroy()
+        }
+        return
+      }
+
+      let accepted: WebSocketData | undefined
+      const env: UpgradableServer & { incoming: IncomingMessage } = {
+        incoming,
+        upgrade: (_request, { data }) => {
+          accepted = data
+          return true
+        },
+      }
+
+      let webSocketServer: Awaited<typeof wss>
+      try {
+        const response = await fetch(new Request(url, { headers: toHeaders(incoming) }), env)
+        if (!accepted) {
+          socket.end(`HTTP/1.1 ${response.status} ${response.statusText}\r\nConnection: close\r\n\r\n`)
+          return
+        }
+        webSocketServer = await wss
+      } catch {
+        socket.destroy()
+        return
+      }
+
+      const { context } = accepted
+      webSocketServer.handleUpgrade(incoming, socket, head, (ws) => {
+        this.sockets.add(ws)
+        ws.on('close', () => this.sockets.delete(ws))
+        void this.handlers.node.upgrade(ws, { context })
+      })
+    })
+  }
+
+  /**
+   * The `websocket` option of Bun.serve
+   */
+  bunWebSocket() {
+    return {
+      open: (ws: BunSocketLike) => {
+        this.sockets.add(ws)
+      },
+      message: (ws: BunSocketLike, message: string | ArrayBufferView) =>
+        this.handlers.bun.message(ws, message, { context: ws.data.context }),
+      close: (ws: BunSocketLike) => {
+        this.sockets.delete(ws)
+        this.handlers.bun.close(ws)
+      },
+    }
+  }
+
+  /**
+   * Whether an upgrade from the given origin may open a connection
+   *
+   * @param origin - The request's `Origin` header
+   * @param url - The request URL, whose host is allowed by default
+   */
+  private allowsOrigin(origin: string | undefined, url: string): boolean {
+    if (origin === undefined) {
+      return true
+    }
+    if (this.origins) {
+      return this.origins.includes('*') || this.origins.includes(origin)
+    }
+    // Compared by host, since a TLS-terminating proxy changes the scheme
+    try {
+      return new URL(origin).host === new URL(url).host
+    } catch {
+      // Opaque origins, such as 'null' from sandboxed frames
+      return false
+    }
+  }
+
+  /**
+   * Close all open connections, e.g. when shutdown begins
+   */
+  close(): void {
+    for (const socket of this.sockets) {
+      socket.close(GOING_AWAY, 'Server shutting down')
+    }
+    this.sockets.clear()
+  }
+}
+
+/**
+ * Load ws, which is an optional dependency
+ */
+async function loadWs(): Promise<typeof import('ws')> {
+  try {
+    return await import('ws')
+  } catch {
+    throw new Error('WebSocket support on Node.js requires ws. Install it with: npm install ws')
+  }
+}
+
+function toHeaders(incoming: IncomingMessage): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(incoming.headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item)
+    }
+  }
+  return headers
+}
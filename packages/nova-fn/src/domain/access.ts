@@ -1,3 +1,5 @@
+import { labelMiddleware } from './route-table.js'
+
 /**
  * Access policy primitives for Nova 2.0.
  */
@@ -36,6 +38,10 @@ export interface ResolvedAccessPolicy {
   policy: AccessPolicy
   producer: unknown
   middlewares: unknown[]
+  /** Policy names applied, inherited policies first */
+  chain: string[]
+  /** No policy in the chain adds middlewares or checks permissions */
+  public: boolean
 }
 
 export class MissingAccessPolicyError extends Error {
@@ -81,30 +87,35 @@ export function resolveAccessPolicy(
     policy,
     producer: composition.producer,
     middlewares: composition.middlewares,
+    chain: composition.chain,
+    public: composition.chain.every((name) => isOpenPolicy(access.policies[name])),
   }
 }
 
 export function createAccessMiddleware(metadata: AccessMetadata): unknown {
-  return ({
-    next,
-    context,
-  }: {
-    next: (params: { context: unknown }) => unknown
-    context: unknown
-  }) =>
-    next({
-      context: {
-        ...(typeof context === 'object' && context !== null ? context : {}),
-        access: metadata,
-      },
-    })
+  return labelMiddleware(
+    ({
+      next,
+      context,
+    }: {
+      next: (params: { context: unknown }) => unknown
+      context: unknown
+    }) =>
+      next({
+        context: {
+          ...(typeof context === 'object' && context !== null ? context : {}),
+          access: metadata,
+        },
+      }),
+    'access',
+  )
 }
 
 function composePolicy(
   policyName: string,
   access: AccessConfig,
   metadata: AccessMetadata,
-): { producer: unknown; middlewares: unknown[] } {
+): { producer: unknown; middlewares: unknown[]; chain: string[] } {
   const chain = buildPolicyChain(policyName, access)
   let producer: unknown
   const pendingMiddlewares: unknown[] = []
@@ -119,7 +130,7 @@ function composePolicy(
     }
 
     for (const middleware of normalizeMiddlewares(policy)) {
-      const resolved = resolveMiddleware(middleware, metadata)
+      const resolved = labelMiddleware(resolveMiddleware(middleware, metadata), name)
       if (hasUseMethod(producer)) {
         producer = producer.use(resolved)
       } else {
@@ -131,6 +142,7 @@ function composePolicy(
   return {
     producer,
     middlewares: pendingMiddlewares,
+    chain,
   }
 }
 
@@ -162,6 +174,10 @@ function buildPolicyChain(policyName: string, access: AccessConfig): string[] {
   }
 }
 
+function isOpenPolicy(policy: AccessPolicy): boolean {
+  return policy.kind !== 'permission' && normalizeMiddlewares(policy).length === 0
+}
+
 function normalizeUses(uses: string | string[] | undefined): string[] {
   if (!uses) return []
   return Array.isArray(uses) ? uses : [uses]
@@ -0,0 +1,245 @@
+import type { Route } from '@orpc/contract'
+import type { AccessConfig, EndpointAccessMetadata } from './access.js'
+import type { EndpointOptions } from './endpoint.js'
+import type { Logger } from '../infrastructure/logger/index.js'
+
+/**
+ * Startup validation of an app's procedures
+ *
+ * Checks the implementations registered at startup against the routes
+ * contract and the access configuration, and reports every problem at once
+ * instead of failing on the first one (or not at all).
+ */
+
+/**
+ * What to do when validation finds issues: `strict` throws an
+ * AppValidationError, `warn` logs it and starts the app anyway
+ */
+export type ValidationMode = 'strict' | 'warn'
+
+/**
+ * A handler registered for a contract procedure
+ */
+export interface ProcedureImplementation {
+  /** Contract procedure the handler implements */
+  contract: unknown
+  /** Name of the handler in messages, e.g. 'planet.list' */
+  handler: string
+  /** Access metadata declared on the handler */
+  access?: EndpointAccessMetadata
+  /** Endpoint options declared on the handler */
+  options?: EndpointOptions
+}
+
+interface ContractProcedure {
+  contract: unknown
+  path: string
+  route: Route
+}
+
+export type AppValidationIssueKind =
+  | 'unimplemented'
+  | 'duplicate'
+  | 'route-conflict'
+  | 'unknown-procedure'
+  | 'unknown-policy'
+  | 'missing-plugin'
+
+/**
+ * A problem found by validateApp()
+ */
+export interface AppValidationIssue {
+  kind: AppValidationIssueKind
+  message: string
+}
+
+/**
+ * What validateApp() checks
+ */
+export interface AppValidationInput {
+  routes: object
+  access: AccessConfig
+  implementations: ProcedureImplementation[]
+  /** transactionPlugin is installed, so `.transactional()` handlers run in a transaction */
+  transactions?: boolean
+}
+
+/**
+ * Error aggregating every issue found by validateApp()
+ */
+export class AppValidationError extends Error {
+  constructor(readonly issues: AppValidationIssue[]) {
+    super(
+      `App validation found ${issues.length} issue${issues.length === 1 ? '' : 's'}:\n` +
+        issues.map((issue) => `  - ${issue.message}`).join('\n'),
+    )
+    this.name = 'AppValidationError'
+  }
+}
+
+/**
+ * Find unimplemented and duplicate procedures, handlers of procedures
+ * missing from the contract, REST routes declared by several procedures,
+ * references to undeclared access policies, and transactional handlers
+ * without transactionPlugin
+ *
+ * @param input - Contract, access configuration and registered handlers
+ * @returns Issues found, grouped by kind
+ */
+export function validateApp(input: AppValidationInput): AppValidationIssue[] {
+  const { routes, access, implementations, transactions = false } = input
+  const procedures = collectProcedures(routes)
+  const paths = new Map(
+    procedures.map((procedure) => [procedure.contract, procedure.path]),
+  )
+  const issues: AppValidationIssue[] = []
+
+  // Handlers by procedure path
+  const handlers = new Map<string, string[]>()
+  for (const implementation of implementations) {
+    const path = paths.get(implementation.contract)
+    if (path === undefined) {
+      issues.push({
+        kind: 'unknown-procedure',
+        message: `${implementation.handler} handles a procedure that is not in routes`,
+      })
+      continue
+    }
+    handlers.set(path, [...(handlers.get(path) ?? []), implementation.handler])
+  }
+
+  for (const { path } of procedures) {
+    const implementedBy = handlers.get(path) ?? []
+    if (implementedBy.length === 0) {
+      issues.push({
+        kind: 'unimplemented',
+        message: `Procedure ${path} is not implemented`,
+      })
+    } else if (implementedBy.length > 1) {
+      issues.push({
+        kind: 'duplicate',
+        message: `Procedure ${path} is implemented by ${implementedBy.join(' and ')}`,
+      })
+    }
+  }
+
+  // Procedures by REST route; path parameter names do not matter for matching
+  const declaredBy = new Map<string, { route: string; paths: string[] }>()
+  for (const { path, route } of procedures) {
+    const method = (route.method ?? 'POST').toUpperCase()
+    const httpPath =
+      route.path ?? `/${path.split('.').map(encodeURIComponent).join('/')}`
+    const key = `${method} ${httpPath.replace(/\{[^}]*\}/g, '{}').replace(/\/+$/, '')}`
+    const entry = declaredBy.get(key) ?? {
+      route: `${method} ${httpPath}`,
+      paths: [],
+    }
+    entry.paths.push(path)
+    declaredBy.set(key, entry)
+  }
+
+  for (const { route, paths: conflicting } of declaredBy.values()) {
+    if (conflicting.length > 1) {
+      issues.push({
+        kind: 'route-conflict',
+        message: `${route} is declared by ${conflicting.join(' and ')}`,
+      })
+    }
+  }
+
+  issues.push(...validatePolicies(access, implementations))
+
+  // Without the plugin the option is ignored, and the handler gets no context.tx
+  if (!transactions) {
+    for (const { handler, options } of implementations) {
+      if (options?.transactional) {
+        issues.push({
+          kind: 'missing-plugin',
+          message: `${handler} is transactional, but transactionPlugin is not installed`,
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Throw or log the issues found by validateApp()
+ *
+ * @param issues - Issues to report; nothing happens without any
+ * @param mode - Whether issues stop the app from starting
+ * @param logger - Receives the issues in warn mode
+ * @throws {AppValidationError} In strict mode
+ */
+export function reportValidationIssues(
+  issues: AppValidationIssue[],
+  mode: ValidationMode,
+  logger: Pick<Logger, 'warn'>,
+): void {
+  if (issues.length === 0) {
+    return
+  }
+
+  const error = new AppValidationError(issues)
+  if (mode === 'strict') {
+    throw error
+  }
+  logger.warn(error.message)
+}
+
+function validatePolicies(
+  access: AccessConfig,
+  implementations: ProcedureImplementation[],
+): AppValidationIssue[] {
+  const issues: AppValidationIssue[] = []
+  const unknown = (name: string, referencedBy: string) =>
+    issues.push({
+      kind: 'unknown-policy',
+      message: `${referencedBy} uses unknown access policy "${name}"`,
+    })
+
+  if (!(access.default in access.policies)) {
+    unknown(access.default, 'access.default')
+  }
+
+  for (const [name, policy] of Object.entries(access.policies)) {
+    const parents = policy.uses === undefined ? [] : [policy.uses].flat()
+    for (const parent of parents) {
+      if (!(parent in access.policies)) {
+        unknown(parent, `Access policy "${name}"`)
+      }
+    }
+  }
+
+  for (const implementation of implementations) {
+    const policy = implementation.access?.policy
+    if (policy !== undefined && !(policy in access.policies)) {
+      unknown(policy, implementation.handler)
+    }
+  }
+
+  return issues
+}
+
+function collectProcedures(
+  router: object,
+  path: string[] = [],
+  procedures: ContractProcedure[] = [],
+): ContractProcedure[] {
+  if ('~orpc' in router) {
+    procedures.push({
+      contract: router,
+      path: path.join('.'),
+      route: (router as { '~orpc': { route?: Route } })['~orpc'].route ?? {},
+    })
+    return procedures
+  }
+
+  for (const [key, value] of Object.entries(router)) {
+    if (typeof value === 'object' && value !== null) {
+      collectProcedures(value, [...path, key], procedures)
+    }
+  }
+  return procedures
+}
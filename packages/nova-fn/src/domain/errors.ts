@@ -120,6 +120,18 @@ export class MissingHandlerError extends ORPCHonoError {
   }
 }
 
+/**
+ * Error thrown when an endpoint declares options that cannot be combined
+ */
+export class InvalidEndpointOptionsError extends ORPCHonoError {
+  readonly status = 500
+  readonly code = 'INVALID_ENDPOINT_OPTIONS'
+
+  constructor(endpoint: string, details: string) {
+    super(`Invalid options on ${endpoint}: ${details}`)
+  }
+}
+
 /**
  * Error thrown during procedure execution
  */
@@ -145,6 +157,46 @@ export class ProcedureExecutionError extends ORPCHonoError {
   }
 }
 
+/**
+ * Error thrown when a request cannot be authenticated
+ */
+export class AuthenticationError extends ORPCHonoError {
+  readonly status = 401
+  readonly code = ErrorCode.UNAUTHORIZED
+
+  constructor(message = 'Unauthorized') {
+    super(message)
+  }
+}
+
+/**
+ * Error thrown when an authenticated request lacks required permissions
+ */
+export class PermissionDeniedError extends ORPCHonoError {
+  readonly status = 403
+  readonly code = ErrorCode.FORBIDDEN
+
+  constructor(readonly missingPermissions: string[] = []) {
+    super(
+      missingPermissions.length > 0
+        ? `Missing permission: ${missingPermissions.join(', ')}`
+        : 'Forbidden'
+    )
+  }
+}
+
+/**
+ * Error thrown when a procedure exceeds its timeout
+ */
+export class ProcedureTimeoutError extends ORPCHonoError {
+  readonly status = 504
+  readonly code = 'GATEWAY_TIMEOUT'
+
+  constructor(readonly timeout: number) {
+    super(`Procedure timed out after ${timeout}ms`)
+  }
+}
+
 /**
  * Type guard to check if an error is an ORPCHonoError
  */
@@ -209,60 +261,60 @@ export function createError(code: ErrorCode, message?: string, data?: unknown):
   })
 }
 
+/**
+ * Options for normalizeError
+ */
+export interface NormalizeErrorOptions {
+  /**
+   * Infer status and code from message text such as "not found" or "already exists".
+   * Prefer throwing ORPCHonoError subclasses or catalogue errors (see defineErrors).
+   * @default false
+   */
+  matchMessages?: boolean
+}
+
+/**
+ * Message fragments recognized when `matchMessages` is enabled
+ */
+const MESSAGE_PATTERNS: Array<{ fragments: string[]; code: ErrorCode }> = [
+  { fragments: ['not found', 'does not exist'], code: ErrorCode.NOT_FOUND },
+  { fragments: ['unauthorized', 'not authenticated'], code: ErrorCode.UNAUTHORIZED },
+  { fragments: ['forbidden', 'not allowed'], code: ErrorCode.FORBIDDEN },
+  { fragments: ['validation', 'invalid'], code: ErrorCode.VALIDATION_ERROR },
+  { fragments: ['conflict', 'already exists'], code: ErrorCode.CONFLICT },
+]
+
 /**
  * Normalize any error to a consistent format.
  *
  * @param error - Any error value
  * @param context - Optional context description
+ * @param options - Normalization options
  * @returns Normalized ORPCHonoError
  */
-export function normalizeError(error: unknown, context?: string): ORPCHonoError {
+export function normalizeError(
+  error: unknown,
+  context?: string,
+  options: NormalizeErrorOptions = {}
+): ORPCHonoError {
   if (isORPCHonoError(error)) {
     return error
   }
 
   if (error instanceof Error) {
-    // Pattern matching for common error types
-    const message = error.message.toLowerCase()
-
-    if (message.includes('not found') || message.includes('does not exist')) {
-      return new ProcedureExecutionError(error.message, {
-        status: 404,
-        code: ErrorCode.NOT_FOUND,
-        cause: error,
-      })
-    }
-
-    if (message.includes('unauthorized') || message.includes('not authenticated')) {
-      return new ProcedureExecutionError(error.message, {
-        status: 401,
-        code: ErrorCode.UNAUTHORIZED,
-        cause: error,
-      })
-    }
-
-    if (message.includes('forbidden') || message.includes('not allowed')) {
-      return new ProcedureExecutionError(error.message, {
-        status: 403,
-        code: ErrorCode.FORBIDDEN,
-        cause: error,
-      })
-    }
-
-    if (message.includes('validation') || message.includes('invalid')) {
-      return new ProcedureExecutionError(error.message, {
-        status: 422,
-        code: ErrorCode.VALIDATION_ERROR,
-        cause: error,
-      })
-    }
-
-    if (message.includes('conflict') || message.includes('already exists')) {
-      return new ProcedureExecutionError(error.message, {
-        status: 409,
-        code: ErrorCode.CONFLICT,
-        cause: error,
-      })
+    if (options.matchMessages) {
+      const message = error.message.toLowerCase()
+      const match = MESSAGE_PATTERNS.find(({ fragments }) =>
+        fragments.some((fragment) => message.includes(fragment))
+      )
+
+      if (match) {
+        return new ProcedureExecutionError(error.message, {
+          status: ErrorCodeStatus[match.code],
+          code: match.code,
+          cause: error,
+        })
+      }
     }
 
     return new ProcedureExecutionError(error.message, {
@@ -284,6 +336,7 @@ export function normalizeError(error: unknown, context?: string): ORPCHonoError
  *
  * @param fn - Async function to wrap
  * @param context - Optional context for error messages
+ * @param options - Normalization options
  * @returns Wrapped function that normalizes errors
  *
  * @example
@@ -296,13 +349,14 @@ export function normalizeError(error: unknown, context?: string): ORPCHonoError
  */
 export function withErrorHandling<T extends (...args: any[]) => Promise<any>>(
   fn: T,
-  context?: string
+  context?: string,
+  options?: NormalizeErrorOptions
 ): T {
   return (async (...args: Parameters<T>) => {
     try {
       return await fn(...args)
     } catch (error) {
-      throw normalizeError(error, context)
+      throw normalizeError(error, context, options)
     }
   }) as T
 }
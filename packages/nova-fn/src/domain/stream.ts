@@ -0,0 +1,74 @@
+/**
+ * Streaming procedure outputs
+ *
+ * A handler that returns an async iterator (e.g. an `async *` method) streams
+ * its yielded values: as Server-Sent Events on the OpenAPI transport and as
+ * an oRPC event stream on the RPC transport. Declare the output in the
+ * contract with `eventIterator(schema)` so every event is validated and
+ * documented.
+ */
+
+/**
+ * Streaming options of an app
+ */
+export interface StreamingOptions {
+  /**
+   * Interval (ms) of the heartbeat comment sent while a stream is idle,
+   * which keeps proxies from closing the connection; `false` disables it
+   * @default 5000
+   */
+  heartbeatInterval?: number | false
+
+  /**
+   * Content of the heartbeat comment, without newlines
+   * @default ''
+   */
+  heartbeatComment?: string
+}
+
+/**
+ * Hooks of a mapped event stream
+ */
+export interface EventStreamHooks {
+  /** Maps an error thrown while iterating; the result is rethrown */
+  error?: (error: unknown) => unknown
+  /** Runs once the stream ends, fails or is closed by the client */
+  finally?: (error?: unknown) => void
+}
+
+/**
+ * Check whether a handler result is a stream of events
+ */
+export function isEventStream(value: unknown): value is AsyncIteratorObject<unknown, unknown, void> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { next?: unknown }).next === 'function' &&
+    Symbol.asyncIterator in value
+  )
+}
+
+/**
+ * Wrap an event stream to observe how it ends. Closing the wrapper, as oRPC
+ * does when the client disconnects, closes the source too, so `finally`
+ * blocks of generator handlers run.
+ *
+ * @param stream - Source stream
+ * @param hooks - Error mapping and completion callback
+ * @returns Stream yielding the same events
+ */
+export async function* mapEventStream<T, TReturn>(
+  stream: AsyncIterator<T, TReturn, void> & AsyncIterable<T, TReturn, void>,
+  hooks: EventStreamHooks
+): AsyncGenerator<T, TReturn, void> {
+  let failure: unknown
+
+  try {
+    return yield* stream
+  } catch (error) {
+    failure = hooks.error ? hooks.error(error) : error
+    throw failure
+  } finally {
+    hooks.finally?.(failure)
+  }
+}
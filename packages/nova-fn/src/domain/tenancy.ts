@@ -0,0 +1,122 @@
+import type { Context as HonoContext } from 'hono'
+import type { Tenant } from './context.js'
+import { ORPCHonoError } from './errors.js'
+import type { ExtractTokenOptions } from '../utils/auth.js'
+import type { VerifyJwtOptions } from '../utils/jwt.js'
+
+/**
+ * Multi-tenancy primitives
+ *
+ * The tenant of a request is identified by the first resolver that finds a
+ * tenant ID, then looked up in a tenant store. Unknown IDs leave the request
+ * without a tenant; tenantPolicy() rejects those requests.
+ */
+
+/**
+ * Where the tenant ID of a request comes from
+ * - subdomain: first label of the host, e.g. `acme` in `acme.example.com`
+ * - header: a request header, `X-Tenant-Id` by default
+ * - path: a segment of the URL path, e.g. segment 1 of `/api/acme/tasks`
+ * - jwt: a claim of the bearer token, verified with the given options
+ * - function: custom lookup from the Hono context
+ */
+export type TenantResolver =
+  | {
+      from: 'subdomain'
+      /**
+       * Domain the tenants are subdomains of; other hosts have no tenant
+       * @default any host with at least three labels
+       */
+      baseDomain?: string
+    }
+  | {
+      from: 'header'
+      /** @default 'x-tenant-id' */
+      header?: string
+    }
+  | {
+      from: 'path'
+      /** Zero-based index of the URL path segment holding the tenant ID */
+      segment: number
+    }
+  | {
+      from: 'jwt'
+      /** Verification of the token, usually the options of your authPolicy */
+      jwt: VerifyJwtOptions
+      /** @default 'tenant_id' */
+      claim?: string
+      /** Where to read the token from; bearer header first, then the cookie */
+      token?: ExtractTokenOptions
+    }
+  | ((c: HonoContext) => string | undefined | Promise<string | undefined>)
+
+/**
+ * Storage backend for tenants
+ */
+export interface TenantStore {
+  /**
+   * Look up a tenant; resolves undefined for unknown IDs
+   */
+  get(id: string): Promise<Tenant | undefined>
+}
+
+/**
+ * Outcome of resolving the tenant of a request
+ */
+export interface TenantResolution {
+  /** Tenant ID sent by the client, if any */
+  id?: string
+  /** The tenant, when the ID is known to the store */
+  tenant?: Tenant
+  /**
+   * The tenant was checked against the store or read from a verified token,
+   * rather than accepted as sent by the client
+   */
+  verified?: boolean
+}
+
+const resolutions = new WeakMap<HonoContext, TenantResolution>()
+
+/**
+ * Record the tenant resolved for a request
+ *
+ * @param c - Hono context
+ * @param resolution - Requested ID and tenant
+ */
+export function setRequestTenant(c: HonoContext, resolution: TenantResolution): void {
+  resolutions.set(c, resolution)
+}
+
+/**
+ * Get the tenant resolved for a request
+ *
+ * @param c - Hono context
+ * @returns The resolution, or undefined when tenancy is not configured
+ */
+export function getRequestTenant(c: HonoContext): TenantResolution | undefined {
+  return resolutions.get(c)
+}
+
+/**
+ * Error thrown when a request requires a tenant but names none
+ */
+export class TenantRequiredError extends ORPCHonoError {
+  readonly status = 400
+  readonly code = 'TENANT_REQUIRED'
+
+  constructor() {
+    super('A tenant is required')
+  }
+}
+
+/**
+ * Error thrown when a request names a tenant the store does not know
+ */
+export class UnknownTenantError extends ORPCHonoError {
+  readonly status = 404
+  readonly code = 'TENANT_NOT_FOUND'
+
+  constructor(readonly tenantId: string) {
+    super(`Unknown tenant "${tenantId}"`)
+  }
+}
@@ -1,6 +1,7 @@
 import type { Context } from 'hono'
 import type { AnyContractProcedure, AnyContractRouter } from '@orpc/contract'
 import type { AccessConfig } from './access.js'
+import type { ProcedureInterceptor } from './endpoint.js'
 
 /**
  * Core domain types for oRPC-Hono integration
@@ -86,6 +87,12 @@ export interface ORPCHonoOptions<TContract extends AnyContractRouter = AnyContra
    * Global access policy registry.
    */
   access: AccessConfig
+
+  /**
+   * Interceptors wrapping every handler invocation
+   * @default []
+   */
+  procedureInterceptors?: ProcedureInterceptor<any>[]
 }
 
 /**
@@ -141,6 +148,8 @@ export interface RouteRegistration {
 export interface RouteRegisterConfig {
   routes?: AnyContractRouter
   access: AccessConfig
+  /** Interceptors wrapping every handler invocation */
+  procedureInterceptors?: ProcedureInterceptor<any>[]
 }
 
 /**
@@ -0,0 +1,192 @@
+import { ORPCHonoError } from './errors.js'
+
+/**
+ * File upload primitives
+ *
+ * Multipart requests are decoded by the transports, so `File` parts arrive
+ * on the matching zod `File`/`Blob` fields of the contract input. Limits are
+ * checked against the decoded files; storage adapters then stream accepted
+ * files to their destination.
+ */
+
+/**
+ * Upload limits of an endpoint
+ */
+export interface UploadLimits {
+  /** Maximum size of a single file in bytes */
+  maxFileSize?: number
+  /** Maximum combined size of all files of a request in bytes */
+  maxTotalSize?: number
+  /**
+   * Accepted MIME types; wildcards such as `image/*` are allowed.
+   * Omit to accept any type.
+   */
+  accept?: string[]
+}
+
+/**
+ * A file found in a procedure input
+ */
+export interface UploadedFile {
+  /** Input path of the field, e.g. `attachments.0` */
+  field: string
+  /** The decoded file */
+  file: Blob
+}
+
+/**
+ * Find the files of a procedure input, including those nested in objects
+ * and arrays
+ *
+ * @param input - Validated procedure input
+ * @returns Files with their input paths
+ */
+export function collectFiles(input: unknown): UploadedFile[] {
+  const files: UploadedFile[] = []
+
+  const visit = (value: unknown, path: string[]): void => {
+    if (value instanceof Blob) {
+      files.push({ field: path.join('.'), file: value })
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, String(index)]))
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...path, key])
+      }
+    }
+  }
+
+  visit(input, [])
+  return files
+}
+
+/**
+ * Check a MIME type against a list of accepted types
+ *
+ * @param type - MIME type of a file, parameters are ignored
+ * @param accept - Accepted types, e.g. ['image/*', 'application/pdf']
+ */
+export function matchesMimeType(type: string, accept: string[]): boolean {
+  const [essence = ''] = type.toLowerCase().split(';')
+  const [category] = essence.trim().split('/')
+
+  return accept.some((pattern) => {
+    const expected = pattern.toLowerCase().trim()
+    return expected === '*/*' || expected === essence.trim() || expected === `${category}/*`
+  })
+}
+
+/**
+ * Enforce upload limits on the files of a procedure input
+ *
+ * @param files - Files found in the input
+ * @param limits - Limits to enforce
+ * @throws {FileTooLargeError} When a file or all files together exceed their limit
+ * @throws {UnsupportedFileTypeError} When a file's type is not accepted
+ */
+export function enforceUploadLimits(files: UploadedFile[], limits: UploadLimits): void {
+  let total = 0
+
+  for (const { field, file } of files) {
+    if (limits.accept && !matchesMimeType(file.type, limits.accept)) {
+      throw new UnsupportedFileTypeError(field, file.type, limits.accept)
+    }
+
+    if (limits.maxFileSize !== undefined && file.size > limits.maxFileSize) {
+      throw new FileTooLargeError(`File "${field}" exceeds ${limits.maxFileSize} bytes`, limits.maxFileSize)
+    }
+
+    total += file.size
+  }
+
+  if (limits.maxTotalSize !== undefined && total > limits.maxTotalSize) {
+    throw new FileTooLargeError(`Uploaded files exceed ${limits.maxTotalSize} bytes in total`, limits.maxTotalSize)
+  }
+}
+
+/**
+ * Metadata of a stored file
+ */
+export interface StoredFile {
+  /** Storage key */
+  key: string
+  /** Size in bytes */
+  size: number
+  /** MIME type, when known */
+  type?: string
+}
+
+/**
+ * A stored file opened for reading
+ */
+export interface StoredObject extends StoredFile {
+  /** File contents */
+  body: ReadableStream<Uint8Array>
+}
+
+/**
+ * Destination of uploaded files
+ *
+ * Adapters read files through `Blob.stream()`, so large files never have to
+ * be copied in memory by the adapter. An S3 adapter would typically pass the
+ * stream to a multipart upload.
+ */
+export interface StorageAdapter {
+  /**
+   * Store a file under the key, replacing any previous file
+   */
+  put(key: string, file: Blob): Promise<StoredFile>
+
+  /**
+   * Open a stored file, or resolve undefined when the key is unknown
+   */
+  get(key: string): Promise<StoredObject | undefined>
+
+  /**
+   * Remove a stored file; unknown keys are ignored
+   */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Error thrown when uploaded files exceed a size limit
+ */
+export class FileTooLargeError extends ORPCHonoError {
+  readonly status = 413
+  readonly code = 'PAYLOAD_TOO_LARGE'
+
+  constructor(
+    message: string,
+    readonly limit: number
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Error thrown when an uploaded file's MIME type is not accepted
+ */
+export class UnsupportedFileTypeError extends ORPCHonoError {
+  readonly status = 415
+  readonly code = 'UNSUPPORTED_MEDIA_TYPE'
+
+  constructor(
+    readonly field: string,
+    readonly type: string,
+    readonly accept: string[]
+  ) {
+    super(`File "${field}" has unsupported type "${type || 'unknown'}", expected ${accept.join(', ')}`)
+  }
+}
+
+/**
+ * Error thrown when a storage key is empty or escapes the storage root
+ */
+export class InvalidStorageKeyError extends ORPCHonoError {
+  readonly status = 400
+  readonly code = 'INVALID_STORAGE_KEY'
+
+  constructor(readonly key: string) {
+    super(`Invalid storage key: "${key}"`)
+  }
+}
@@ -4,87 +4,193 @@ import type {
   AccessMetadata,
   AccessPolicy,
 } from '../domain/access.js'
+import type { NormalizeErrorOptions } from '../domain/errors.js'
+import type { EndpointOptions } from '../domain/endpoint.js'
+import type { ProcedureImplementation } from '../domain/app-validation.js'
+import type { RateLimitRule } from '../domain/rate-limit.js'
+import type { AuthorizationRule } from '../domain/authorization.js'
+import type { UploadLimits } from '../domain/upload.js'
+import type { CachePolicy } from '../domain/cache.js'
+import type { IdempotencyPolicy } from '../domain/idempotency.js'
+import type { TransactionPolicy } from '../domain/transaction.js'
 
 export interface HandlerDef<TInput = any, TOutput = any, TContext = any> {
   readonly handler: (input: TInput, context: TContext) => Promise<TOutput>
   readonly access: AccessMetadata
   readonly middlewares: readonly unknown[]
-  readonly catchErrors: boolean
+  /** Normalize thrown errors; pass options to opt into message matching */
+  readonly catchErrors: boolean | NormalizeErrorOptions
+  /** Endpoint options consumed by plugins (rate limits, ...) */
+  readonly options?: EndpointOptions
 }
 
 export type HandlerMap = Record<string, HandlerDef | Record<string, HandlerDef>>
 type MaybePromise<T> = T | Promise<T>
 
-class HandlerBuilder<TInput, TOutput, TContext> {
-  private readonly _handler: (
-    input: TInput,
-    context: TContext,
-  ) => Promise<TOutput>
-  private readonly _access: AccessMetadata
-  private readonly _middlewares: readonly unknown[]
-  private readonly _catchErrors: boolean
+/**
+ * Immutable builder returned by the handle helpers.
+ * It is a HandlerDef itself, so it can be placed in a handler map as-is.
+ *
+ * @example
+ * ```typescript
+ * login: handle
+ *   .public(async (input) => authService.login(input))
+ *   .rateLimit({ limit: 5, windowMs: 60_000 }),
+ *
+ * update: handle
+ *   .permission('project:update', async (input, ctx) => projectService.update(input))
+ *   .authorize({
+ *     load: (input) => projectService.findById(input.id),
+ *     when: async ({ context, load }) => (await load()).ownerId === context.auth.userId,
+ *   }),
+ * ```
+ */
+export class HandlerBuilder<TInput, TOutput, TContext>
+  implements HandlerDef<TInput, TOutput, TContext>
+{
+  readonly handler: (input: TInput, context: TContext) => Promise<TOutput>
+  readonly access: AccessMetadata
+  readonly middlewares: readonly unknown[]
+  readonly catchErrors: boolean | NormalizeErrorOptions
+  readonly options: EndpointOptions
 
   constructor(
     access: AccessMetadata,
     handler: (input: TInput, context: TContext) => Promise<TOutput>,
     middlewares: readonly unknown[] = [],
-    catchErrors = false,
+    catchErrors: boolean | NormalizeErrorOptions = false,
+    options: EndpointOptions = {},
   ) {
-    this._access = access
-    this._handler = handler
-    this._middlewares = middlewares
-    this._catchErrors = catchErrors
+    this.access = access
+    this.handler = handler
+    this.middlewares = middlewares
+    this.catchErrors = catchErrors
+    this.options = options
   }
 
   use(middleware: unknown): HandlerBuilder<TInput, TOutput, TContext> {
-    return new HandlerBuilder(
-      this._access,
-      this._handler,
-      [...this._middlewares, middleware],
-      this._catchErrors,
-    )
+    return this.with({ middlewares: [...this.middlewares, middleware] })
   }
 
-  catch(): HandlerBuilder<TInput, TOutput, TContext> {
-    return new HandlerBuilder(
-      this._access,
-      this._handler,
-      this._middlewares,
-      true,
-    )
+  catch(
+    options?: NormalizeErrorOptions,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ catchErrors: options ?? true })
+  }
+
+  /**
+   * Declare a rate limit, enforced by rateLimitPlugin().
+   * Pass `false` to exempt the handler from the plugin's default limit.
+   */
+  rateLimit(
+    rule: RateLimitRule | false,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, rateLimit: rule } })
+  }
+
+  /**
+   * Declare a resource-level authorization rule, evaluated with the
+   * validated input before the handler runs. Denials return 403 and the
+   * decision is recorded on `context.authorization`.
+   */
+  authorize<TResource>(
+    rule: AuthorizationRule<TInput, TContext, TResource>,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, authorize: rule } })
+  }
+
+  /**
+   * Declare upload limits, enforced by uploadPlugin().
+   * Pass `false` to exempt the handler from the plugin's defaults.
+   */
+  upload(
+    limits: UploadLimits | false,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, upload: limits } })
+  }
+
+  /**
+   * Declare a response cache policy for a GET procedure, enforced by
+   * cachePlugin(). Pass `false` to exempt the handler from the plugin's default.
+   */
+  cache(
+    policy: CachePolicy<TInput> | false,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, cache: policy } })
+  }
+
+  /**
+   * Make the handler idempotent, enforced by idempotencyPlugin(). Retries
+   * with the same `Idempotency-Key` header replay the first call's output.
+   */
+  idempotent(
+    policy: IdempotencyPolicy = {},
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, idempotent: policy } })
+  }
+
+  /**
+   * Declare a timeout in milliseconds, overriding the app's `timeout`.
+   * Pass `false` to exempt the handler from the app default.
+   */
+  timeout(
+    timeout: number | false,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, timeout } })
+  }
+
+  /**
+   * Run the handler in an interactive transaction, enforced by
+   * transactionPlugin(). The transaction client is passed as `context.tx`.
+   */
+  transactional(
+    policy: TransactionPolicy = {},
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return this.with({ options: { ...this.options, transactional: policy } })
   }
 
   build(): HandlerDef<TInput, TOutput, TContext> {
     return {
-      handler: this._handler,
-      access: this._access,
-      middlewares: this._middlewares,
-      catchErrors: this._catchErrors,
+      handler: this.handler,
+      access: this.access,
+      middlewares: this.middlewares,
+      catchErrors: this.catchErrors,
+      options: this.options,
     }
   }
+
+  private with(
+    changes: Partial<HandlerDef<TInput, TOutput, TContext>>,
+  ): HandlerBuilder<TInput, TOutput, TContext> {
+    return new HandlerBuilder(
+      changes.access ?? this.access,
+      changes.handler ?? this.handler,
+      changes.middlewares ?? this.middlewares,
+      changes.catchErrors ?? this.catchErrors,
+      changes.options ?? this.options,
+    )
+  }
 }
 
 function createHandler<TInput, TOutput, TContext>(
   access: AccessMetadata,
   handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-): HandlerDef<TInput, TOutput, TContext> {
+): HandlerBuilder<TInput, TOutput, TContext> {
   return new HandlerBuilder<TInput, TOutput, TContext>(
     access,
     async (input, context) => handler(input, context),
-  )
-    .catch()
-    .build()
+  ).catch()
 }
 
 function permission<TInput, TOutput, TContext>(
   permission: string | string[],
   handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-): HandlerDef<TInput, TOutput, TContext>
+): HandlerBuilder<TInput, TOutput, TContext>
 function permission<TInput, TOutput, TContext>(
   permission: string | string[],
 ): (
   handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-) => HandlerDef<TInput, TOutput, TContext>
+) => HandlerBuilder<TInput, TOutput, TContext>
 function permission<TInput, TOutput, TContext>(
   permission: string | string[],
   handler?: (input: TInput, context: TContext) => MaybePromise<TOutput>,
@@ -100,7 +206,7 @@ function permission<TInput, TOutput, TContext>(
 
   return (
     nextHandler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-  ): HandlerDef<TInput, TOutput, TContext> => createHandler(access, nextHandler)
+  ): HandlerBuilder<TInput, TOutput, TContext> => createHandler(access, nextHandler)
 }
 
 type HandlerFunction<TInput, TOutput, TContext> = (
@@ -111,19 +217,19 @@ type HandlerFunction<TInput, TOutput, TContext> = (
 export interface PlainHandle<PolicyName extends string = string> {
   <TInput, TOutput, TContext>(
     handler: HandlerFunction<TInput, TOutput, TContext>,
-  ): HandlerDef<TInput, TOutput, TContext>
+  ): HandlerBuilder<TInput, TOutput, TContext>
 }
 
 export interface PermissionHandle<PolicyName extends string = string> {
   <TInput, TOutput, TContext>(
     permission: string | string[],
     handler: HandlerFunction<TInput, TOutput, TContext>,
-  ): HandlerDef<TInput, TOutput, TContext>
+  ): HandlerBuilder<TInput, TOutput, TContext>
   <TInput, TOutput, TContext>(
     permission: string | string[],
   ): (
     handler: HandlerFunction<TInput, TOutput, TContext>,
-  ) => HandlerDef<TInput, TOutput, TContext>
+  ) => HandlerBuilder<TInput, TOutput, TContext>
 }
 
 type PolicyKind<
@@ -147,13 +253,13 @@ export type DefinedHandle<TAccess extends AccessConfig> = {
 export const handle = {
   public<TInput, TOutput, TContext>(
     handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-  ): HandlerDef<TInput, TOutput, TContext> {
+  ): HandlerBuilder<TInput, TOutput, TContext> {
     return createHandler({ policy: 'public' }, handler)
   },
 
   auth<TInput, TOutput, TContext>(
     handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-  ): HandlerDef<TInput, TOutput, TContext> {
+  ): HandlerBuilder<TInput, TOutput, TContext> {
     return createHandler({ policy: 'auth' }, handler)
   },
 
@@ -162,7 +268,7 @@ export const handle = {
   custom(policy: string) {
     return <TInput, TOutput, TContext>(
       handler: (input: TInput, context: TContext) => MaybePromise<TOutput>,
-    ): HandlerDef<TInput, TOutput, TContext> =>
+    ): HandlerBuilder<TInput, TOutput, TContext> =>
       createHandler({ policy }, handler)
   },
 }
@@ -191,12 +297,12 @@ function createPermissionHandle(policyName: string): PermissionHandle {
   function helper<TInput, TOutput, TContext>(
     permission: string | string[],
     handler: HandlerFunction<TInput, TOutput, TContext>,
-  ): HandlerDef<TInput, TOutput, TContext>
+  ): HandlerBuilder<TInput, TOutput, TContext>
   function helper<TInput, TOutput, TContext>(
     permission: string | string[],
   ): (
     handler: HandlerFunction<TInput, TOutput, TContext>,
-  ) => HandlerDef<TInput, TOutput, TContext>
+  ) => HandlerBuilder<TInput, TOutput, TContext>
   function helper<TInput, TOutput, TContext>(
     permission: string | string[],
     handler?: HandlerFunction<TInput, TOutput, TContext>,
@@ -236,3 +342,113 @@ export function isRouteProcedure(
 ): value is AnyContractProcedure {
   return typeof value === 'object' && value !== null && '~orpc' in value
 }
+
+/**
+ * Collect the handler maps exported by an imported module, as hot reload
+ * does. Other exports are ignored.
+ */
+export function collectHandlers(module: Record<string, unknown>): HandlerMap {
+  const handlers: Record<string, unknown> = {}
+  for (const exported of Object.values(module)) {
+    if (isHandlerMap(exported)) {
+      mergeHandlerMaps(handlers, exported)
+    }
+  }
+  return handlers as HandlerMap
+}
+
+function isHandlerDef(value: unknown): value is HandlerDef {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'handler' in value &&
+    'access' in value &&
+    typeof (value as HandlerDef).handler === 'function'
+  )
+}
+
+function isHandlerMap(value: unknown): value is HandlerMap {
+  if (typeof value !== 'object' || value === null || isHandlerDef(value)) {
+    return false
+  }
+  const entries = Object.values(value)
+  return (
+    entries.length > 0 &&
+    entries.every((entry) => isHandlerDef(entry) || isHandlerMap(entry))
+  )
+}
+
+/**
+ * Deep merge, copying nested maps so exported maps are left unchanged
+ */
+function mergeHandlerMaps(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key]
+    if (isHandlerDef(value)) {
+      target[key] = value
+    } else if (typeof existing === 'object' && existing !== null && !isHandlerDef(existing)) {
+      mergeHandlerMaps(existing as Record<string, unknown>, value as Record<string, unknown>)
+    } else {
+      target[key] = mergeHandlerMaps({}, value as Record<string, unknown>)
+    }
+  }
+  return target
+}
+
+/**
+ * List the procedures implemented by a handler map, for startup
+ * validation. Handlers of hot reloaded modules replace the ones of
+ * `handlers` for the same procedures, and are named with their file.
+ *
+ * @param routes - Root route router
+ * @param handlers - Handler map passed to createApp
+ * @param modules - Handler maps of hot reloaded modules
+ * @returns One entry per handler; unknown procedures have no contract
+ */
+export function listHandlerImplementations(
+  routes: AnyContractRouter,
+  handlers: HandlerMap,
+  modules: Array<{ file: string; handlers: HandlerMap }> = [],
+): ProcedureImplementation[] {
+  const fromModules = modules.flatMap((module) =>
+    walkHandlerMap(module.handlers, routes).map((entry) => ({
+      ...entry,
+      handler: `${entry.handler} (${module.file})`,
+    })),
+  )
+  const replaced = new Set(fromModules.map((entry) => entry.contract))
+
+  return [
+    ...walkHandlerMap(handlers, routes).filter(
+      (entry) => entry.contract === undefined || !replaced.has(entry.contract),
+    ),
+    ...fromModules,
+  ]
+}
+
+function walkHandlerMap(
+  map: Record<string, unknown>,
+  routeNode: unknown,
+  path: string[] = [],
+): ProcedureImplementation[] {
+  return Object.entries(map).flatMap(([key, value]) => {
+    const route = (routeNode as Record<string, unknown> | undefined)?.[key]
+    if (isHandlerDef(value)) {
+      return [
+        {
+          contract: isRouteProcedure(route) ? route : undefined,
+          handler: [...path, key].join('.'),
+          access: value.access,
+          options: value.options,
+        },
+      ]
+    }
+    return walkHandlerMap(value as Record<string, unknown>, route, [
+      ...path,
+      key,
+    ])
+  })
+}
@@ -1,10 +1,17 @@
 import { describe, expect, it } from 'vitest'
+import { ORPCError } from '@orpc/contract'
 import {
   AccessPolicyCycleError,
   MissingAccessPolicyError,
   defineAccess,
   resolveAccessPolicy,
 } from '../domain/access.js'
+import { createError, ErrorCode } from '../domain/errors.js'
+import { defineErrors } from '../domain/error-catalogue.js'
+import type { EndpointDescriptor } from '../domain/endpoint.js'
+import { authPolicy } from '../policies/auth.js'
+import { permissionPolicy } from '../policies/permission.js'
+import { defineRoles } from '../domain/rbac.js'
 import { defineHandle, defineHandlers, handle } from './define-handlers.js'
 import { HandlerRegistrar } from './handler-registrar.js'
 
@@ -295,4 +302,261 @@ describe('defineHandle', () => {
       policy: 'staff',
     })
   })
+
+  it('passes typed errors through and keeps the status of client errors', async () => {
+    const errors = defineErrors({ PLANET_LOCKED: { status: 423 } })
+    const handlers = {
+      planet: defineHandlers(routes.planet, {
+        list: handle.public(async () => {
+          throw errors.PLANET_LOCKED.create()
+        }),
+        create: handle.public(async () =>
+          createError(ErrorCode.CONFLICT, 'Planet exists'),
+        ),
+      }),
+    }
+
+    const registrar = new HandlerRegistrar({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: createProducer(listRoute) } },
+      }),
+    })
+
+    const router = registrar.register(handlers) as any
+
+    const locked = await router.planet.list['~orpc']
+      .handler({ input: {}, context: {} })
+      .catch((error: unknown) => error)
+    expect(errors.PLANET_LOCKED.is(locked)).toBe(true)
+    expect(locked.status).toBe(423)
+
+    const conflict = await router.planet.create['~orpc']
+      .handler({ input: {}, context: {} })
+      .catch((error: unknown) => error)
+    expect(conflict).toBeInstanceOf(ORPCError)
+    expect(conflict).toMatchObject({
+      code: 'CONFLICT',
+      status: 409,
+      message: 'Planet exists',
+    })
+  })
+
+  it('normalizes errors thrown while a streamed output is iterated', async () => {
+    const handlers = {
+      planet: defineHandlers(routes.planet, {
+        list: handle
+          .public(async function* () {
+            yield { name: 'Earth' }
+            throw new Error('Planet not found')
+          })
+          .catch({ matchMessages: true }),
+      }),
+    }
+
+    const registrar = new HandlerRegistrar({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: createProducer(listRoute) } },
+      }),
+    })
+
+    const router = registrar.register(handlers) as any
+    const stream = await router.planet.list['~orpc'].handler({
+      input: {},
+      context: {},
+    })
+
+    await expect(stream.next()).resolves.toEqual({
+      done: false,
+      value: { name: 'Earth' },
+    })
+    const error = await stream.next().catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(ORPCError)
+    expect(error).toMatchObject({ code: 'NOT_FOUND', status: 404 })
+  })
+
+  it('passes endpoint options declared on the builder to procedure interceptors', async () => {
+    const seen: EndpointDescriptor[] = []
+    const handlers = {
+      planet: defineHandlers(routes.planet, {
+        list: handle
+          .public(async () => 'ok')
+          .rateLimit({ limit: 5, windowMs: 1000 })
+          .upload({ maxFileSize: 1024, accept: ['image/*'] })
+          .cache({ ttl: 1000, varyByUser: true })
+          .idempotent({ required: true })
+          .timeout(5000),
+      }),
+    }
+
+    const registrar = new HandlerRegistrar({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: createProducer(listRoute) } },
+      }),
+      procedureInterceptors: [
+        async ({ endpoint }, next) => {
+          seen.push(endpoint)
+          return next()
+        },
+      ],
+    })
+
+    const router = registrar.register(handlers) as any
+
+    await expect(
+      router.planet.list['~orpc'].handler({ input: {}, context: {} }),
+    ).resolves.toBe('ok')
+    expect(seen).toEqual([
+      {
+        path: ['planet', 'list'],
+        route: undefined,
+        access: { policy: 'public' },
+        handler: 'planet.list',
+        policies: ['public'],
+        public: true,
+        options: {
+          rateLimit: { limit: 5, windowMs: 1000 },
+          upload: { maxFileSize: 1024, accept: ['image/*'] },
+          cache: { ttl: 1000, varyByUser: true },
+          idempotent: { required: true },
+          timeout: 5000,
+        },
+      },
+    ])
+  })
+})
+
+describe('authorize', () => {
+  it('evaluates the rule before the handler and records the decision', async () => {
+    const handlers = {
+      planet: defineHandlers(routes.planet, {
+        create: handle
+          .permission(
+            'planet:update',
+            (_input: { id: string }, context: any) => context.authorization,
+          )
+          .authorize({
+            name: 'planet-owner',
+            load: (input) => ({ id: input.id, ownerId: 'ada' }),
+            when: async ({ context, load }: any) =>
+              (await load()).ownerId === context.auth.userId,
+          }),
+      }),
+    }
+
+    const registrar = new HandlerRegistrar({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { permission: { producer: createProducer(createRoute) } },
+      }),
+    })
+    const router = registrar.register(handlers) as any
+    const call = (context: any) =>
+      router.planet.create['~orpc'].handler({ input: { id: 'p1' }, context })
+
+    await expect(call({ auth: { userId: 'ada' } })).resolves.toEqual({
+      allowed: true,
+      policy: 'permission',
+      permissions: ['planet:update'],
+      rule: 'planet-owner',
+    })
+
+    const error = await call({ auth: { userId: 'grace' } }).catch(
+      (error: unknown) => error,
+    )
+    expect(error).toBeInstanceOf(ORPCError)
+    expect(error).toMatchObject({ code: ErrorCode.FORBIDDEN, status: 403 })
+  })
+})
+
+describe('authPolicy', () => {
+  it('composes onto its parent policy and rejects missing tokens with 401', async () => {
+    const appliedMiddlewares: any[] = []
+
+    resolveAccessPolicy(
+      { policy: 'auth' },
+      defineAccess({
+        default: 'public',
+        policies: {
+          public: {
+            kind: 'plain',
+            producer: createProducer(listRoute, appliedMiddlewares),
+          },
+          auth: authPolicy({
+            uses: 'public',
+            session: (token) => (token === 'valid' ? { userId: 'user_1' } : null),
+          }),
+        },
+      }),
+    )
+
+    expect(appliedMiddlewares).toHaveLength(1)
+    const [middleware] = appliedMiddlewares
+    const contextWith = (authorization?: string) => ({
+      honoContext: {
+        req: { header: (name: string) => (name === 'authorization' ? authorization : undefined) },
+      },
+    })
+    const next = (params: unknown) => params
+
+    await expect(
+      middleware({ context: contextWith('Bearer valid'), next }),
+    ).resolves.toEqual({ context: { auth: { userId: 'user_1' } } })
+
+    const error = await middleware({ context: contextWith(), next }).catch(
+      (error: unknown) => error,
+    )
+    expect(error).toBeInstanceOf(ORPCError)
+    expect(error).toMatchObject({ code: ErrorCode.UNAUTHORIZED, status: 401 })
+  })
+})
+
+describe('permissionPolicy', () => {
+  it('checks endpoint permissions against role grants and denies with 403', async () => {
+    const appliedMiddlewares: any[] = []
+    const access = defineAccess({
+      default: 'public',
+      policies: {
+        public: {
+          kind: 'plain',
+          producer: createProducer(createRoute, appliedMiddlewares),
+        },
+        permission: permissionPolicy({
+          uses: 'public',
+          resolve: defineRoles({
+            viewer: { permissions: ['planet:read'] },
+            editor: { inherits: 'viewer', permissions: ['planet:*'] },
+          }),
+        }),
+      },
+    })
+
+    expect(defineHandle(access).permission('planet:create', () => 'ok')).toMatchObject({
+      access: { policy: 'permission', permissions: ['planet:create'] },
+    })
+
+    resolveAccessPolicy(
+      { policy: 'permission', permissions: ['planet:create'] },
+      access,
+    )
+    const [middleware] = appliedMiddlewares
+    const next = () => 'next'
+    const as = (roles: string[]) => ({ auth: { userId: 'user_1', roles } })
+
+    await expect(middleware({ context: as(['editor']), next })).resolves.toBe(
+      'next',
+    )
+
+    const error = await middleware({ context: as(['viewer']), next }).catch(
+      (error: unknown) => error,
+    )
+    expect(error).toBeInstanceOf(ORPCError)
+    expect(error).toMatchObject({ code: ErrorCode.FORBIDDEN, status: 403 })
+  })
 })
@@ -1,4 +1,5 @@
 import type { AnyContractRouter } from '@orpc/contract'
+import { ORPCError } from '@orpc/contract'
 import { implement } from '@orpc/server'
 import type { HandlerDef, HandlerMap } from './define-handlers.js'
 import type { RouteRegisterConfig, WithORPCMetadata } from '../domain/types.js'
@@ -6,6 +7,16 @@ import { MissingHandlerError } from '../domain/errors.js'
 import { ContractResolver } from '../application/contract-resolver.js'
 import { InputExtractor } from '../application/input-extractor.js'
 import { normalizeError } from '../domain/errors.js'
+import type { NormalizeErrorOptions } from '../domain/errors.js'
+import { withORPCErrors } from '../domain/error-catalogue.js'
+import { isEventStream, mapEventStream } from '../domain/stream.js'
+import {
+  createEndpointDescriptor,
+  runProcedureInterceptors,
+  setProcedureEndpoint,
+} from '../domain/endpoint.js'
+import { withAuthorization } from '../domain/authorization.js'
+import type { BaseORPCContext } from '../domain/context.js'
 import {
   createAccessMiddleware,
   resolveAccessPolicy,
@@ -47,7 +58,7 @@ export class HandlerRegistrar {
             `Route path ${[...parentPath, key].join('.')} not found`,
           )
         }
-        this.registerHandler(route, value, router)
+        this.registerHandler(route, value, [...parentPath, key], router)
       } else {
         this.walkHandlers(
           value as Record<string, HandlerDef>,
@@ -62,9 +73,10 @@ export class HandlerRegistrar {
   private registerHandler(
     route: unknown,
     handlerDef: HandlerDef,
+    handlerPath: string[],
     router: Record<string, unknown>,
   ): void {
-    const { handler, middlewares, catchErrors, access } = handlerDef
+    const { handler, middlewares, catchErrors, access, options } = handlerDef
     const routePath = this.config.routes
       ? this.contractResolver.findContractPath(this.config.routes, route)
       : []
@@ -119,31 +131,82 @@ export class HandlerRegistrar {
       )
     }
 
-    const wrappedHandler = catchErrors
-      ? this.wrapWithErrorHandling(handler)
+    const endpoint = createEndpointDescriptor(
+      route,
+      routePath,
+      accessPolicy.metadata,
+      options,
+      {
+        handler: handlerPath.join('.'),
+        policies: accessPolicy.chain,
+        public: accessPolicy.public,
+      },
+    )
+    const procedureInterceptors = this.config.procedureInterceptors ?? []
+    const implementation = catchErrors
+      ? this.wrapWithErrorHandling(
+          handler,
+          catchErrors === true ? {} : catchErrors,
+        )
       : handler
 
+    // Client errors thrown as ORPCHonoError keep their status through oRPC.
+    // The authorization rule runs before the interceptors, so cached or
+    // replayed responses are never served to a caller the rule denies.
+    const wrappedHandler = withORPCErrors(
+      withAuthorization(endpoint, (input: unknown, context: BaseORPCContext) =>
+        runProcedureInterceptors(
+          procedureInterceptors,
+          { endpoint, input, context },
+          implementation,
+        ),
+      ),
+    )
+
     const procedure = (
       finalImplementer as { handler: (fn: Function) => WithORPCMetadata }
-    ).handler(({ input, context }: { input: unknown; context: unknown }) => {
-      const normalizedInput = this.inputExtractor.normalize(input)
-      return wrappedHandler(normalizedInput, {
-        ...(typeof context === 'object' && context !== null ? context : {}),
-        access: accessPolicy.metadata,
-      })
-    })
+    ).handler(
+      ({
+        input,
+        context,
+        signal,
+      }: {
+        input: unknown
+        context: unknown
+        signal?: AbortSignal
+      }) => {
+        const normalizedInput = this.inputExtractor.normalize(input)
+        const baseContext = (
+          typeof context === 'object' && context !== null ? context : {}
+        ) as BaseORPCContext
+        return wrappedHandler(normalizedInput, {
+          ...baseContext,
+          access: accessPolicy.metadata,
+          signal: signal ?? baseContext.signal,
+        })
+      },
+    )
+    setProcedureEndpoint(procedure, endpoint)
 
     this.deepMerge(router, this.buildRouterStructure(routePath, procedure))
   }
 
   private wrapWithErrorHandling(
     handler: (input: any, context: any) => Promise<any>,
+    options: NormalizeErrorOptions,
   ): (input: any, context: any) => Promise<any> {
+    // Typed errors (see defineErrors) already carry status and code
+    const normalize = (error: unknown) =>
+      error instanceof ORPCError ? error : normalizeError(error, undefined, options)
+
     return async (input: any, context: any) => {
       try {
-        return await handler(input, context)
+        const result = await handler(input, context)
+        return isEventStream(result)
+          ? mapEventStream(result, { error: normalize })
+          : result
       } catch (error) {
-        throw normalizeError(error)
+        throw normalize(error)
       }
     }
   }
@@ -33,12 +33,63 @@ export { createApp } from './core/create-app.js'
 export type { AppConfig, OutscopeApp, ErrorHandler } from './core/create-app.js'
 export { ORPCHono } from './core/orpc-hono.js'
 export type { ApplyHandlersOptions } from './core/orpc-hono.js'
+export { ServerLifecycle } from './core/server-lifecycle.js'
+export type { ShutdownOptions, NodeServerLike, BunServerLike } from './core/server-lifecycle.js'
+
+/** WebSocket transport for the RPC router, used by createApp */
+export { WebSocketTransport } from './core/websocket.js'
+export type {
+  WebSocketOptions,
+  WebSocketHandlers,
+  NodeUpgradeServerLike,
+} from './core/websocket.js'
+
+/** Hot reload of handler modules during development, used by createApp */
+export { HotReloader } from './core/hot-reload.js'
+export type {
+  HotReloadOptions,
+  HotReloadLogger,
+  HotReloaderConfig,
+} from './core/hot-reload.js'
+
+/** Deprecation of additional API versions, used by createApp */
+export { createDeprecationMiddleware } from './core/versioning.js'
+export type { DeprecationOptions, DeprecatedUsage } from './core/versioning.js'
+
+/** Tenant resolution, used by createApp */
+export {
+  createTenancyMiddleware,
+  currentTenant,
+  withTenantContext,
+} from './core/tenancy.js'
+export type { TenancyOptions } from './core/tenancy.js'
+
+/** Request IDs and W3C trace context */
+export {
+  createTracingMiddleware,
+  getTraceContext,
+  getRequestLogger,
+  withTraceContext,
+  bindTraceSpan,
+  bindLogFields,
+} from './core/tracing.js'
+export type { TracingOptions } from './core/tracing.js'
+export {
+  parseTraceparent,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+} from './domain/trace.js'
+export type { TraceContext, TraceParent } from './domain/trace.js'
 
 // ============================================================================
 // Functional API
 // ============================================================================
 
 export {
+  HandlerBuilder,
+  collectHandlers,
+  listHandlerImplementations,
   defineHandle,
   defineHandlers,
   handle,
@@ -57,6 +108,53 @@ export {
   resolveAccessPolicy,
 } from './domain/access.js'
 
+// ============================================================================
+// Policies
+// ============================================================================
+
+export {
+  authPolicy,
+  createAuthMiddleware,
+  permissionPolicy,
+  tenantPolicy,
+} from './policies/index.js'
+export type {
+  AuthPolicyOptions,
+  PermissionPolicyOptions,
+  PermissionResolver,
+  TenantPolicyOptions,
+} from './policies/index.js'
+
+/** Role-based access control */
+export {
+  RoleRegistry,
+  UnknownRoleError,
+  RoleInheritanceCycleError,
+  defineRoles,
+  matchPermission,
+  missingPermissions,
+} from './domain/rbac.js'
+export type {
+  RoleDefinition,
+  RoleDefinitions,
+  PermissionMatch,
+} from './domain/rbac.js'
+
+/** Resource-level authorization rules */
+export {
+  AccessDeniedError,
+  enforceAuthorization,
+  withAuthorization,
+} from './domain/authorization.js'
+export type {
+  AuthorizationRule,
+  AuthorizationDecision,
+  AccessCondition,
+  AccessConditionParams,
+  AccessConditionResult,
+  ResourceLoader,
+} from './domain/authorization.js'
+
 // ============================================================================
 // Plugins
 // ============================================================================
@@ -66,6 +164,14 @@ export {
   loggerPlugin,
   openapiPlugin,
   errorHandlerPlugin,
+  rateLimitPlugin,
+  otelPlugin,
+  metricsPlugin,
+  healthPlugin,
+  uploadPlugin,
+  cachePlugin,
+  idempotencyPlugin,
+  transactionPlugin,
 } from './plugins/index.js'
 
 export type {
@@ -73,14 +179,192 @@ export type {
   PluginFactory,
   PluginContext,
   ServerInfo,
+  ApiVersionConfig,
   CORSPluginOptions,
   LoggerPluginOptions,
   OpenAPIPluginOptions,
   ErrorHandlerPluginOptions,
   RequestLogInfo,
   ErrorResponse,
+  RateLimitPluginOptions,
+  OtelPluginOptions,
+  MetricsPluginOptions,
+  HealthPluginOptions,
+  UploadPluginOptions,
+  CachePluginOptions,
+  IdempotencyPluginOptions,
+  TransactionPluginOptions,
 } from './plugins/index.js'
 
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+export type {
+  EndpointOptions,
+  EndpointDescriptor,
+  ProcedureInvocation,
+  ProcedureInterceptor,
+} from './domain/endpoint.js'
+export { getRequestEndpoint, getProcedureEndpoint } from './domain/endpoint.js'
+export { describeRouter, labelMiddleware } from './domain/route-table.js'
+export type { RouteDescription, DescribeRouterOptions } from './domain/route-table.js'
+
+// ============================================================================
+// Startup Validation
+// ============================================================================
+
+export { validateApp, AppValidationError } from './domain/app-validation.js'
+export type {
+  ValidationMode,
+  ProcedureImplementation,
+  AppValidationIssue,
+  AppValidationIssueKind,
+} from './domain/app-validation.js'
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+export { RateLimitExceededError, applyRateLimit } from './domain/rate-limit.js'
+export { MemoryRateLimitStore } from './infrastructure/rate-limit-store.js'
+
+export type {
+  RateLimitRule,
+  RateLimitAlgorithm,
+  RateLimitKey,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitState,
+  ResolvedRateLimitRule,
+  FixedWindowState,
+  TokenBucketState,
+} from './domain/rate-limit.js'
+export type { MemoryRateLimitStoreOptions } from './infrastructure/rate-limit-store.js'
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DuplicateMetricError,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+} from './infrastructure/metrics-registry.js'
+export type { MetricLabels } from './infrastructure/metrics-registry.js'
+
+// ============================================================================
+// Health Checks
+// ============================================================================
+
+export { HealthCheckRegistry, DuplicateHealthCheckError } from './domain/health.js'
+export type {
+  HealthCheck,
+  HealthCheckOptions,
+  HealthCheckDefinition,
+  HealthCheckInput,
+  HealthCheckResult,
+  HealthReport,
+  HealthStatus,
+  HealthCheckRegistryOptions,
+} from './domain/health.js'
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+export { isEventStream, mapEventStream } from './domain/stream.js'
+export type { StreamingOptions, EventStreamHooks } from './domain/stream.js'
+
+// ============================================================================
+// File Uploads
+// ============================================================================
+
+export {
+  FileTooLargeError,
+  UnsupportedFileTypeError,
+  InvalidStorageKeyError,
+  collectFiles,
+  enforceUploadLimits,
+  matchesMimeType,
+} from './domain/upload.js'
+export { MemoryStorage, LocalDiskStorage } from './infrastructure/upload-storage.js'
+
+export type {
+  UploadLimits,
+  UploadedFile,
+  StorageAdapter,
+  StoredFile,
+  StoredObject,
+} from './domain/upload.js'
+export type { LocalDiskStorageOptions } from './infrastructure/upload-storage.js'
+
+// ============================================================================
+// Response Caching
+// ============================================================================
+
+export { computeETag, matchesETag, matchesInvalidation, stableStringify } from './domain/cache.js'
+export { MemoryCacheStore } from './infrastructure/cache-store.js'
+export { ResponseCache } from './infrastructure/response-cache.js'
+
+export type { CachePolicy, CacheEntry, CacheInvalidation, CacheStore } from './domain/cache.js'
+export type { MemoryCacheStoreOptions } from './infrastructure/cache-store.js'
+export type { ResponseCacheOptions } from './infrastructure/response-cache.js'
+
+// ============================================================================
+// Idempotency
+// ============================================================================
+
+export {
+  IdempotencyKeyMissingError,
+  IdempotencyKeyReuseError,
+  IdempotencyConflictError,
+  fingerprintRequest,
+} from './domain/idempotency.js'
+export { MemoryIdempotencyStore } from './infrastructure/idempotency-store.js'
+
+export type {
+  IdempotencyPolicy,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotentResponse,
+} from './domain/idempotency.js'
+export type { MemoryIdempotencyStoreOptions } from './infrastructure/idempotency-store.js'
+
+// ============================================================================
+// Multi-Tenancy
+// ============================================================================
+
+export {
+  TenantRequiredError,
+  UnknownTenantError,
+  getRequestTenant,
+  setRequestTenant,
+} from './domain/tenancy.js'
+export { MemoryTenantStore } from './infrastructure/tenant-store.js'
+
+export type { TenantResolver, TenantStore, TenantResolution } from './domain/tenancy.js'
+
+// ============================================================================
+// Timeouts
+// ============================================================================
+
+export { createTimeoutInterceptor, anySignal } from './domain/timeout.js'
+
+// ============================================================================
+// Transactions
+// ============================================================================
+
+export type {
+  TransactionPolicy,
+  TransactionIsolationLevel,
+  TransactionalContext,
+} from './domain/transaction.js'
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -91,6 +375,8 @@ export type {
   BaseORPCContext,
   AuthContext,
   AuthenticatedContext,
+  Tenant,
+  TenantContext,
   ContextFactory,
 } from './domain/context.js'
 
@@ -120,7 +406,11 @@ export {
   UnsupportedHttpMethodError,
   InvalidProcedureError,
   MissingHandlerError,
+  InvalidEndpointOptionsError,
   ProcedureExecutionError,
+  AuthenticationError,
+  PermissionDeniedError,
+  ProcedureTimeoutError,
   ErrorCode,
   ErrorCodeStatus,
   isORPCHonoError,
@@ -129,6 +419,15 @@ export {
   normalizeError,
   withErrorHandling,
 } from './domain/errors.js'
+export type { NormalizeErrorOptions } from './domain/errors.js'
+export { defineErrors, toORPCError } from './domain/error-catalogue.js'
+export type {
+  ErrorDefinition,
+  ErrorDefinitions,
+  ErrorCatalogue,
+  CatalogueEntry,
+  CatalogueErrorOptions,
+} from './domain/error-catalogue.js'
 
 // ============================================================================
 // Types
@@ -165,15 +464,29 @@ export {
   extractToken,
   extractBearerToken,
   extractCookieToken,
+  decodeJwt,
+  verifyJwt,
+  createJwtVerifier,
+  getClientIp,
   attachPrismaLogging,
   createSqlFormatter,
+  prismaHealthCheck,
 } from './utils/index.js'
 
 export type {
   TokenExtractionResult,
   ExtractTokenOptions,
   TokenExtractionContext,
+  JwtAlgorithm,
+  JwtHeader,
+  JwtPayload,
+  JsonWebKeySet,
+  JwksProvider,
+  VerifyJwtOptions,
+  DecodedJwt,
+  ClientIpOptions,
   PrismaClientLike,
+  PrismaTransactionClientLike,
   PrismaLoggingOptions,
 } from './utils/index.js'
 
@@ -181,4 +494,5 @@ export type {
 // Re-exports from oRPC
 // ============================================================================
 
-export { implement } from '@orpc/server'
+export { implement, withEventMeta } from '@orpc/server'
+export { eventIterator } from '@orpc/contract'
@@ -0,0 +1,76 @@
+import {
+  matchesInvalidation,
+  type CacheEntry,
+  type CacheInvalidation,
+  type CacheStore,
+} from '../domain/cache.js'
+
+/**
+ * Options for the in-memory cache store
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first
+   * @default 1000
+   */
+  maxEntries?: number
+}
+
+/**
+ * In-memory LRU cache store
+ *
+ * Suitable for a single process. Use a shared store (e.g. Redis)
+ * when running several instances behind a load balancer.
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Maps iterate in insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly maxEntries: number
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000
+  }
+
+  /**
+   * Number of entries currently stored
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async invalidate(selector: CacheInvalidation): Promise<number> {
+    let removed = 0
+    for (const [key, entry] of this.entries) {
+      if (matchesInvalidation(entry, selector)) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * In-process metrics in the Prometheus text exposition format
+ *
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+/**
+ * Label values of a metric sample, keyed by label name
+ */
+export type MetricLabels = Record<string, string>
+
+/**
+ * Content type of the Prometheus text format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export class DuplicateMetricError extends Error {
+  constructor(name: string) {
+    super(`Metric "${name}" is already registered`)
+    this.name = 'DuplicateMetricError'
+  }
+}
+
+/**
+ * Base class of metrics: one series per distinct label set
+ */
+abstract class Metric<TSeries> {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: TSeries }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  /**
+   * Render the metric's samples
+   */
+  abstract collect(): string[]
+
+  reset(): void {
+    this.series.clear()
+  }
+
+  protected find(labels: MetricLabels): TSeries | undefined {
+    return this.series.get(this.key(labels))?.value
+  }
+
+  protected entry(labels: MetricLabels, create: () => TSeries): TSeries {
+    const key = this.key(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      const picked = Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? '']))
+      entry = { labels: picked, value: create() }
+      this.series.set(key, entry)
+    }
+    return entry.value
+  }
+
+  private key(labels: MetricLabels): string {
+    return this.labelNames.map(name => labels[name] ?? '').join('\u0000')
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter'
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => ({ value: 0 })).value += value
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.find(labels)?.value ?? 0
+  }
+
+  collect(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value.value))
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge'
+
+  set(labels: MetricLabels, value: number): void {
+    this.entry(labels, () => ({ value: 0 })).value = value
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => ({ value: 0 })).value += value
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.inc(labels, -value)
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.find(labels)?.value ?? 0
+  }
+
+  collect(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value.value))
+  }
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  readonly type = 'histogram'
+  readonly buckets: readonly number[]
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }))
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.counts[i]++
+      }
+    })
+    series.sum += value
+    series.count++
+  }
+
+  collect(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map((bound, i) =>
+        sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, value.counts[i])
+      ),
+      sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count),
+      sample(`${this.name}_sum`, labels, value.sum),
+      sample(`${this.name}_count`, labels, value.count),
+    ])
+  }
+}
+
+/**
+ * Registry of metrics rendered together for scraping
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetricsRegistry()
+ * const signups = registry.counter('signups_total', 'Completed signups', ['plan'])
+ *
+ * signups.inc({ plan: 'pro' })
+ * registry.metrics() // Prometheus text format
+ * ```
+ */
+export class MetricsRegistry {
+  private readonly registered = new Map<string, Metric<unknown>>()
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames))
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames))
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets))
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  metrics(): string {
+    const lines = [...this.registered.values()].flatMap(metric => [
+      `# HELP ${metric.name} ${escapeHelp(metric.help)}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.collect(),
+    ])
+    return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+  }
+
+  /**
+   * Clear all recorded values, keeping the metrics registered
+   */
+  reset(): void {
+    for (const metric of this.registered.values()) {
+      metric.reset()
+    }
+  }
+
+  private register<TMetric extends Metric<any>>(metric: TMetric): TMetric {
+    if (this.registered.has(metric.name)) {
+      throw new DuplicateMetricError(metric.name)
+    }
+    this.registered.set(metric.name, metric)
+    return metric
+  }
+}
+
+function sample(name: string, labels: MetricLabels, value: number): string {
+  const pairs = Object.entries(labels).map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN'
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf'
+  }
+  return String(value)
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
@@ -0,0 +1,69 @@
+import {
+  applyRateLimit,
+  type RateLimitResult,
+  type RateLimitState,
+  type RateLimitStore,
+  type ResolvedRateLimitRule,
+} from '../domain/rate-limit.js'
+
+/**
+ * Options for the in-memory rate limit store
+ */
+export interface MemoryRateLimitStoreOptions {
+  /**
+   * Number of consume() calls between sweeps of expired keys
+   * @default 1000
+   */
+  sweepInterval?: number
+}
+
+/**
+ * In-memory rate limit store
+ *
+ * Suitable for a single process. Use a shared store (e.g. Redis)
+ * when running several instances behind a load balancer.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { state: RateLimitState; expiresAt: number }>()
+  private readonly sweepInterval: number
+  private calls = 0
+
+  constructor(options: MemoryRateLimitStoreOptions = {}) {
+    this.sweepInterval = options.sweepInterval ?? 1000
+  }
+
+  /**
+   * Number of keys currently tracked
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  async consume(key: string, rule: ResolvedRateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const entry = this.entries.get(key)
+    const previous = entry && entry.expiresAt > now ? entry.state : undefined
+    const { state, result, expiresAt } = applyRateLimit(previous, rule, now)
+
+    this.entries.set(key, { state, expiresAt })
+    return result
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  private sweep(now: number): void {
+    if (++this.calls % this.sweepInterval !== 0) {
+      return
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { stableStringify, type CacheEntry, type CacheStore } from '../domain/cache.js'
+import { MemoryCacheStore } from './cache-store.js'
+
+/**
+ * Options for a response cache
+ */
+export interface ResponseCacheOptions {
+  /**
+   * Store holding cached responses
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore
+
+  /**
+   * Prefix for store keys
+   * @default 'cache'
+   */
+  prefix?: string
+}
+
+/**
+ * Response cache shared by cachePlugin() and the handlers invalidating it
+ *
+ * @example
+ * ```typescript
+ * export const cache = new ResponseCache()
+ *
+ * // After a mutation
+ * await planetService.create(input)
+ * await cache.invalidatePath('planet.list')
+ * await cache.invalidateTags(`planet:${input.id}`)
+ * ```
+ */
+export class ResponseCache {
+  readonly store: CacheStore
+  private readonly prefix: string
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore()
+    this.prefix = options.prefix ?? 'cache'
+  }
+
+  /**
+   * Build the key of a response
+   *
+   * @param path - Contract path, e.g. 'planet.list'
+   * @param input - Procedure input, normalized so key order does not matter
+   * @param userId - User the response is cached for, if it varies by user
+   * @param tenantId - Tenant of the request, if any
+   */
+  key(path: string, input: unknown, userId?: string, tenantId?: string): string {
+    return `${this.prefix}:${tenantId ?? '*'}:${path}:${userId ?? '*'}:${stableStringify(input)}`
+  }
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key)
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    return this.store.set(key, entry)
+  }
+
+  /**
+   * Remove the cached responses of contract paths, including nested paths
+   *
+   * @param paths - Contract paths, e.g. 'planet.list' or 'planet'
+   * @returns Number of removed entries
+   */
+  invalidatePath(...paths: string[]): Promise<number> {
+    return this.store.invalidate({ paths })
+  }
+
+  /**
+   * Remove the cached responses carrying any of the tags
+   *
+   * @param tags - Invalidation tags declared in cache policies
+   * @returns Number of removed entries
+   */
+  invalidateTags(...tags: string[]): Promise<number> {
+    return this.store.invalidate({ tags })
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  InvalidStorageKeyError,
+  type StorageAdapter,
+  type StoredFile,
+  type StoredObject,
+} from '../domain/upload.js'
+
+/**
+ * In-memory storage adapter
+ *
+ * Suitable for tests and development; stored files live as long as the process.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private readonly files = new Map<string, Blob>()
+
+  /**
+   * Number of stored files
+   */
+  get size(): number {
+    return this.files.size
+  }
+
+  async put(key: string, file: Blob): Promise<StoredFile> {
+    // Copy the contents, so the stored file outlives the request body
+    const copy = new Blob([await file.arrayBuffer()], { type: file.type })
+    this.files.set(key, copy)
+    return { key, size: copy.size, type: copy.type || undefined }
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    const file = this.files.get(key)
+    if (!file) {
+      return undefined
+    }
+    return { key, size: file.size, type: file.type || undefined, body: file.stream() }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key)
+  }
+}
+
+/**
+ * Options for the local disk storage adapter
+ */
+export interface LocalDiskStorageOptions {
+  /**
+   * Directory holding stored files; keys are paths relative to it
+   */
+  directory: string
+}
+
+/**
+ * Local disk storage adapter
+ *
+ * Files are streamed to disk without being buffered in memory. Keys may
+ * contain `/` to create subdirectories, but cannot escape the directory.
+ * MIME types are not persisted, so keep them next to the key (e.g. in your
+ * database) when they are needed to serve the file.
+ *
+ * @example
+ * ```typescript
+ * const storage = new LocalDiskStorage({ directory: './uploads' })
+ * const stored = await storage.put(`avatars/${userId}`, input.avatar)
+ * ```
+ */
+export class LocalDiskStorage implements StorageAdapter {
+  private readonly directory: string
+
+  constructor(options: LocalDiskStorageOptions) {
+    this.directory = options.directory
+  }
+
+  async put(key: string, file: Blob): Promise<StoredFile> {
+    const path = await this.resolve(key)
+    const [{ createWriteStream }, { mkdir }, { dirname }, { Readable }, { pipeline }] =
+      await Promise.all([
+        import('node:fs'),
+        import('node:fs/promises'),
+        import('node:path'),
+        import('node:stream'),
+        import('node:stream/promises'),
+      ])
+
+    await mkdir(dirname(path), { recursive: true })
+    await pipeline(
+      Readable.fromWeb(file.stream() as import('node:stream/web').ReadableStream),
+      createWriteStream(path)
+    )
+
+    return { key, size: file.size, type: file.type || undefined }
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    const path = await this.resolve(key)
+    const [{ createReadStream }, { stat }, { Readable }] = await Promise.all([
+      import('node:fs'),
+      import('node:fs/promises'),
+      import('node:stream'),
+    ])
+
+    const stats = await stat(path).catch(() => undefined)
+    if (!stats?.isFile()) {
+      return undefined
+    }
+
+    return {
+      key,
+      size: stats.size,
+      body: Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>,
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const path = await this.resolve(key)
+    const { rm } = await import('node:fs/promises')
+    await rm(path, { force: true })
+  }
+
+  /**
+   * Resolve a key to a path inside the directory
+   *
+   * @throws {InvalidStorageKeyError} If the key is empty or escapes the directory
+   */
+  private async resolve(key: string): Promise<string> {
+    const { resolve, sep } = await import('node:path')
+    const root = resolve(this.directory)
+    const path = resolve(root, key)
+
+    if (!key || !path.startsWith(root + sep)) {
+      throw new InvalidStorageKeyError(key)
+    }
+    return path
+  }
+}
@@ -0,0 +1,115 @@
+import type { PluginFactory } from './types.js'
+import type { BaseORPCContext } from '../domain/context.js'
+import { HealthCheckRegistry, type HealthCheckInput, type HealthReport } from '../domain/health.js'
+
+/**
+ * Health plugin options
+ */
+export interface HealthPluginOptions {
+  /**
+   * Liveness endpoint path
+   * @default '/healthz'
+   */
+  livenessPath?: string
+
+  /**
+   * Readiness endpoint path
+   * @default '/readyz'
+   */
+  readinessPath?: string
+
+  /**
+   * Registry holding the checks; pass your own to register checks from
+   * application code
+   * @default new HealthCheckRegistry()
+   */
+  registry?: HealthCheckRegistry
+
+  /**
+   * Named checks to register
+   */
+  checks?: Record<string, HealthCheckInput>
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  livenessPath: '/healthz',
+  readinessPath: '/readyz',
+}
+
+/**
+ * Create a health plugin serving liveness and readiness endpoints.
+ *
+ * Both endpoints return a JSON report with the aggregate status and, per
+ * check, its status and latency. They respond 200 unless a critical check
+ * fails (503). Liveness only runs checks registered with `liveness: true`.
+ *
+ * Readiness fails with 503 as soon as `app.shutdown()` starts, while both
+ * endpoints keep answering during the drain. Other plugins contribute checks
+ * through their `healthChecks` field.
+ *
+ * @param options - Health configuration options
+ * @returns A plugin that serves health endpoints
+ *
+ * @example
+ * ```typescript
+ * const health = new HealthCheckRegistry()
+ * health.register('search', () => search.ping(), { critical: false })
+ *
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   handlers,
+ *   plugins: [
+ *     healthPlugin({ registry: health, checks: { database: prismaHealthCheck(prisma) } }),
+ *   ],
+ * })
+ * ```
+ */
+export const healthPlugin: PluginFactory<HealthPluginOptions, BaseORPCContext> = (options = {}) => {
+  const {
+    livenessPath = DEFAULTS.livenessPath,
+    readinessPath = DEFAULTS.readinessPath,
+    registry = new HealthCheckRegistry(),
+    checks = {},
+  } = options
+
+  for (const [name, check] of Object.entries(checks)) {
+    registry.register(name, check)
+  }
+
+  const statusCode = (report: HealthReport) => (report.status === 'fail' ? 503 : 200)
+
+  return {
+    name: 'health',
+
+    onReady({ app, config, lifecycle }) {
+      for (const plugin of config.plugins ?? []) {
+        for (const [name, check] of Object.entries(plugin.healthChecks ?? {})) {
+          registry.register(name, check)
+        }
+      }
+
+      // Probes must not be turned away while the server drains
+      lifecycle.exemptFromDrain(livenessPath)
+      lifecycle.exemptFromDrain(readinessPath)
+
+      app.get(livenessPath, async (c) => {
+        const report = await registry.run('liveness')
+        return c.json(report, statusCode(report))
+      })
+
+      app.get(readinessPath, async (c) => {
+        if (lifecycle.isShuttingDown) {
+          const report: HealthReport = { status: 'fail', checks: {}, shuttingDown: true }
+          return c.json(report, 503)
+        }
+
+        const report = await registry.run('readiness')
+        return c.json(report, statusCode(report))
+      })
+    },
+  }
+}
@@ -5,7 +5,16 @@
  */
 
 // Plugin types
-export type { Plugin, PluginFactory, PluginContext, AppConfig, OutscopeApp, ServerInfo, ErrorHandler } from './types.js'
+export type {
+  Plugin,
+  PluginFactory,
+  PluginContext,
+  AppConfig,
+  ApiVersionConfig,
+  OutscopeApp,
+  ServerInfo,
+  ErrorHandler,
+} from './types.js'
 
 // CORS plugin
 export { corsPlugin } from './cors.js'
@@ -22,3 +31,35 @@ export type { OpenAPIPluginOptions } from './openapi.js'
 // Error handler plugin
 export { errorHandlerPlugin } from './error-handler.js'
 export type { ErrorHandlerPluginOptions, ErrorResponse } from './error-handler.js'
+
+// Rate limit plugin
+export { rateLimitPlugin } from './rate-limit.js'
+export type { RateLimitPluginOptions } from './rate-limit.js'
+
+// OpenTelemetry plugin
+export { otelPlugin } from './otel.js'
+export type { OtelPluginOptions } from './otel.js'
+
+// Metrics plugin
+export { metricsPlugin } from './metrics.js'
+export type { MetricsPluginOptions } from './metrics.js'
+
+// Health plugin
+export { healthPlugin } from './health.js'
+export type { HealthPluginOptions } from './health.js'
+
+// Upload plugin
+export { uploadPlugin } from './upload.js'
+export type { UploadPluginOptions } from './upload.js'
+
+// Cache plugin
+export { cachePlugin } from './cache.js'
+export type { CachePluginOptions } from './cache.js'
+
+// Idempotency plugin
+export { idempotencyPlugin } from './idempotency.js'
+export type { IdempotencyPluginOptions } from './idempotency.js'
+
+// Transaction plugin
+export { transactionPlugin } from './transaction.js'
+export type { TransactionPluginOptions } from './transaction.js'
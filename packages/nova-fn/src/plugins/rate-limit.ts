@@ -0,0 +1,207 @@
+import type { Context } from 'hono'
+import type { PluginFactory } from './types.js'
+import type { AuthContext, BaseORPCContext } from '../domain/context.js'
+import type { EndpointDescriptor, ProcedureInterceptor } from '../domain/endpoint.js'
+import {
+  RateLimitExceededError,
+  type RateLimitAlgorithm,
+  type RateLimitKey,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitStore,
+  type ResolvedRateLimitRule,
+} from '../domain/rate-limit.js'
+import { getRequestTenant } from '../domain/tenancy.js'
+import { MemoryRateLimitStore } from '../infrastructure/rate-limit-store.js'
+import { getClientIp } from '../utils/request.js'
+
+/**
+ * Rate limit plugin options
+ */
+export interface RateLimitPluginOptions {
+  /**
+   * Default limit for endpoints without their own rule.
+   * When omitted, only endpoints with a declared rate limit are throttled.
+   */
+  limit?: number
+
+  /**
+   * Default window length in milliseconds
+   * @default 60000
+   */
+  windowMs?: number
+
+  /**
+   * Default algorithm
+   * @default 'fixed-window'
+   */
+  algorithm?: RateLimitAlgorithm
+
+  /**
+   * Default client key
+   * @default 'ip'
+   */
+  key?: RateLimitKey<any>
+
+  /**
+   * Store holding counters
+   * @default new MemoryRateLimitStore()
+   */
+  store?: RateLimitStore
+
+  /**
+   * Send `RateLimit-*` headers on throttled endpoints
+   * @default true
+   */
+  headers?: boolean
+
+  /**
+   * Trust proxy headers when resolving the client IP
+   * @default false
+   */
+  trustProxy?: boolean
+
+  /**
+   * Prefix for store keys
+   * @default 'rate-limit'
+   */
+  prefix?: string
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  windowMs: 60_000,
+  algorithm: 'fixed-window' as RateLimitAlgorithm,
+  key: 'ip' as RateLimitKey,
+  prefix: 'rate-limit',
+}
+
+/**
+ * Create a rate limit plugin.
+ *
+ * Limits are enforced per endpoint after the access policy has run, so
+ * `key: 'user'` can use `context.auth.userId`. Endpoints declare their own
+ * rule with `.rateLimit()` on the handler (or `false` to opt out of the default).
+ * The `'user'` key is counted per tenant when the tenant is verified.
+ * Rejected requests receive 429 with a `Retry-After` header.
+ *
+ * @param options - Rate limit configuration options
+ * @returns A plugin that throttles procedure calls
+ *
+ * @example
+ * ```typescript
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   handlers,
+ *   plugins: [
+ *     rateLimitPlugin({ limit: 100, windowMs: 60_000 }),
+ *   ],
+ * })
+ *
+ * // Per endpoint
+ * create: handle
+ *   .auth(async (input, ctx) => planetService.create(input, ctx.auth))
+ *   .rateLimit({ limit: 5, windowMs: 60_000, key: 'user' }),
+ * ```
+ */
+export const rateLimitPlugin: PluginFactory<RateLimitPluginOptions, BaseORPCContext> = (
+  options = {}
+) => {
+  const {
+    limit,
+    windowMs = DEFAULTS.windowMs,
+    algorithm = DEFAULTS.algorithm,
+    key = DEFAULTS.key,
+    store = new MemoryRateLimitStore(),
+    headers = true,
+    trustProxy = false,
+    prefix = DEFAULTS.prefix,
+  } = options
+
+  const defaultRule: RateLimitRule | undefined =
+    limit !== undefined ? { limit, windowMs, algorithm, key } : undefined
+
+  const resolveRule = (endpoint: EndpointDescriptor): RateLimitRule | undefined => {
+    const declared = endpoint.options.rateLimit
+    if (declared === false) {
+      return undefined
+    }
+    return declared ?? defaultRule
+  }
+
+  const resolveClientKey = async (
+    rule: RateLimitRule,
+    context: BaseORPCContext
+  ): Promise<string> => {
+    const ruleKey = rule.key ?? key
+
+    if (typeof ruleKey === 'function') {
+      return `custom:${await ruleKey(context)}`
+    }
+
+    if (ruleKey === 'user') {
+      const auth = (context as { auth?: Partial<AuthContext> }).auth
+      if (auth?.userId) {
+        // Users are counted per tenant only when the client cannot pick the
+        // tenant ID, or rotating it would reset their counter
+        const tenant = getRequestTenant(context.honoContext)?.verified
+          ? context.tenant?.id
+          : undefined
+        return tenant ? `${tenant}:user:${auth.userId}` : `user:${auth.userId}`
+      }
+    }
+
+    return `ip:${getClientIp(context.honoContext, { trustProxy })}`
+  }
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, context }, next) => {
+    const rule = resolveRule(endpoint)
+    if (!rule) {
+      return next()
+    }
+
+    const resolved: ResolvedRateLimitRule = {
+      limit: rule.limit,
+      windowMs: rule.windowMs ?? windowMs,
+      algorithm: rule.algorithm ?? algorithm,
+    }
+
+    // Endpoints with their own rule get their own counters
+    const scope = endpoint.options.rateLimit ? endpoint.path.join('.') : 'default'
+    const clientKey = await resolveClientKey(rule, context)
+    const result = await store.consume(`${prefix}:${scope}:${clientKey}`, resolved)
+
+    if (headers) {
+      setRateLimitHeaders(context.honoContext, resolved, result)
+    }
+
+    if (!result.allowed) {
+      context.honoContext.header('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)))
+      throw new RateLimitExceededError(result.retryAfterMs)
+    }
+
+    return next()
+  }
+
+  return {
+    name: 'rate-limit',
+    procedureInterceptor,
+  }
+}
+
+/**
+ * Set the standard RateLimit-* response headers
+ */
+function setRateLimitHeaders(
+  c: Context,
+  rule: ResolvedRateLimitRule,
+  result: RateLimitResult
+): void {
+  c.header('RateLimit-Limit', String(result.limit))
+  c.header('RateLimit-Remaining', String(result.remaining))
+  c.header('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)))
+  c.header('RateLimit-Policy', `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`)
+}
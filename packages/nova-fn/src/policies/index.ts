@@ -0,0 +1,17 @@
+/**
+ * @outscope/nova-fn access policies
+ *
+ * Ready-made access policies for `defineAccess`.
+ */
+
+// Auth policy
+export { authPolicy, createAuthMiddleware } from './auth.js'
+export type { AuthPolicyOptions } from './auth.js'
+
+// Permission policy
+export { permissionPolicy } from './permission.js'
+export type { PermissionPolicyOptions, PermissionResolver } from './permission.js'
+
+// Tenant policy
+export { tenantPolicy } from './tenant.js'
+export type { TenantPolicyOptions } from './tenant.js'
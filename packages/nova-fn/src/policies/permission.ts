@@ -0,0 +1,110 @@
+import type { AccessMetadata, AccessPolicy, AccessProducerFactory } from '../domain/access.js'
+import type { AuthContext, BaseORPCContext } from '../domain/context.js'
+import { toORPCError } from '../domain/error-catalogue.js'
+import { AuthenticationError, PermissionDeniedError } from '../domain/errors.js'
+import { missingPermissions, type PermissionMatch, type RoleRegistry } from '../domain/rbac.js'
+
+/**
+ * Resolves the permissions granted to the caller: a role registry reading
+ * `context.auth.roles`, or a custom function (e.g. a database lookup)
+ */
+export type PermissionResolver<TContext extends BaseORPCContext = BaseORPCContext> =
+  | Pick<RoleRegistry, 'permissionsFor'>
+  | ((auth: AuthContext, context: TContext) => string[] | Promise<string[]>)
+
+/**
+ * Permission policy options
+ */
+export interface PermissionPolicyOptions<TContext extends BaseORPCContext = BaseORPCContext> {
+  /** Permission resolver, usually the result of defineRoles() */
+  resolve: PermissionResolver<TContext>
+
+  /**
+   * How the endpoint's permissions are matched
+   * @default 'all'
+   */
+  match?: PermissionMatch
+
+  /**
+   * Policy (or policies) to build on, usually your auth policy
+   */
+  uses?: string | string[]
+
+  /** Producer to attach the middleware to, when not inherited through `uses` */
+  producer?: unknown | AccessProducerFactory
+}
+
+/**
+ * Create a permission access policy
+ *
+ * Checks the permissions declared on the endpoint against those granted to
+ * `context.auth`. Requests without `context.auth` are rejected with 401
+ * `UNAUTHORIZED`, missing permissions with 403 `FORBIDDEN`.
+ *
+ * @param options - Permission policy options
+ * @returns An access policy for `defineAccess`
+ *
+ * @example
+ * ```typescript
+ * const roles = defineRoles({
+ *   member: { permissions: ['task:read'] },
+ *   admin: { inherits: 'member', permissions: ['task:*'] },
+ * })
+ *
+ * export const access = defineAccess({
+ *   default: 'public',
+ *   policies: {
+ *     public: { kind: 'plain', producer: implement(routes).$context<AppContext>() },
+ *     auth: authPolicy({ uses: 'public', jwt: { secret: process.env.JWT_SECRET! } }),
+ *     permission: permissionPolicy({ uses: 'auth', resolve: roles }),
+ *   },
+ * })
+ * ```
+ */
+export function permissionPolicy<TContext extends BaseORPCContext = BaseORPCContext>(
+  options: PermissionPolicyOptions<TContext>
+): AccessPolicy & { kind: 'permission' } {
+  const { resolve, match = 'all', uses, producer } = options
+
+  const authorize = async (required: string[], context: TContext & { auth?: AuthContext }) => {
+    if (!context.auth) {
+      throw new AuthenticationError('Authentication required')
+    }
+
+    if (required.length === 0) {
+      return
+    }
+
+    const granted =
+      typeof resolve === 'function'
+        ? await resolve(context.auth, context)
+        : resolve.permissionsFor(context.auth.roles ?? [])
+
+    const missing = missingPermissions(granted, required, match)
+    if (missing.length > 0) {
+      throw new PermissionDeniedError(missing)
+    }
+  }
+
+  return {
+    kind: 'permission',
+    uses,
+    producer,
+    middleware: (metadata: AccessMetadata) =>
+      async ({
+        context,
+        next,
+      }: {
+        context: TContext & { auth?: AuthContext }
+        next: () => unknown
+      }) => {
+        try {
+          await authorize(metadata.permissions ?? [], context)
+        } catch (error) {
+          throw toORPCError(error)
+        }
+
+        return next()
+      },
+  }
+}
@@ -0,0 +1,189 @@
+import { createORPCClient, ORPCError, type Client, type FriendlyClientOptions } from '@orpc/client'
+import { RPCLink } from '@orpc/client/fetch'
+import type { AnyContractRouter, ContractRouterClient } from '@orpc/contract'
+import type { AuthContext } from '../domain/context.js'
+import type { OutscopeApp } from '../core/create-app.js'
+
+/**
+ * In-process test client
+ *
+ * Calls procedures through `app.fetch` over the RPC transport, so every call
+ * runs the full middleware, access policy and plugin stack without opening a
+ * socket. Calls resolve to the response status and headers next to the
+ * output or the error, instead of throwing on error responses.
+ */
+
+/**
+ * Test client options
+ */
+export interface TestClientOptions {
+  /**
+   * Origin requests are addressed to
+   * @default 'http://localhost'
+   */
+  origin?: string
+
+  /** Headers sent with every call */
+  headers?: Record<string, string>
+
+  /**
+   * Map a user to the request headers authenticating them, e.g. a bearer
+   * token signed with your test key or a session cookie. Required by `$as()`.
+   */
+  impersonate?: (user: AuthContext) => Record<string, string> | Promise<Record<string, string>>
+}
+
+/**
+ * Outcome of a test client call
+ */
+export type TestResult<TOutput, TError> =
+  | { status: number; headers: Headers; data: TOutput; error: undefined }
+  | { status: number; headers: Headers; data: undefined; error: TError }
+
+/**
+ * Procedures of a contract router, resolving to TestResult
+ */
+export type TestRouterClient<T> =
+  T extends Client<any, any, infer UOutput, infer UError>
+    ? (
+        ...rest: Parameters<T>
+      ) => Promise<TestResult<UOutput, Extract<UError, ORPCError<any, any>> | ORPCError<string, unknown>>>
+    : { [K in keyof T]: TestRouterClient<T[K]> }
+
+/**
+ * Helpers deriving a client that sends extra request state.
+ * Derived clients keep the state of the client they were derived from.
+ */
+export interface TestClientHelpers<TRoutes extends AnyContractRouter> {
+  /** Send these headers with every call */
+  $headers(headers: Record<string, string>): TestClient<TRoutes>
+  /** Send these cookies with every call */
+  $cookies(cookies: Record<string, string>): TestClient<TRoutes>
+  /** Call as this user, authenticated through the `impersonate` option */
+  $as(user: AuthContext): TestClient<TRoutes>
+}
+
+/**
+ * Typed client for the contract of an app
+ */
+export type TestClient<TRoutes extends AnyContractRouter> = TestRouterClient<ContractRouterClient<TRoutes>> &
+  TestClientHelpers<TRoutes>
+
+interface TestClientState {
+  headers: Record<string, string>
+  cookies: Record<string, string>
+  user?: AuthContext
+}
+
+/**
+ * Create a typed client calling an app in-process
+ *
+ * @param app - App returned by createApp
+ * @param options - Test client options
+ * @returns Client mirroring the app's contract
+ *
+ * @example
+ * ```typescript
+ * const app = await createApp({ routes, access, handlers })
+ * const client = createTestClient(app, {
+ *   impersonate: (user) => ({ authorization: `Bearer ${signTestToken(user)}` }),
+ * })
+ *
+ * const { status, data } = await client.$as({ userId: 'ada' }).tasks.create({ title: 'Write tests' })
+ * ```
+ */
+export function createTestClient<TRoutes extends AnyContractRouter>(
+  app: Pick<OutscopeApp<any, TRoutes>, 'fetch' | 'routes' | 'rpcPrefix'>,
+  options: TestClientOptions = {},
+): TestClient<TRoutes> {
+  return createClientProxy(app, options, { headers: { ...options.headers }, cookies: {} })
+}
+
+function createClientProxy<TRoutes extends AnyContractRouter>(
+  app: Pick<OutscopeApp<any, TRoutes>, 'fetch' | 'rpcPrefix'>,
+  options: TestClientOptions,
+  state: TestClientState,
+): TestClient<TRoutes> {
+  const helpers: TestClientHelpers<TRoutes> = {
+    $headers: (headers) => createClientProxy(app, options, { ...state, headers: { ...state.headers, ...headers } }),
+    $cookies: (cookies) => createClientProxy(app, options, { ...state, cookies: { ...state.cookies, ...cookies } }),
+    $as: (user) => {
+      if (!options.impersonate) {
+        throw new Error('createTestClient requires an impersonate option to use $as()')
+      }
+      return createClientProxy(app, options, { ...state, user })
+    },
+  }
+
+  const call = (path: readonly string[], input: unknown, clientOptions?: FriendlyClientOptions<any>) =>
+    callProcedure(app, options, state, path, input, clientOptions)
+
+  return new Proxy(createProcedureProxy([], call), {
+    get: (target, key) => (key in helpers ? helpers[key as keyof typeof helpers] : Reflect.get(target, key)),
+  }) as unknown as TestClient<TRoutes>
+}
+
+function createProcedureProxy(
+  path: readonly string[],
+  call: (path: readonly string[], input: unknown, clientOptions?: FriendlyClientOptions<any>) => unknown,
+): object {
+  return new Proxy(() => {}, {
+    get: (_target, key) => {
+      // Not thenable, so clients can be returned from async functions
+      if (typeof key !== 'string' || key === 'then') {
+        return undefined
+      }
+      return createProcedureProxy([...path, key], call)
+    },
+    apply: (_target, _thisArg, [input, clientOptions]) => call(path, input, clientOptions),
+  })
+}
+
+async function callProcedure(
+  app: Pick<OutscopeApp<any, any>, 'fetch' | 'rpcPrefix'>,
+  options: TestClientOptions,
+  state: TestClientState,
+  path: readonly string[],
+  input: unknown,
+  clientOptions?: FriendlyClientOptions<any>,
+): Promise<TestResult<unknown, ORPCError<string, unknown>>> {
+  let response: Response | undefined
+
+  const link = new RPCLink({
+    url: new URL(app.rpcPrefix, options.origin ?? 'http://localhost'),
+    headers: () => resolveHeaders(options, state),
+    fetch: async (request) => {
+      response = await app.fetch(request)
+      return response
+    },
+  })
+
+  const procedure = path.reduce<any>((client, key) => client[key], createORPCClient(link))
+
+  try {
+    const data = await procedure(input, clientOptions)
+    return { status: response!.status, headers: response!.headers, data, error: undefined }
+  } catch (error) {
+    if (response && error instanceof ORPCError) {
+      return { status: response.status, headers: response.headers, data: undefined, error }
+    }
+    throw error
+  }
+}
+
+async function resolveHeaders(options: TestClientOptions, state: TestClientState): Promise<Headers> {
+  const headers = new Headers(state.headers)
+
+  if (state.user && options.impersonate) {
+    for (const [name, value] of Object.entries(await options.impersonate(state.user))) {
+      headers.set(name, value)
+    }
+  }
+
+  const cookies = Object.entries(state.cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+  if (cookies.length > 0) {
+    headers.set('cookie', [headers.get('cookie'), ...cookies].filter(Boolean).join('; '))
+  }
+
+  return headers
+}
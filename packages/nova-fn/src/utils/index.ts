@@ -15,10 +15,29 @@ export {
   type TokenExtractionContext,
 } from './auth.js'
 
+// JWT utilities
+export {
+  decodeJwt,
+  verifyJwt,
+  createJwtVerifier,
+  type JwtAlgorithm,
+  type JwtHeader,
+  type JwtPayload,
+  type JsonWebKeySet,
+  type JwksProvider,
+  type VerifyJwtOptions,
+  type DecodedJwt,
+} from './jwt.js'
+
+// Request utilities
+export { getClientIp, type ClientIpOptions } from './request.js'
+
 // Prisma integration utilities
 export {
   attachPrismaLogging,
   createSqlFormatter,
+  prismaHealthCheck,
   type PrismaClientLike,
+  type PrismaTransactionClientLike,
   type PrismaLoggingOptions,
 } from './prisma.js'
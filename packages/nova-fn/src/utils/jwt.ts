@@ -0,0 +1,443 @@
+/**
+ * JWT verification utilities
+ *
+ * Verifies JSON Web Tokens with the Web Crypto API, so the same code runs
+ * on Node.js, Bun and edge runtimes. Supports HMAC (HS*), RSA (RS*) and
+ * ECDSA (ES*) signatures.
+ */
+
+import { AuthenticationError } from '../domain/errors.js'
+
+/**
+ * Supported signature algorithms
+ */
+export type JwtAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+
+/**
+ * JOSE header of a token
+ */
+export interface JwtHeader {
+  alg: string
+  typ?: string
+  kid?: string
+  [key: string]: unknown
+}
+
+/**
+ * Claims of a token
+ */
+export interface JwtPayload {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  jti?: string
+  [claim: string]: unknown
+}
+
+/**
+ * JSON Web Key Set
+ */
+export interface JsonWebKeySet {
+  keys: Array<JsonWebKey & { kid?: string }>
+}
+
+/**
+ * Resolves the key set for a token, e.g. from an identity provider's
+ * JWKS endpoint. Cache the result; it is called for every token.
+ */
+export type JwksProvider = (header: JwtHeader) => JsonWebKeySet | Promise<JsonWebKeySet>
+
+/**
+ * Options for JWT verification
+ */
+export interface VerifyJwtOptions {
+  /** Shared secret for HS* algorithms */
+  secret?: string | Uint8Array
+
+  /** Public key for RS* / ES* algorithms: a PEM-encoded SPKI key, a JWK or a CryptoKey */
+  publicKey?: string | JsonWebKey | CryptoKey
+
+  /**
+   * Key set for RS* / ES* algorithms: an inline set, a path to a local
+   * JWKS file (read once), or a provider callback. Keys are matched by `kid`.
+   */
+  jwks?: JsonWebKeySet | string | JwksProvider
+
+  /**
+   * Accepted algorithms
+   * @default HS* when `secret` is set, plus RS* and ES* when `publicKey` or `jwks` is set
+   */
+  algorithms?: JwtAlgorithm[]
+
+  /** Accepted `iss` values */
+  issuer?: string | string[]
+
+  /** Accepted `aud` values; the token must contain at least one */
+  audience?: string | string[]
+
+  /**
+   * Allowed clock skew in seconds for `exp` and `nbf`
+   * @default 0
+   */
+  clockTolerance?: number
+}
+
+/**
+ * A decoded, unverified token
+ */
+export interface DecodedJwt {
+  header: JwtHeader
+  payload: JwtPayload
+  signature: Uint8Array<ArrayBuffer>
+  signingInput: string
+}
+
+type AlgorithmParams = {
+  import: RsaHashedImportParams | EcKeyImportParams | HmacImportParams
+  verify: AlgorithmIdentifier | EcdsaParams
+  kty: 'oct' | 'RSA' | 'EC'
+}
+
+const ALGORITHMS: Record<JwtAlgorithm, AlgorithmParams> = {
+  HS256: hmac('SHA-256'),
+  HS384: hmac('SHA-384'),
+  HS512: hmac('SHA-512'),
+  RS256: rsa('SHA-256'),
+  RS384: rsa('SHA-384'),
+  RS512: rsa('SHA-512'),
+  ES256: ecdsa('SHA-256', 'P-256'),
+  ES384: ecdsa('SHA-384', 'P-384'),
+  ES512: ecdsa('SHA-512', 'P-521'),
+}
+
+const HMAC_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'HS384', 'HS512']
+const ASYMMETRIC_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512']
+
+/**
+ * Decode a token without verifying it
+ *
+ * @param token - Compact JWS token
+ * @returns Header, payload and signature parts
+ * @throws AuthenticationError if the token is malformed
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new AuthenticationError('Malformed token')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  try {
+    const header = JSON.parse(decodeText(encodedHeader)) as JwtHeader
+    const payload = JSON.parse(decodeText(encodedPayload)) as JwtPayload
+
+    if (typeof header?.alg !== 'string' || typeof payload !== 'object' || payload === null) {
+      throw new Error('Invalid token structure')
+    }
+
+    return {
+      header,
+      payload,
+      signature: base64UrlDecode(encodedSignature),
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+    }
+  } catch {
+    throw new AuthenticationError('Malformed token')
+  }
+}
+
+/**
+ * Create a reusable verifier
+ *
+ * Imported keys and the JWKS file are cached per verifier, so create it
+ * once and call it for every request.
+ *
+ * @param options - Verification options
+ * @returns A function resolving to the verified payload
+ * @throws Error if no key source is configured
+ *
+ * @example
+ * ```typescript
+ * const verify = createJwtVerifier({
+ *   jwks: './jwks.json',
+ *   issuer: 'https://auth.example.com',
+ *   audience: 'api',
+ * })
+ *
+ * const payload = await verify(token)
+ * ```
+ */
+export function createJwtVerifier(
+  options: VerifyJwtOptions
+): (token: string) => Promise<JwtPayload> {
+  if (!options.secret && !options.publicKey && !options.jwks) {
+    throw new Error('JWT verification requires a secret, publicKey or jwks')
+  }
+
+  const algorithms = options.algorithms ?? [
+    ...(options.secret ? HMAC_ALGORITHMS : []),
+    ...(options.publicKey || options.jwks ? ASYMMETRIC_ALGORITHMS : []),
+  ]
+  const keyCache = new Map<string, Promise<CryptoKey | null>>()
+  let jwksFile: Promise<JsonWebKeySet> | undefined
+
+  const importCached = (
+    cacheKey: string,
+    factory: () => Promise<CryptoKey>
+  ): Promise<CryptoKey | null> => {
+    let key = keyCache.get(cacheKey)
+    if (!key) {
+      // Keys that fail to import (wrong type for the algorithm) never match
+      key = factory().catch(() => null)
+      keyCache.set(cacheKey, key)
+    }
+    return key
+  }
+
+  const resolveKeySet = async (header: JwtHeader): Promise<JsonWebKeySet> => {
+    const { jwks } = options
+    if (typeof jwks === 'function') {
+      return jwks(header)
+    }
+    if (typeof jwks === 'string') {
+      jwksFile ??= readJwksFile(jwks)
+      return jwksFile
+    }
+    return jwks ?? { keys: [] }
+  }
+
+  const resolveKeys = async (
+    alg: JwtAlgorithm,
+    header: JwtHeader
+  ): Promise<CryptoKey[]> => {
+    const params = ALGORITHMS[alg]
+
+    if (params.kty === 'oct') {
+      if (!options.secret) {
+        return []
+      }
+      const secret = options.secret
+      const key = await importCached(alg, () =>
+        crypto.subtle.importKey(
+          'raw',
+          typeof secret === 'string' ? new TextEncoder().encode(secret) : new Uint8Array(secret),
+          params.import,
+          false,
+          ['verify']
+        )
+      )
+      return key ? [key] : []
+    }
+
+    const keys: Array<CryptoKey | null> = []
+
+    if (options.publicKey) {
+      const publicKey = options.publicKey
+      keys.push(
+        await importCached(`${alg}:publicKey`, () => importPublicKey(publicKey, params))
+      )
+    }
+
+    if (options.jwks) {
+      const keySet = await resolveKeySet(header)
+      for (const jwk of keySet.keys ?? []) {
+        if (jwk.kty !== params.kty) continue
+        if (header.kid !== undefined && jwk.kid !== header.kid) continue
+        if (jwk.alg !== undefined && jwk.alg !== alg) continue
+
+        keys.push(
+          await importCached(`${alg}:${JSON.stringify(jwk)}`, () =>
+            crypto.subtle.importKey('jwk', jwk, params.import, false, ['verify'])
+          )
+        )
+      }
+    }
+
+    return keys.filter((key): key is CryptoKey => key !== null)
+  }
+
+  return async (token: string): Promise<JwtPayload> => {
+    const { header, payload, signature, signingInput } = decodeJwt(token)
+
+    if (!algorithms.includes(header.alg as JwtAlgorithm)) {
+      throw new AuthenticationError('Unsupported token algorithm')
+    }
+
+    const alg = header.alg as JwtAlgorithm
+    const keys = await resolveKeys(alg, header)
+    if (keys.length === 0) {
+      throw new AuthenticationError('No key matches the token')
+    }
+
+    const data = new TextEncoder().encode(signingInput)
+    let verified = false
+    for (const key of keys) {
+      // A key that does not fit the algorithm makes verify() throw; it simply does not match
+      const valid = await crypto.subtle
+        .verify(ALGORITHMS[alg].verify, key, signature, data)
+        .catch(() => false)
+      if (valid) {
+        verified = true
+        break
+      }
+    }
+
+    if (!verified) {
+      throw new AuthenticationError('Invalid token signature')
+    }
+
+    validateClaims(payload, options)
+    return payload
+  }
+}
+
+/**
+ * Verify a token and return its payload
+ *
+ * Checks the signature, `exp`, `nbf`, `iss` and `aud`. Prefer
+ * createJwtVerifier() for repeated verification.
+ *
+ * @param token - Compact JWS token
+ * @param options - Verification options
+ * @returns The verified payload
+ * @throws AuthenticationError if the token is invalid
+ *
+ * @example
+ * ```typescript
+ * const payload = await verifyJwt(token, { secret: process.env.JWT_SECRET! })
+ * ```
+ */
+export async function verifyJwt(token: string, options: VerifyJwtOptions): Promise<JwtPayload> {
+  return createJwtVerifier(options)(token)
+}
+
+/**
+ * Validate registered claims
+ */
+function validateClaims(payload: JwtPayload, options: VerifyJwtOptions): void {
+  const now = Math.floor(Date.now() / 1000)
+  const tolerance = options.clockTolerance ?? 0
+
+  if (payload.exp !== undefined) {
+    if (typeof payload.exp !== 'number') {
+      throw new AuthenticationError('Malformed token')
+    }
+    if (now - tolerance >= payload.exp) {
+      throw new AuthenticationError('Token has expired')
+    }
+  }
+
+  if (payload.nbf !== undefined) {
+    if (typeof payload.nbf !== 'number') {
+      throw new AuthenticationError('Malformed token')
+    }
+    if (now + tolerance < payload.nbf) {
+      throw new AuthenticationError('Token is not yet valid')
+    }
+  }
+
+  if (options.issuer !== undefined) {
+    const issuers = toArray(options.issuer)
+    if (typeof payload.iss !== 'string' || !issuers.includes(payload.iss)) {
+      throw new AuthenticationError('Invalid token issuer')
+    }
+  }
+
+  if (options.audience !== undefined) {
+    const audiences = toArray(options.audience)
+    const tokenAudiences = payload.aud === undefined ? [] : toArray(payload.aud)
+    if (!tokenAudiences.some(aud => audiences.includes(aud))) {
+      throw new AuthenticationError('Invalid token audience')
+    }
+  }
+}
+
+async function importPublicKey(
+  publicKey: string | JsonWebKey | CryptoKey,
+  params: AlgorithmParams
+): Promise<CryptoKey> {
+  if (typeof publicKey === 'string') {
+    const body = publicKey.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '')
+    return crypto.subtle.importKey('spki', base64Decode(body), params.import, false, ['verify'])
+  }
+
+  if (isCryptoKey(publicKey)) {
+    if (!keyFitsAlgorithm(publicKey, params)) {
+      throw new Error('Public key does not fit the token algorithm')
+    }
+    return publicKey
+  }
+
+  return crypto.subtle.importKey('jwk', publicKey, params.import, false, ['verify'])
+}
+
+async function readJwksFile(path: string): Promise<JsonWebKeySet> {
+  const { readFile } = await import('node:fs/promises')
+  return JSON.parse(await readFile(path, 'utf8')) as JsonWebKeySet
+}
+
+function isCryptoKey(value: unknown): value is CryptoKey {
+  return typeof CryptoKey !== 'undefined' && value instanceof CryptoKey
+}
+
+/**
+ * Whether an already imported key can verify signatures of the given algorithm
+ */
+function keyFitsAlgorithm(key: CryptoKey, params: AlgorithmParams): boolean {
+  const algorithm = key.algorithm as KeyAlgorithm & { hash?: KeyAlgorithm; namedCurve?: string }
+  const expected = params.import as { name: string; hash?: string; namedCurve?: string }
+
+  if (algorithm.name !== expected.name || !key.usages.includes('verify')) {
+    return false
+  }
+  if (expected.hash !== undefined && algorithm.hash?.name !== expected.hash) {
+    return false
+  }
+  return expected.namedCurve === undefined || algorithm.namedCurve === expected.namedCurve
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+function decodeText(value: string): string {
+  return new TextDecoder().decode(base64UrlDecode(value))
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  return base64Decode(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+}
+
+function base64Decode(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
+
+function hmac(hash: string): AlgorithmParams {
+  return { import: { name: 'HMAC', hash }, verify: 'HMAC', kty: 'oct' }
+}
+
+function rsa(hash: string): AlgorithmParams {
+  return {
+    import: { name: 'RSASSA-PKCS1-v1_5', hash },
+    verify: 'RSASSA-PKCS1-v1_5',
+    kty: 'RSA',
+  }
+}
+
+function ecdsa(hash: string, namedCurve: string): AlgorithmParams {
+  return { import: { name: 'ECDSA', namedCurve }, verify: { name: 'ECDSA', hash }, kty: 'EC' }
+}
@@ -6,6 +6,9 @@
  */
 
 import type { Logger } from '../infrastructure/logger/index.js'
+import type { HealthCheck } from '../domain/health.js'
+import type { TransactionPolicy } from '../domain/transaction.js'
+import { currentTenant } from '../core/tenancy.js'
 
 /**
  * Prisma client interface for logging attachment
@@ -13,6 +16,21 @@ import type { Logger } from '../infrastructure/logger/index.js'
  */
 export interface PrismaClientLike {
   $on: (event: string, handler: (e: unknown) => void) => void
+  $queryRaw?: (query: TemplateStringsArray, ...values: unknown[]) => Promise<unknown>
+}
+
+/**
+ * Prisma client interface for interactive transactions, as used by
+ * transactionPlugin(). A fake client implementing it is enough in tests.
+ *
+ * @template TTransaction - Client passed to the transaction callback
+ */
+export interface PrismaTransactionClientLike<TTransaction = unknown> {
+  /**
+   * Run `fn` in a transaction, committed when it resolves and rolled
+   * back when it rejects
+   */
+  $transaction<R>(fn: (tx: TTransaction) => Promise<R>, options?: TransactionPolicy): Promise<R>
 }
 
 /**
@@ -67,6 +85,9 @@ export interface PrismaLoggingOptions {
  *
  * This function attaches event listeners to a Prisma client for logging
  * query, error, info, and warning events using the provided logger.
+ * Query and error entries carry the `tenantId` of the request they were
+ * made for, when Prisma emits them in the request's async context (see
+ * createApp's `tenancy` option).
  *
  * Note: To use this, the Prisma client must be initialized with
  * event logging enabled:
@@ -136,12 +157,14 @@ export function attachPrismaLogging(
         queryLog = {
           query: queryFormatter(event.query, event.params),
           duration: event.duration ? `${event.duration}ms` : undefined,
+          ...tenantFields(),
         }
       } else {
         queryLog = {
           query: event.query,
           params: event.params,
           duration: event.duration ? `${event.duration}ms` : undefined,
+          ...tenantFields(),
         }
       }
 
@@ -157,6 +180,7 @@ export function attachPrismaLogging(
         {
           message: event.message,
           target: event.target,
+          ...tenantFields(),
         },
         'Prisma Error'
       )
@@ -180,6 +204,14 @@ export function attachPrismaLogging(
   }
 }
 
+/**
+ * Tenant of the request a Prisma event belongs to, for log entries
+ */
+function tenantFields(): { tenantId?: string } {
+  const tenant = currentTenant()
+  return tenant ? { tenantId: tenant.id } : {}
+}
+
 /**
  * Create a SQL formatter that interpolates parameters into queries
  *
@@ -234,3 +266,20 @@ export function createSqlFormatter(): (query: string, params?: string) => string
     }
   }
 }
+
+/**
+ * Create a health check that runs `SELECT 1` through a Prisma client
+ *
+ * @param prisma - The Prisma client instance
+ * @returns A health check for healthPlugin or HealthCheckRegistry
+ *
+ * @example
+ * ```typescript
+ * healthPlugin({ checks: { database: prismaHealthCheck(prisma) } })
+ * ```
+ */
+export function prismaHealthCheck(prisma: Required<Pick<PrismaClientLike, '$queryRaw'>>): HealthCheck {
+  return async () => {
+    await prisma.$queryRaw`SELECT 1`
+  }
+}
@@ -1,5 +1,6 @@
 import path from 'node:path'
 import { isController } from '../infrastructure/metadata'
+import type { BaseORPCContext } from '../domain/context'
 
 /**
  * Controller class constructor type
@@ -21,9 +22,16 @@ export interface ControllerLoaderOptions {
 
 /**
  * Dependency injection container interface
+ *
+ * The built-in `Container` implements the optional request-scope methods.
+ * Third-party containers only need `resolve`.
  */
 export interface DependencyContainer {
   resolve<T>(token: ControllerClass): T
+  /** Whether the token must be resolved once per request */
+  isRequestScoped?(token: ControllerClass): boolean
+  /** Create a resolution scope bound to the per-request context */
+  createScope?(context: BaseORPCContext): { resolve<T>(token: ControllerClass): T }
 }
 
 /**
@@ -73,22 +81,40 @@ export async function loadControllers(
           : `file://${absolutePath}`
 
       const module = await import(importPath)
+      controllers.push(...collectControllers(module, options))
+    } catch (error) {
+      options?.logger?.warn?.(`Failed to load controller from ${file}:`, error)
+    }
+  }
 
-      // Find all exports that are controller classes
-      for (const key of Object.keys(module)) {
-        const exported = module[key]
+  return controllers
+}
 
-        // Check if it's a class constructor
-        if (typeof exported === 'function' && exported.prototype) {
-          // Check for @Controller decorator metadata or naming convention
-          if (isController(exported) || key.endsWith('Controller')) {
-            controllers.push(exported)
-            options?.logger?.debug?.(`Loaded controller: ${key}`)
-          }
-        }
+/**
+ * Find the controller classes exported by an imported module.
+ * Used by loadControllers and by hot reload, which imports modules itself.
+ *
+ * @param module - Namespace object of the imported module
+ * @param options - Optional configuration (only `logger` is used)
+ * @returns Array of controller class constructors
+ */
+export function collectControllers(
+  module: Record<string, unknown>,
+  options?: ControllerLoaderOptions
+): ControllerClass[] {
+  const controllers: ControllerClass[] = []
+
+  // Find all exports that are controller classes
+  for (const key of Object.keys(module)) {
+    const exported = module[key]
+
+    // Check if it's a class constructor
+    if (typeof exported === 'function' && exported.prototype) {
+      // Check for @Controller decorator metadata or naming convention
+      if (isController(exported) || key.endsWith('Controller')) {
+        controllers.push(exported as ControllerClass)
+        options?.logger?.debug?.(`Loaded controller: ${key}`)
       }
-    } catch (error) {
-      options?.logger?.warn?.(`Failed to load controller from ${file}:`, error)
     }
   }
 
@@ -4,10 +4,53 @@ import { implement } from '@orpc/server'
 import type { AnyContractRouter } from '@orpc/contract'
 import type { RouteRegisterConfig, WithORPCMetadata } from '../domain/types'
 import { NotAControllerError, MissingHandlerError } from '../domain/errors'
-import { isController, getImplementations, getMiddleware, getMethodMiddleware, getMethodAccess } from '../infrastructure/decorators'
+import {
+  isController,
+  getImplementations,
+  getMiddleware,
+  getMethodMiddleware,
+  getMethodAccess,
+  getMethodOptions,
+} from '../infrastructure/decorators'
 import { ContractResolver } from './contract-resolver'
 import { InputExtractor } from './input-extractor'
 import { createAccessMiddleware, resolveAccessPolicy } from '../domain/access'
+import { withORPCErrors } from '../domain/error-catalogue'
+import { createEndpointDescriptor, runProcedureInterceptors, setProcedureEndpoint } from '../domain/endpoint'
+import { withAuthorization } from '../domain/authorization'
+import type { BaseORPCContext } from '../domain/context'
+import type { ProcedureImplementation } from '../domain/app-validation'
+import type { ControllerClass } from './controller-loader'
+
+/**
+ * Request scopes keyed by the oRPC context of a call. createApp gives every
+ * HTTP request and WebSocket message its own context.
+ */
+const requestScopes = new WeakMap<object, { resolve<T>(token: ControllerClass): T }>()
+
+/**
+ * List the procedures implemented by controllers, for startup validation.
+ * Values that are not controllers are skipped; registering them fails.
+ *
+ * @param controllers - Controller instances or classes
+ * @returns One entry per @Handle() method
+ */
+export function listControllerImplementations(controllers: unknown[]): ProcedureImplementation[] {
+  return controllers.flatMap((controller) => {
+    const controllerClass =
+      typeof controller === 'function' ? controller : (controller as { constructor?: Function } | null)?.constructor
+    if (!controllerClass || !isController(controllerClass)) {
+      return []
+    }
+
+    return getImplementations(controllerClass).map(({ route, methodName }) => ({
+      contract: route,
+      handler: `${controllerClass.name}.${String(methodName)}`,
+      access: getMethodAccess(controllerClass, methodName),
+      options: getMethodOptions(controllerClass, methodName),
+    }))
+  })
+}
 
 /**
  * Service for registering controller classes with Hono
@@ -31,10 +74,14 @@ export class ControllerRegistrar {
   }
 
   /**
-   * Register a controller instance with Hono
+   * Register a controller with Hono
+   *
+   * Controller classes are instantiated through the configured container
+   * (or `new` when none is configured). Request-scoped controllers are
+   * resolved once per request.
    *
    * @param app - Hono application
-   * @param controller - Controller instance to register
+   * @param controller - Controller instance or class to register
    * @returns Router structure with registered procedures
    * @throws {NotAControllerError} If class is not decorated with @Controller()
    */
@@ -42,6 +89,7 @@ export class ControllerRegistrar {
     // Validate controller
     const controllerClass = this.getControllerClass(controller)
     this.validateController(controllerClass)
+    const resolveInstance = this.createInstanceResolver(controller, controllerClass)
 
     // Get implementations
     const implementations = getImplementations(controllerClass)
@@ -58,7 +106,6 @@ export class ControllerRegistrar {
 
     for (const implementation of implementations) {
       const { route, method, methodName } = implementation
-      const boundMethod = method.bind(controller)
 
       // Get method-level middleware if available
       const methodMiddleware = getMethodMiddleware(controllerClass, methodName)
@@ -70,6 +117,29 @@ export class ControllerRegistrar {
         : []
 
       const accessPolicy = resolveAccessPolicy(methodAccess, this.config.access)
+      const endpoint = createEndpointDescriptor(
+        route,
+        routePath,
+        accessPolicy.metadata,
+        getMethodOptions(controllerClass, methodName),
+        {
+          handler: `${controllerClass.name}.${String(methodName)}`,
+          policies: accessPolicy.chain,
+          public: accessPolicy.public,
+        }
+      )
+      const procedureInterceptors = this.config.procedureInterceptors ?? []
+      const invokeMethod = (input: unknown, context: BaseORPCContext) =>
+        method.call(resolveInstance(context), input, context)
+
+      // Client errors thrown as ORPCHonoError keep their status through oRPC.
+      // The authorization rule runs before the interceptors, so cached or
+      // replayed responses are never served to a caller the rule denies.
+      const boundMethod = withORPCErrors(
+        withAuthorization(endpoint, (input, context: BaseORPCContext) =>
+          runProcedureInterceptors(procedureInterceptors, { endpoint, input, context }, invokeMethod)
+        )
+      )
 
       // Create procedure with proper middleware handling
       const procedure = this.createProcedure(
@@ -78,9 +148,11 @@ export class ControllerRegistrar {
         routePath,
         accessPolicy.producer,
         accessPolicy.metadata,
+        accessPolicy.middlewares,
         classMiddleware,
         methodMiddleware
       )
+      setProcedureEndpoint(procedure, endpoint)
 
       // Build router structure
       const structure = this.buildRouterStructure(routePath, procedure, implementation.methodName)
@@ -90,7 +162,6 @@ export class ControllerRegistrar {
     return router
   }
 
-
   /**
    * Create an oRPC procedure from contract and method
    *
@@ -98,6 +169,8 @@ export class ControllerRegistrar {
    * @param boundMethod - Bound controller method
    * @param contractPath - Path to navigate within implementer
    * @param producer - Base producer/implementer
+   * @param accessMetadata - Resolved access metadata
+   * @param policyMiddlewares - Access policy middlewares not yet applied to the producer
    * @param classMiddleware - Optional class-level middleware
    * @param methodMiddleware - Optional method-level middleware
    * @returns Procedure with handler
@@ -108,6 +181,7 @@ export class ControllerRegistrar {
     routePath: string[],
     producer: unknown,
     accessMetadata: { policy: string; permissions?: string[] },
+    policyMiddlewares: unknown[],
     classMiddleware?: unknown,
     methodMiddleware?: unknown
   ): WithORPCMetadata {
@@ -121,6 +195,13 @@ export class ControllerRegistrar {
       middlewareAppliedImplementer = (middlewareAppliedImplementer as { use: (middleware: unknown) => unknown }).use(createAccessMiddleware(accessMetadata))
     }
 
+    // Apply access policy middlewares declared without their own producer
+    for (const middleware of policyMiddlewares) {
+      if (this.hasUseMethod(middlewareAppliedImplementer)) {
+        middlewareAppliedImplementer = (middlewareAppliedImplementer as { use: (middleware: unknown) => unknown }).use(middleware)
+      }
+    }
+
     // Apply class-level middleware if available
     if (classMiddleware && this.hasUseMethod(middlewareAppliedImplementer)) {
       middlewareAppliedImplementer = (middlewareAppliedImplementer as { use: (middleware: unknown) => unknown }).use(classMiddleware)
@@ -160,11 +241,13 @@ export class ControllerRegistrar {
 
     // Create and return the procedure
     return (finalImplementer as { handler: (fn: Function) => WithORPCMetadata }).handler(
-      ({ input, context }: { input: unknown; context: unknown }) => {
+      ({ input, context, signal }: { input: unknown; context: unknown; signal?: AbortSignal }) => {
         const normalizedInput = this.inputExtractor.normalize(input)
+        const baseContext = (typeof context === 'object' && context !== null ? context : {}) as { signal?: AbortSignal }
         return boundMethod(normalizedInput, {
-          ...(typeof context === 'object' && context !== null ? context : {}),
+          ...baseContext,
           access: accessMetadata,
+          signal: signal ?? baseContext.signal,
         })
       }
     )
@@ -207,12 +290,16 @@ export class ControllerRegistrar {
   }
 
   /**
-   * Get the class constructor from a controller instance
+   * Get the class constructor from a controller instance or class
    *
-   * @param controller - Controller instance
+   * @param controller - Controller instance or class
    * @returns Class constructor
    */
   private getControllerClass(controller: unknown): Function {
+    if (typeof controller === 'function' && controller.prototype) {
+      return controller
+    }
+
     if (typeof controller !== 'object' || controller === null) {
       throw new NotAControllerError(typeof controller)
     }
@@ -220,6 +307,43 @@ export class ControllerRegistrar {
     return (controller as { constructor: Function }).constructor
   }
 
+  /**
+   * Create a function returning the controller instance for a call
+   *
+   * Instances are used as-is. Classes are resolved once through the container,
+   * or once per request when the container reports them as request-scoped.
+   *
+   * @param controller - Controller instance or class
+   * @param controllerClass - Class constructor
+   * @returns Resolver receiving the per-request context
+   */
+  private createInstanceResolver(
+    controller: unknown,
+    controllerClass: Function
+  ): (context: { honoContext?: unknown }) => unknown {
+    if (typeof controller !== 'function') {
+      return () => controller
+    }
+
+    const ControllerClass = controllerClass as ControllerClass
+    const container = this.config.container
+
+    if (container?.createScope && container.isRequestScoped?.(ControllerClass)) {
+      const createScope = container.createScope.bind(container)
+      return (context) => {
+        let scope = requestScopes.get(context)
+        if (!scope) {
+          scope = createScope(context as BaseORPCContext)
+          requestScopes.set(context, scope)
+        }
+        return scope.resolve(ControllerClass)
+      }
+    }
+
+    const instance = container ? container.resolve(ControllerClass) : new ControllerClass()
+    return () => instance
+  }
+
   /**
    * Validate that a class is a controller
    *
@@ -261,7 +385,7 @@ export class ControllerRegistrar {
     if (typeof implementer !== 'object' || implementer === null) {
       return false
     }
-    
+
     // Check if use method exists and is a function
     // Use try-catch to handle cases where use might be a getter/setter
     try {
@@ -272,7 +396,6 @@ export class ControllerRegistrar {
     }
   }
 
-
   /**
    * Deep merge source into target
    *
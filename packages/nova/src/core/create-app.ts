@@ -1,15 +1,26 @@
 import { Hono } from 'hono'
 import type { Context, Next } from 'hono'
 import type { AnyContractRouter } from '@orpc/contract'
+import type { StandardHandleResult, StandardHandlerInterceptorOptions } from '@orpc/server/standard'
 import { ORPCHono } from './orpc-hono'
+import { HotReloader } from './hot-reload'
+import { ServerLifecycle } from './server-lifecycle'
+import { createTenancyMiddleware, withTenantContext } from './tenancy'
+import { createTracingMiddleware, withTraceContext } from './tracing'
+import { WebSocketTransport } from './websocket'
+import { loadSchemaConverters } from './openapi'
+import { createDeprecationMiddleware, markOperationsDeprecated } from './versioning'
+import type { WebSocketHandlers } from './websocket'
 import { defaultContextFactory } from '../domain/context'
+import { createTimeoutInterceptor } from '../domain/timeout'
+import { matchRequestEndpoint } from '../domain/endpoint'
+import { describeRouter } from '../domain/route-table'
+import { reportValidationIssues, validateApp } from '../domain/app-validation'
 import type { BaseORPCContext, ContextFactory } from '../domain/context'
 import type { AppConfig, OutscopeApp, Plugin, PluginContext, ServerInfo } from '../plugins/types'
-import {
-  loadControllers,
-  instantiateControllers,
-  type ControllerClass,
-} from '../application/controller-loader'
+import { collectControllers, loadControllers } from '../application/controller-loader'
+import { listControllerImplementations } from '../application/controller-registrar'
+import { getLogger } from '../infrastructure/logger'
 
 /**
  * Default configuration values
@@ -17,6 +28,7 @@ import {
 const DEFAULTS = {
   apiPrefix: '/api',
   rpcPrefix: '/rpc',
+  heartbeatInterval: 5000,
 } as const
 
 /**
@@ -28,8 +40,18 @@ const DEFAULTS = {
  * - Plugin initialization and lifecycle management
  * - OpenAPI and RPC handler setup
  * - Server adapters for Node.js, Bun, and edge runtimes
+ * - Graceful shutdown that drains in-flight requests
+ * - Request IDs and W3C trace context propagation
+ * - Streamed procedure outputs with heartbeats
+ * - An optional WebSocket transport for the RPC router
+ * - Per-procedure timeouts and cancellation through `context.signal`
+ * - Hot reload of controllers during development
+ * - Startup validation of the controllers against the contract
+ * - Additional API versions with their own routes, controllers and prefixes
+ * - Tenant resolution and validation, exposed as `context.tenant`
  *
  * @template TContext - The application context type
+ * @template TRoutes - The contract router type, inferred from `routes`
  * @param config - Application configuration
  * @returns A configured application ready to start
  *
@@ -51,9 +73,12 @@ const DEFAULTS = {
  * app.listen(3000)
  * ```
  */
-export async function createApp<TContext extends BaseORPCContext = BaseORPCContext>(
-  config: AppConfig<TContext>
-): Promise<OutscopeApp<TContext>> {
+export async function createApp<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter
+>(
+  config: AppConfig<TContext, TRoutes>
+): Promise<OutscopeApp<TContext, TRoutes>> {
   const {
     routes,
     controllers: controllersConfig,
@@ -64,10 +89,35 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     plugins = [],
     onError,
     interceptors = [],
+    container,
+    shutdown: shutdownOptions,
+    tracing = {},
+    streaming = {},
+    websocket = false,
+    timeout,
+    hotReload = false,
+    validation = 'warn',
+    versions = {},
+    tenancy,
   } = config
 
-  // 1. Create Hono app
+  // Logger for messages about the app itself, as opposed to its requests
+  const logger = (tracing === false ? undefined : tracing.logger) ?? getLogger()
+
+  // 1. Create Hono app, tracking in-flight requests for graceful shutdown
   const app = new Hono()
+  const lifecycle = new ServerLifecycle(shutdownOptions)
+  app.use('*', lifecycle.middleware())
+
+  // Assign request IDs and trace context before anything logs
+  if (tracing !== false) {
+    app.use('*', createTracingMiddleware(tracing))
+  }
+
+  // Resolve the tenant before plugin middleware, so plugins can label requests with it
+  if (tenancy) {
+    app.use('*', createTenancyMiddleware(tenancy))
+  }
 
   // 2. Apply global error handler
   if (onError) {
@@ -82,6 +132,7 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     app,
     routes,
     config,
+    lifecycle,
   }
 
   for (const plugin of plugins) {
@@ -102,36 +153,116 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     app.use('*', interceptor)
   }
 
-  // 6. Load/instantiate controllers
-  let controllerInstances: unknown[]
-
-  if (typeof controllersConfig === 'string') {
-    // Glob pattern - load controllers dynamically
-    const controllerClasses = await loadControllers(controllersConfig)
-    controllerInstances = instantiateControllers(controllerClasses)
+  // 6. Setup ORPCHono
+  // Outermost, so the deadline covers plugin interceptors as well
+  const procedureInterceptors = [
+    createTimeoutInterceptor(timeout),
+    ...plugins.flatMap((plugin) => (plugin.procedureInterceptor ? [plugin.procedureInterceptor] : [])),
+  ]
+  const orpcHono = new ORPCHono({ routes, access, container, procedureInterceptors })
+
+  // 7. Load and register controllers (classes are instantiated by the
+  //    registrar, through the container when one is configured)
+  let controllers: unknown[] = []
+  let hotReloader: HotReloader | null = null
+  // Controllers of the hot reloaded modules, until they are validated
+  let reloadableControllers: unknown[] | null = []
+
+  if (typeof controllersConfig !== 'string') {
+    controllers = controllersConfig
+    if (hotReload) {
+      logger.warn('hotReload requires `controllers` to be a glob pattern; controllers will not be reloaded')
+    }
+  } else if (hotReload) {
+    hotReloader = new HotReloader(
+      {
+        pattern: controllersConfig,
+        register: (module) => {
+          const found = collectControllers(module)
+          reloadableControllers?.push(...found)
+          return orpcHono.applyMiddleware(app, { controllers: found })
+        },
+        onReload: () => installRouter(),
+      },
+      { logger, ...(hotReload === true ? {} : hotReload) }
+    )
+    await hotReloader.load()
   } else {
-    // Array of classes or instances
-    controllerInstances = controllersConfig.map((item) => {
-      // Check if it's a class constructor
-      if (typeof item === 'function' && item.prototype) {
-        return new (item as ControllerClass)()
-      }
-      // Already an instance
-      return item
-    })
+    controllers = await loadControllers(controllersConfig)
   }
 
-  // 7. Setup ORPCHono and register controllers
-  const orpcHono = new ORPCHono({
-    routes,
-    access,
-  })
+  const apiVersions = await Promise.all(
+    Object.entries(versions).map(async ([name, version]) => ({
+      name,
+      routes: version.routes,
+      access: version.access ?? access,
+      apiPrefix: version.apiPrefix,
+      rpcPrefix: version.rpcPrefix ?? `${rpcPrefix}/${name}`,
+      deprecated: version.deprecated ?? false,
+      controllers: typeof version.controllers === 'string' ? await loadControllers(version.controllers) : version.controllers,
+    }))
+  )
+
+  // Report every contract and access problem at once, rather than failing
+  // on the first unknown policy during registration
+  if (validation) {
+    const implementations = listControllerImplementations([...controllers, ...reloadableControllers])
+    const transactions = plugins.some((plugin) => plugin.name === 'transaction')
+    const issues = [
+      ...validateApp({ routes, access, implementations, transactions }),
+      ...apiVersions.flatMap((version) =>
+        validateApp({
+          routes: version.routes,
+          access: version.access,
+          implementations: listControllerImplementations(version.controllers),
+          transactions,
+        }).map((issue) => ({ ...issue, message: `${version.name}: ${issue.message}` }))
+      ),
+    ]
+    reportValidationIssues(issues, validation, logger)
+  }
+  reloadableControllers = null
 
-  const router = await orpcHono.applyMiddleware(app, {
-    controllers: controllerInstances,
+  const baseRouter: AnyContractRouter = await orpcHono.applyMiddleware(app, {
+    controllers,
   })
 
-  // 8. Create handlers for API and RPC routes
+  const versionRouters = await Promise.all(
+    apiVersions.map(async (version) => ({
+      ...version,
+      router: await new ORPCHono({
+        routes: version.routes,
+        access: version.access,
+        container,
+        procedureInterceptors,
+      }).applyMiddleware(app, { controllers: version.controllers }),
+    }))
+  )
+
+  // Procedures added by registerController(), kept across reloads
+  const registeredRouter: Record<string, unknown> = {}
+
+  // The router object is shared with plugins, so it is updated in place
+  const router: any = { ...(hotReloader ? hotReloader.router(baseRouter) : baseRouter) }
+
+  // 8. Create handlers for API, RPC and WebSocket routes
+  let webSocketTransport: WebSocketTransport | null = null
+
+  // oRPC handlers index the router when they are created, so changing the
+  // router means creating new handlers
+  let createHandlers = () => {}
+
+  // Swap in the current procedures. Synchronous, so every request is
+  // served entirely by either the previous or the new router.
+  const installRouter = () => {
+    const next = hotReloader ? hotReloader.router(baseRouter) : baseRouter
+    for (const key of Object.keys(router)) {
+      delete router[key]
+    }
+    Object.assign(router, next, registeredRouter)
+    createHandlers()
+  }
+
   const setupHandlers = async () => {
     // Dynamic imports for optional dependencies
     let OpenAPIHandler: any
@@ -168,39 +299,80 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     }
 
     const handlerOptions = {
+      eventIteratorKeepAliveEnabled: streaming.heartbeatInterval !== false,
+      eventIteratorKeepAliveInterval: streaming.heartbeatInterval || DEFAULTS.heartbeatInterval,
+      eventIteratorKeepAliveComment: streaming.heartbeatComment,
       plugins: CORSPlugin ? [new CORSPlugin()] : [],
       interceptors: onErrorInterceptor
         ? [onErrorInterceptor((error: unknown) => console.error('oRPC Error:', error))]
         : [],
+      // Runs before access middlewares, so plugins see rejected requests' endpoints
+      clientInterceptors: [
+        ({ context, procedure, next }: { context: BaseORPCContext; procedure: object; next: () => Promise<unknown> }) => {
+          matchRequestEndpoint(context.honoContext, procedure)
+          matchRequestEndpoint(context, procedure)
+          return next()
+        },
+      ],
     }
 
-    // Setup OpenAPI handler
-    if (OpenAPIHandler) {
-      const openAPIHandler = new OpenAPIHandler(router, handlerOptions)
+    // Messages on a connection share its Hono context, so each message gets
+    // its own oRPC context to key per-call state such as request scopes
+    const webSocketHandlerOptions = {
+      ...handlerOptions,
+      rootInterceptors: [
+        ({
+          next,
+          ...options
+        }: StandardHandlerInterceptorOptions<BaseORPCContext> & {
+          next: (options: StandardHandlerInterceptorOptions<BaseORPCContext>) => Promise<StandardHandleResult>
+        }) => next({ ...options, context: { ...options.context } }),
+      ],
+      clientInterceptors: [
+        ({ context, procedure, next }: { context: BaseORPCContext; procedure: object; next: () => Promise<unknown> }) => {
+          matchRequestEndpoint(context, procedure)
+          return next()
+        },
+      ],
+    }
 
-      app.use(`${apiPrefix}/*`, async (c: Context, next: Next) => {
-        const context = await createContext({ honoContext: c })
-        const { matched, response } = await openAPIHandler.handle(c.req.raw, {
-          prefix: apiPrefix,
-          context,
-        })
+    let openAPIHandler: any
+    let rpcHandler: any
+    let createWebSocketHandlers: (() => WebSocketHandlers) | null = null
 
-        if (matched) {
-          return c.newResponse(response.body, response)
-        }
+    if (websocket) {
+      const [{ RPCHandler: WsRPCHandler }, { RPCHandler: BunWsRPCHandler }] = await Promise.all([
+        import('@orpc/server/ws'),
+        import('@orpc/server/bun-ws'),
+      ])
 
-        await next()
+      createWebSocketHandlers = () => ({
+        node: new WsRPCHandler(router, webSocketHandlerOptions),
+        bun: new BunWsRPCHandler(router, webSocketHandlerOptions),
       })
     }
 
-    // Setup RPC handler
-    if (RPCHandler) {
-      const rpcHandler = new RPCHandler(router, handlerOptions)
+    createHandlers = () => {
+      openAPIHandler = OpenAPIHandler ? new OpenAPIHandler(router, handlerOptions) : undefined
+      rpcHandler = RPCHandler ? new RPCHandler(router, handlerOptions) : undefined
+      if (webSocketTransport && createWebSocketHandlers) {
+        webSocketTransport.setHandlers(createWebSocketHandlers())
+      }
+    }
+
+    createHandlers()
 
-      app.use(`${rpcPrefix}/*`, async (c: Context, next: Next) => {
-        const context = await createContext({ honoContext: c })
-        const { matched, response } = await rpcHandler.handle(c.req.raw, {
-          prefix: rpcPrefix,
+    // Requests the handler does not match, or under a skipped prefix, fall
+    // through to the next mount
+    const mount = (prefix: string, getHandler: () => any, skip: string[] = []) => {
+      app.use(`${prefix}/*`, async (c: Context, next: Next) => {
+        if (skip.some((skipped) => c.req.path === skipped || c.req.path.startsWith(`${skipped}/`))) {
+          return next()
+        }
+
+        const context = withTenantContext(withTraceContext(await createContext({ honoContext: c }), c), c)
+        const { matched, response } = await getHandler().handle(c.req.raw, {
+          prefix,
           context,
         })
 
@@ -211,9 +383,47 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
         await next()
       })
     }
+
+    // Setup OpenAPI and RPC handlers; versions are served by their own mounts,
+    // even where their prefixes are inside the main ones
+    const versionPrefixes = versionRouters.flatMap((version) => [version.apiPrefix, version.rpcPrefix])
+    if (OpenAPIHandler) {
+      mount(apiPrefix, () => openAPIHandler, versionPrefixes)
+    }
+    if (RPCHandler) {
+      mount(rpcPrefix, () => rpcHandler, versionPrefixes)
+    }
+
+    // Setup additional API versions; their routers do not change
+    for (const version of versionRouters) {
+      if (version.deprecated) {
+        const deprecation = createDeprecationMiddleware(
+          version.name,
+          version.deprecated === true ? {} : version.deprecated
+        )
+        app.use(`${version.apiPrefix}/*`, deprecation)
+        app.use(`${version.rpcPrefix}/*`, deprecation)
+      }
+
+      if (OpenAPIHandler) {
+        const handler = new OpenAPIHandler(version.router, handlerOptions)
+        mount(version.apiPrefix, () => handler)
+      }
+      if (RPCHandler) {
+        const handler = new RPCHandler(version.router, handlerOptions)
+        mount(version.rpcPrefix, () => handler)
+      }
+    }
+
+    // Setup WebSocket transport; connections are accepted once the server starts
+    if (websocket && createWebSocketHandlers) {
+      webSocketTransport = new WebSocketTransport(websocket === true ? {} : websocket, createWebSocketHandlers())
+      app.get(webSocketTransport.path, webSocketTransport.route(createContext as ContextFactory<BaseORPCContext>))
+    }
   }
 
   await setupHandlers()
+  hotReloader?.watch()
 
   // 9. Call plugins (onReady phase)
   const readyContext: PluginContext<TContext> = {
@@ -221,6 +431,7 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     routes,
     router,
     config,
+    lifecycle,
   }
 
   for (const plugin of plugins) {
@@ -229,57 +440,72 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
     }
   }
 
-  // 10. Create OpenAPI spec generator
-  let cachedOpenAPISpec: object | null = null
+  // 10. Create OpenAPI spec generator, one spec per API version
+  const cachedOpenAPISpecs = new Map<string, object>()
 
-  const getOpenAPISpec = async (): Promise<object> => {
-    if (cachedOpenAPISpec) {
-      return cachedOpenAPISpec
+  const getOpenAPISpec = async (versionName?: string): Promise<object> => {
+    const version = versionName === undefined ? undefined : apiVersions.find(({ name }) => name === versionName)
+    if (versionName !== undefined && !version) {
+      throw new Error(`Unknown API version "${versionName}"`)
     }
 
+    const cacheKey = versionName ?? ''
+    const cached = cachedOpenAPISpecs.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const info = { title: 'API', version: versionName ?? '1.0.0' }
+
     try {
       const { OpenAPIGenerator } = await import('@orpc/openapi')
-      const { ZodToJsonSchemaConverter } = await import('@orpc/zod')
-
-      const generator = new OpenAPIGenerator({
-        schemaConverters: [new ZodToJsonSchemaConverter()],
-      })
+      const generator = new OpenAPIGenerator({ schemaConverters: await loadSchemaConverters(logger) })
 
-      cachedOpenAPISpec = await generator.generate(routes, {
-        info: {
-          title: 'API',
-          version: '1.0.0',
-        },
+      const spec = await generator.generate(version?.routes ?? routes, {
+        info,
         servers: [
           {
-            url: apiPrefix,
+            url: version?.apiPrefix ?? apiPrefix,
             description: 'API Server',
           },
         ],
       })
 
-      return cachedOpenAPISpec
+      cachedOpenAPISpecs.set(cacheKey, version?.deprecated ? markOperationsDeprecated(spec) : spec)
+      return cachedOpenAPISpecs.get(cacheKey)!
     } catch {
       return {
         openapi: '3.0.0',
-        info: { title: 'API', version: '1.0.0' },
+        info,
         paths: {},
       }
     }
   }
 
   // 11. Build OutscopeApp wrapper
-  const outscopeApp: OutscopeApp<TContext> = {
+  const handleSignal = (signal: NodeJS.Signals) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`)
+    outscopeApp.shutdown().then(
+      () => process.exit(0),
+      (error) => {
+        logger.error('Graceful shutdown failed:', error)
+        process.exit(1)
+      }
+    )
+  }
+
+  const outscopeApp: OutscopeApp<TContext, TRoutes> = {
     hono: app,
     router,
     routes,
+    rpcPrefix,
     plugins,
 
     listen(port: number, callback?: (info: ServerInfo) => void) {
       // Dynamic import for Node.js server
       import('@hono/node-server')
         .then(({ serve }) => {
-          serve(
+          const server = serve(
             {
               fetch: app.fetch,
               port,
@@ -293,6 +519,10 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
               callback?.({ port: info.port })
             }
           )
+
+          lifecycle.attachNodeServer(server)
+          webSocketTransport?.attachNodeServer(server, app.fetch)
+          lifecycle.installSignalHandlers(handleSignal)
         })
         .catch((error) => {
           console.error('Failed to start server. Install @hono/node-server:', error.message)
@@ -303,12 +533,16 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
       // For Bun runtime
       const bunServe = (globalThis as any).Bun?.serve
       if (bunServe) {
-        bunServe({
+        const server = bunServe({
           fetch: app.fetch,
           port: options.port,
           hostname: options.hostname,
+          websocket: webSocketTransport?.bunWebSocket(),
         })
 
+        lifecycle.attachBunServer(server)
+        lifecycle.installSignalHandlers(handleSignal)
+
         // Notify plugins
         for (const plugin of plugins) {
           plugin.onStart?.({ port: options.port })
@@ -318,25 +552,48 @@ export async function createApp<TContext extends BaseORPCContext = BaseORPCConte
       }
     },
 
-    fetch: app.fetch.bind(app) as OutscopeApp<TContext>['fetch'],
+    fetch: app.fetch.bind(app) as OutscopeApp<TContext, TRoutes>['fetch'],
 
     getOpenAPISpec,
 
+    describeRoutes() {
+      const interceptors = plugins.flatMap((plugin) => (plugin.procedureInterceptor ? [plugin.name] : []))
+      return [
+        ...describeRouter(router, { apiPrefix, rpcPrefix, interceptors }),
+        ...versionRouters.flatMap((version) =>
+          describeRouter(version.router, {
+            apiPrefix: version.apiPrefix,
+            rpcPrefix: version.rpcPrefix,
+            interceptors,
+            version: version.name,
+          })
+        ),
+      ]
+    },
+
     async registerController(controller: unknown) {
       const additionalRouter = await orpcHono.applyMiddleware(app, {
         controllers: [controller],
       })
       // Merge into existing router
-      Object.assign(router, additionalRouter)
+      Object.assign(registeredRouter, additionalRouter)
+      installRouter()
     },
 
-    async shutdown() {
-      // Call plugin shutdown hooks
-      for (const plugin of plugins) {
-        if (plugin.onShutdown) {
-          await plugin.onShutdown()
+    shutdown(options?: { timeout?: number }) {
+      const shutdown = lifecycle.shutdown(async () => {
+        // Call plugin shutdown hooks in reverse registration order
+        for (const plugin of [...plugins].reverse()) {
+          if (plugin.onShutdown) {
+            await plugin.onShutdown()
+          }
         }
-      }
+      }, options?.timeout)
+
+      // Open sockets would hold the server open until the deadline
+      webSocketTransport?.close()
+      hotReloader?.close()
+      return shutdown
     },
   }
 
@@ -0,0 +1,168 @@
+import 'reflect-metadata'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { implement } from '@orpc/server'
+import { createApp } from './create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import type { OutscopeApp } from '../plugins/types'
+
+// Lets a test simulate Linux before Node 20, where fs.watch is not recursive
+const platform = vi.hoisted(() => ({ recursiveWatch: true }))
+vi.mock('node:fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs')>()
+  const watch = ((...args: Parameters<typeof fs.watch>) => {
+    if (!platform.recursiveWatch && (args[1] as { recursive?: boolean } | undefined)?.recursive) {
+      throw Object.assign(new TypeError('The feature watch recursively is unavailable on the current platform'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      })
+    }
+    return fs.watch(...args)
+  }) as typeof fs.watch
+  return { ...fs, default: { ...fs, watch }, watch }
+})
+
+const ROUTES = `import { oc } from '@orpc/contract'
+import { z } from 'zod'
+
+const task = z.object({ title: z.string() })
+
+export const routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/tasks' }).output(z.array(task)),
+    get: oc.route({ method: 'GET', path: '/tasks/{id}' }).input(z.object({ id: z.string() })).output(task),
+  },
+  health: oc.route({ method: 'GET', path: '/health' }).output(z.object({ ok: z.boolean() })),
+}
+`
+
+function taskController(title: string, withGet = true) {
+  return `import { Controller, Handle, Public } from '../../infrastructure/decorators'
+import { routes } from './routes'
+
+@Controller()
+export class TaskController {
+  @Public()
+  @Handle(routes.tasks.list)
+  list() {
+    return [{ title: '${title}' }]
+  }
+${
+  withGet
+    ? `
+  @Public()
+  @Handle(routes.tasks.get)
+  get(input: { id: string }) {
+    return { title: input.id }
+  }
+`
+    : ''
+}}
+`
+}
+
+const HEALTH_CONTROLLER = `import { Controller, Handle, Public } from '../../infrastructure/decorators'
+import { routes } from './routes'
+
+@Controller()
+export class HealthController {
+  @Public()
+  @Handle(routes.health)
+  check() {
+    return { ok: true }
+  }
+}
+`
+
+describe('hot reload', () => {
+  let dir: string
+  let app: OutscopeApp
+  const logger = { info: vi.fn(), warn: vi.fn() }
+
+  async function createTestApp() {
+    const { routes } = await import(join(dir, 'routes.ts'))
+    const app = await createApp({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+      }),
+      controllers: `${dir}/*.controller.ts`,
+      hotReload: { debounce: 10, logger },
+    })
+    // The watcher starts in the background
+    await vi.waitFor(() => expect(logger.info).toHaveBeenCalledWith(`[hot-reload] Watching ${dir}/*.controller.ts`))
+    return app
+  }
+
+  beforeEach(async () => {
+    // Inside the package, so the fixtures are compiled with its decorator settings
+    dir = await mkdtemp(join(__dirname, '.hot-reload-'))
+    await writeFile(join(dir, 'routes.ts'), ROUTES)
+    await writeFile(join(dir, 'task.controller.ts'), taskController('v1'))
+    app = await createTestApp()
+  })
+
+  afterEach(async () => {
+    await app.shutdown()
+    await rm(dir, { recursive: true, force: true })
+    platform.recursiveWatch = true
+    vi.clearAllMocks()
+  })
+
+  async function get(path: string) {
+    const response = await app.fetch(new Request(`http://localhost/api${path}`))
+    const body = await response.text()
+    return { status: response.status, body: response.status === 200 ? JSON.parse(body) : undefined }
+  }
+
+  it('swaps changed controllers into the running app', async () => {
+    expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v1' }] })
+    expect(await get('/tasks/1')).toEqual({ status: 200, body: { title: '1' } })
+
+    await writeFile(join(dir, 'task.controller.ts'), taskController('v2', false))
+
+    await vi.waitFor(async () => expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v2' }] }), {
+      timeout: 5000,
+    })
+    expect((await get('/tasks/1')).status).toBe(404)
+    expect(app.router).not.toHaveProperty('tasks.get')
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringMatching(/Reloaded .*task\.controller\.ts: tasks\.list, removed tasks\.get$/)
+    )
+  })
+
+  it('loads added and drops deleted controllers', async () => {
+    await writeFile(join(dir, 'health.controller.ts'), HEALTH_CONTROLLER)
+    await vi.waitFor(async () => expect(await get('/health')).toEqual({ status: 200, body: { ok: true } }), {
+      timeout: 5000,
+    })
+
+    await rm(join(dir, 'health.controller.ts'))
+    await vi.waitFor(async () => expect((await get('/health')).status).toBe(404), { timeout: 5000 })
+    expect(logger.info).toHaveBeenCalledWith(expect.stringMatching(/Removed .*health\.controller\.ts: health$/))
+  })
+
+  it('keeps the previous procedures when a module fails to load', async () => {
+    await writeFile(join(dir, 'task.controller.ts'), 'export const broken = ;')
+    await vi.waitFor(() => expect(logger.warn).toHaveBeenCalled(), { timeout: 5000 })
+
+    expect(logger.warn.mock.calls[0][0]).toMatch(/Failed to reload .*task\.controller\.ts, keeping its procedures/)
+    expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v1' }] })
+  })
+
+  it('watches each directory where fs.watch cannot watch recursively', async () => {
+    await app.shutdown()
+    platform.recursiveWatch = false
+    vi.clearAllMocks()
+    app = await createTestApp()
+
+    await writeFile(join(dir, 'task.controller.ts'), taskController('v2'))
+
+    await vi.waitFor(async () => expect(await get('/tasks')).toEqual({ status: 200, body: [{ title: 'v2' }] }), {
+      timeout: 5000,
+    })
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from 'vitest'
+import { loadSchemaConverters } from './openapi'
+
+// zod before 3.25 has no zod/v4/core, which @orpc/zod/zod4 imports
+vi.mock('@orpc/zod/zod4', () => {
+  throw new Error('Cannot find module zod/v4/core')
+})
+
+describe('loadSchemaConverters', () => {
+  it('keeps the converters that load and logs the others', async () => {
+    const logger = { warn: vi.fn() }
+
+    const converters = await loadSchemaConverters(logger)
+
+    expect(converters).toHaveLength(1)
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to load @orpc/zod/zod4, zod 4 schemas are left out of the OpenAPI spec:',
+      expect.any(Error)
+    )
+  })
+})
@@ -0,0 +1,36 @@
+import type { ConditionalSchemaConverter } from '@orpc/openapi'
+import type { Logger } from '../infrastructure/logger'
+
+/**
+ * zod schema converters for OpenAPI generation
+ *
+ * Each converter only handles schemas of its own zod major version. They are
+ * imported one by one, since `@orpc/zod/zod4` imports `zod/v4/core`, which
+ * zod 3 only provides since 3.25: a converter that fails to load is logged
+ * and left out, so the spec still describes the schemas of the other one.
+ */
+const CONVERTERS = [
+  { module: '@orpc/zod/zod4', schemas: 'zod 4', load: () => import('@orpc/zod/zod4') },
+  { module: '@orpc/zod', schemas: 'zod 3', load: () => import('@orpc/zod') },
+]
+
+/**
+ * Load the zod schema converters that are available
+ *
+ * @param logger - Receives a warning for each converter that fails to load
+ * @returns Converters for the OpenAPI generator
+ */
+export async function loadSchemaConverters(logger: Pick<Logger, 'warn'>): Promise<ConditionalSchemaConverter[]> {
+  const converters: ConditionalSchemaConverter[] = []
+
+  for (const { module, schemas, load } of CONVERTERS) {
+    try {
+      const { ZodToJsonSchemaConverter } = await load()
+      converters.push(new ZodToJsonSchemaConverter())
+    } catch (error) {
+      logger.warn(`Failed to load ${module}, ${schemas} schemas are left out of the OpenAPI spec:`, error)
+    }
+  }
+
+  return converters
+}
@@ -38,6 +38,8 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
   private readonly interceptors: HonoMiddleware[]
   private readonly routes?: TContract
   private readonly access: ORPCHonoOptions<TContract>['access']
+  private readonly container: ORPCHonoOptions<TContract>['container']
+  private readonly procedureInterceptors: NonNullable<ORPCHonoOptions<TContract>['procedureInterceptors']>
 
   /**
    * Create a new ORPCHono instance
@@ -46,11 +48,15 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
    * @param options.interceptors - Global middleware functions (default: [])
    * @param options.routes - Root route router for path resolution
    * @param options.access - Global access policy registry
+   * @param options.container - Dependency container for controller classes
+   * @param options.procedureInterceptors - Interceptors wrapping handler invocations (default: [])
    */
   constructor(options: ORPCHonoOptions<TContract>) {
     this.interceptors = options.interceptors ?? []
     this.routes = options.routes
     this.access = options.access
+    this.container = options.container
+    this.procedureInterceptors = options.procedureInterceptors ?? []
   }
 
   /**
@@ -64,7 +70,7 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
    *
    * @param app - Hono application instance
    * @param options - Registration options
-   * @param options.controllers - Controller instances to register
+   * @param options.controllers - Controller instances or classes to register
    * @returns Router structure with registered procedures
    *
    * @example
@@ -105,7 +111,7 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
    * Register all controllers with Hono
    *
    * @param app - Hono application
-   * @param controllers - Controller instances to register
+   * @param controllers - Controller instances or classes to register
    * @returns Merged router structure
    */
   private async registerControllers(
@@ -115,6 +121,8 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
     const registrar = new ControllerRegistrar({
       routes: this.routes as AnyContractRouter,
       access: this.access,
+      container: this.container,
+      procedureInterceptors: this.procedureInterceptors,
     })
 
     const router: AnyContractRouter = {} as AnyContractRouter
@@ -122,40 +130,12 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
     for (const controller of controllers) {
       const controllerRouter = await registrar.register(app, controller)
       // Deep merge controller router into main router
-      this.mergeRouters(router as Record<string, unknown>, controllerRouter as Record<string, unknown>)
+      mergeRouters(router as Record<string, unknown>, controllerRouter as Record<string, unknown>)
     }
 
     return router
   }
 
-  /**
-   * Deep merge two router structures
-   *
-   * @param target - Target router to merge into
-   * @param source - Source router to merge from
-   */
-  private mergeRouters(target: Record<string, unknown>, source: Record<string, unknown>): void {
-    for (const [key, value] of Object.entries(source)) {
-      if (key in target && this.isPlainObject(target[key]) && this.isPlainObject(value)) {
-        // Both are objects, merge recursively
-        this.mergeRouters(target[key] as Record<string, unknown>, value as Record<string, unknown>)
-      } else {
-        // Not both objects, or key doesn't exist, overwrite
-        target[key] = value
-      }
-    }
-  }
-
-  /**
-   * Check if a value is a plain object
-   *
-   * @param value - Value to check
-   * @returns true if plain object
-   */
-  private isPlainObject(value: unknown): boolean {
-    return typeof value === 'object' && value !== null && !Array.isArray(value)
-  }
-
   /**
    * Get the configured route router
    *
@@ -175,3 +155,31 @@ export class ORPCHono<TContract extends AnyContractRouter = AnyContractRouter> {
   }
 
 }
+
+/**
+ * Deep merge two router structures
+ *
+ * @param target - Target router to merge into
+ * @param source - Source router to merge from
+ */
+export function mergeRouters(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (key in target && isPlainObject(target[key]) && isPlainObject(value)) {
+      // Both are objects, merge recursively
+      mergeRouters(target[key] as Record<string, unknown>, value as Record<string, unknown>)
+    } else {
+      // Not both objects, or key doesn't exist, overwrite
+      target[key] = value
+    }
+  }
+}
+
+/**
+ * Check if a value is a plain object
+ *
+ * @param value - Value to check
+ * @returns true if plain object
+ */
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { Hono } from 'hono'
+import { serve } from '@hono/node-server'
+import type { AddressInfo } from 'node:net'
+import { ServerLifecycle } from './server-lifecycle'
+
+function startServer(lifecycle: ServerLifecycle, delay: number) {
+  const app = new Hono()
+  app.use('*', lifecycle.middleware())
+  app.get('/slow', async (c) => {
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    return c.text('done')
+  })
+  app.get('/stream', (c) => {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(encoder.encode('first '))
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        controller.enqueue(encoder.encode('last'))
+        controller.close()
+      },
+    })
+    return c.body(body)
+  })
+
+  return new Promise<{ app: Hono; port: number }>((resolve) => {
+    const server = serve({ fetch: app.fetch, port: 0 }, (info: AddressInfo) => {
+      resolve({ app, port: info.port })
+    })
+    lifecycle.attachNodeServer(server)
+  })
+}
+
+describe('ServerLifecycle', () => {
+  it('waits for in-flight requests before running cleanup', async () => {
+    const lifecycle = new ServerLifecycle({ timeout: 2000 })
+    const { app, port } = await startServer(lifecycle, 100)
+    const events: string[] = []
+
+    const pending = fetch(`http://127.0.0.1:${port}/slow`).then(async (res) => {
+      events.push(`response:${await res.text()}`)
+    })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(lifecycle.activeRequests).toBe(1)
+
+    await lifecycle.shutdown(async () => {
+      events.push('cleanup')
+    })
+    await pending
+
+    expect(events).toEqual(['response:done', 'cleanup'])
+    expect((await app.request('/slow')).status).toBe(503)
+  })
+
+  it('keeps a streaming response in flight until its body is sent', async () => {
+    const lifecycle = new ServerLifecycle({ timeout: 2000 })
+    const { port } = await startServer(lifecycle, 100)
+    const events: string[] = []
+
+    const pending = fetch(`http://127.0.0.1:${port}/stream`).then(async (res) => {
+      events.push(`response:${await res.text()}`)
+    })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(lifecycle.activeRequests).toBe(1)
+
+    await lifecycle.shutdown(async () => {
+      events.push('cleanup')
+    })
+    await pending
+
+    expect(events).toEqual(['response:first last', 'cleanup'])
+    expect(lifecycle.activeRequests).toBe(0)
+  })
+
+  it('stops waiting once the deadline passes', async () => {
+    const lifecycle = new ServerLifecycle({ timeout: 50 })
+    const { port } = await startServer(lifecycle, 1000)
+
+    const pending = fetch(`http://127.0.0.1:${port}/slow`).catch(() => 'aborted')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    const startedAt = Date.now()
+    await lifecycle.shutdown(async () => {})
+
+    expect(Date.now() - startedAt).toBeLessThan(500)
+    expect(await pending).toBe('aborted')
+  })
+
+  it('returns the same promise for repeated calls', () => {
+    const lifecycle = new ServerLifecycle()
+    const cleanup = async () => {}
+
+    expect(lifecycle.shutdown(cleanup)).toBe(lifecycle.shutdown(cleanup))
+  })
+})
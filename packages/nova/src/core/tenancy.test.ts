@@ -0,0 +1,234 @@
+import 'reflect-metadata'
+import { describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { createApp } from './create-app'
+import type { TenancyOptions } from './tenancy'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext, TenantContext } from '../domain/context'
+import { Cache, Controller, Handle, Idempotent, Public, RateLimit } from '../infrastructure/decorators'
+import type { Logger } from '../infrastructure/logger'
+import { MemoryTenantStore } from '../infrastructure/tenant-store'
+import { tenantPolicy } from '../policies/tenant'
+import { cachePlugin } from '../plugins/cache'
+import { idempotencyPlugin } from '../plugins/idempotency'
+import { metricsPlugin } from '../plugins/metrics'
+import { rateLimitPlugin } from '../plugins/rate-limit'
+import { attachPrismaLogging } from '../utils/prisma'
+
+const routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/{tenant}/tasks' }).output(z.object({ tenant: z.string() })),
+    count: oc.route({ method: 'GET', path: '/count' }).output(z.object({ tenant: z.string().nullable() })),
+    summary: oc.route({ method: 'GET', path: '/summary' }).output(z.object({ tenant: z.string().nullable() })),
+    create: oc.route({ method: 'POST', path: '/tasks' }).output(z.object({ tenant: z.string().nullable() })),
+  },
+}
+
+const store = new MemoryTenantStore([
+  { id: 'acme', name: 'Acme' },
+  { id: 'globex', name: 'Globex', plan: 'free' },
+])
+
+const encoder = new TextEncoder()
+const base64Url = (data: string | Uint8Array) =>
+  Buffer.from(typeof data === 'string' ? encoder.encode(data) : data).toString('base64url')
+
+async function signHS256(payload: Record<string, unknown>): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode('secret'), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ])
+  const signingInput = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(payload))}`
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(signingInput)))
+  return `${signingInput}.${base64Url(signature)}`
+}
+
+// Stands in for a Prisma client with event logging
+const prismaListeners: Record<string, (event: unknown) => void> = {}
+const prisma = { $on: (event: string, handler: (event: unknown) => void) => void (prismaListeners[event] = handler) }
+
+@Controller()
+class TaskController {
+  @Handle(routes.tasks.list)
+  list(_input: unknown, context: TenantContext) {
+    return { tenant: context.tenant.id }
+  }
+
+  @Public()
+  @Handle(routes.tasks.count)
+  count(_input: unknown, context: BaseORPCContext) {
+    context.logger?.info('counting')
+    prismaListeners.query?.({ query: 'SELECT count(*) FROM "Task"', duration: 2 })
+    return { tenant: context.tenant?.id ?? null }
+  }
+
+  @Cache({ ttl: 60_000 })
+  @Public()
+  @Handle(routes.tasks.summary)
+  summary(_input: unknown, context: BaseORPCContext) {
+    return { tenant: context.tenant?.id ?? null }
+  }
+
+  @Idempotent()
+  @RateLimit({ limit: 1, windowMs: 60_000, key: 'user' })
+  @Public()
+  @Handle(routes.tasks.create)
+  create(_input: unknown, context: BaseORPCContext) {
+    return { tenant: context.tenant?.id ?? null }
+  }
+}
+
+function createTestApp(tenancy: TenancyOptions, options: { logger?: Logger } = {}) {
+  return createApp({
+    routes,
+    access: defineAccess({
+      default: 'tenant',
+      policies: {
+        public: { producer: implement(routes).$context<BaseORPCContext>() },
+        tenant: tenantPolicy({
+          uses: 'public',
+          authorize: (tenant) => tenant.plan !== 'free',
+        }),
+      },
+    }),
+    controllers: [TaskController],
+    tenancy,
+    tracing: options.logger ? { logger: options.logger } : {},
+    plugins: [metricsPlugin({ tenantLabel: true })],
+  })
+}
+
+describe('tenancy', () => {
+  it('resolves the tenant with the first resolver that finds an ID', async () => {
+    const app = await createTestApp({
+      resolve: [{ from: 'header' }, { from: 'subdomain', baseDomain: 'example.com' }, { from: 'path', segment: 1 }],
+      store,
+    })
+
+    const byHeader = await app.fetch(
+      new Request('http://globex.example.com/api/count', { headers: { 'x-tenant-id': 'acme' } })
+    )
+    expect(await byHeader.json()).toEqual({ tenant: 'acme' })
+
+    const bySubdomain = await app.fetch(new Request('http://acme.example.com/api/count'))
+    expect(await bySubdomain.json()).toEqual({ tenant: 'acme' })
+
+    const byPath = await app.fetch(new Request('http://localhost/api/acme/tasks'))
+    expect(await byPath.json()).toEqual({ tenant: 'acme' })
+
+    const unknown = await app.fetch(new Request('http://initech.example.com/api/count'))
+    expect(await unknown.json()).toEqual({ tenant: null })
+  })
+
+  it('rejects missing, unknown and unauthorized tenants with tenantPolicy', async () => {
+    const app = await createTestApp({ resolve: { from: 'path', segment: 1 }, store })
+
+    const missing = await app.fetch(new Request('http://localhost/api//tasks'))
+    expect(missing.status).toBe(400)
+    expect(await missing.json()).toMatchObject({ code: 'TENANT_REQUIRED' })
+
+    const unknown = await app.fetch(new Request('http://localhost/api/initech/tasks'))
+    expect(unknown.status).toBe(404)
+    expect(await unknown.json()).toMatchObject({ code: 'TENANT_NOT_FOUND', message: 'Unknown tenant "initech"' })
+
+    const unauthorized = await app.fetch(new Request('http://localhost/api/globex/tasks'))
+    expect(unauthorized.status).toBe(403)
+  })
+
+  it('reads the tenant from a verified JWT claim', async () => {
+    const app = await createTestApp({ resolve: { from: 'jwt', jwt: { secret: 'secret' } }, store })
+    const token = await signHS256({ sub: 'user-1', tenant_id: 'acme' })
+
+    const verified = await app.fetch(
+      new Request('http://localhost/api/count', { headers: { authorization: `Bearer ${token}` } })
+    )
+    expect(await verified.json()).toEqual({ tenant: 'acme' })
+
+    const forged = await app.fetch(
+      new Request('http://localhost/api/count', { headers: { authorization: `Bearer ${token.slice(0, -2)}xx` } })
+    )
+    expect(await forged.json()).toEqual({ tenant: null })
+  })
+
+  it('attaches the tenant ID to logs, metrics and Prisma query logs', async () => {
+    const bindings: Record<string, unknown>[] = []
+    const logger = {
+      child: (fields: Record<string, unknown>) => {
+        bindings.push(fields)
+        return logger
+      },
+      info: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Logger
+    attachPrismaLogging(prisma, logger, { logErrors: false, logInfo: false, logWarnings: false })
+
+    const app = await createTestApp({ resolve: (c) => c.req.header('x-tenant'), store }, { logger })
+    await app.fetch(new Request('http://localhost/api/count', { headers: { 'x-tenant': 'acme' } }))
+
+    expect(bindings.at(-1)).toMatchObject({ requestId: expect.any(String), tenantId: 'acme' })
+    expect(logger.info).toHaveBeenCalledWith('counting')
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'SELECT count(*) FROM "Task"', tenantId: 'acme' }),
+      'Prisma Query'
+    )
+
+    const metrics = await (await app.fetch(new Request('http://localhost/metrics'))).text()
+    expect(metrics).toContain('tenant="acme"')
+  })
+})
+
+describe('tenant-scoped plugins', () => {
+  function createPluginApp(tenancy: TenancyOptions) {
+    return createApp({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+      }),
+      controllers: [TaskController],
+      createContext: ({ honoContext }) => {
+        const userId = honoContext.req.header('x-user')
+        return { honoContext, ...(userId ? { auth: { userId } } : {}) }
+      },
+      tenancy,
+      plugins: [cachePlugin(), idempotencyPlugin(), rateLimitPlugin()],
+    })
+  }
+
+  it('keeps cache entries, idempotency keys and rate limit counters apart per tenant', async () => {
+    const app = await createPluginApp({ resolve: { from: 'header' }, store })
+    const call = (tenant: string, method: string, path: string) =>
+      app.fetch(
+        new Request(`http://localhost/api${path}`, {
+          method,
+          headers: { 'x-tenant-id': tenant, 'x-user': 'ada', 'Idempotency-Key': 'k1' },
+        })
+      )
+
+    await call('acme', 'GET', '/summary')
+    const summary = await call('globex', 'GET', '/summary')
+    expect(summary.headers.get('X-Cache')).toBe('MISS')
+    expect(await summary.json()).toEqual({ tenant: 'globex' })
+
+    await call('acme', 'POST', '/tasks')
+    const created = await call('globex', 'POST', '/tasks')
+    expect(created.status).toBe(200)
+    expect(created.headers.get('Idempotent-Replayed')).toBeNull()
+    expect(await created.json()).toEqual({ tenant: 'globex' })
+  })
+
+  it('does not reset rate limit counters for tenant IDs the store did not check', async () => {
+    const app = await createPluginApp({ resolve: { from: 'header' } })
+    const create = (tenant: string, headers: Record<string, string> = {}) =>
+      app.fetch(
+        new Request('http://localhost/api/tasks', { method: 'POST', headers: { 'x-tenant-id': tenant, ...headers } })
+      )
+
+    expect((await create('t1', { 'x-user': 'ada' })).status).toBe(200)
+    expect((await create('t2', { 'x-user': 'ada' })).status).toBe(429)
+
+    expect((await create('t3')).status).toBe(200)
+    expect((await create('t4')).status).toBe(429)
+  })
+})
@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { Context, MiddlewareHandler } from 'hono'
+import { bindLogFields } from './tracing'
+import type { Tenant } from '../domain/context'
+import { getRequestTenant, setRequestTenant, type TenantResolver, type TenantStore } from '../domain/tenancy'
+import { extractToken } from '../utils/auth'
+import { createJwtVerifier } from '../utils/jwt'
+
+/**
+ * Multi-tenancy options
+ */
+export interface TenancyOptions {
+  /**
+   * Where the tenant ID comes from. Resolvers are tried in order and the
+   * first one that finds an ID wins.
+   */
+  resolve: TenantResolver | TenantResolver[]
+
+  /**
+   * Tenants the resolved IDs are checked against
+   * @default every ID is accepted as `{ id }`
+   */
+  store?: TenantStore
+}
+
+/**
+ * Tenant of the request being handled, for code that has no context
+ */
+const currentTenants = new AsyncLocalStorage<Tenant>()
+
+/**
+ * Create the tenant resolution middleware installed by createApp
+ *
+ * Resolves the tenant ID of the request, looks it up in the store and
+ * binds it into the request logger. Requests without a known tenant are
+ * passed on; tenantPolicy() rejects them where a tenant is required.
+ *
+ * @param options - Tenancy options
+ * @returns Hono middleware
+ */
+export function createTenancyMiddleware(options: TenancyOptions): MiddlewareHandler {
+  const readers = [options.resolve].flat().map((resolver) => ({
+    read: createTenantIdReader(resolver),
+    signed: typeof resolver === 'object' && resolver.from === 'jwt',
+  }))
+  const { store } = options
+
+  return async (c, next) => {
+    let id: string | undefined
+    let signed = false
+    for (const reader of readers) {
+      id = (await reader.read(c))?.trim() || undefined
+      if (id) {
+        signed = reader.signed
+        break
+      }
+    }
+
+    const tenant = id === undefined ? undefined : store ? await store.get(id) : { id }
+    const verified = tenant !== undefined && (store !== undefined || signed)
+    setRequestTenant(c, { id, tenant, verified })
+
+    if (!tenant) {
+      return next()
+    }
+
+    bindLogFields(c, { tenantId: tenant.id })
+    return currentTenants.run(tenant, next)
+  }
+}
+
+/**
+ * Get the tenant of the request being handled, e.g. in a repository or a
+ * logging hook. Relies on AsyncLocalStorage, so callbacks that run outside
+ * the request's async context see no tenant.
+ *
+ * @returns The tenant, or undefined outside requests of a known tenant
+ */
+export function currentTenant(): Tenant | undefined {
+  return currentTenants.getStore()
+}
+
+/**
+ * Add the request's tenant to an oRPC context
+ *
+ * @param context - Context built by the app's context factory
+ * @param c - Hono context
+ * @returns The context with `tenant`, when the tenant is known
+ */
+export function withTenantContext<TContext extends object>(context: TContext, c: Context): TContext {
+  const tenant = getRequestTenant(c)?.tenant
+  return tenant ? { ...context, tenant } : context
+}
+
+type TenantIdReader = (c: Context) => string | undefined | Promise<string | undefined>
+
+function createTenantIdReader(resolver: TenantResolver): TenantIdReader {
+  if (typeof resolver === 'function') {
+    return resolver
+  }
+
+  switch (resolver.from) {
+    case 'subdomain': {
+      const { baseDomain } = resolver
+      return (c) => {
+        const host = new URL(c.req.url).hostname.toLowerCase()
+        if (baseDomain !== undefined) {
+          const subdomain = host.endsWith(`.${baseDomain}`) ? host.slice(0, -baseDomain.length - 1) : ''
+          return subdomain.includes('.') ? undefined : subdomain
+        }
+
+        const labels = host.split('.')
+        // IP addresses have no subdomain
+        return labels.length >= 3 && !/^[\d.]+$/.test(host) && !host.startsWith('[') ? labels[0] : undefined
+      }
+    }
+    case 'header': {
+      const { header = 'x-tenant-id' } = resolver
+      return (c) => c.req.header(header)
+    }
+    case 'path': {
+      const { segment } = resolver
+      return (c) => {
+        const value = c.req.path.split('/').slice(1)[segment]
+        try {
+          return value === undefined ? undefined : decodeURIComponent(value)
+        } catch {
+          return undefined
+        }
+      }
+    }
+    case 'jwt': {
+      const { claim = 'tenant_id', token: tokenOptions } = resolver
+      const verifyJwt = createJwtVerifier(resolver.jwt)
+      return async (c) => {
+        const { token } = extractToken({ honoContext: c }, tokenOptions)
+        if (!token) {
+          return undefined
+        }
+
+        try {
+          const value = (await verifyJwt(token))[claim]
+          return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined
+        } catch {
+          // Invalid tokens are rejected by the auth policy, not here
+          return undefined
+        }
+      }
+    }
+  }
+}
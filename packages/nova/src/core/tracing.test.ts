@@ -0,0 +1,127 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement, ORPCError } from '@orpc/server'
+import { z } from 'zod'
+import { createApp } from './create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { parseTraceparent } from '../domain/trace'
+import { Controller, Handle, Public } from '../infrastructure/decorators'
+import { errorHandlerPlugin } from '../plugins/error-handler'
+
+const routes = {
+  whoami: oc
+    .route({ method: 'GET', path: '/whoami' })
+    .output(z.object({ requestId: z.string(), traceId: z.string(), hasLogger: z.boolean() })),
+  fail: oc.route({ method: 'GET', path: '/fail' }).output(z.object({})),
+}
+
+@Controller()
+class TraceController {
+  @Public()
+  @Handle(routes.whoami)
+  whoami(_input: unknown, context: BaseORPCContext) {
+    return {
+      requestId: context.trace!.requestId,
+      traceId: context.trace!.traceId,
+      hasLogger: typeof context.logger?.info === 'function',
+    }
+  }
+
+  @Public()
+  @Handle(routes.fail)
+  fail(): never {
+    throw new ORPCError('NOT_FOUND', { message: 'Nothing to see here' })
+  }
+}
+
+async function createTestApp(tracing?: false) {
+  const app = await createApp({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+    }),
+    controllers: [TraceController],
+    plugins: [errorHandlerPlugin({ logErrors: false })],
+    tracing,
+  })
+
+  app.hono.get('/boom', () => {
+    throw new Error('boom')
+  })
+
+  return app
+}
+
+describe('request tracing', () => {
+  it('generates IDs, exposes them on the context and echoes them', async () => {
+    const app = await createTestApp()
+    const response = await app.hono.fetch(new Request('http://localhost/api/whoami'))
+    const body = await response.json()
+
+    expect(body.requestId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(body.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(body.hasLogger).toBe(true)
+    expect(response.headers.get('x-request-id')).toBe(body.requestId)
+    expect(parseTraceparent(response.headers.get('traceparent'))).toMatchObject({
+      traceId: body.traceId,
+      sampled: true,
+    })
+  })
+
+  it('continues incoming traces with a new span', async () => {
+    const app = await createTestApp()
+    const incoming = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00'
+    const response = await app.hono.fetch(
+      new Request('http://localhost/api/whoami', {
+        headers: { 'x-request-id': 'req-123', traceparent: incoming },
+      })
+    )
+
+    expect(await response.json()).toMatchObject({
+      requestId: 'req-123',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    })
+    const traceparent = parseTraceparent(response.headers.get('traceparent'))
+    expect(traceparent).toMatchObject({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', sampled: false })
+    expect(traceparent?.spanId).not.toBe('00f067aa0ba902b7')
+  })
+
+  it('includes the IDs in errorHandlerPlugin responses', async () => {
+    const app = await createTestApp()
+    const response = await app.hono.fetch(
+      new Request('http://localhost/boom', { headers: { 'x-request-id': 'req-500' } })
+    )
+
+    expect(response.status).toBe(500)
+    expect(response.headers.get('x-request-id')).toBe('req-500')
+    expect(await response.json()).toMatchObject({ requestId: 'req-500', traceId: expect.any(String) })
+  })
+
+  it('includes the IDs in errors answered by oRPC', async () => {
+    const app = await createTestApp()
+    const response = await app.fetch(
+      new Request('http://localhost/api/fail', { headers: { 'x-request-id': 'req-404' } })
+    )
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Nothing to see here',
+      requestId: 'req-404',
+      traceId: expect.any(String),
+    })
+  })
+
+  it('rejects malformed traceparent headers and can be disabled', async () => {
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined()
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined()
+    expect(parseTraceparent('not-a-traceparent')).toBeUndefined()
+
+    const app = await createTestApp(false)
+    const response = await app.hono.fetch(new Request('http://localhost/boom'))
+    expect(response.headers.get('x-request-id')).toBeNull()
+  })
+})
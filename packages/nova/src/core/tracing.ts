@@ -0,0 +1,181 @@
+import type { Context, MiddlewareHandler } from 'hono'
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  type TraceContext,
+} from '../domain/trace'
+import { getLogger, type Logger } from '../infrastructure/logger'
+
+/**
+ * Request tracing options
+ */
+export interface TracingOptions {
+  /**
+   * Header carrying the request ID
+   * @default 'x-request-id'
+   */
+  requestIdHeader?: string
+
+  /**
+   * Accept request IDs and `traceparent` sent by the client.
+   * Disable when the app is directly exposed and clients should not pick IDs.
+   * @default true
+   */
+  trustIncoming?: boolean
+
+  /**
+   * Request ID generator
+   * @default crypto.randomUUID
+   */
+  generateRequestId?: () => string
+
+  /**
+   * Logger the per-request child loggers derive from
+   * @default getLogger()
+   */
+  logger?: Logger
+
+  /**
+   * Echo the request ID and `traceparent` in response headers
+   * @default true
+   */
+  responseHeaders?: boolean
+}
+
+/**
+ * Incoming request IDs longer than this, or with other characters, are replaced
+ */
+const REQUEST_ID_PATTERN = /^[\w.:@/+=-]{1,128}$/
+
+interface TraceEntry {
+  trace: TraceContext
+  logger: Logger
+  root: Logger
+  /** Fields bound with bindLogFields() */
+  fields: Record<string, unknown>
+}
+
+const traces = new WeakMap<Context, TraceEntry>()
+
+/**
+ * Create the request tracing middleware installed by createApp
+ *
+ * Accepts or generates `X-Request-Id` and W3C `traceparent`, starts a span
+ * for the request, binds the IDs into a child logger and echoes them in
+ * the response headers.
+ *
+ * @param options - Tracing options
+ * @returns Hono middleware
+ */
+export function createTracingMiddleware(options: TracingOptions = {}): MiddlewareHandler {
+  const {
+    requestIdHeader = 'x-request-id',
+    trustIncoming = true,
+    generateRequestId = () => crypto.randomUUID(),
+    responseHeaders = true,
+  } = options
+
+  return async (c, next) => {
+    const incomingId = trustIncoming ? c.req.header(requestIdHeader)?.trim() : undefined
+    const parent = trustIncoming ? parseTraceparent(c.req.header('traceparent')) : undefined
+
+    const trace: TraceContext = {
+      requestId: incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : generateRequestId(),
+      traceId: parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      sampled: parent?.sampled ?? true,
+      ...(parent ? { parentSpanId: parent.spanId } : {}),
+      ...(parent && c.req.header('tracestate') ? { tracestate: c.req.header('tracestate') } : {}),
+    }
+
+    const root = options.logger ?? getLogger()
+    traces.set(c, { trace, logger: bindLogger(root, trace, {}), root, fields: {} })
+
+    await next()
+
+    if (responseHeaders) {
+      // Read back the entry, a tracing plugin may have re-bound the span
+      const current = traces.get(c)?.trace ?? trace
+      c.header(requestIdHeader, current.requestId)
+      c.header('traceparent', formatTraceparent(current))
+    }
+  }
+}
+
+/**
+ * Get the trace context of a request
+ *
+ * @param c - Hono context
+ * @returns The trace context, or undefined when tracing is disabled
+ */
+export function getTraceContext(c: Context): TraceContext | undefined {
+  return traces.get(c)?.trace
+}
+
+/**
+ * Get the logger bound to a request's IDs
+ *
+ * @param c - Hono context
+ * @returns The request logger, or the global logger when tracing is disabled
+ */
+export function getRequestLogger(c: Context): Logger {
+  return traces.get(c)?.logger ?? getLogger()
+}
+
+/**
+ * Make a span started by a tracing backend (e.g. OpenTelemetry) the span of
+ * the request, so logs, error bodies and the echoed `traceparent` carry the
+ * IDs that backend exports. Only affects contexts built after the call.
+ *
+ * @param c - Hono context
+ * @param span - Trace and span IDs of the backend's span
+ */
+export function bindTraceSpan(c: Context, span: Pick<TraceContext, 'traceId' | 'spanId' | 'sampled'>): void {
+  const entry = traces.get(c)
+  if (!entry) {
+    return
+  }
+
+  const trace = { ...entry.trace, ...span }
+  traces.set(c, { ...entry, trace, logger: bindLogger(entry.root, trace, entry.fields) })
+}
+
+/**
+ * Add fields, e.g. the tenant ID, to every entry of the request logger.
+ * Only affects contexts built after the call.
+ *
+ * @param c - Hono context
+ * @param fields - Fields to bind
+ */
+export function bindLogFields(c: Context, fields: Record<string, unknown>): void {
+  const entry = traces.get(c)
+  if (!entry) {
+    return
+  }
+
+  const bound = { ...entry.fields, ...fields }
+  traces.set(c, { ...entry, logger: bindLogger(entry.root, entry.trace, bound), fields: bound })
+}
+
+/**
+ * Add the request's trace context and logger to an oRPC context
+ *
+ * @param context - Context built by the app's context factory
+ * @param c - Hono context
+ * @returns The context with `trace` and `logger`
+ */
+export function withTraceContext<TContext extends object>(context: TContext, c: Context): TContext {
+  const entry = traces.get(c)
+  return entry ? { ...context, trace: entry.trace, logger: entry.logger } : context
+}
+
+function bindLogger(logger: Logger, trace: TraceContext, fields: Record<string, unknown>): Logger {
+  return logger.child({
+    requestId: trace.requestId,
+    traceId: trace.traceId,
+    spanId: trace.spanId,
+    ...fields,
+  })
+}
@@ -0,0 +1,156 @@
+import 'reflect-metadata'
+import { describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { createApp } from './create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { Controller, Handle } from '../infrastructure/decorators'
+import type { Logger } from '../infrastructure/logger'
+
+const v1Routes = {
+  tasks: { list: oc.route({ method: 'GET', path: '/tasks' }).output(z.array(z.string())) },
+}
+
+const v2Routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/tasks' }).output(z.array(z.object({ title: z.string() }))),
+  },
+}
+
+function publicAccess(routes: object) {
+  return defineAccess({
+    default: 'public',
+    policies: { public: { producer: implement(routes as typeof v1Routes).$context<BaseORPCContext>() } },
+  })
+}
+
+@Controller()
+class TaskControllerV1 {
+  @Handle(v1Routes.tasks.list)
+  list() {
+    return ['write docs']
+  }
+}
+
+@Controller()
+class TaskControllerV2 {
+  @Handle(v2Routes.tasks.list)
+  list() {
+    return [{ title: 'write docs' }]
+  }
+}
+
+describe('API versions', () => {
+  it('serves versions side by side and marks deprecated ones', async () => {
+    const onRequest = vi.fn()
+    const app = await createApp({
+      routes: v2Routes,
+      access: publicAccess(v2Routes),
+      controllers: [TaskControllerV2],
+      apiPrefix: '/v2',
+      versions: {
+        v1: {
+          routes: v1Routes,
+          access: publicAccess(v1Routes),
+          controllers: [TaskControllerV1],
+          apiPrefix: '/v1',
+          deprecated: {
+            since: '2026-01-01T00:00:00Z',
+            sunset: '2026-12-31T00:00:00Z',
+            link: 'https://example.com/migrate-to-v2',
+            onRequest,
+          },
+        },
+      },
+    })
+
+    const v2 = await app.fetch(new Request('http://localhost/v2/tasks'))
+    expect(await v2.json()).toEqual([{ title: 'write docs' }])
+    expect(v2.headers.get('deprecation')).toBeNull()
+
+    const v1 = await app.fetch(new Request('http://localhost/v1/tasks', { headers: { 'user-agent': 'legacy-app' } }))
+    expect(await v1.json()).toEqual(['write docs'])
+    expect(v1.headers.get('deprecation')).toBe('@1767225600')
+    expect(v1.headers.get('sunset')).toBe('Thu, 31 Dec 2026 00:00:00 GMT')
+    expect(v1.headers.get('link')).toBe('<https://example.com/migrate-to-v2>; rel="deprecation"')
+    expect(onRequest).toHaveBeenCalledWith({ version: 'v1', method: 'GET', path: '/v1/tasks', userAgent: 'legacy-app' })
+
+    const rpc = await app.fetch(new Request('http://localhost/rpc/v1/tasks/list', { method: 'POST' }))
+    expect(rpc.status).toBe(200)
+    expect(rpc.headers.get('deprecation')).toBe('@1767225600')
+
+    expect(app.describeRoutes().map(({ restUrl, rpcUrl, version }) => ({ restUrl, rpcUrl, version }))).toEqual([
+      { restUrl: '/v2/tasks', rpcUrl: '/rpc/tasks/list', version: undefined },
+      { restUrl: '/v1/tasks', rpcUrl: '/rpc/v1/tasks/list', version: 'v1' },
+    ])
+  })
+
+  it('leaves requests under version prefixes inside the main prefixes to the version', async () => {
+    const createContext = vi.fn(({ honoContext }) => ({ honoContext }))
+    const app = await createApp({
+      routes: v2Routes,
+      access: publicAccess(v2Routes),
+      controllers: [TaskControllerV2],
+      createContext,
+      versions: {
+        v1: { routes: v1Routes, access: publicAccess(v1Routes), controllers: [TaskControllerV1], apiPrefix: '/api/v1' },
+      },
+    })
+
+    const rest = await app.fetch(new Request('http://localhost/api/v1/tasks'))
+    const rpc = await app.fetch(new Request('http://localhost/rpc/v1/tasks/list', { method: 'POST' }))
+
+    expect(await rest.json()).toEqual(['write docs'])
+    expect(await rpc.json()).toEqual({ json: ['write docs'] })
+    // Once per request, by the version's handler only
+    expect(createContext).toHaveBeenCalledTimes(2)
+
+    const main = await app.fetch(new Request('http://localhost/api/tasks'))
+    expect(await main.json()).toEqual([{ title: 'write docs' }])
+  })
+
+  it('generates one OpenAPI spec per version', async () => {
+    const app = await createApp({
+      routes: v2Routes,
+      access: publicAccess(v2Routes),
+      controllers: [TaskControllerV2],
+      versions: {
+        v1: { routes: v1Routes, controllers: [TaskControllerV1], apiPrefix: '/v1', deprecated: true },
+      },
+    })
+
+    const v1Spec = (await app.getOpenAPISpec('v1')) as any
+    expect(v1Spec.servers).toEqual([{ url: '/v1', description: 'API Server' }])
+    expect(v1Spec.paths['/tasks'].get.deprecated).toBe(true)
+
+    const mainSpec = (await app.getOpenAPISpec()) as any
+    expect(mainSpec.servers).toEqual([{ url: '/api', description: 'API Server' }])
+    expect(mainSpec.paths['/tasks'].get.deprecated).toBeUndefined()
+
+    await expect(app.getOpenAPISpec('v3')).rejects.toThrow('Unknown API version "v3"')
+  })
+
+  it('logs calls to deprecated versions with the request logger', async () => {
+    const warn = vi.fn()
+    const logger = { child: () => logger, warn } as unknown as Logger
+    const app = await createApp({
+      routes: v2Routes,
+      access: publicAccess(v2Routes),
+      controllers: [TaskControllerV2],
+      tracing: { logger },
+      versions: {
+        v1: { routes: v1Routes, controllers: [TaskControllerV1], apiPrefix: '/v1', deprecated: true },
+      },
+    })
+
+    const response = await app.fetch(new Request('http://localhost/v1/tasks'))
+
+    expect(response.headers.get('deprecation')).toBe('true')
+    expect(warn).toHaveBeenCalledWith(
+      { version: 'v1', method: 'GET', path: '/v1/tasks', userAgent: undefined },
+      'Deprecated API version v1 called: GET /v1/tasks'
+    )
+  })
+})
@@ -0,0 +1,215 @@
+import 'reflect-metadata'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createORPCClient } from '@orpc/client'
+import { RPCLink } from '@orpc/client/websocket'
+import { ORPCError, eventIterator, oc } from '@orpc/contract'
+import type { ContractRouterClient } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { WebSocket } from 'ws'
+import { z } from 'zod'
+import { createApp } from './create-app'
+import type { WebSocketOptions } from './websocket'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import type { HonoMiddleware } from '../domain/types'
+import { Container } from '../infrastructure/container'
+import { Auth, Controller, Handle, Injectable, Public } from '../infrastructure/decorators'
+import type { OutscopeApp } from '../plugins/types'
+
+const routes = {
+  planet: {
+    get: oc
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string(), connection: z.string() })),
+    mine: oc.route({ method: 'GET', path: '/planets/mine' }).output(z.array(z.string())),
+    watch: oc.route({ method: 'GET', path: '/planets/watch' }).output(eventIterator(z.object({ n: z.number() }))),
+    visit: oc.route({ method: 'POST', path: '/planets/visit' }).output(z.number()),
+  },
+}
+
+type TestContext = BaseORPCContext & { connection: string }
+
+@Controller()
+class PlanetController {
+  @Public()
+  @Handle(routes.planet.get)
+  get(input: { id: string }, context: TestContext) {
+    return { id: input.id, connection: context.connection }
+  }
+
+  @Auth()
+  @Handle(routes.planet.mine)
+  mine() {
+    return ['earth']
+  }
+
+  @Public()
+  @Handle(routes.planet.watch)
+  async *watch() {
+    yield { n: 0 }
+    yield { n: 1 }
+  }
+}
+
+let visits = 0
+
+@Injectable({ scope: 'request' })
+@Controller()
+class VisitController {
+  private readonly visit = ++visits
+
+  @Public()
+  @Handle(routes.planet.visit)
+  record() {
+    return this.visit
+  }
+}
+
+let contexts = 0
+let policyChecks = 0
+let app: OutscopeApp<TestContext> | undefined
+
+async function startApp(interceptors: HonoMiddleware[] = [], websocket: WebSocketOptions = {}) {
+  const producer = implement(routes).$context<TestContext>()
+
+  app = await createApp<TestContext>({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: {
+        public: {
+          producer: producer.use(({ next }) => {
+            policyChecks++
+            return next()
+          }),
+        },
+        auth: {
+          producer: producer.use(() => {
+            throw new ORPCError('UNAUTHORIZED')
+          }),
+        },
+      },
+    }),
+    controllers: [PlanetController, VisitController],
+    container: new Container(),
+    createContext: ({ honoContext }) => ({ honoContext, connection: `connection-${++contexts}` }),
+    interceptors,
+    websocket: { path: '/socket', ...websocket },
+  })
+
+  const port = await new Promise<number>((resolve) => app!.listen(0, (info) => resolve(info.port)))
+  return { app, port }
+}
+
+async function upgrade(port: number, origin: string): Promise<number> {
+  const websocket = new WebSocket(`ws://localhost:${port}/socket`, { origin })
+  return new Promise((resolve) => {
+    websocket.on('open', () => {
+      websocket.close()
+      resolve(101)
+    })
+    websocket.on('unexpected-response', (_request, response) => resolve(response.statusCode!))
+  })
+}
+
+async function connect(port: number) {
+  const websocket = new WebSocket(`ws://localhost:${port}/socket`)
+  const client: ContractRouterClient<typeof routes> = createORPCClient(new RPCLink({ websocket }))
+  return { websocket, client }
+}
+
+afterEach(async () => {
+  await app?.shutdown({ timeout: 1000 })
+  app = undefined
+  contexts = 0
+  policyChecks = 0
+  visits = 0
+})
+
+describe('WebSocket transport', () => {
+  it('creates the context once per connection and runs access policies on every message', async () => {
+    const { port } = await startApp()
+    const { websocket, client } = await connect(port)
+
+    await expect(client.planet.get({ id: 'earth' })).resolves.toEqual({ id: 'earth', connection: 'connection-1' })
+    await expect(client.planet.get({ id: 'mars' })).resolves.toEqual({ id: 'mars', connection: 'connection-1' })
+    await expect(client.planet.mine()).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+
+    expect(contexts).toBe(1)
+    expect(policyChecks).toBe(2)
+    websocket.close()
+  })
+
+  it('resolves request-scoped controllers once per message', async () => {
+    const { port } = await startApp()
+    const { websocket, client } = await connect(port)
+
+    await expect(client.planet.visit()).resolves.toBe(1)
+    await expect(client.planet.visit()).resolves.toBe(2)
+
+    expect(contexts).toBe(1)
+    websocket.close()
+  })
+
+  it('pushes streamed outputs over the socket', async () => {
+    const { port } = await startApp()
+    const { websocket, client } = await connect(port)
+
+    const events: unknown[] = []
+    for await (const event of await client.planet.watch()) {
+      events.push(event)
+    }
+
+    expect(events).toEqual([{ n: 0 }, { n: 1 }])
+    websocket.close()
+  })
+
+  it('closes open connections when shutdown begins', async () => {
+    const { app, port } = await startApp()
+    const { websocket, client } = await connect(port)
+    await client.planet.get({ id: 'earth' })
+
+    const closed = new Promise<number>((resolve) => websocket.on('close', resolve))
+    await app.shutdown({ timeout: 1000 })
+
+    await expect(closed).resolves.toBe(1001)
+  })
+
+  it('runs the app middleware on the upgrade request', async () => {
+    const { port } = await startApp([
+      async (c, next) => (c.req.query('token') ? next() : c.json({ error: 'Unauthorized' }, 401)),
+    ])
+
+    const websocket = new WebSocket(`ws://localhost:${port}/socket`)
+    const status = await new Promise<number>((resolve) =>
+      websocket.on('unexpected-response', (_request, response) => resolve(response.statusCode!))
+    )
+
+    expect(status).toBe(401)
+    expect(contexts).toBe(0)
+  })
+
+  it('accepts upgrades from the server host and rejects other origins by default', async () => {
+    const { port } = await startApp()
+
+    expect(await upgrade(port, `http://localhost:${port}`)).toBe(101)
+    expect(await upgrade(port, 'https://evil.example.com')).toBe(403)
+    expect(contexts).toBe(1)
+  })
+
+  it('accepts upgrades only from the allowed origins', async () => {
+    const { port } = await startApp([], { origins: ['https://app.example.com'] })
+
+    expect(await upgrade(port, 'https://app.example.com')).toBe(101)
+    expect(await upgrade(port, `http://localhost:${port}`)).toBe(403)
+  })
+
+  it('rejects requests to the WebSocket path that are not upgrades', async () => {
+    const { app } = await startApp()
+
+    const response = await app.hono.fetch(new Request('http://localhost/socket'))
+
+    expect(response.status).toBe(426)
+  })
+})
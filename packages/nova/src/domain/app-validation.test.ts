@@ -0,0 +1,139 @@
+import 'reflect-metadata'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { defineAccess } from './access'
+import { AppValidationError, validateApp } from './app-validation'
+import type { BaseORPCContext } from './context'
+import { listControllerImplementations } from '../application/controller-registrar'
+import { createApp } from '../core/create-app'
+import { Auth, Controller, Handle, Public } from '../infrastructure/decorators'
+import type { Logger } from '../infrastructure/logger'
+
+const routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/tasks' }).output(z.array(z.string())),
+    get: oc.route({ method: 'GET', path: '/tasks/{id}' }).input(z.object({ id: z.string() })),
+    find: oc.route({ method: 'get', path: '/tasks/{taskId}/' }).input(z.object({ taskId: z.string() })),
+    archive: oc.route({ method: 'POST', path: '/tasks/{id}/archive' }),
+  },
+}
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: implement(routes).$context<BaseORPCContext>() },
+    auth: { uses: 'session' },
+  },
+})
+
+const unlisted = oc.route({ method: 'GET', path: '/unlisted' })
+
+@Controller()
+class TaskController {
+  @Public()
+  @Handle(routes.tasks.list)
+  list() {
+    return []
+  }
+
+  @Handle(routes.tasks.get)
+  get() {
+    return null
+  }
+
+  @Auth()
+  @Handle(routes.tasks.find)
+  find() {
+    return null
+  }
+}
+
+@Controller()
+class LegacyTaskController {
+  @Handle(routes.tasks.list)
+  list() {
+    return []
+  }
+
+  @Handle(unlisted)
+  unlisted() {
+    return null
+  }
+}
+
+describe('validateApp', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('reports every issue of the contract, controllers and access policies', () => {
+    const implementations = listControllerImplementations([TaskController, new LegacyTaskController()])
+
+    expect(validateApp({ routes, access, implementations })).toEqual([
+      { kind: 'unknown-procedure', message: 'LegacyTaskController.unlisted handles a procedure that is not in routes' },
+      {
+        kind: 'duplicate',
+        message: 'Procedure tasks.list is implemented by TaskController.list and LegacyTaskController.list',
+      },
+      { kind: 'unimplemented', message: 'Procedure tasks.archive is not implemented' },
+      { kind: 'route-conflict', message: 'GET /tasks/{id} is declared by tasks.get and tasks.find' },
+      { kind: 'unknown-policy', message: 'Access policy "auth" uses unknown access policy "session"' },
+    ])
+  })
+
+  it('reports unknown policies of handlers and the default', () => {
+    const issues = validateApp({
+      routes,
+      access: { default: 'guest', policies: {} },
+      implementations: listControllerImplementations([TaskController]),
+    })
+
+    expect(issues.filter((issue) => issue.kind === 'unknown-policy').map((issue) => issue.message)).toEqual([
+      'access.default uses unknown access policy "guest"',
+      'TaskController.list uses unknown access policy "public"',
+      'TaskController.find uses unknown access policy "auth"',
+    ])
+  })
+
+  it('fails createApp with every issue in strict mode', async () => {
+    const app = createApp({ routes, access, controllers: [TaskController], validation: 'strict' })
+
+    await expect(app).rejects.toThrow(AppValidationError)
+    await expect(app).rejects.toThrow(
+      'App validation found 3 issues:\n' +
+        '  - Procedure tasks.archive is not implemented\n' +
+        '  - GET /tasks/{id} is declared by tasks.get and tasks.find\n' +
+        '  - Access policy "auth" uses unknown access policy "session"'
+    )
+  })
+
+  it('logs the issues through the app logger and starts the app in warn mode', async () => {
+    const logger = { child: () => logger, debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const partialRoutes = { tasks: { list: routes.tasks.list, archive: routes.tasks.archive } }
+
+    @Controller()
+    class TaskListController {
+      @Handle(routes.tasks.list)
+      list() {
+        return []
+      }
+    }
+
+    const app = await createApp({
+      routes: partialRoutes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: implement(partialRoutes).$context<BaseORPCContext>() } },
+      }),
+      controllers: [TaskListController],
+      validation: 'warn',
+      tracing: { logger: logger as unknown as Logger },
+    })
+
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Procedure tasks.archive is not implemented'))
+    const response = await app.fetch(new Request('http://localhost/api/tasks'))
+    expect(await response.json()).toEqual([])
+  })
+})
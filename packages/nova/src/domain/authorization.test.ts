@@ -0,0 +1,149 @@
+import 'reflect-metadata'
+import { describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { defineAccess } from './access'
+import type { AuthorizationDecision } from './authorization'
+import type { AuthenticatedContext } from './context'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Permission } from '../infrastructure/decorators'
+import type { Logger } from '../infrastructure/logger'
+import type { ProcedureInterceptor } from './endpoint'
+
+const routes = {
+  updateProject: oc
+    .route({ method: 'PATCH', path: '/projects/{id}' })
+    .input(z.object({ id: z.string(), name: z.string() }))
+    .output(z.object({ id: z.string(), name: z.string() })),
+}
+
+const projects = new Map([['p1', { id: 'p1', ownerId: 'ada' }]])
+let loads = 0
+
+@Controller()
+class ProjectController {
+  @Permission('project:update', {
+    name: 'project-owner',
+    load: (input: { id: string }) => {
+      loads++
+      return projects.get(input.id)
+    },
+    when: async ({ context, load }) => {
+      const project = await load()
+      await load()
+      return project?.ownerId === context.auth.userId
+        ? true
+        : { allowed: false, reason: 'Only the owner can update this project' }
+    },
+  })
+  @Handle(routes.updateProject)
+  update(input: { id: string; name: string }, context: AuthenticatedContext) {
+    return { id: input.id, name: `${input.name} by ${context.authorization?.rule}` }
+  }
+}
+
+describe('authorization rules', () => {
+  it('evaluates the rule with the validated input and records the decision', async () => {
+    const decisions: Array<AuthorizationDecision | undefined> = []
+    const audit: ProcedureInterceptor = async ({ context }, next) => {
+      try {
+        return await next()
+      } finally {
+        decisions.push(context.authorization)
+      }
+    }
+
+    const app = await createApp<AuthenticatedContext>({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: {
+          permission: { producer: implement(routes).$context<AuthenticatedContext>() },
+        },
+      }),
+      controllers: [ProjectController],
+      createContext: ({ honoContext }) => ({
+        honoContext,
+        auth: { userId: honoContext.req.header('x-user') ?? 'anonymous' },
+      }),
+      plugins: [{ name: 'audit', procedureInterceptor: audit }],
+    })
+    const update = (user: string) =>
+      app.fetch(
+        new Request('http://localhost/api/projects/p1', {
+          method: 'PATCH',
+          headers: { 'content-type': 'application/json', 'x-user': user },
+          body: JSON.stringify({ name: 'Apollo' }),
+        })
+      )
+
+    const allowed = await update('ada')
+    expect(allowed.status).toBe(200)
+    expect(await allowed.json()).toEqual({ id: 'p1', name: 'Apollo by project-owner' })
+
+    const denied = await update('grace')
+    expect(denied.status).toBe(403)
+    expect(await denied.json()).toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Only the owner can update this project',
+    })
+
+    expect(loads).toBe(2)
+    // The rule runs before the interceptors, so denied calls never reach them
+    expect(decisions).toEqual([
+      { allowed: true, policy: 'permission', permissions: ['project:update'], rule: 'project-owner' },
+    ])
+  })
+
+  it('logs allow and deny decisions through the request logger', async () => {
+    const logger = {
+      child: () => logger,
+      info: vi.fn(),
+      warn: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Logger
+
+    const app = await createApp<AuthenticatedContext>({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: {
+          permission: { producer: implement(routes).$context<AuthenticatedContext>() },
+        },
+      }),
+      controllers: [ProjectController],
+      createContext: ({ honoContext }) => ({
+        honoContext,
+        auth: { userId: honoContext.req.header('x-user') ?? 'anonymous' },
+      }),
+      tracing: { logger },
+    })
+    const update = (user: string) =>
+      app.fetch(
+        new Request('http://localhost/api/projects/p1', {
+          method: 'PATCH',
+          headers: { 'content-type': 'application/json', 'x-user': user },
+          body: JSON.stringify({ name: 'Apollo' }),
+        })
+      )
+
+    await update('ada')
+    await update('grace')
+
+    expect(logger.info).toHaveBeenCalledWith(
+      { endpoint: 'updateProject', rule: 'project-owner', subject: 'ada', resource: 'p1' },
+      'Authorization allowed'
+    )
+    expect(logger.warn).toHaveBeenCalledWith(
+      {
+        endpoint: 'updateProject',
+        rule: 'project-owner',
+        subject: 'grace',
+        resource: 'p1',
+        reason: 'Only the owner can update this project',
+      },
+      'Authorization denied'
+    )
+  })
+})
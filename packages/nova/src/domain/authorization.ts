@@ -0,0 +1,173 @@
+import type { AuthContext, BaseORPCContext } from './context'
+import type { EndpointDescriptor } from './endpoint'
+import { ErrorCode, ORPCHonoError } from './errors'
+
+/**
+ * Resource-level authorization
+ *
+ * Access policies decide who may call an endpoint. Authorization rules decide
+ * whether the caller may act on the specific resource named in the input,
+ * e.g. "only the owner of project X can update it". Rules run after the
+ * access policy and input validation, before the procedure interceptors of
+ * plugins, so cached or replayed responses are authorized as well.
+ */
+
+/**
+ * Outcome of a condition: a boolean, or a decision with a reason for the audit log
+ */
+export type AccessConditionResult = boolean | { allowed: boolean; reason?: string }
+
+/**
+ * Arguments passed to a condition
+ */
+export interface AccessConditionParams<TInput = any, TContext = any, TResource = unknown> {
+  /** Validated input */
+  input: TInput
+  /** Request context, including `auth` and `access` */
+  context: TContext
+  /** Load the resource with the rule's loader; memoized per request */
+  load: () => Promise<TResource>
+}
+
+/**
+ * Predicate deciding whether the request may proceed
+ */
+export type AccessCondition<TInput = any, TContext = any, TResource = unknown> = (
+  params: AccessConditionParams<TInput, TContext, TResource>
+) => AccessConditionResult | Promise<AccessConditionResult>
+
+/**
+ * Loads the resource a condition inspects
+ */
+export type ResourceLoader<TInput = any, TContext = any, TResource = unknown> = (
+  input: TInput,
+  context: TContext
+) => TResource | Promise<TResource>
+
+/**
+ * Authorization rule declared on an endpoint
+ */
+export interface AuthorizationRule<TInput = any, TContext = any, TResource = any> {
+  /** Predicate deciding whether the request may proceed */
+  when: AccessCondition<TInput, TContext, TResource>
+  /** Loader for the resource passed to `when` as `load()` */
+  load?: ResourceLoader<TInput, TContext, TResource>
+  /** Name recorded in the decision, e.g. 'project-owner' */
+  name?: string
+}
+
+/**
+ * Evaluated authorization decision, recorded as `context.authorization`
+ */
+export interface AuthorizationDecision {
+  allowed: boolean
+  /** Access policy of the endpoint */
+  policy: string
+  /** Permissions declared on the endpoint */
+  permissions?: string[]
+  /** Name of the rule that was evaluated */
+  rule?: string
+  /** Reason returned by the condition */
+  reason?: string
+}
+
+/**
+ * Error thrown when an authorization rule denies a request
+ */
+export class AccessDeniedError extends ORPCHonoError {
+  readonly status = 403
+  readonly code = ErrorCode.FORBIDDEN
+
+  constructor(readonly decision: AuthorizationDecision) {
+    super(decision.reason ?? 'Forbidden')
+  }
+}
+
+/**
+ * Evaluate an endpoint's authorization rule
+ *
+ * Records the decision on `context.authorization` whether or not the request
+ * is allowed, so interceptors can audit it, and logs it through the request
+ * logger: allowed requests at info level, denied ones at warn level.
+ *
+ * @param rule - The rule declared on the endpoint
+ * @param endpoint - The endpoint being invoked
+ * @param input - Validated input
+ * @param context - Request context
+ * @returns The decision
+ * @throws AccessDeniedError if the rule denies the request
+ */
+export async function enforceAuthorization(
+  rule: AuthorizationRule,
+  endpoint: EndpointDescriptor,
+  input: unknown,
+  context: BaseORPCContext
+): Promise<AuthorizationDecision> {
+  let loaded: Promise<unknown> | undefined
+  let resource: unknown
+  const load = () => {
+    if (!rule.load) {
+      return Promise.reject(new Error(`Authorization rule for ${endpoint.path.join('.')} has no loader`))
+    }
+    loaded ??= Promise.resolve(rule.load(input, context)).then((value) => (resource = value))
+    return loaded
+  }
+
+  const result = await rule.when({ input, context, load })
+  const { allowed, reason } = typeof result === 'boolean' ? { allowed: result, reason: undefined } : result
+
+  const decision: AuthorizationDecision = {
+    allowed,
+    policy: endpoint.access.policy,
+    ...(endpoint.access.permissions ? { permissions: endpoint.access.permissions } : {}),
+    ...(rule.name ? { rule: rule.name } : {}),
+    ...(reason ? { reason } : {}),
+  }
+  context.authorization = decision
+
+  const entry = {
+    endpoint: endpoint.path.join('.'),
+    rule: rule.name,
+    subject: (context as { auth?: AuthContext }).auth?.userId,
+    resource: resourceId(resource),
+    ...(reason ? { reason } : {}),
+  }
+  if (!allowed) {
+    context.logger?.warn(entry, 'Authorization denied')
+    throw new AccessDeniedError(decision)
+  }
+
+  context.logger?.info(entry, 'Authorization allowed')
+  return decision
+}
+
+/**
+ * Identify a loaded resource in the log by its `id`, never by its contents
+ */
+function resourceId(resource: unknown): string | undefined {
+  const id = (resource as { id?: unknown } | null | undefined)?.id
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined
+}
+
+/**
+ * Guard an endpoint implementation with the endpoint's authorization rule.
+ * Endpoints without a rule get the implementation back unchanged.
+ *
+ * @param endpoint - The endpoint descriptor
+ * @param handler - The endpoint implementation
+ * @returns The guarded implementation
+ */
+export function withAuthorization<TContext extends BaseORPCContext>(
+  endpoint: EndpointDescriptor,
+  handler: (input: unknown, context: TContext) => unknown
+): (input: unknown, context: TContext) => unknown {
+  const rule = endpoint.options.authorize
+  if (!rule) {
+    return handler
+  }
+
+  return async (input, context) => {
+    await enforceAuthorization(rule, endpoint, input, context)
+    return handler(input, context)
+  }
+}
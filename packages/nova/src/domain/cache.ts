@@ -0,0 +1,129 @@
+/**
+ * Response caching primitives
+ *
+ * Cached responses are stored per contract path, normalized input and,
+ * optionally, user. Entries carry their path and tags so they can be
+ * invalidated after mutations.
+ */
+
+/**
+ * Cache declaration of an endpoint
+ */
+export interface CachePolicy<TInput = any> {
+  /** Time to live in milliseconds, also sent as `Cache-Control: max-age` */
+  ttl: number
+  /**
+   * Cache responses per user (`context.auth.userId`) and mark them private
+   * @default false
+   */
+  varyByUser?: boolean
+  /** Tags used to invalidate entries, static or derived from the input */
+  tags?: string[] | ((input: TInput) => string[])
+  /**
+   * Cache-Control header value; defaults to `public, max-age=<ttl>`
+   * (`private` when varying by user or behind an access policy)
+   */
+  cacheControl?: string
+}
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+  /** Procedure output */
+  value: unknown
+  /** Entity tag of the output */
+  etag: string
+  /** Contract path, e.g. 'planet.list' */
+  path: string
+  /** Invalidation tags */
+  tags: string[]
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number
+}
+
+/**
+ * Selects entries to invalidate; an entry matches when it matches any
+ * path or any tag
+ */
+export interface CacheInvalidation {
+  /** Contract paths; 'planet' also matches 'planet.list' */
+  paths?: string[]
+  /** Invalidation tags */
+  tags?: string[]
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  /**
+   * Read an entry, or undefined when it is missing or expired
+   */
+  get(key: string): Promise<CacheEntry | undefined>
+
+  /**
+   * Store an entry, replacing any previous entry of the key
+   */
+  set(key: string, entry: CacheEntry): Promise<void>
+
+  /**
+   * Remove the entries matching the selector
+   *
+   * @returns Number of removed entries
+   */
+  invalidate(selector: CacheInvalidation): Promise<number>
+}
+
+/**
+ * Check whether an entry matches an invalidation selector
+ */
+export function matchesInvalidation(entry: CacheEntry, selector: CacheInvalidation): boolean {
+  const pathMatches = selector.paths?.some(
+    (path) => entry.path === path || entry.path.startsWith(`${path}.`)
+  )
+  const tagMatches = selector.tags?.some((tag) => entry.tags.includes(tag))
+  return Boolean(pathMatches || tagMatches)
+}
+
+/**
+ * Serialize a value with sorted object keys, so equal inputs produce
+ * equal cache keys regardless of key order
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return ''
+  }
+
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      return item
+    }
+    return Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    )
+  })
+}
+
+/**
+ * Compute a weak entity tag from a serialized value
+ */
+export async function computeETag(value: unknown): Promise<string> {
+  const data = new TextEncoder().encode(stableStringify(value))
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', data))
+  const hex = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `W/"${hex}"`
+}
+
+/**
+ * Check an `If-None-Match` header against an entity tag, using weak comparison
+ *
+ * @param ifNoneMatch - Header value, e.g. `"a", W/"b"` or `*`
+ * @param etag - Current entity tag
+ */
+export function matchesETag(ifNoneMatch: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch
+    .split(',')
+    .some((candidate) => candidate.trim() === '*' || opaque(candidate) === opaque(etag))
+}
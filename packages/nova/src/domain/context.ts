@@ -1,5 +1,8 @@
 import type { Context as HonoContext } from 'hono'
 import type { AccessMetadata } from './access'
+import type { AuthorizationDecision } from './authorization'
+import type { TraceContext } from './trace'
+import type { Logger } from '../infrastructure/logger'
 
 /**
  * Context types for oRPC-Hono framework
@@ -14,6 +17,19 @@ export interface BaseORPCContext {
   honoContext: HonoContext
   /** Access policy metadata for the current handler */
   access?: AccessMetadata
+  /** Decision of the endpoint's authorization rule, once evaluated */
+  authorization?: AuthorizationDecision
+  /** Request ID and trace identifiers, set by createApp unless tracing is disabled */
+  trace?: TraceContext
+  /** Logger bound to the request's IDs */
+  logger?: Logger
+  /**
+   * Aborted when the client disconnects or the endpoint's timeout fires.
+   * Pass it to fetch, Prisma or other cancellable calls.
+   */
+  signal?: AbortSignal
+  /** Tenant of the request, set by createApp when `tenancy` is configured and the tenant is known */
+  tenant?: Tenant
 }
 
 /**
@@ -39,6 +55,27 @@ export interface AuthenticatedContext extends BaseORPCContext {
   auth: AuthContext
 }
 
+/**
+ * A tenant of a multi-tenant app
+ */
+export interface Tenant {
+  /** Unique identifier of the tenant */
+  id: string
+  /** Display name of the tenant */
+  name?: string
+  /** Additional tenant data, e.g. plan or region */
+  [key: string]: unknown
+}
+
+/**
+ * Context type for requests of a known tenant.
+ * Extends BaseORPCContext with the tenant, as guaranteed by tenantPolicy().
+ */
+export interface TenantContext extends BaseORPCContext {
+  /** The tenant of the request */
+  tenant: Tenant
+}
+
 /**
  * Factory function type for creating request context.
  * Called for each incoming request to build the context object.
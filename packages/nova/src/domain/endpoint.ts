@@ -0,0 +1,223 @@
+import type { Context as HonoContext } from 'hono'
+import { getEventIteratorSchemaDetails, type AnySchema, type Route } from '@orpc/contract'
+import type { AccessMetadata } from './access'
+import type { AuthorizationRule } from './authorization'
+import type { BaseORPCContext } from './context'
+import type { CachePolicy } from './cache'
+import type { IdempotencyPolicy } from './idempotency'
+import type { RateLimitRule } from './rate-limit'
+import type { TransactionPolicy } from './transaction'
+import type { UploadLimits } from './upload'
+import { InvalidEndpointOptionsError } from './errors'
+
+/**
+ * Endpoint descriptors and procedure interceptors
+ *
+ * Endpoint options are declared next to the access metadata of a handler
+ * (decorators in nova, HandlerBuilder methods in nova-fn). Plugins read them
+ * through procedure interceptors, which wrap every handler invocation after
+ * the access policy middlewares have run.
+ */
+
+/**
+ * Per-endpoint options consumed by plugins
+ */
+export interface EndpointOptions {
+  /** Rate limit for this endpoint; `false` exempts it from the plugin default */
+  rateLimit?: RateLimitRule | false
+  /** Resource-level authorization rule, evaluated before the handler */
+  authorize?: AuthorizationRule
+  /** Upload limits for this endpoint; `false` exempts it from the plugin defaults */
+  upload?: UploadLimits | false
+  /** Response cache policy for this endpoint; `false` exempts it from the plugin default */
+  cache?: CachePolicy | false
+  /** Idempotency-Key handling for this endpoint, enabled by declaring it */
+  idempotent?: IdempotencyPolicy
+  /** Timeout in milliseconds for this endpoint; `false` exempts it from the app default */
+  timeout?: number | false
+  /** Run the endpoint in an interactive transaction, enabled by declaring it */
+  transactional?: TransactionPolicy
+}
+
+/**
+ * Static description of a registered endpoint
+ */
+export interface EndpointDescriptor {
+  /** Contract path segments, e.g. ['planet', 'list'] */
+  path: string[]
+  /** HTTP route declared on the contract, if any */
+  route?: Route
+  /** Resolved access metadata */
+  access: AccessMetadata
+  /** Options declared for the endpoint */
+  options: EndpointOptions
+  /** Controller method implementing the endpoint, e.g. 'PlanetController.list' */
+  handler?: string
+  /** Access policies applied to the endpoint, inherited policies first */
+  policies?: string[]
+  /** The access policies let every caller through */
+  public?: boolean
+}
+
+/**
+ * A single handler invocation seen by interceptors
+ */
+export interface ProcedureInvocation<TContext extends BaseORPCContext = BaseORPCContext> {
+  /** The endpoint being invoked */
+  endpoint: EndpointDescriptor
+  /** Validated input */
+  input: unknown
+  /** Request context, after access middlewares */
+  context: TContext
+}
+
+/**
+ * Wraps handler invocations.
+ * Call `next()` to continue, optionally replacing the input or context.
+ *
+ * @example
+ * ```typescript
+ * const timing: ProcedureInterceptor = async ({ endpoint }, next) => {
+ *   const start = Date.now()
+ *   try {
+ *     return await next()
+ *   } finally {
+ *     console.log(endpoint.path.join('.'), Date.now() - start)
+ *   }
+ * }
+ * ```
+ */
+export type ProcedureInterceptor<TContext extends BaseORPCContext = BaseORPCContext> = (
+  invocation: ProcedureInvocation<TContext>,
+  next: (overrides?: Partial<Pick<ProcedureInvocation<TContext>, 'input' | 'context'>>) => Promise<unknown>
+) => Promise<unknown>
+
+/**
+ * Build the descriptor of an endpoint
+ *
+ * @param route - Contract procedure
+ * @param path - Contract path segments
+ * @param access - Resolved access metadata
+ * @param options - Declared endpoint options
+ * @param source - Implementation, policy chain and whether the policies are public
+ * @throws InvalidEndpointOptionsError if the options cannot be combined
+ */
+export function createEndpointDescriptor(
+  route: unknown,
+  path: string[],
+  access: AccessMetadata,
+  options: EndpointOptions = {},
+  source: Pick<EndpointDescriptor, 'handler' | 'policies' | 'public'> = {}
+): EndpointDescriptor {
+  const orpc = (route as { '~orpc'?: { route?: Route; outputSchema?: AnySchema } } | null)?.['~orpc']
+
+  const endpoint: EndpointDescriptor = {
+    path,
+    route: orpc?.route,
+    access,
+    options,
+    ...source,
+  }
+  validateEndpointOptions(endpoint, getEventIteratorSchemaDetails(orpc?.outputSchema) !== undefined)
+  return endpoint
+}
+
+/**
+ * Reject option combinations that would leak or corrupt data
+ */
+function validateEndpointOptions(endpoint: EndpointDescriptor, streaming: boolean): void {
+  const { cache, authorize, transactional } = endpoint.options
+  const name = endpoint.handler ?? endpoint.path.join('.')
+
+  // A shared entry would serve one user's resource to every user the rule allows
+  if (cache && authorize && !cache.varyByUser) {
+    throw new InvalidEndpointOptionsError(
+      name,
+      'responses guarded by an authorization rule must be cached with varyByUser'
+    )
+  }
+
+  // The transaction would commit when the stream is returned, before any event is produced
+  if (transactional && streaming) {
+    throw new InvalidEndpointOptionsError(name, 'streamed outputs cannot run in a transaction')
+  }
+}
+
+/**
+ * Run a handler through a chain of interceptors.
+ * Without interceptors the handler is called directly and may stay synchronous.
+ *
+ * @param interceptors - Interceptors, outermost first
+ * @param invocation - The invocation to run
+ * @param handler - The endpoint implementation
+ * @returns The handler result
+ */
+export function runProcedureInterceptors(
+  interceptors: readonly ProcedureInterceptor<any>[],
+  invocation: ProcedureInvocation<any>,
+  handler: (input: unknown, context: any) => unknown
+): unknown {
+  const dispatch = (index: number, current: ProcedureInvocation<any>): unknown => {
+    const interceptor = interceptors[index]
+
+    if (!interceptor) {
+      return handler(current.input, current.context)
+    }
+
+    return interceptor(current, async (overrides) => dispatch(index + 1, { ...current, ...overrides }))
+  }
+
+  return dispatch(0, invocation)
+}
+
+const procedureEndpoints = new WeakMap<object, EndpointDescriptor>()
+
+/**
+ * Matched endpoints keyed by the Hono context of an HTTP request, or by the
+ * oRPC context of a call. WebSocket messages share their connection's Hono
+ * context, so they are only recorded under their own oRPC context.
+ */
+const requestEndpoints = new WeakMap<object, EndpointDescriptor>()
+
+/**
+ * Associate a registered procedure with its endpoint descriptor
+ *
+ * @param procedure - The oRPC procedure
+ * @param endpoint - The endpoint it implements
+ */
+export function setProcedureEndpoint(procedure: object, endpoint: EndpointDescriptor): void {
+  procedureEndpoints.set(procedure, endpoint)
+}
+
+/**
+ * Get the endpoint a registered procedure implements
+ *
+ * @param procedure - The oRPC procedure
+ */
+export function getProcedureEndpoint(procedure: object): EndpointDescriptor | undefined {
+  return procedureEndpoints.get(procedure)
+}
+
+/**
+ * Record the procedure a request or WebSocket message was routed to.
+ * Called by createApp before the procedure's middlewares run.
+ *
+ * @param key - Hono context of an HTTP request, or oRPC context of a call
+ * @param procedure - The matched oRPC procedure
+ */
+export function matchRequestEndpoint(key: HonoContext | object, procedure: object): void {
+  const endpoint = procedureEndpoints.get(procedure)
+  if (endpoint) {
+    requestEndpoints.set(key, endpoint)
+  }
+}
+
+/**
+ * Get the endpoint a request was routed to, including requests rejected by
+ * the access policy. Undefined for requests that matched no procedure.
+ *
+ * @param key - Hono context of an HTTP request, or the oRPC context a call started with
+ */
+export function getRequestEndpoint(key: HonoContext | object): EndpointDescriptor | undefined {
+  return requestEndpoints.get(key)
+}
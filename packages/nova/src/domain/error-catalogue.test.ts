@@ -0,0 +1,112 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { defineErrors } from './error-catalogue'
+import { createError, ErrorCode, normalizeError } from './errors'
+import { defineAccess } from './access'
+import { createApp } from '../core/create-app'
+import { CatchErrors, Controller, Handle, Public } from '../infrastructure/decorators'
+import type { BaseORPCContext } from './context'
+
+const AppErrors = defineErrors({
+  PLANET_NOT_FOUND: {
+    status: 404,
+    message: 'Planet not found',
+    data: z.object({ id: z.string() }),
+  },
+  QUOTA_EXCEEDED: { status: 429 },
+})
+
+describe('defineErrors', () => {
+  it('creates typed oRPC errors with the declared status and message', () => {
+    const error = AppErrors.PLANET_NOT_FOUND.create({ data: { id: 'p1' } })
+
+    expect(error.code).toBe('PLANET_NOT_FOUND')
+    expect(error.status).toBe(404)
+    expect(error.message).toBe('Planet not found')
+    expect(error.data).toEqual({ id: 'p1' })
+    expect(AppErrors.PLANET_NOT_FOUND.is(error)).toBe(true)
+    expect(AppErrors.QUOTA_EXCEEDED.is(error)).toBe(false)
+  })
+})
+
+describe('normalizeError', () => {
+  it('only infers status from message text when asked to', () => {
+    const error = new Error('User not found')
+
+    expect(normalizeError(error).status).toBe(500)
+    expect(normalizeError(error, undefined, { matchMessages: true }).status).toBe(404)
+  })
+})
+
+describe('createApp with an error catalogue', () => {
+  const routes = {
+    planet: oc
+      .errors(AppErrors)
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string() })),
+    legacy: oc.route({ method: 'GET', path: '/legacy' }).output(z.object({ ok: z.boolean() })),
+  }
+
+  const access = defineAccess({
+    default: 'public',
+    policies: {
+      public: { producer: implement(routes).$context<BaseORPCContext>() },
+    },
+  })
+
+  @Controller()
+  class PlanetController {
+    @Public()
+    @CatchErrors()
+    @Handle(routes.planet)
+    async planet(input: { id: string }) {
+      throw AppErrors.PLANET_NOT_FOUND.create({ data: { id: input.id } })
+    }
+
+    @Public()
+    @Handle(routes.legacy)
+    legacy() {
+      return createError(ErrorCode.CONFLICT, 'Already running')
+    }
+  }
+
+  it('returns declared errors with their status and data', async () => {
+    const app = await createApp({ routes, access, controllers: [PlanetController] })
+
+    const response = await app.fetch(new Request('http://localhost/api/planets/p1'))
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({
+      defined: true,
+      code: 'PLANET_NOT_FOUND',
+      message: 'Planet not found',
+      data: { id: 'p1' },
+    })
+  })
+
+  it('keeps the status of client errors raised with createError', async () => {
+    const app = await createApp({ routes, access, controllers: [PlanetController] })
+
+    const response = await app.fetch(new Request('http://localhost/api/legacy'))
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ code: 'CONFLICT', message: 'Already running' })
+  })
+
+  it('documents declared errors in the OpenAPI spec', async () => {
+    const { OpenAPIGenerator } = await import('@orpc/openapi')
+    const { ZodToJsonSchemaConverter } = await import('@orpc/zod/zod4')
+
+    const spec: any = await new OpenAPIGenerator({
+      schemaConverters: [new ZodToJsonSchemaConverter()],
+    }).generate(routes)
+
+    expect(Object.keys(spec.paths['/planets/{id}'].get.responses)).toEqual(
+      expect.arrayContaining(['200', '404', '429'])
+    )
+  })
+})
@@ -0,0 +1,192 @@
+import { ORPCError } from '@orpc/contract'
+import type { AnySchema, InferSchemaInput, InferSchemaOutput } from '@orpc/contract'
+import { ProcedureTimeoutError, isORPCHonoError } from './errors'
+import { isEventStream, mapEventStream } from './stream'
+
+/**
+ * Typed error catalogue
+ *
+ * Declares application errors once (code, HTTP status, default message and
+ * data schema). The catalogue is an oRPC error map, so passing it to
+ * `oc.errors()` documents the errors in the OpenAPI spec and in client types,
+ * while handlers throw them with type-checked data.
+ */
+
+/**
+ * Declaration of a single error
+ */
+export interface ErrorDefinition<TDataSchema extends AnySchema = AnySchema> {
+  /**
+   * HTTP status code (4xx or 5xx)
+   * @default 500
+   */
+  status?: number
+  /** Default message sent to clients */
+  message?: string
+  /** Schema describing the `data` payload */
+  data?: TDataSchema
+}
+
+/**
+ * Map of error codes to declarations
+ */
+export type ErrorDefinitions = Record<string, ErrorDefinition>
+
+/**
+ * Data accepted when creating an error
+ */
+type InferDataInput<TDef> = TDef extends { data: infer TSchema extends AnySchema }
+  ? InferSchemaInput<TSchema>
+  : undefined
+
+/**
+ * Data carried by the error once validated
+ */
+type InferDataOutput<TDef> = TDef extends { data: infer TSchema extends AnySchema }
+  ? InferSchemaOutput<TSchema>
+  : undefined
+
+/**
+ * Options for creating a catalogue error
+ */
+export interface CatalogueErrorOptions<TData> {
+  /** Payload validated against the declared schema */
+  data: TData
+  /** Overrides the declared message */
+  message?: string
+  /** Underlying error */
+  cause?: unknown
+}
+
+/**
+ * Arguments of `create()`: data is required only when a schema is declared
+ */
+type CreateArgs<TDef> = TDef extends { data: AnySchema }
+  ? [options: CatalogueErrorOptions<InferDataInput<TDef>>]
+  : [options?: Omit<CatalogueErrorOptions<undefined>, 'data'>]
+
+/**
+ * Catalogue entry: the declaration plus helpers to throw and detect the error
+ */
+export type CatalogueEntry<TCode extends string, TDef extends ErrorDefinition> = TDef & {
+  /** The error code */
+  readonly code: TCode
+  /** Create the error, ready to be thrown from a handler */
+  create(...args: CreateArgs<TDef>): ORPCError<TCode, InferDataOutput<TDef>>
+  /** Check whether an unknown value is this error */
+  is(error: unknown): error is ORPCError<TCode, InferDataOutput<TDef>>
+}
+
+/**
+ * Catalogue returned by defineErrors()
+ */
+export type ErrorCatalogue<TDefs extends ErrorDefinitions> = {
+  readonly [TCode in Extract<keyof TDefs, string>]: CatalogueEntry<TCode, TDefs[TCode]>
+}
+
+/**
+ * Declare the application's error catalogue.
+ *
+ * @param definitions - Error codes mapped to status, message and data schema
+ * @returns A catalogue usable as an oRPC error map
+ *
+ * @example
+ * ```typescript
+ * export const AppErrors = defineErrors({
+ *   PLANET_NOT_FOUND: {
+ *     status: 404,
+ *     message: 'Planet not found',
+ *     data: z.object({ id: z.string() }),
+ *   },
+ *   QUOTA_EXCEEDED: { status: 429 },
+ * })
+ *
+ * // Route: documents the errors in OpenAPI and client types
+ * const find = oc.errors(AppErrors).route({ method: 'GET', path: '/planets/{id}' })
+ *
+ * // Handler
+ * throw AppErrors.PLANET_NOT_FOUND.create({ data: { id: input.id } })
+ * ```
+ */
+export function defineErrors<const TDefs extends ErrorDefinitions>(
+  definitions: TDefs
+): ErrorCatalogue<TDefs> {
+  const catalogue: Record<string, unknown> = {}
+
+  for (const [code, definition] of Object.entries(definitions)) {
+    const status = definition.status ?? 500
+
+    catalogue[code] = {
+      ...definition,
+      code,
+      create(options: Partial<CatalogueErrorOptions<unknown>> = {}) {
+        return new ORPCError(code, {
+          status,
+          message: options.message ?? definition.message,
+          data: options.data,
+          cause: options.cause,
+        })
+      },
+      is(error: unknown) {
+        return error instanceof ORPCError && error.code === code
+      },
+    }
+  }
+
+  return catalogue as ErrorCatalogue<TDefs>
+}
+
+/**
+ * Convert a thrown value into the error oRPC should send to the client.
+ *
+ * Client errors (4xx) raised as ORPCHonoError, and procedure timeouts (504),
+ * keep their status, code and message instead of becoming a generic 500.
+ * Everything else is returned unchanged, so server errors stay opaque.
+ *
+ * @param error - Any thrown value
+ * @returns The error to rethrow
+ */
+export function toORPCError(error: unknown): unknown {
+  const exposed =
+    isORPCHonoError(error) &&
+    ((error.status >= 400 && error.status < 500) || error instanceof ProcedureTimeoutError)
+
+  if (exposed) {
+    return new ORPCError(error.code, {
+      status: error.status,
+      message: error.message,
+      cause: error,
+    })
+  }
+
+  return error
+}
+
+/**
+ * Wrap a procedure implementation so thrown errors go through toORPCError(),
+ * including errors thrown while a streamed output is iterated.
+ * Synchronous results stay synchronous.
+ *
+ * @param fn - Procedure implementation
+ * @returns Wrapped implementation
+ */
+export function withORPCErrors<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => TResult
+): (...args: TArgs) => TResult {
+  const mapResult = (result: unknown) =>
+    isEventStream(result) ? mapEventStream(result, { error: toORPCError }) : result
+
+  return (...args: TArgs): TResult => {
+    try {
+      const result = fn(...args)
+      if (result instanceof Promise) {
+        return result.then(mapResult, (error: unknown) => {
+          throw toORPCError(error)
+        }) as TResult
+      }
+      return mapResult(result) as TResult
+    } catch (error) {
+      throw toORPCError(error)
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Health checks
+ *
+ * A check is an async function that throws (or rejects) when the dependency
+ * it probes is unhealthy. Critical checks fail the report; non-critical
+ * ones only degrade it to 'warn'.
+ */
+
+/**
+ * Probe of a single dependency. Throw to report a failure.
+ */
+export type HealthCheck = () => unknown | Promise<unknown>
+
+/**
+ * Health check registration options
+ */
+export interface HealthCheckOptions {
+  /**
+   * Fail the check if it takes longer than this (ms)
+   * @default the registry's timeout
+   */
+  timeout?: number
+
+  /**
+   * Whether a failure fails the whole report; non-critical failures give 'warn'
+   * @default true
+   */
+  critical?: boolean
+
+  /**
+   * Also run the check for liveness. Liveness should only fail when a restart
+   * helps, so most dependency checks are readiness-only.
+   * @default false
+   */
+  liveness?: boolean
+}
+
+/**
+ * A check with its options
+ */
+export interface HealthCheckDefinition extends HealthCheckOptions {
+  check: HealthCheck
+}
+
+/**
+ * A check, bare or with options
+ */
+export type HealthCheckInput = HealthCheck | HealthCheckDefinition
+
+/**
+ * Aggregate status: 'warn' when only non-critical checks fail
+ */
+export type HealthStatus = 'pass' | 'warn' | 'fail'
+
+/**
+ * Outcome of a single check
+ */
+export interface HealthCheckResult {
+  status: 'pass' | 'fail'
+  /** Time the check took, in milliseconds */
+  latencyMs: number
+  critical: boolean
+  /** Error message of a failed check */
+  error?: string
+}
+
+/**
+ * Outcome of a set of checks
+ */
+export interface HealthReport {
+  status: HealthStatus
+  checks: Record<string, HealthCheckResult>
+  /** Set on readiness reports once app.shutdown() has started */
+  shuttingDown?: boolean
+}
+
+/**
+ * Health check registry options
+ */
+export interface HealthCheckRegistryOptions {
+  /**
+   * Default timeout of each check (ms)
+   * @default 5000
+   */
+  timeout?: number
+}
+
+export class DuplicateHealthCheckError extends Error {
+  constructor(name: string) {
+    super(`Health check "${name}" is already registered`)
+    this.name = 'DuplicateHealthCheckError'
+  }
+}
+
+/**
+ * Registry of named health checks
+ *
+ * @example
+ * ```typescript
+ * const health = new HealthCheckRegistry()
+ * health.register('database', prismaHealthCheck(prisma))
+ * health.register('search', () => search.ping(), { critical: false })
+ *
+ * const report = await health.run()
+ * ```
+ */
+export class HealthCheckRegistry {
+  private readonly checks = new Map<string, Required<HealthCheckDefinition>>()
+  private readonly timeout: number
+
+  constructor(options: HealthCheckRegistryOptions = {}) {
+    this.timeout = options.timeout ?? 5000
+  }
+
+  /**
+   * Names of the registered checks
+   */
+  get names(): string[] {
+    return [...this.checks.keys()]
+  }
+
+  /**
+   * Register a named check
+   *
+   * @param name - Check name, used as key in the report
+   * @param check - The check, bare or with options
+   * @param options - Options, when `check` is a bare function
+   * @throws DuplicateHealthCheckError if the name is taken
+   */
+  register(name: string, check: HealthCheckInput, options: HealthCheckOptions = {}): void {
+    if (this.checks.has(name)) {
+      throw new DuplicateHealthCheckError(name)
+    }
+
+    const definition = typeof check === 'function' ? { ...options, check } : check
+    this.checks.set(name, {
+      check: definition.check,
+      timeout: definition.timeout ?? this.timeout,
+      critical: definition.critical ?? true,
+      liveness: definition.liveness ?? false,
+    })
+  }
+
+  /**
+   * Remove a check
+   *
+   * @returns Whether the check was registered
+   */
+  unregister(name: string): boolean {
+    return this.checks.delete(name)
+  }
+
+  /**
+   * Run checks concurrently and aggregate their results
+   *
+   * @param scope - 'liveness' runs only checks registered with `liveness: true`
+   * @default scope 'readiness'
+   */
+  async run(scope: 'liveness' | 'readiness' = 'readiness'): Promise<HealthReport> {
+    const selected = [...this.checks].filter(([, definition]) => scope === 'readiness' || definition.liveness)
+    const results = await Promise.all(selected.map(([, definition]) => runCheck(definition)))
+
+    const checks: Record<string, HealthCheckResult> = {}
+    selected.forEach(([name], i) => {
+      checks[name] = results[i]
+    })
+
+    return { status: aggregateStatus(results), checks }
+  }
+}
+
+async function runCheck(definition: Required<HealthCheckDefinition>): Promise<HealthCheckResult> {
+  const { check, timeout, critical } = definition
+  const start = performance.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    await Promise.race([
+      Promise.resolve().then(check),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout)
+      }),
+    ])
+    return { status: 'pass', latencyMs: elapsed(start), critical }
+  } catch (error) {
+    return {
+      status: 'fail',
+      latencyMs: elapsed(start),
+      critical,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function aggregateStatus(results: HealthCheckResult[]): HealthStatus {
+  const failed = results.filter(result => result.status === 'fail')
+
+  if (failed.some(result => result.critical)) {
+    return 'fail'
+  }
+
+  return failed.length > 0 ? 'warn' : 'pass'
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100
+}
@@ -0,0 +1,116 @@
+import { stableStringify } from './cache'
+import { ORPCHonoError } from './errors'
+
+/**
+ * Idempotency primitives
+ *
+ * The first call with an `Idempotency-Key` claims the key, runs the handler
+ * and stores its output; retries with the same key replay that output
+ * instead of running the handler again.
+ */
+
+/**
+ * Idempotency declaration of an endpoint
+ */
+export interface IdempotencyPolicy {
+  /**
+   * How long a stored output is replayed, in milliseconds
+   * @default the plugin's ttl
+   */
+  ttl?: number
+  /**
+   * Reject calls without an idempotency key with 400
+   * @default false
+   */
+  required?: boolean
+}
+
+/**
+ * Output of a completed call, replayed to retries
+ */
+export interface IdempotentResponse {
+  /** Procedure output */
+  value: unknown
+  /** Response headers set by the handler, e.g. `Location` */
+  headers: Record<string, string>
+}
+
+/**
+ * State of a key
+ * - in-progress: the first call is running; the key is locked
+ * - completed: the response of the first call is stored for replay
+ */
+export type IdempotencyRecord =
+  | { status: 'in-progress'; fingerprint: string; expiresAt: number }
+  | { status: 'completed'; fingerprint: string; response: IdempotentResponse; expiresAt: number }
+
+/**
+ * Storage backend for idempotency records
+ *
+ * `begin` must be atomic per key, e.g. `SET key value NX PX ttl` on Redis.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a call. Resolves undefined when the key was free and is
+   * now locked until `lockTtlMs` elapses, or the existing record otherwise.
+   */
+  begin(key: string, fingerprint: string, lockTtlMs: number): Promise<IdempotencyRecord | undefined>
+
+  /**
+   * Store the response of the call holding the lock
+   */
+  complete(key: string, fingerprint: string, response: IdempotentResponse, ttlMs: number): Promise<void>
+
+  /**
+   * Release the lock of a failed call, so a retry runs the handler again
+   */
+  release(key: string): Promise<void>
+}
+
+/**
+ * Fingerprint of a call, used to detect keys reused with another payload
+ *
+ * @param path - Contract path of the procedure
+ * @param input - Validated procedure input
+ */
+export async function fingerprintRequest(path: string, input: unknown): Promise<string> {
+  const data = new TextEncoder().encode(`${path}\n${stableStringify(input)}`)
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Error thrown when an idempotency key is required but missing or malformed
+ */
+export class IdempotencyKeyMissingError extends ORPCHonoError {
+  readonly status = 400
+  readonly code = 'IDEMPOTENCY_KEY_MISSING'
+
+  constructor(header: string) {
+    super(`A valid ${header} header is required`)
+  }
+}
+
+/**
+ * Error thrown when a key is reused with a different payload
+ */
+export class IdempotencyKeyReuseError extends ORPCHonoError {
+  readonly status = 422
+  readonly code = 'IDEMPOTENCY_KEY_REUSED'
+
+  constructor() {
+    super('Idempotency key was already used with a different payload')
+  }
+}
+
+/**
+ * Error thrown when a call with the same key is still running
+ */
+export class IdempotencyConflictError extends ORPCHonoError {
+  readonly status = 409
+  readonly code = 'IDEMPOTENCY_CONFLICT'
+
+  constructor() {
+    super('A request with this idempotency key is still being processed')
+  }
+}
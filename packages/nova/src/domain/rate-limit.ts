@@ -0,0 +1,202 @@
+import type { BaseORPCContext } from './context'
+import { ORPCHonoError } from './errors'
+
+/**
+ * Rate limiting primitives
+ *
+ * Algorithms are pure functions over a stored state, so any store
+ * (in-memory, Redis, ...) can apply them atomically.
+ */
+
+/**
+ * Supported algorithms
+ * - fixed-window: at most `limit` requests per `windowMs`
+ * - token-bucket: bursts up to `limit`, refilled evenly over `windowMs`
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket'
+
+/**
+ * How clients are identified
+ * - 'ip': client IP address
+ * - 'user': `context.auth.userId`, per tenant when the tenant was checked
+ *   against the tenant store or read from a verified token, falling back to
+ *   the IP for anonymous requests
+ * - function: custom key from the request context, used as is
+ */
+export type RateLimitKey<TContext extends BaseORPCContext = BaseORPCContext> =
+  | 'ip'
+  | 'user'
+  | ((context: TContext) => string | Promise<string>)
+
+/**
+ * Rate limit declaration
+ */
+export interface RateLimitRule {
+  /** Requests per window (fixed-window) or bucket capacity (token-bucket) */
+  limit: number
+  /**
+   * Window length in milliseconds; for token-bucket, the time to refill an empty bucket
+   * @default 60000
+   */
+  windowMs?: number
+  /**
+   * Algorithm
+   * @default 'fixed-window'
+   */
+  algorithm?: RateLimitAlgorithm
+  /**
+   * Client key
+   * @default 'ip'
+   */
+  key?: RateLimitKey<any>
+}
+
+/**
+ * Rule with defaults applied, as passed to stores
+ */
+export interface ResolvedRateLimitRule {
+  limit: number
+  windowMs: number
+  algorithm: RateLimitAlgorithm
+}
+
+/**
+ * Outcome of consuming one request
+ */
+export interface RateLimitResult {
+  /** Whether the request is allowed */
+  allowed: boolean
+  /** Configured limit */
+  limit: number
+  /** Requests left in the current window or bucket */
+  remaining: number
+  /** Milliseconds until the quota is fully restored */
+  resetMs: number
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number
+}
+
+/**
+ * Storage backend for rate limit state
+ *
+ * `consume` must be atomic per key. A Redis store would typically run
+ * `applyRateLimit` as a Lua script or within a transaction.
+ */
+export interface RateLimitStore {
+  /**
+   * Record one request for the key and report whether it is allowed
+   */
+  consume(key: string, rule: ResolvedRateLimitRule): Promise<RateLimitResult>
+
+  /**
+   * Forget the state of a key
+   */
+  reset?(key: string): Promise<void>
+}
+
+/**
+ * Fixed-window counter state
+ */
+export interface FixedWindowState {
+  count: number
+  resetAt: number
+}
+
+/**
+ * Token-bucket state
+ */
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * State kept per key
+ */
+export type RateLimitState = FixedWindowState | TokenBucketState
+
+/**
+ * Apply a rule to the current state of a key
+ *
+ * @param state - Stored state, or undefined for a new key
+ * @param rule - Resolved rule
+ * @param now - Current time in milliseconds
+ * @returns The next state, the result and when the state can be discarded
+ */
+export function applyRateLimit(
+  state: RateLimitState | undefined,
+  rule: ResolvedRateLimitRule,
+  now: number
+): { state: RateLimitState; result: RateLimitResult; expiresAt: number } {
+  return rule.algorithm === 'token-bucket'
+    ? applyTokenBucket(state as TokenBucketState | undefined, rule, now)
+    : applyFixedWindow(state as FixedWindowState | undefined, rule, now)
+}
+
+function applyFixedWindow(
+  state: FixedWindowState | undefined,
+  rule: ResolvedRateLimitRule,
+  now: number
+): { state: FixedWindowState; result: RateLimitResult; expiresAt: number } {
+  const current =
+    state && 'count' in state && state.resetAt > now
+      ? state
+      : { count: 0, resetAt: now + rule.windowMs }
+
+  const next = { count: current.count + 1, resetAt: current.resetAt }
+  const allowed = next.count <= rule.limit
+  const resetMs = next.resetAt - now
+
+  return {
+    state: next,
+    expiresAt: next.resetAt,
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - next.count),
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs,
+    },
+  }
+}
+
+function applyTokenBucket(
+  state: TokenBucketState | undefined,
+  rule: ResolvedRateLimitRule,
+  now: number
+): { state: TokenBucketState; result: RateLimitResult; expiresAt: number } {
+  const refillPerMs = rule.limit / rule.windowMs
+  const previous = state && 'tokens' in state ? state : { tokens: rule.limit, updatedAt: now }
+  const available = Math.min(
+    rule.limit,
+    previous.tokens + Math.max(0, now - previous.updatedAt) * refillPerMs
+  )
+
+  const allowed = available >= 1
+  const tokens = allowed ? available - 1 : available
+  const resetMs = Math.ceil((rule.limit - tokens) / refillPerMs)
+
+  return {
+    state: { tokens, updatedAt: now },
+    expiresAt: now + resetMs,
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  }
+}
+
+/**
+ * Error thrown when a client exceeds its rate limit
+ */
+export class RateLimitExceededError extends ORPCHonoError {
+  readonly status = 429
+  readonly code = 'TOO_MANY_REQUESTS'
+
+  constructor(readonly retryAfterMs: number) {
+    super('Too many requests')
+  }
+}
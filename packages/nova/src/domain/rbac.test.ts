@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RoleInheritanceCycleError,
+  UnknownRoleError,
+  defineRoles,
+  matchPermission,
+  missingPermissions,
+} from './rbac'
+
+describe('defineRoles', () => {
+  const roles = defineRoles({
+    viewer: { permissions: ['task:read'] },
+    editor: { inherits: 'viewer', permissions: ['task:create', 'comment:*'] },
+    admin: { inherits: ['editor'], permissions: ['*'] },
+  })
+
+  it('flattens inherited permissions', () => {
+    expect(roles.permissionsFor(['editor']).sort()).toEqual(['comment:*', 'task:create', 'task:read'])
+    expect(roles.permissionsFor(['unknown'])).toEqual([])
+  })
+
+  it('matches permissions in all-of and any-of mode', () => {
+    expect(roles.can(['editor'], ['task:read', 'comment:delete'])).toBe(true)
+    expect(roles.can(['viewer'], ['task:read', 'task:create'])).toBe(false)
+    expect(roles.can(['viewer'], ['task:read', 'task:create'], 'any')).toBe(true)
+    expect(roles.can(['admin'], 'billing:refund')).toBe(true)
+  })
+
+  it('rejects undeclared parents and inheritance cycles', () => {
+    expect(() => defineRoles({ editor: { inherits: 'viewer' } })).toThrow(UnknownRoleError)
+    expect(() =>
+      defineRoles({ a: { inherits: 'b' }, b: { inherits: 'a' } })
+    ).toThrow(RoleInheritanceCycleError)
+  })
+})
+
+describe('matchPermission', () => {
+  it.each([
+    ['task:*', 'task:create', true],
+    ['task:*', 'task:comment:edit', true],
+    ['task:*', 'task', false],
+    ['task:*:edit', 'task:comment:edit', true],
+    ['task:*:edit', 'task:comment:delete', false],
+    ['task:create', 'task:create:bulk', false],
+    ['*', 'anything', true],
+  ])('%s grants %s: %s', (granted, required, expected) => {
+    expect(matchPermission(granted, required)).toBe(expected)
+  })
+
+  it('reports missing permissions', () => {
+    expect(missingPermissions(['task:read'], ['task:read', 'task:create'])).toEqual(['task:create'])
+    expect(missingPermissions(['task:read'], ['task:read', 'task:create'], 'any')).toEqual([])
+  })
+})
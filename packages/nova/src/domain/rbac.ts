@@ -0,0 +1,196 @@
+/**
+ * Role-based access control
+ *
+ * Roles grant permissions and may inherit the permissions of other roles.
+ * Permissions are colon-separated strings; a `*` segment matches any single
+ * segment, and a trailing `*` matches everything below it (`task:*` grants
+ * `task:create` and `task:comment:edit`, `*` grants everything).
+ */
+
+/**
+ * Role declaration
+ */
+export interface RoleDefinition {
+  /** Permissions granted by this role */
+  permissions?: string[]
+  /** Roles whose permissions this role inherits */
+  inherits?: string | string[]
+}
+
+/**
+ * Roles keyed by name
+ */
+export type RoleDefinitions = Record<string, RoleDefinition>
+
+/**
+ * How required permissions are matched
+ * - 'all': every required permission must be granted
+ * - 'any': at least one required permission must be granted
+ */
+export type PermissionMatch = 'all' | 'any'
+
+export class UnknownRoleError extends Error {
+  constructor(roleName: string, inheritedBy: string) {
+    super(`Role "${inheritedBy}" inherits undeclared role "${roleName}"`)
+    this.name = 'UnknownRoleError'
+  }
+}
+
+export class RoleInheritanceCycleError extends Error {
+  constructor(path: string[]) {
+    super(`Role inheritance cycle detected: ${path.join(' -> ')}`)
+    this.name = 'RoleInheritanceCycleError'
+  }
+}
+
+/**
+ * Resolved role registry
+ *
+ * Inheritance is validated and flattened once at construction.
+ */
+export class RoleRegistry<TRole extends string = string> {
+  private readonly resolved = new Map<string, string[]>()
+
+  constructor(readonly roles: Record<TRole, RoleDefinition>) {
+    for (const name of Object.keys(roles)) {
+      this.resolved.set(name, this.resolve(name, []))
+    }
+  }
+
+  /**
+   * Permissions granted by a set of roles, including inherited ones.
+   * Undeclared roles grant nothing.
+   */
+  permissionsFor(roles: readonly string[]): string[] {
+    const permissions = new Set<string>()
+    for (const role of roles) {
+      for (const permission of this.resolved.get(role) ?? []) {
+        permissions.add(permission)
+      }
+    }
+    return [...permissions]
+  }
+
+  /**
+   * Check whether a set of roles grants the required permissions
+   *
+   * @param roles - Roles of the caller
+   * @param required - Required permission(s)
+   * @param match - Matching mode
+   * @default match 'all'
+   */
+  can(roles: readonly string[], required: string | string[], match: PermissionMatch = 'all'): boolean {
+    return missingPermissions(this.permissionsFor(roles), toArray(required), match).length === 0
+  }
+
+  private resolve(name: string, stack: string[]): string[] {
+    if (stack.includes(name)) {
+      throw new RoleInheritanceCycleError([...stack, name])
+    }
+
+    const cached = this.resolved.get(name)
+    if (cached) {
+      return cached
+    }
+
+    const role = this.roles[name as TRole]
+    const permissions = new Set(role.permissions ?? [])
+
+    for (const parent of toArray(role.inherits ?? [])) {
+      if (!(parent in this.roles)) {
+        throw new UnknownRoleError(parent, name)
+      }
+      for (const permission of this.resolve(parent, [...stack, name])) {
+        permissions.add(permission)
+      }
+    }
+
+    return [...permissions]
+  }
+}
+
+/**
+ * Define application roles
+ *
+ * @param roles - Role declarations keyed by name
+ * @returns A role registry
+ * @throws UnknownRoleError if a role inherits an undeclared role
+ * @throws RoleInheritanceCycleError if inheritance contains a cycle
+ *
+ * @example
+ * ```typescript
+ * export const roles = defineRoles({
+ *   viewer: { permissions: ['task:read'] },
+ *   editor: { inherits: 'viewer', permissions: ['task:create', 'task:update'] },
+ *   admin: { permissions: ['*'] },
+ * })
+ *
+ * roles.can(['editor'], 'task:read') // true
+ * ```
+ */
+export function defineRoles<const TRoles extends RoleDefinitions>(
+  roles: TRoles
+): RoleRegistry<keyof TRoles & string> {
+  return new RoleRegistry(roles)
+}
+
+/**
+ * Check whether a granted permission covers a required one
+ *
+ * @param granted - Granted permission, possibly with wildcards
+ * @param required - Required permission
+ */
+export function matchPermission(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) {
+    return true
+  }
+
+  const grantedSegments = granted.split(':')
+  const requiredSegments = required.split(':')
+
+  for (let i = 0; i < grantedSegments.length; i++) {
+    if (grantedSegments[i] === '*') {
+      if (i === grantedSegments.length - 1) {
+        return requiredSegments.length > i
+      }
+      if (i >= requiredSegments.length) {
+        return false
+      }
+      continue
+    }
+
+    if (grantedSegments[i] !== requiredSegments[i]) {
+      return false
+    }
+  }
+
+  return grantedSegments.length === requiredSegments.length
+}
+
+/**
+ * Required permissions not covered by the granted ones
+ *
+ * @param granted - Granted permissions
+ * @param required - Required permissions
+ * @param match - Matching mode
+ * @returns The missing permissions; empty when access is allowed
+ */
+export function missingPermissions(
+  granted: readonly string[],
+  required: readonly string[],
+  match: PermissionMatch = 'all'
+): string[] {
+  const missing = required.filter(permission =>
+    !granted.some(grant => matchPermission(grant, permission))
+  )
+
+  if (match === 'any' && missing.length < required.length) {
+    return []
+  }
+
+  return missing
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value]
+}
@@ -0,0 +1,104 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { defineAccess } from './access'
+import type { BaseORPCContext } from './context'
+import { defineRoles } from './rbac'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Middleware, Permission, Public } from '../infrastructure/decorators'
+import { authPolicy } from '../policies/auth'
+import { permissionPolicy } from '../policies/permission'
+
+const routes = {
+  tasks: {
+    list: oc.route({ method: 'GET', path: '/tasks', deprecated: true }).output(z.array(z.string())),
+    create: oc.route({ method: 'POST', path: '/tasks' }).output(z.object({ ok: z.boolean() })),
+  },
+  ping: oc.output(z.string()),
+}
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: implement(routes).$context<BaseORPCContext>() },
+    auth: authPolicy({ uses: 'public', session: (token) => ({ userId: token }) }),
+    permission: permissionPolicy({ uses: 'auth', resolve: defineRoles({ admin: { permissions: ['*'] } }) }),
+  },
+})
+
+function auditLog({ next }: { next: () => unknown }) {
+  return next()
+}
+
+@Controller()
+class TaskController {
+  @Public()
+  @Handle(routes.tasks.list)
+  list() {
+    return []
+  }
+
+  @Middleware(auditLog)
+  @Permission('task:create')
+  @Handle(routes.tasks.create)
+  create() {
+    return { ok: true }
+  }
+}
+
+@Controller()
+class PingController {
+  @Handle(routes.ping)
+  ping() {
+    return 'pong'
+  }
+}
+
+describe('describeRoutes', () => {
+  it('describes every mounted procedure', async () => {
+    const app = await createApp({
+      routes,
+      access,
+      controllers: [TaskController, PingController],
+      apiPrefix: '/v1/',
+      plugins: [{ name: 'audit', procedureInterceptor: (_invocation, next) => next() }, { name: 'noop' }],
+    })
+
+    const table = app.describeRoutes()
+
+    expect(table.map((route) => route.procedure)).toEqual(['ping', 'tasks.create', 'tasks.list'])
+    expect(table[0]).toEqual({
+      procedure: 'ping',
+      method: 'POST',
+      path: '/ping',
+      restUrl: '/v1/ping',
+      rpcUrl: '/rpc/ping',
+      access: { policy: 'public', permissions: [], policies: ['public'] },
+      handler: 'PingController.ping',
+      middlewares: ['access'],
+      interceptors: ['audit'],
+      deprecated: false,
+    })
+    expect(table[1]).toMatchObject({
+      method: 'POST',
+      restUrl: '/v1/tasks',
+      rpcUrl: '/rpc/tasks/create',
+      access: { policy: 'permission', permissions: ['task:create'], policies: ['public', 'auth', 'permission'] },
+      handler: 'TaskController.create',
+      middlewares: ['access', 'auth', 'permission', 'auditLog'],
+    })
+    expect(table[2]).toMatchObject({ method: 'GET', handler: 'TaskController.list', deprecated: true })
+  })
+
+  it('includes controllers registered after startup', async () => {
+    const app = await createApp({ routes, access, controllers: [TaskController] })
+
+    await app.registerController(PingController)
+
+    expect(app.describeRoutes().map((route) => route.procedure)).toContain('ping')
+    const response = await app.fetch(new Request('http://localhost/api/ping', { method: 'POST' }))
+    expect(await response.json()).toBe('pong')
+  })
+})
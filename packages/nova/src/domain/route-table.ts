@@ -0,0 +1,145 @@
+import type { Route } from '@orpc/contract'
+import { getProcedureEndpoint } from './endpoint'
+
+/**
+ * Route table introspection
+ *
+ * Describes every procedure mounted on an app: where it is served, which
+ * access policy guards it, what implements it and which middlewares run
+ * before it. Used by `app.describeRoutes()` and the `outscope routes`
+ * command, for code review and security audits.
+ */
+
+/**
+ * A procedure mounted on an app
+ */
+export interface RouteDescription {
+  /** Contract path, e.g. 'planet.list' */
+  procedure: string
+  /** HTTP method of the REST endpoint */
+  method: string
+  /** HTTP path of the REST endpoint, relative to the API prefix */
+  path: string
+  /** REST URL, including the API prefix */
+  restUrl: string
+  /** RPC URL, including the RPC prefix */
+  rpcUrl: string
+  /** Resolved access policy */
+  access: {
+    /** Policy selected for the endpoint */
+    policy: string
+    /** Permissions required by the endpoint */
+    permissions: string[]
+    /** Policies applied, inherited policies first */
+    policies: string[]
+  }
+  /** Controller method or handler key implementing the procedure */
+  handler: string
+  /** oRPC middlewares run before the handler, outermost first */
+  middlewares: string[]
+  /** Plugins intercepting the handler invocation, outermost first */
+  interceptors: string[]
+  /** Whether the contract marks the procedure as deprecated */
+  deprecated: boolean
+  /** Name of the additional API version serving the procedure */
+  version?: string
+}
+
+/**
+ * Prefixes and app-wide interceptors of the described app
+ */
+export interface DescribeRouterOptions {
+  /** URL prefix of the REST endpoints */
+  apiPrefix: string
+  /** URL prefix of the RPC endpoints */
+  rpcPrefix: string
+  /** Names of the plugins with a procedure interceptor, outermost first */
+  interceptors?: string[]
+  /** Name of the additional API version the router belongs to */
+  version?: string
+}
+
+interface ProcedureLike {
+  '~orpc': {
+    route?: Route
+    middlewares?: readonly unknown[]
+  }
+}
+
+const middlewareLabels = new WeakMap<object, string>()
+
+/**
+ * Name a middleware in route descriptions.
+ * Unlabeled middlewares are shown by their function name.
+ *
+ * @param middleware - oRPC middleware
+ * @param label - Name shown by describeRoutes()
+ * @returns The middleware
+ */
+export function labelMiddleware<T>(middleware: T, label: string): T {
+  if ((typeof middleware === 'function' || typeof middleware === 'object') && middleware !== null) {
+    middlewareLabels.set(middleware, label)
+  }
+  return middleware
+}
+
+/**
+ * Describe every procedure of a router, sorted by contract path
+ *
+ * @param router - Router of registered procedures
+ * @param options - Prefixes and interceptors of the app
+ * @returns One description per procedure
+ */
+export function describeRouter(router: object, options: DescribeRouterOptions): RouteDescription[] {
+  const routes: RouteDescription[] = []
+
+  walk(router, [], (procedure, path) => {
+    const endpoint = getProcedureEndpoint(procedure)
+    const route = procedure['~orpc'].route ?? {}
+    const httpPath = route.path ?? `/${path.map(encodeURIComponent).join('/')}`
+
+    routes.push({
+      procedure: path.join('.'),
+      method: route.method ?? 'POST',
+      path: httpPath,
+      restUrl: joinUrl(options.apiPrefix, httpPath),
+      rpcUrl: joinUrl(options.rpcPrefix, `/${path.join('/')}`),
+      access: {
+        policy: endpoint?.access.policy ?? 'unknown',
+        permissions: endpoint?.access.permissions ?? [],
+        policies: endpoint?.policies ?? [],
+      },
+      handler: endpoint?.handler ?? 'unknown',
+      middlewares: (procedure['~orpc'].middlewares ?? []).map(nameMiddleware),
+      interceptors: options.interceptors ?? [],
+      deprecated: route.deprecated ?? false,
+      ...(options.version === undefined ? {} : { version: options.version }),
+    })
+  })
+
+  return routes.sort((a, b) => a.procedure.localeCompare(b.procedure))
+}
+
+function walk(router: object, path: string[], visit: (procedure: ProcedureLike, path: string[]) => void): void {
+  if ('~orpc' in router) {
+    visit(router as ProcedureLike, path)
+    return
+  }
+
+  for (const [key, value] of Object.entries(router)) {
+    if (typeof value === 'object' && value !== null) {
+      walk(value, [...path, key], visit)
+    }
+  }
+}
+
+function nameMiddleware(middleware: unknown): string {
+  if ((typeof middleware !== 'function' && typeof middleware !== 'object') || middleware === null) {
+    return 'anonymous'
+  }
+  return middlewareLabels.get(middleware) ?? ((middleware as { name?: string }).name || 'anonymous')
+}
+
+function joinUrl(prefix: string, path: string): string {
+  return `${prefix.replace(/\/+$/, '')}${path}`
+}
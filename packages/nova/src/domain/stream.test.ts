@@ -0,0 +1,135 @@
+import 'reflect-metadata'
+import { describe, expect, it, vi } from 'vitest'
+import { eventIterator, oc } from '@orpc/contract'
+import { implement, withEventMeta } from '@orpc/server'
+import { z } from 'zod'
+import { PermissionDeniedError } from './errors'
+import { defineAccess } from './access'
+import type { BaseORPCContext } from './context'
+import type { StreamingOptions } from './stream'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Public } from '../infrastructure/decorators'
+
+const routes = {
+  ticks: oc
+    .route({ method: 'GET', path: '/ticks' })
+    .input(z.object({ count: z.coerce.number().optional() }))
+    .output(eventIterator(z.object({ n: z.number() }))),
+  revoked: oc.route({ method: 'GET', path: '/revoked' }).output(eventIterator(z.object({ n: z.number() }))),
+  idle: oc.route({ method: 'GET', path: '/idle' }).output(eventIterator(z.object({ n: z.number() }))),
+}
+
+const closed: string[] = []
+
+@Controller()
+class TickController {
+  @Public()
+  @Handle(routes.ticks)
+  async *ticks(input: { count?: number }) {
+    try {
+      for (let n = 0; input.count === undefined || n < input.count; n++) {
+        yield withEventMeta({ n }, { id: String(n) })
+        await new Promise(resolve => setTimeout(resolve, 5))
+      }
+    } finally {
+      closed.push('ticks')
+    }
+  }
+
+  @Public()
+  @Handle(routes.revoked)
+  async *revoked() {
+    yield { n: 0 }
+    throw new PermissionDeniedError(['tick:read'])
+  }
+
+  @Public()
+  @Handle(routes.idle)
+  async *idle() {
+    await new Promise(resolve => setTimeout(resolve, 100))
+    yield { n: 0 }
+  }
+}
+
+async function createTestApp(streaming?: StreamingOptions) {
+  const producer = implement(routes).$context<BaseORPCContext>()
+
+  return createApp({
+    routes,
+    access: defineAccess({ default: 'public', policies: { public: { producer } } }),
+    controllers: [TickController],
+    streaming,
+  })
+}
+
+describe('streamed procedure outputs', () => {
+  it('delivers yielded events as Server-Sent Events on the OpenAPI transport', async () => {
+    const app = await createTestApp()
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/ticks?count=2'))
+    const body = await response.text()
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(body).toContain('event: message\nid: 0\ndata: {"n":0}')
+    expect(body).toContain('event: message\nid: 1\ndata: {"n":1}')
+  })
+
+  it('streams oRPC events on the RPC transport', async () => {
+    const app = await createTestApp()
+
+    const response = await app.hono.fetch(
+      new Request('http://localhost/rpc/ticks', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ json: { count: 1 } }),
+      })
+    )
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(await response.text()).toContain('data: {"json":{"n":0}}')
+  })
+
+  it('closes the handler when the client disconnects', async () => {
+    const app = await createTestApp()
+    closed.length = 0
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/ticks'))
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+
+    await vi.waitFor(() => expect(closed).toEqual(['ticks']))
+  })
+
+  it('maps errors thrown mid-stream to their status and code', async () => {
+    const app = await createTestApp()
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/revoked'))
+    const body = await response.text()
+
+    expect(body).toContain('data: {"n":0}')
+    expect(body).toMatch(/event: error\ndata: .*"code":"FORBIDDEN","status":403/)
+  })
+
+  it('sends heartbeat comments while a stream is idle', async () => {
+    const app = await createTestApp({ heartbeatInterval: 20, heartbeatComment: 'ping' })
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/idle'))
+
+    expect(await response.text()).toContain(': ping\n\n')
+  })
+
+  it('documents streamed outputs as text/event-stream with the event schema', async () => {
+    const app = await createTestApp()
+
+    const spec = (await app.getOpenAPISpec()) as any
+    const content = spec.paths['/ticks'].get.responses['200'].content
+
+    expect(Object.keys(content)).toEqual(['text/event-stream'])
+    expect(content['text/event-stream'].schema.oneOf[0].properties.data).toEqual({
+      type: 'object',
+      properties: { n: { type: 'number' } },
+      required: ['n'],
+    })
+  })
+})
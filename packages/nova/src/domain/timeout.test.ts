@@ -0,0 +1,135 @@
+import 'reflect-metadata'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { defineAccess } from './access'
+import type { BaseORPCContext } from './context'
+import { ProcedureTimeoutError } from './errors'
+import { anySignal } from './timeout'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Public, Timeout } from '../infrastructure/decorators'
+
+const routes = {
+  slow: oc
+    .route({ method: 'GET', path: '/slow' })
+    .input(z.object({ delay: z.coerce.number() }))
+    .output(z.object({ ok: z.boolean() })),
+  patient: oc
+    .route({ method: 'GET', path: '/patient' })
+    .input(z.object({ delay: z.coerce.number() }))
+    .output(z.object({ ok: z.boolean() })),
+  unbounded: oc
+    .route({ method: 'GET', path: '/unbounded' })
+    .input(z.object({ delay: z.coerce.number() }))
+    .output(z.object({ ok: z.boolean() })),
+}
+
+const signals: AbortSignal[] = []
+
+function wait(delay: number, signal?: AbortSignal) {
+  if (signal) {
+    signals.push(signal)
+  }
+  return new Promise<{ ok: boolean }>((resolve) => setTimeout(() => resolve({ ok: true }), delay))
+}
+
+@Controller()
+class SlowController {
+  @Public()
+  @Handle(routes.slow)
+  slow(input: { delay: number }, context: BaseORPCContext) {
+    return wait(input.delay, context.signal)
+  }
+
+  @Timeout(200)
+  @Public()
+  @Handle(routes.patient)
+  patient(input: { delay: number }, context: BaseORPCContext) {
+    return wait(input.delay, context.signal)
+  }
+
+  @Timeout(false)
+  @Public()
+  @Handle(routes.unbounded)
+  unbounded(input: { delay: number }, context: BaseORPCContext) {
+    return wait(input.delay, context.signal)
+  }
+}
+
+async function createTestApp(timeout?: number) {
+  return createApp({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+    }),
+    controllers: [SlowController],
+    timeout,
+  })
+}
+
+beforeEach(() => {
+  signals.length = 0
+})
+
+describe('procedure timeouts', () => {
+  it('answers with 504 and aborts the signal when the app timeout passes', async () => {
+    const app = await createTestApp(20)
+
+    const response = await app.fetch(new Request('http://localhost/api/slow?delay=200'))
+
+    expect(response.status).toBe(504)
+    expect(await response.json()).toMatchObject({ code: 'GATEWAY_TIMEOUT' })
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[0].reason).toBeInstanceOf(ProcedureTimeoutError)
+  })
+
+  it('leaves calls that finish in time untouched', async () => {
+    const app = await createTestApp(200)
+
+    const response = await app.fetch(new Request('http://localhost/api/slow?delay=5'))
+
+    expect(await response.json()).toEqual({ ok: true })
+    expect(signals[0].aborted).toBe(false)
+  })
+
+  it('lets endpoints override or opt out of the app timeout', async () => {
+    const app = await createTestApp(20)
+
+    const patient = await app.fetch(new Request('http://localhost/api/patient?delay=50'))
+    const unbounded = await app.fetch(new Request('http://localhost/api/unbounded?delay=50'))
+
+    expect(patient.status).toBe(200)
+    expect(unbounded.status).toBe(200)
+  })
+
+  it('exposes the request signal, which aborts when the client disconnects', async () => {
+    const app = await createTestApp()
+    const client = new AbortController()
+
+    const response = app.fetch(new Request('http://localhost/api/slow?delay=100', { signal: client.signal }))
+    await vi.waitFor(() => expect(signals).toHaveLength(1))
+    client.abort()
+
+    expect(signals[0].aborted).toBe(true)
+    await response.catch(() => undefined)
+  })
+})
+
+describe('anySignal', () => {
+  it('aborts with the reason of the first signal to abort', () => {
+    const first = new AbortController()
+    const second = new AbortController()
+    const combined = anySignal([first.signal, second.signal])
+
+    second.abort('second')
+    first.abort('first')
+
+    expect(combined.reason).toBe('second')
+  })
+
+  it('is aborted immediately when a signal already is', () => {
+    expect(anySignal([AbortSignal.abort('done')]).aborted).toBe(true)
+  })
+})
@@ -0,0 +1,70 @@
+import type { ProcedureInterceptor } from './endpoint'
+import { ProcedureTimeoutError } from './errors'
+
+/**
+ * Procedure timeouts and cancellation
+ *
+ * Handlers receive `context.signal`, which aborts when the client disconnects
+ * or cancels the call. With a timeout, it also aborts once the deadline
+ * passes, and the call is answered with 504 even if the handler ignores the
+ * signal. For streamed outputs, the deadline covers the time until the
+ * handler returns its stream.
+ */
+
+/**
+ * Create the interceptor enforcing endpoint timeouts.
+ * createApp installs it as the outermost procedure interceptor.
+ *
+ * @param defaultTimeout - Timeout in milliseconds for endpoints without their own
+ * @returns Interceptor aborting `context.signal` and failing with 504 at the deadline
+ */
+export function createTimeoutInterceptor(defaultTimeout?: number): ProcedureInterceptor {
+  return async ({ endpoint, context }, next) => {
+    const declared = endpoint.options.timeout
+    const timeout = declared === false ? undefined : (declared ?? defaultTimeout)
+    if (timeout === undefined) {
+      return next()
+    }
+
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const deadline = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new ProcedureTimeoutError(timeout)
+        controller.abort(error)
+        reject(error)
+      }, timeout)
+    })
+
+    const signal = context.signal ? anySignal([context.signal, controller.signal]) : controller.signal
+
+    try {
+      return await Promise.race([next({ context: { ...context, signal } }), deadline])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Combine signals into one that aborts with the reason of the first to abort
+ *
+ * @param signals - Signals to follow
+ * @returns Combined signal
+ */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController()
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      break
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), {
+      once: true,
+      signal: controller.signal,
+    })
+  }
+
+  return controller.signal
+}
@@ -0,0 +1,95 @@
+/**
+ * Request correlation and W3C Trace Context
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+/**
+ * Correlation identifiers of a request
+ */
+export interface TraceContext {
+  /** Request ID, taken from `X-Request-Id` or generated */
+  requestId: string
+  /** 32-hex-digit trace ID shared by every span of the trace */
+  traceId: string
+  /** 16-hex-digit ID of the span handling this request */
+  spanId: string
+  /** Span ID of the caller, when the request carried a `traceparent` */
+  parentSpanId?: string
+  /** Whether the trace is sampled */
+  sampled: boolean
+  /** Vendor-specific `tracestate`, forwarded unchanged */
+  tracestate?: string
+}
+
+/**
+ * Parsed `traceparent` header
+ */
+export interface TraceParent {
+  traceId: string
+  spanId: string
+  sampled: boolean
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+const INVALID_TRACE_ID = '0'.repeat(32)
+const INVALID_SPAN_ID = '0'.repeat(16)
+
+/**
+ * Parse a `traceparent` header
+ *
+ * @param header - Header value
+ * @returns The parsed header, or undefined if it is missing or invalid
+ */
+export function parseTraceparent(header: string | undefined | null): TraceParent | undefined {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN)
+  if (!match) {
+    return undefined
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match
+
+  // Version ff is invalid; version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return undefined
+  }
+
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined
+  }
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 0x01) === 0x01,
+  }
+}
+
+/**
+ * Format the `traceparent` header for a trace context
+ *
+ * @param trace - Trace context
+ * @returns A version 00 `traceparent` value
+ */
+export function formatTraceparent(trace: Pick<TraceContext, 'traceId' | 'spanId' | 'sampled'>): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? '01' : '00'}`
+}
+
+/**
+ * Generate a random trace ID (16 bytes, hex)
+ */
+export function generateTraceId(): string {
+  return randomHex(16)
+}
+
+/**
+ * Generate a random span ID (8 bytes, hex)
+ */
+export function generateSpanId(): string {
+  return randomHex(8)
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes))
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,52 @@
+import type { BaseORPCContext } from './context'
+
+/**
+ * Request-scoped transactions
+ *
+ * Endpoints declared transactional run inside one interactive transaction
+ * (a unit of work): every repository the handler calls uses the
+ * transaction client from the context, and all their writes are committed
+ * together when the handler succeeds, or rolled back when it throws.
+ */
+
+/**
+ * Isolation levels of interactive Prisma transactions; support depends on the database
+ */
+export type TransactionIsolationLevel =
+  | 'ReadUncommitted'
+  | 'ReadCommitted'
+  | 'RepeatableRead'
+  | 'Snapshot'
+  | 'Serializable'
+
+/**
+ * Transaction declaration of an endpoint
+ */
+export interface TransactionPolicy {
+  /**
+   * Isolation level of the transaction
+   * @default the plugin's, or the database default
+   */
+  isolationLevel?: TransactionIsolationLevel
+  /**
+   * How long the transaction may run before it is rolled back, in milliseconds
+   * @default the plugin's, or Prisma's 5000
+   */
+  timeout?: number
+  /**
+   * How long to wait for a connection to open the transaction, in milliseconds
+   * @default the plugin's, or Prisma's 2000
+   */
+  maxWait?: number
+}
+
+/**
+ * Context type for transactional endpoints.
+ * Extends BaseORPCContext with the transaction client.
+ *
+ * @template TTransaction - Transaction client type, e.g. Prisma.TransactionClient
+ */
+export interface TransactionalContext<TTransaction = unknown> extends BaseORPCContext {
+  /** Client bound to the request's transaction */
+  tx: TTransaction
+}
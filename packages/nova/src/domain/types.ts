@@ -1,6 +1,8 @@
 import type { Context } from 'hono'
 import type { AnyContractProcedure, AnyContractRouter } from '@orpc/contract'
 import type { AccessConfig, AccessMetadata } from './access'
+import type { DependencyContainer } from '../application/controller-loader'
+import type { ProcedureInterceptor } from './endpoint'
 
 /**
  * Core domain types for oRPC-Hono integration
@@ -88,6 +90,17 @@ export interface ORPCHonoOptions<TContract extends AnyContractRouter = AnyContra
    * Global access policy registry.
    */
   access: AccessConfig
+
+  /**
+   * Dependency container used to instantiate controller classes
+   */
+  container?: DependencyContainer
+
+  /**
+   * Interceptors wrapping every handler invocation
+   * @default []
+   */
+  procedureInterceptors?: ProcedureInterceptor<any>[]
 }
 
 /**
@@ -100,7 +113,7 @@ export type HonoMiddleware = (c: Context, next: () => Promise<void>) => Promise<
  */
 export interface ApplyMiddlewareOptions {
   /**
-   * Controller instances to register
+   * Controller instances or classes to register
    */
   controllers?: unknown[]
 }
@@ -143,6 +156,10 @@ export interface RouteRegistration {
 export interface RouteRegisterConfig {
   routes?: AnyContractRouter
   access: AccessConfig
+  /** Container used to instantiate controller classes */
+  container?: DependencyContainer
+  /** Interceptors wrapping every handler invocation */
+  procedureInterceptors?: ProcedureInterceptor<any>[]
 }
 
 /**
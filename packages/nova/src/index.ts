@@ -33,12 +33,97 @@ export { createApp } from './core/create-app'
 /** Low-level ORPCHono class for advanced usage */
 export { ORPCHono } from './core/orpc-hono'
 
+/** Graceful shutdown coordinator used by createApp */
+export { ServerLifecycle } from './core/server-lifecycle'
+export type { ShutdownOptions, NodeServerLike, BunServerLike } from './core/server-lifecycle'
+
+/** WebSocket transport for the RPC router, used by createApp */
+export { WebSocketTransport } from './core/websocket'
+export type { WebSocketOptions, WebSocketHandlers, NodeUpgradeServerLike } from './core/websocket'
+
+/** Hot reload of controllers during development, used by createApp */
+export { HotReloader } from './core/hot-reload'
+export type { HotReloadOptions, HotReloadLogger, HotReloaderConfig } from './core/hot-reload'
+
+/** Deprecation of additional API versions, used by createApp */
+export { createDeprecationMiddleware } from './core/versioning'
+export type { DeprecationOptions, DeprecatedUsage } from './core/versioning'
+
+/** Tenant resolution, used by createApp */
+export { createTenancyMiddleware, currentTenant, withTenantContext } from './core/tenancy'
+export type { TenancyOptions } from './core/tenancy'
+
+/** Request IDs and W3C trace context */
+export {
+  createTracingMiddleware,
+  getTraceContext,
+  getRequestLogger,
+  withTraceContext,
+  bindTraceSpan,
+  bindLogFields,
+} from './core/tracing'
+export type { TracingOptions } from './core/tracing'
+export { parseTraceparent, formatTraceparent, generateTraceId, generateSpanId } from './domain/trace'
+export type { TraceContext, TraceParent } from './domain/trace'
+
 // ============================================================================
 // Decorators
 // ============================================================================
 
-export { Controller, Handle, Public, Auth, Permission, Middleware, CatchErrors } from './infrastructure/decorators'
-export { defineAccess, resolveAccessPolicy } from './domain/access'
+export {
+  Controller,
+  Handle,
+  Public,
+  Auth,
+  Permission,
+  Middleware,
+  CatchErrors,
+  Injectable,
+  Inject,
+  RateLimit,
+  Authorize,
+  Upload,
+  Cache,
+  Idempotent,
+  Timeout,
+  Transactional,
+} from './infrastructure/decorators'
+export type { CatchErrorsOptions } from './infrastructure/decorators'
+export {
+  AccessPolicyCycleError,
+  MissingAccessPolicyError,
+  defineAccess,
+  resolveAccessPolicy,
+} from './domain/access'
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export { authPolicy, createAuthMiddleware, permissionPolicy, tenantPolicy } from './policies'
+export type { AuthPolicyOptions, PermissionPolicyOptions, PermissionResolver, TenantPolicyOptions } from './policies'
+
+/** Role-based access control */
+export {
+  RoleRegistry,
+  UnknownRoleError,
+  RoleInheritanceCycleError,
+  defineRoles,
+  matchPermission,
+  missingPermissions,
+} from './domain/rbac'
+export type { RoleDefinition, RoleDefinitions, PermissionMatch } from './domain/rbac'
+
+/** Resource-level authorization rules */
+export { AccessDeniedError, enforceAuthorization, withAuthorization } from './domain/authorization'
+export type {
+  AuthorizationRule,
+  AuthorizationDecision,
+  AccessCondition,
+  AccessConditionParams,
+  AccessConditionResult,
+  ResourceLoader,
+} from './domain/authorization'
 
 // ============================================================================
 // Plugins
@@ -49,6 +134,14 @@ export {
   loggerPlugin,
   openapiPlugin,
   errorHandlerPlugin,
+  rateLimitPlugin,
+  otelPlugin,
+  metricsPlugin,
+  healthPlugin,
+  uploadPlugin,
+  cachePlugin,
+  idempotencyPlugin,
+  transactionPlugin,
 } from './plugins'
 
 export type {
@@ -56,6 +149,7 @@ export type {
   PluginFactory,
   PluginContext,
   AppConfig,
+  ApiVersionConfig,
   OutscopeApp,
   ServerInfo,
   ErrorHandler,
@@ -65,8 +159,182 @@ export type {
   ErrorHandlerPluginOptions,
   RequestLogInfo,
   ErrorResponse,
+  RateLimitPluginOptions,
+  OtelPluginOptions,
+  MetricsPluginOptions,
+  HealthPluginOptions,
+  UploadPluginOptions,
+  CachePluginOptions,
+  IdempotencyPluginOptions,
+  TransactionPluginOptions,
 } from './plugins'
 
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+export type {
+  EndpointOptions,
+  EndpointDescriptor,
+  ProcedureInvocation,
+  ProcedureInterceptor,
+} from './domain/endpoint'
+export { getRequestEndpoint, getProcedureEndpoint } from './domain/endpoint'
+export { describeRouter, labelMiddleware } from './domain/route-table'
+export type { RouteDescription, DescribeRouterOptions } from './domain/route-table'
+
+// ============================================================================
+// Startup Validation
+// ============================================================================
+
+export { validateApp, AppValidationError } from './domain/app-validation'
+export type {
+  ValidationMode,
+  ProcedureImplementation,
+  AppValidationIssue,
+  AppValidationIssueKind,
+} from './domain/app-validation'
+export { listControllerImplementations } from './application/controller-registrar'
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+export { RateLimitExceededError, applyRateLimit } from './domain/rate-limit'
+export { MemoryRateLimitStore } from './infrastructure/rate-limit-store'
+
+export type {
+  RateLimitRule,
+  RateLimitAlgorithm,
+  RateLimitKey,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitState,
+  ResolvedRateLimitRule,
+  FixedWindowState,
+  TokenBucketState,
+} from './domain/rate-limit'
+export type { MemoryRateLimitStoreOptions } from './infrastructure/rate-limit-store'
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DuplicateMetricError,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+} from './infrastructure/metrics-registry'
+export type { MetricLabels } from './infrastructure/metrics-registry'
+
+// ============================================================================
+// Health Checks
+// ============================================================================
+
+export { HealthCheckRegistry, DuplicateHealthCheckError } from './domain/health'
+export type {
+  HealthCheck,
+  HealthCheckOptions,
+  HealthCheckDefinition,
+  HealthCheckInput,
+  HealthCheckResult,
+  HealthReport,
+  HealthStatus,
+  HealthCheckRegistryOptions,
+} from './domain/health'
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+export { isEventStream, mapEventStream } from './domain/stream'
+export type { StreamingOptions, EventStreamHooks } from './domain/stream'
+
+// ============================================================================
+// File Uploads
+// ============================================================================
+
+export {
+  FileTooLargeError,
+  UnsupportedFileTypeError,
+  InvalidStorageKeyError,
+  collectFiles,
+  enforceUploadLimits,
+  matchesMimeType,
+} from './domain/upload'
+export { MemoryStorage, LocalDiskStorage } from './infrastructure/upload-storage'
+
+export type {
+  UploadLimits,
+  UploadedFile,
+  StorageAdapter,
+  StoredFile,
+  StoredObject,
+} from './domain/upload'
+export type { LocalDiskStorageOptions } from './infrastructure/upload-storage'
+
+// ============================================================================
+// Response Caching
+// ============================================================================
+
+export { computeETag, matchesETag, matchesInvalidation, stableStringify } from './domain/cache'
+export { MemoryCacheStore } from './infrastructure/cache-store'
+export { ResponseCache } from './infrastructure/response-cache'
+
+export type { CachePolicy, CacheEntry, CacheInvalidation, CacheStore } from './domain/cache'
+export type { MemoryCacheStoreOptions } from './infrastructure/cache-store'
+export type { ResponseCacheOptions } from './infrastructure/response-cache'
+
+// ============================================================================
+// Idempotency
+// ============================================================================
+
+export {
+  IdempotencyKeyMissingError,
+  IdempotencyKeyReuseError,
+  IdempotencyConflictError,
+  fingerprintRequest,
+} from './domain/idempotency'
+export { MemoryIdempotencyStore } from './infrastructure/idempotency-store'
+
+export type {
+  IdempotencyPolicy,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotentResponse,
+} from './domain/idempotency'
+export type { MemoryIdempotencyStoreOptions } from './infrastructure/idempotency-store'
+
+// ============================================================================
+// Multi-Tenancy
+// ============================================================================
+
+export {
+  TenantRequiredError,
+  UnknownTenantError,
+  getRequestTenant,
+  setRequestTenant,
+} from './domain/tenancy'
+export { MemoryTenantStore } from './infrastructure/tenant-store'
+
+export type { TenantResolver, TenantStore, TenantResolution } from './domain/tenancy'
+
+// ============================================================================
+// Timeouts
+// ============================================================================
+
+export { createTimeoutInterceptor, anySignal } from './domain/timeout'
+
+// ============================================================================
+// Transactions
+// ============================================================================
+
+export type { TransactionPolicy, TransactionIsolationLevel, TransactionalContext } from './domain/transaction'
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -77,6 +345,8 @@ export type {
   BaseORPCContext,
   AuthContext,
   AuthenticatedContext,
+  Tenant,
+  TenantContext,
   ContextFactory,
 } from './domain/context'
 
@@ -86,6 +356,7 @@ export type {
 
 export {
   loadControllers,
+  collectControllers,
   instantiateControllers,
   loadAndInstantiateControllers,
 } from './application/controller-loader'
@@ -96,6 +367,30 @@ export type {
   DependencyContainer,
 } from './application/controller-loader'
 
+// ============================================================================
+// Dependency Injection
+// ============================================================================
+
+export {
+  Container,
+  RequestScope,
+  InjectionToken,
+  REQUEST_CONTEXT,
+  ProviderNotFoundError,
+  CircularDependencyError,
+  RequestScopeError,
+} from './infrastructure/container'
+
+export type {
+  Token,
+  Provider,
+  ProviderScope,
+  ClassProvider,
+  ValueProvider,
+  FactoryProvider,
+  Constructor,
+} from './infrastructure/container'
+
 // ============================================================================
 // Logger
 // ============================================================================
@@ -123,7 +418,11 @@ export {
   UnsupportedHttpMethodError,
   InvalidProcedureError,
   MissingHandlerError,
+  InvalidEndpointOptionsError,
   ProcedureExecutionError,
+  AuthenticationError,
+  PermissionDeniedError,
+  ProcedureTimeoutError,
   // Error codes
   ErrorCode,
   ErrorCodeStatus,
@@ -135,6 +434,18 @@ export {
   withErrorHandling,
 } from './domain/errors'
 
+export type { NormalizeErrorOptions } from './domain/errors'
+
+/** Typed error catalogue mapped onto oRPC typed errors */
+export { defineErrors, toORPCError } from './domain/error-catalogue'
+export type {
+  ErrorDefinition,
+  ErrorDefinitions,
+  ErrorCatalogue,
+  CatalogueEntry,
+  CatalogueErrorOptions,
+} from './domain/error-catalogue'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -154,10 +465,13 @@ export type {
 
 export type {
   AccessConfig,
+  AccessMiddlewareFactory,
   AccessPolicy,
+  AccessPolicyKind,
   AccessMetadata,
   EndpointAccessMetadata,
   ResolvedAccessPolicy,
+  AccessProducerFactory,
 } from './domain/access'
 
 // ============================================================================
@@ -169,16 +483,32 @@ export {
   extractToken,
   extractBearerToken,
   extractCookieToken,
+  // JWT utilities
+  decodeJwt,
+  verifyJwt,
+  createJwtVerifier,
+  // Request utilities
+  getClientIp,
   // Prisma utilities
   attachPrismaLogging,
   createSqlFormatter,
+  prismaHealthCheck,
 } from './utils'
 
 export type {
   TokenExtractionResult,
   ExtractTokenOptions,
   TokenExtractionContext,
+  JwtAlgorithm,
+  JwtHeader,
+  JwtPayload,
+  JsonWebKeySet,
+  JwksProvider,
+  VerifyJwtOptions,
+  DecodedJwt,
+  ClientIpOptions,
   PrismaClientLike,
+  PrismaTransactionClientLike,
   PrismaLoggingOptions,
 } from './utils'
 
@@ -186,4 +516,5 @@ export type {
 // Re-exports from oRPC
 // ============================================================================
 
-export { implement } from '@orpc/server'
+export { implement, withEventMeta } from '@orpc/server'
+export { eventIterator } from '@orpc/contract'
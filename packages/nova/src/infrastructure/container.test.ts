@@ -0,0 +1,143 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import {
+  CircularDependencyError,
+  Container,
+  InjectionToken,
+  ProviderNotFoundError,
+  REQUEST_CONTEXT,
+  RequestScopeError,
+} from './container'
+import { Controller, Handle, Inject, Injectable, Public } from './decorators'
+import { defineAccess } from '../domain/access'
+import { createApp } from '../core/create-app'
+import type { BaseORPCContext } from '../domain/context'
+
+describe('Container', () => {
+  it('resolves constructor dependencies and caches singletons', () => {
+    @Injectable()
+    class Repository {}
+
+    @Injectable()
+    class Service {
+      constructor(@Inject(Repository) readonly repository: Repository) {}
+    }
+
+    const container = new Container()
+    const service = container.resolve(Service)
+
+    expect(service.repository).toBeInstanceOf(Repository)
+    expect(container.resolve(Service)).toBe(service)
+  })
+
+  it('creates a new instance for every transient resolution', () => {
+    @Injectable({ scope: 'transient' })
+    class Job {}
+
+    const container = new Container()
+
+    expect(container.resolve(Job)).not.toBe(container.resolve(Job))
+  })
+
+  it('supports value and factory providers bound to named tokens', () => {
+    const PREFIX = new InjectionToken<string>('PREFIX')
+    const GREETING = new InjectionToken<string>('GREETING')
+
+    const container = new Container()
+      .register({ provide: PREFIX, useValue: 'Hello' })
+      .register({ provide: GREETING, useFactory: (prefix: string) => `${prefix}, world`, inject: [PREFIX] })
+
+    expect(container.resolve(GREETING)).toBe('Hello, world')
+  })
+
+  it('shares request-scoped instances within a scope and exposes the request context', () => {
+    @Injectable({ scope: 'request' })
+    class RequestInfo {
+      constructor(@Inject(REQUEST_CONTEXT) readonly context: BaseORPCContext) {}
+    }
+
+    @Injectable()
+    class Consumer {
+      constructor(@Inject(RequestInfo) readonly info: RequestInfo) {}
+    }
+
+    const container = new Container()
+    const context = { honoContext: {} } as BaseORPCContext
+    const scope = container.createScope(context)
+
+    expect(container.isRequestScoped(Consumer)).toBe(true)
+    expect(scope.resolve(Consumer).info).toBe(scope.resolve(RequestInfo))
+    expect(scope.resolve(RequestInfo).context).toBe(context)
+    expect(container.createScope(context).resolve(RequestInfo)).not.toBe(scope.resolve(RequestInfo))
+    expect(() => container.resolve(Consumer)).toThrow(RequestScopeError)
+  })
+
+  it('reports missing providers and cycles', () => {
+    const MISSING = new InjectionToken('MISSING')
+
+    @Injectable()
+    class NeedsMissing {
+      constructor(@Inject(MISSING) readonly value: unknown) {}
+    }
+
+    const A = new InjectionToken('A')
+    const B = new InjectionToken('B')
+    const container = new Container()
+      .register({ provide: A, useFactory: (b: unknown) => b, inject: [B] })
+      .register({ provide: B, useFactory: (a: unknown) => a, inject: [A] })
+
+    expect(() => container.resolve(NeedsMissing)).toThrow(ProviderNotFoundError)
+    expect(() => container.resolve(A)).toThrow(CircularDependencyError)
+  })
+})
+
+describe('createApp with container', () => {
+  const routes = {
+    whoami: oc.route({ method: 'GET', path: '/whoami' }).output(z.object({ greeting: z.string(), path: z.string() })),
+  }
+
+  const access = defineAccess({
+    default: 'public',
+    policies: {
+      public: { producer: implement(routes).$context<BaseORPCContext>() },
+    },
+  })
+
+  const GREETING = new InjectionToken<string>('GREETING')
+
+  @Injectable({ scope: 'request' })
+  class RequestPath {
+    constructor(@Inject(REQUEST_CONTEXT) private readonly context: BaseORPCContext) {}
+
+    get value(): string {
+      return this.context.honoContext.req.path
+    }
+  }
+
+  @Controller()
+  class WhoamiController {
+    constructor(
+      @Inject(GREETING) private readonly greeting: string,
+      @Inject(RequestPath) private readonly path: RequestPath
+    ) {}
+
+    @Public()
+    @Handle(routes.whoami)
+    whoami() {
+      return { greeting: this.greeting, path: this.path.value }
+    }
+  }
+
+  it('instantiates controllers through the configured container', async () => {
+    const container = new Container().register({ provide: GREETING, useValue: 'hi' })
+    const app = await createApp({ routes, access, controllers: [WhoamiController], container })
+
+    const response = await app.fetch(new Request('http://localhost/api/whoami'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ greeting: 'hi', path: '/api/whoami' })
+  })
+})
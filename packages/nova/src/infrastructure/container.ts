@@ -0,0 +1,415 @@
+import 'reflect-metadata'
+import type { BaseORPCContext } from '../domain/context'
+import { ORPCHonoError } from '../domain/errors'
+import {
+  getInjectableMetadata,
+  getInjectTokens,
+  getParamTypes,
+  isController,
+  type InjectableMetadata,
+} from './metadata'
+
+/**
+ * Dependency injection container for controllers and services
+ *
+ * Resolves providers by token with constructor injection and three lifetimes:
+ * - singleton: one instance per container
+ * - request: one instance per incoming request
+ * - transient: a new instance for every resolution
+ */
+
+/**
+ * Provider lifetime
+ */
+export type ProviderScope = NonNullable<InjectableMetadata['scope']>
+
+/**
+ * Class constructor usable as an injection token
+ */
+export type Constructor<T = unknown> = new (...args: any[]) => T
+
+/**
+ * Named token for values that have no class, such as configuration or interfaces
+ *
+ * @example
+ * ```typescript
+ * const DATABASE_URL = new InjectionToken<string>('DATABASE_URL')
+ * container.register({ provide: DATABASE_URL, useValue: process.env.DATABASE_URL })
+ * ```
+ */
+export class InjectionToken<T = unknown> {
+  /** Phantom field carrying the resolved type */
+  declare readonly __type?: T
+
+  constructor(readonly description: string) {}
+
+  toString(): string {
+    return `InjectionToken(${this.description})`
+  }
+}
+
+/**
+ * Anything that can be resolved from the container
+ */
+export type Token<T = unknown> = Constructor<T> | InjectionToken<T> | string | symbol
+
+/**
+ * Token for the per-request oRPC context.
+ * Only resolvable by request-scoped providers.
+ */
+export const REQUEST_CONTEXT = new InjectionToken<BaseORPCContext>('REQUEST_CONTEXT')
+
+/**
+ * Provider backed by a class
+ */
+export interface ClassProvider<T = unknown> {
+  provide: Token<T>
+  useClass: Constructor<T>
+  scope?: ProviderScope
+}
+
+/**
+ * Provider backed by a constant value (always singleton)
+ */
+export interface ValueProvider<T = unknown> {
+  provide: Token<T>
+  useValue: T
+}
+
+/**
+ * Provider backed by a factory function
+ */
+export interface FactoryProvider<T = unknown> {
+  provide: Token<T>
+  useFactory: (...deps: any[]) => T
+  inject?: Token[]
+  scope?: ProviderScope
+}
+
+/**
+ * Provider definition accepted by Container.register()
+ */
+export type Provider<T = unknown> =
+  | Constructor<T>
+  | ClassProvider<T>
+  | ValueProvider<T>
+  | FactoryProvider<T>
+
+/**
+ * Normalized provider record
+ */
+interface ProviderRecord {
+  token: Token
+  scope: ProviderScope
+  deps: Token[]
+  create: (deps: unknown[]) => unknown
+}
+
+/**
+ * Error thrown when a token has no registered provider
+ */
+export class ProviderNotFoundError extends ORPCHonoError {
+  readonly status = 500
+  readonly code = 'PROVIDER_NOT_FOUND'
+
+  constructor(token: Token, path: Token[] = []) {
+    const chain = path.length > 0 ? ` (required by ${formatPath(path)})` : ''
+    super(`No provider registered for ${formatToken(token)}${chain}`)
+  }
+}
+
+/**
+ * Error thrown when providers depend on each other in a cycle
+ */
+export class CircularDependencyError extends ORPCHonoError {
+  readonly status = 500
+  readonly code = 'CIRCULAR_DEPENDENCY'
+
+  constructor(path: Token[]) {
+    super(`Circular dependency detected: ${formatPath(path)}`)
+  }
+}
+
+/**
+ * Error thrown when a request-scoped provider is resolved outside a request
+ */
+export class RequestScopeError extends ORPCHonoError {
+  readonly status = 500
+  readonly code = 'REQUEST_SCOPE_UNAVAILABLE'
+
+  constructor(token: Token) {
+    super(`${formatToken(token)} is request-scoped and can only be resolved while handling a request`)
+  }
+}
+
+/**
+ * Per-request resolution scope
+ *
+ * Request-scoped instances are cached here and discarded with the request.
+ */
+export class RequestScope {
+  readonly instances = new Map<Token, unknown>()
+
+  constructor(
+    private readonly container: Container,
+    readonly context: BaseORPCContext
+  ) {}
+
+  /**
+   * Resolve a token within this request
+   *
+   * @param token - Token to resolve
+   * @returns The resolved instance
+   */
+  resolve<T>(token: Token<T>): T {
+    return this.container.resolveInScope(token, this)
+  }
+}
+
+/**
+ * Dependency injection container
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class ProjectService {
+ *   constructor(@Inject(ProjectRepository) private readonly repo: ProjectRepository) {}
+ * }
+ *
+ * @Injectable({ scope: 'request' })
+ * class CurrentUser {
+ *   constructor(@Inject(REQUEST_CONTEXT) private readonly ctx: AppContext) {}
+ * }
+ *
+ * const container = new Container()
+ * container.register(ProjectRepository)
+ *
+ * const app = await createApp({ routes, access, controllers: [ProjectController], container })
+ * ```
+ */
+export class Container {
+  private readonly providers = new Map<Token, ProviderRecord>()
+  private readonly singletons = new Map<Token, unknown>()
+  private readonly requestScopedCache = new Map<Token, boolean>()
+
+  /**
+   * Register a provider
+   *
+   * Classes decorated with @Injectable() or @Controller() are registered
+   * automatically the first time they are resolved.
+   *
+   * @param provider - Class or provider definition
+   * @returns The container for chaining
+   */
+  register<T>(provider: Provider<T>): this {
+    const record = this.toRecord(provider)
+    this.providers.set(record.token, record)
+    this.singletons.delete(record.token)
+    this.requestScopedCache.clear()
+    return this
+  }
+
+  /**
+   * Check whether a token can be resolved
+   *
+   * @param token - Token to check
+   */
+  has(token: Token): boolean {
+    return token === REQUEST_CONTEXT || this.findRecord(token) !== undefined
+  }
+
+  /**
+   * Resolve a singleton or transient token
+   *
+   * @param token - Token to resolve
+   * @returns The resolved instance
+   * @throws {RequestScopeError} If the token (or a dependency) is request-scoped
+   */
+  resolve<T>(token: Token<T>): T {
+    return this.resolveToken(token, null, []) as T
+  }
+
+  /**
+   * Resolve a token inside a request scope
+   *
+   * @param token - Token to resolve
+   * @param scope - Active request scope
+   */
+  resolveInScope<T>(token: Token<T>, scope: RequestScope): T {
+    return this.resolveToken(token, scope, []) as T
+  }
+
+  /**
+   * Create a resolution scope for one request
+   *
+   * @param context - The per-request oRPC context
+   */
+  createScope(context: BaseORPCContext): RequestScope {
+    return new RequestScope(this, context)
+  }
+
+  /**
+   * Check whether a token must be resolved per request.
+   * A provider is request-scoped when declared so or when any dependency is.
+   *
+   * @param token - Token to check
+   */
+  isRequestScoped(token: Token): boolean {
+    return this.computeRequestScoped(token, [])
+  }
+
+  private computeRequestScoped(token: Token, path: Token[]): boolean {
+    if (token === REQUEST_CONTEXT) {
+      return true
+    }
+
+    const cached = this.requestScopedCache.get(token)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    if (path.includes(token)) {
+      throw new CircularDependencyError([...path, token])
+    }
+
+    const record = this.getRecord(token, path)
+    const result =
+      record.scope === 'request' ||
+      record.deps.some((dep) => this.computeRequestScoped(dep, [...path, token]))
+
+    this.requestScopedCache.set(token, result)
+    return result
+  }
+
+  private resolveToken(token: Token, scope: RequestScope | null, path: Token[]): unknown {
+    if (token === REQUEST_CONTEXT) {
+      if (!scope) {
+        throw new RequestScopeError(token)
+      }
+      return scope.context
+    }
+
+    if (path.includes(token)) {
+      throw new CircularDependencyError([...path, token])
+    }
+
+    const record = this.getRecord(token, path)
+
+    if (this.isRequestScoped(token)) {
+      if (!scope) {
+        throw new RequestScopeError(token)
+      }
+      if (record.scope !== 'transient' && scope.instances.has(token)) {
+        return scope.instances.get(token)
+      }
+      const instance = this.instantiate(record, scope, path)
+      if (record.scope !== 'transient') {
+        scope.instances.set(token, instance)
+      }
+      return instance
+    }
+
+    if (record.scope === 'singleton') {
+      if (!this.singletons.has(token)) {
+        this.singletons.set(token, this.instantiate(record, scope, path))
+      }
+      return this.singletons.get(token)
+    }
+
+    return this.instantiate(record, scope, path)
+  }
+
+  private instantiate(record: ProviderRecord, scope: RequestScope | null, path: Token[]): unknown {
+    const deps = record.deps.map((dep) => this.resolveToken(dep, scope, [...path, record.token]))
+    return record.create(deps)
+  }
+
+  private getRecord(token: Token, path: Token[]): ProviderRecord {
+    const record = this.findRecord(token)
+    if (!record) {
+      throw new ProviderNotFoundError(token, path)
+    }
+    return record
+  }
+
+  private findRecord(token: Token): ProviderRecord | undefined {
+    const existing = this.providers.get(token)
+    if (existing) {
+      return existing
+    }
+
+    // Auto-register decorated classes on first use
+    if (typeof token === 'function' && (getInjectableMetadata(token) || isController(token))) {
+      const record = this.toRecord(token as Constructor)
+      this.providers.set(token, record)
+      return record
+    }
+
+    return undefined
+  }
+
+  private toRecord(provider: Provider): ProviderRecord {
+    if (typeof provider === 'function') {
+      return this.classRecord(provider, provider)
+    }
+
+    if ('useValue' in provider) {
+      const { useValue } = provider
+      return {
+        token: provider.provide,
+        scope: 'singleton',
+        deps: [],
+        create: () => useValue,
+      }
+    }
+
+    if ('useFactory' in provider) {
+      const { useFactory } = provider
+      return {
+        token: provider.provide,
+        scope: provider.scope ?? 'singleton',
+        deps: provider.inject ?? [],
+        create: (deps) => useFactory(...deps),
+      }
+    }
+
+    return this.classRecord(provider.provide, provider.useClass, provider.scope)
+  }
+
+  private classRecord(token: Token, target: Constructor, scope?: ProviderScope): ProviderRecord {
+    return {
+      token,
+      scope: scope ?? getInjectableMetadata(target)?.scope ?? 'singleton',
+      deps: this.getConstructorDeps(target),
+      create: (deps) => new target(...deps),
+    }
+  }
+
+  private getConstructorDeps(target: Constructor): Token[] {
+    const explicit = getInjectTokens(target)
+    const paramTypes = getParamTypes(target)
+    const count = Math.max(target.length, paramTypes.length, ...Object.keys(explicit).map((i) => Number(i) + 1))
+    const deps: Token[] = []
+
+    for (let index = 0; index < count; index++) {
+      const token = (explicit[index] ?? paramTypes[index]) as Token | undefined
+      if (token === undefined || token === Object) {
+        throw new ProviderNotFoundError(`${target.name} constructor parameter #${index} (use @Inject(token))`)
+      }
+      deps.push(token)
+    }
+
+    return deps
+  }
+}
+
+function formatToken(token: Token): string {
+  if (typeof token === 'function') {
+    return token.name || 'anonymous class'
+  }
+  return String(token)
+}
+
+function formatPath(path: Token[]): string {
+  return path.map(formatToken).join(' -> ')
+}
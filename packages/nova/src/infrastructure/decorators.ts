@@ -10,9 +10,21 @@ import {
   getMethodMiddleware,
   setMethodAccess,
   getMethodAccess,
+  setMethodOptions,
+  getMethodOptions,
+  markAsInjectable,
+  setInjectToken,
+  type InjectableMetadata,
 } from './metadata'
-import { normalizeError } from '../domain/errors'
+import { ORPCError } from '@orpc/contract'
+import { normalizeError, type NormalizeErrorOptions } from '../domain/errors'
 import type { AccessMetadata } from '../domain/access'
+import type { RateLimitRule } from '../domain/rate-limit'
+import type { AuthorizationRule } from '../domain/authorization'
+import type { UploadLimits } from '../domain/upload'
+import type { CachePolicy } from '../domain/cache'
+import type { IdempotencyPolicy } from '../domain/idempotency'
+import type { TransactionPolicy } from '../domain/transaction'
 
 /**
  * Application decorators for oRPC-Hono integration
@@ -135,6 +147,14 @@ export function Middleware<T>(middleware: T): ClassDecorator & MethodDecorator {
   }) as ClassDecorator & MethodDecorator
 }
 
+/**
+ * Options for @CatchErrors()
+ */
+export interface CatchErrorsOptions extends NormalizeErrorOptions {
+  /** Context string for error messages */
+  context?: string
+}
+
 /**
  * Wraps a controller method with automatic error handling
  *
@@ -143,9 +163,9 @@ export function Middleware<T>(middleware: T): ClassDecorator & MethodDecorator {
  * in every controller method.
  *
  * The context string is automatically generated from the class and method name
- * if not provided explicitly.
+ * if not provided explicitly. Typed errors (see defineErrors) are rethrown unchanged.
  *
- * @param context - Optional custom context string for error messages
+ * @param context - Optional custom context string for error messages, or options
  *
  * @example Without context (auto-detected)
  * ```typescript
@@ -172,21 +192,31 @@ export function Middleware<T>(middleware: T): ClassDecorator & MethodDecorator {
  *   }
  * }
  * ```
+ *
+ * @example Inferring status from message text (opt-in)
+ * ```typescript
+ * @CatchErrors({ matchMessages: true })  // "User not found" -> 404
+ * ```
  */
-export function CatchErrors(context?: string): MethodDecorator {
+export function CatchErrors(context?: string | CatchErrorsOptions): MethodDecorator {
+  const options: CatchErrorsOptions = typeof context === 'string' ? { context } : context ?? {}
+
   return (
     target: Object,
     propertyKey: string | symbol,
     descriptor: PropertyDescriptor
   ): PropertyDescriptor => {
     const originalMethod = descriptor.value
-    const methodContext = context || `${target.constructor.name}.${String(propertyKey)}`
+    const methodContext = options.context || `${target.constructor.name}.${String(propertyKey)}`
 
     descriptor.value = async function (...args: unknown[]) {
       try {
         return await originalMethod.apply(this, args)
       } catch (error) {
-        throw normalizeError(error, methodContext)
+        if (error instanceof ORPCError) {
+          throw error
+        }
+        throw normalizeError(error, methodContext, options)
       }
     }
 
@@ -253,12 +283,276 @@ export function Auth(): MethodDecorator {
   return setAccess({ policy: 'auth' })
 }
 
-export function Permission(permission: string | string[]): MethodDecorator {
-  return setAccess({
-    policy: 'permission',
-    permissions: Array.isArray(permission) ? permission : [permission],
-  })
+/**
+ * Requires permissions, optionally narrowed by a resource-level rule
+ *
+ * @param permission - Required permission(s)
+ * @param rule - Optional authorization rule evaluated with the validated input
+ *
+ * @example
+ * ```typescript
+ * @Permission('project:update', {
+ *   name: 'project-owner',
+ *   load: (input: UpdateProjectInput) => projects.findById(input.id),
+ *   when: async ({ context, load }) => (await load()).ownerId === context.auth.userId,
+ * })
+ * @Handle(routes.project.update)
+ * update(input: UpdateProjectInput) {}
+ * ```
+ */
+export function Permission(permission: string | string[], rule?: AuthorizationRule): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodAccess(target, propertyKey, {
+      policy: 'permission',
+      permissions: Array.isArray(permission) ? permission : [permission],
+    })
+    if (rule) {
+      setMethodOptions(target, propertyKey, { authorize: rule })
+    }
+  }
+}
+
+/**
+ * Declares a resource-level authorization rule for an endpoint
+ *
+ * The rule runs after the access policy and input validation. Denied
+ * requests receive 403 and the decision is recorded on `context.authorization`.
+ *
+ * @param rule - Condition, optional resource loader and rule name
+ *
+ * @example
+ * ```typescript
+ * @Authorize({
+ *   load: (input: { id: string }) => documents.findById(input.id),
+ *   when: async ({ context, load }) => (await load()).public || context.auth?.userId !== undefined,
+ * })
+ * @Public()
+ * @Handle(routes.document.get)
+ * get(input: { id: string }) {}
+ * ```
+ */
+export function Authorize(rule: AuthorizationRule): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { authorize: rule })
+  }
+}
+
+/**
+ * Declares a rate limit for an endpoint, enforced by rateLimitPlugin()
+ *
+ * @param rule - Limit, window, algorithm and client key, or `false` to
+ *               exempt the endpoint from the plugin's default limit
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class AuthController {
+ *   @RateLimit({ limit: 5, windowMs: 60_000 })
+ *   @Public()
+ *   @Handle(routes.auth.login)
+ *   login(input: LoginInput) {}
+ *
+ *   @RateLimit({ limit: 20, windowMs: 60_000, algorithm: 'token-bucket', key: 'user' })
+ *   @Auth()
+ *   @Handle(routes.auth.refresh)
+ *   refresh() {}
+ * }
+ * ```
+ */
+export function RateLimit(rule: RateLimitRule | false): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { rateLimit: rule })
+  }
+}
+
+/**
+ * Declares upload limits for an endpoint, enforced by uploadPlugin()
+ *
+ * @param limits - Per-file and total size limits and accepted MIME types,
+ *                 or `false` to exempt the endpoint from the plugin defaults
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class AvatarController {
+ *   @Upload({ maxFileSize: 2 * 1024 * 1024, accept: ['image/png', 'image/jpeg'] })
+ *   @Auth()
+ *   @Handle(routes.avatar.upload)
+ *   upload(input: { avatar: File }) {}
+ * }
+ * ```
+ */
+export function Upload(limits: UploadLimits | false): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { upload: limits })
+  }
+}
+
+/**
+ * Declares a response cache policy for a GET endpoint, enforced by cachePlugin()
+ *
+ * @param policy - Time to live, per-user variation and invalidation tags,
+ *                 or `false` to exempt the endpoint from the plugin default
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class PlanetController {
+ *   @Cache({ ttl: 60_000, tags: ['planets'] })
+ *   @Public()
+ *   @Handle(routes.planet.list)
+ *   list() {}
+ *
+ *   @Cache({ ttl: 10_000, varyByUser: true })
+ *   @Auth()
+ *   @Handle(routes.planet.mine)
+ *   mine() {}
+ * }
+ * ```
+ */
+export function Cache(policy: CachePolicy | false): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { cache: policy })
+  }
+}
+
+/**
+ * Makes an endpoint idempotent, enforced by idempotencyPlugin()
+ *
+ * Retries carrying the same `Idempotency-Key` header replay the stored
+ * output of the first call instead of running the handler again.
+ *
+ * @param policy - Replay time and whether the key is required
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class OrderController {
+ *   @Idempotent({ required: true })
+ *   @Auth()
+ *   @Handle(routes.order.create)
+ *   create(input: CreateOrderInput) {}
+ * }
+ * ```
+ */
+export function Idempotent(policy: IdempotencyPolicy = {}): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { idempotent: policy })
+  }
+}
+
+/**
+ * Declares a timeout for an endpoint, overriding the app's `timeout`
+ *
+ * When the deadline passes, `context.signal` is aborted and the call is
+ * answered with 504.
+ *
+ * @param timeout - Timeout in milliseconds, or `false` to exempt the
+ *                  endpoint from the app default
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class ReportController {
+ *   @Timeout(30_000)
+ *   @Auth()
+ *   @Handle(routes.report.generate)
+ *   generate(input: ReportInput, context: AuthenticatedContext) {
+ *     return fetch(reportUrl, { signal: context.signal })
+ *   }
+ * }
+ * ```
+ */
+export function Timeout(timeout: number | false): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { timeout })
+  }
+}
+
+/**
+ * Runs an endpoint in an interactive transaction, enforced by transactionPlugin()
+ *
+ * The transaction client is passed as `context.tx`. Writes made through it
+ * are committed when the handler returns and rolled back when it throws.
+ *
+ * @param policy - Isolation level, timeout and maxWait, overriding the plugin's
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class TransferController {
+ *   @Transactional({ isolationLevel: 'Serializable' })
+ *   @Auth()
+ *   @Handle(routes.transfer.create)
+ *   async create(input: TransferInput, context: TransactionalContext<Prisma.TransactionClient>) {
+ *     await this.accounts.debit(context.tx, input.from, input.amount)
+ *     await this.accounts.credit(context.tx, input.to, input.amount)
+ *   }
+ * }
+ * ```
+ */
+export function Transactional(policy: TransactionPolicy = {}): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    setMethodOptions(target, propertyKey, { transactional: policy })
+  }
+}
+
+/**
+ * Marks a class as a provider for the dependency container
+ *
+ * Constructor parameters are resolved by their emitted types
+ * (`emitDecoratorMetadata`) or by explicit @Inject() tokens.
+ *
+ * @param options - Provider options
+ * @param options.scope - Lifetime: 'singleton' (default), 'request', or 'transient'
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class ProjectService {
+ *   constructor(private readonly repository: ProjectRepository) {}
+ * }
+ *
+ * @Injectable({ scope: 'request' })
+ * class RequestAuditor {
+ *   constructor(@Inject(REQUEST_CONTEXT) private readonly context: AppContext) {}
+ * }
+ * ```
+ */
+export function Injectable(options: InjectableMetadata = {}): ClassDecorator {
+  return (target: Function) => {
+    markAsInjectable(target, options)
+  }
+}
+
+/**
+ * Overrides the token used to resolve a constructor parameter
+ *
+ * Required for interface-typed parameters, named tokens, and builds that do
+ * not emit decorator metadata (esbuild, tsx, vitest).
+ *
+ * @param token - Class, InjectionToken, string, or symbol to resolve
+ *
+ * @example
+ * ```typescript
+ * @Controller()
+ * class ProjectController {
+ *   constructor(@Inject(ProjectService) private readonly projects: ProjectService) {}
+ * }
+ * ```
+ */
+export function Inject(token: unknown): ParameterDecorator {
+  return (target: Object, _propertyKey: string | symbol | undefined, parameterIndex: number) => {
+    setInjectToken(target as Function, parameterIndex, token)
+  }
 }
 
 // Re-export metadata accessors for public API
-export { isController, getImplementations, getMiddleware, getMethodMiddleware, getMethodAccess }
+export {
+  isController,
+  getImplementations,
+  getMiddleware,
+  getMethodMiddleware,
+  getMethodAccess,
+  getMethodOptions,
+}
@@ -0,0 +1,77 @@
+import type { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from '../domain/idempotency'
+
+/**
+ * Options for the in-memory idempotency store
+ */
+export interface MemoryIdempotencyStoreOptions {
+  /**
+   * Number of begin() calls between sweeps of expired keys
+   * @default 1000
+   */
+  sweepInterval?: number
+}
+
+/**
+ * In-memory idempotency store
+ *
+ * Suitable for a single process. Use a shared store (e.g. Redis)
+ * when running several instances behind a load balancer.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>()
+  private readonly sweepInterval: number
+  private calls = 0
+
+  constructor(options: MemoryIdempotencyStoreOptions = {}) {
+    this.sweepInterval = options.sweepInterval ?? 1000
+  }
+
+  /**
+   * Number of keys currently tracked
+   */
+  get size(): number {
+    return this.records.size
+  }
+
+  async begin(
+    key: string,
+    fingerprint: string,
+    lockTtlMs: number
+  ): Promise<IdempotencyRecord | undefined> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const record = this.records.get(key)
+    if (record && record.expiresAt > now) {
+      return record
+    }
+
+    this.records.set(key, { status: 'in-progress', fingerprint, expiresAt: now + lockTtlMs })
+    return undefined
+  }
+
+  async complete(
+    key: string,
+    fingerprint: string,
+    response: IdempotentResponse,
+    ttlMs: number
+  ): Promise<void> {
+    this.records.set(key, { status: 'completed', fingerprint, response, expiresAt: Date.now() + ttlMs })
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  private sweep(now: number): void {
+    if (++this.calls % this.sweepInterval !== 0) {
+      return
+    }
+
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key)
+      }
+    }
+  }
+}
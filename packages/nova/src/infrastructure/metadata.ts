@@ -1,6 +1,14 @@
 import 'reflect-metadata'
 import type { ImplementationMetadata } from '../domain/types'
 import type { AccessMetadata } from '../domain/access'
+import type { EndpointOptions } from '../domain/endpoint'
+
+/**
+ * Options stored by the @Injectable() decorator
+ */
+export interface InjectableMetadata {
+  scope?: 'singleton' | 'request' | 'transient'
+}
 
 /**
  * Infrastructure layer for managing reflection metadata
@@ -18,6 +26,9 @@ const METADATA_KEYS = {
   MIDDLEWARE: Symbol('orpc:middleware'),
   METHOD_MIDDLEWARE: Symbol('orpc:method-middleware'),
   METHOD_ACCESS: Symbol('orpc:method-access'),
+  METHOD_OPTIONS: Symbol('orpc:method-options'),
+  INJECTABLE: Symbol('orpc:injectable'),
+  INJECT_TOKENS: Symbol('orpc:inject-tokens'),
 } as const
 
 /**
@@ -89,6 +100,38 @@ export function getMethodAccessMap(target: Function): Record<string | symbol, Ac
   return Reflect.getMetadata(METADATA_KEYS.METHOD_ACCESS, target) ?? {}
 }
 
+/**
+ * Merge endpoint options for a controller method
+ *
+ * @param target - The class prototype
+ * @param methodName - The method name
+ * @param options - Options to merge into the existing ones
+ */
+export function setMethodOptions(
+  target: Object,
+  methodName: string | symbol,
+  options: EndpointOptions,
+): void {
+  const constructor = (target as any).constructor
+  const existing: Record<string | symbol, EndpointOptions> =
+    Reflect.getMetadata(METADATA_KEYS.METHOD_OPTIONS, constructor) ?? {}
+  const updated = { ...existing, [methodName]: { ...existing[methodName], ...options } }
+  Reflect.defineMetadata(METADATA_KEYS.METHOD_OPTIONS, updated, constructor)
+}
+
+/**
+ * Get endpoint options for a controller method
+ *
+ * @param target - The class constructor
+ * @param methodName - The method name
+ * @returns Endpoint options (empty when none were declared)
+ */
+export function getMethodOptions(target: Function, methodName: string | symbol): EndpointOptions {
+  const options: Record<string | symbol, EndpointOptions> | undefined =
+    Reflect.getMetadata(METADATA_KEYS.METHOD_OPTIONS, target)
+  return options?.[methodName] ?? {}
+}
+
 /**
  * Get all implementations from a controller class
  *
@@ -173,6 +216,59 @@ export function getMethodMiddlewares(target: Function): Record<string | symbol,
   return Reflect.getMetadata(METADATA_KEYS.METHOD_MIDDLEWARE, target) ?? {}
 }
 
+/**
+ * Mark a class as injectable by the dependency container
+ *
+ * @param target - The class constructor
+ * @param options - Injectable options (scope)
+ */
+export function markAsInjectable(target: Function, options: InjectableMetadata): void {
+  Reflect.defineMetadata(METADATA_KEYS.INJECTABLE, options, target)
+}
+
+/**
+ * Retrieve injectable options for a class
+ *
+ * @param target - The class constructor
+ * @returns Injectable options if the class is decorated with @Injectable()
+ */
+export function getInjectableMetadata(target: Function): InjectableMetadata | undefined {
+  return Reflect.getOwnMetadata(METADATA_KEYS.INJECTABLE, target)
+}
+
+/**
+ * Store an explicit injection token for a constructor parameter
+ *
+ * @param target - The class constructor
+ * @param index - Constructor parameter index
+ * @param token - Token to resolve for this parameter
+ */
+export function setInjectToken(target: Function, index: number, token: unknown): void {
+  const existing = getInjectTokens(target)
+  const updated = { ...existing, [index]: token }
+  Reflect.defineMetadata(METADATA_KEYS.INJECT_TOKENS, updated, target)
+}
+
+/**
+ * Get explicit injection tokens for constructor parameters
+ *
+ * @param target - The class constructor
+ * @returns Map of parameter index to token
+ */
+export function getInjectTokens(target: Function): Record<number, unknown> {
+  return Reflect.getOwnMetadata(METADATA_KEYS.INJECT_TOKENS, target) ?? {}
+}
+
+/**
+ * Get constructor parameter types emitted by TypeScript (emitDecoratorMetadata)
+ *
+ * @param target - The class constructor
+ * @returns Parameter types, or an empty array when metadata was not emitted
+ */
+export function getParamTypes(target: Function): unknown[] {
+  return Reflect.getOwnMetadata('design:paramtypes', target) ?? []
+}
+
 /**
  * Clear all metadata from a class (useful for testing)
  *
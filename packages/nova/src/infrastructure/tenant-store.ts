@@ -0,0 +1,43 @@
+import type { Tenant } from '../domain/context'
+import type { TenantStore } from '../domain/tenancy'
+
+/**
+ * In-memory tenant store
+ *
+ * Suitable for a fixed list of tenants, in tests or small deployments.
+ * Look tenants up in your database when they are created at runtime.
+ */
+export class MemoryTenantStore implements TenantStore {
+  private readonly tenants = new Map<string, Tenant>()
+
+  constructor(tenants: Iterable<Tenant> = []) {
+    for (const tenant of tenants) {
+      this.set(tenant)
+    }
+  }
+
+  /**
+   * Number of tenants currently stored
+   */
+  get size(): number {
+    return this.tenants.size
+  }
+
+  async get(id: string): Promise<Tenant | undefined> {
+    return this.tenants.get(id)
+  }
+
+  /**
+   * Add a tenant, replacing the tenant with the same ID
+   */
+  set(tenant: Tenant): void {
+    this.tenants.set(tenant.id, tenant)
+  }
+
+  /**
+   * Remove a tenant
+   */
+  delete(id: string): boolean {
+    return this.tenants.delete(id)
+  }
+}
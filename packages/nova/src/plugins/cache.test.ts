@@ -0,0 +1,337 @@
+import 'reflect-metadata'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { cachePlugin, type CachePluginOptions } from './cache'
+import { defineAccess } from '../domain/access'
+import type { AuthenticatedContext } from '../domain/context'
+import { createApp } from '../core/create-app'
+import { Auth, Authorize, Cache, Controller, Handle, Public } from '../infrastructure/decorators'
+import { MemoryCacheStore } from '../infrastructure/cache-store'
+import { ResponseCache } from '../infrastructure/response-cache'
+
+const planet = z.object({ id: z.string(), name: z.string(), version: z.number() })
+
+const routes = {
+  planet: {
+    list: oc
+      .route({ method: 'GET', path: '/planets' })
+      .input(z.object({ sort: z.string().optional(), order: z.string().optional() }))
+      .output(z.array(planet)),
+    get: oc
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(planet),
+    rename: oc
+      .route({ method: 'POST', path: '/planets/{id}' })
+      .input(z.object({ id: z.string(), name: z.string() }))
+      .output(planet),
+  },
+  account: oc.route({ method: 'GET', path: '/account' }).output(z.object({ userId: z.string(), calls: z.number() })),
+  profile: oc.route({ method: 'GET', path: '/profile' }).output(z.object({ userId: z.string(), calls: z.number() })),
+  time: oc.route({ method: 'GET', path: '/time' }).output(z.object({ calls: z.number() })),
+  document: oc
+    .route({ method: 'GET', path: '/documents/{id}' })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ id: z.string(), body: z.string() })),
+  draft: oc
+    .route({ method: 'GET', path: '/drafts/{id}' })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ id: z.string(), calls: z.number() })),
+}
+
+const cache = new ResponseCache()
+let calls = 0
+let planets: Record<string, z.infer<typeof planet>> = {}
+let documentOwner = 'ada'
+
+@Controller()
+class PlanetController {
+  @Cache({ ttl: 60_000, tags: ['planets'] })
+  @Public()
+  @Handle(routes.planet.list)
+  list() {
+    calls++
+    return Object.values(planets)
+  }
+
+  @Cache({ ttl: 60_000, tags: (input: { id: string }) => [`planet:${input.id}`] })
+  @Public()
+  @Handle(routes.planet.get)
+  get(input: { id: string }) {
+    calls++
+    return planets[input.id]
+  }
+
+  @Public()
+  @Handle(routes.planet.rename)
+  async rename(input: { id: string; name: string }) {
+    const renamed = { ...planets[input.id], name: input.name, version: planets[input.id].version + 1 }
+    planets[input.id] = renamed
+    await cache.invalidateTags(`planet:${input.id}`, 'planets')
+    return renamed
+  }
+
+  @Cache({ ttl: 60_000, varyByUser: true })
+  @Public()
+  @Handle(routes.profile)
+  profile(_input: unknown, context: AuthenticatedContext) {
+    return { userId: context.auth.userId, calls: ++calls }
+  }
+
+  @Auth()
+  @Handle(routes.account)
+  account(_input: unknown, context: AuthenticatedContext) {
+    return { userId: context.auth.userId, calls: ++calls }
+  }
+
+  @Cache(false)
+  @Public()
+  @Handle(routes.time)
+  time() {
+    return { calls: ++calls }
+  }
+
+  @Cache({ ttl: 60_000, varyByUser: true })
+  @Authorize({ when: ({ context }) => context.auth.userId === documentOwner })
+  @Public()
+  @Handle(routes.document)
+  document(input: { id: string }) {
+    calls++
+    return { id: input.id, body: 'secret' }
+  }
+
+  @Authorize({ when: ({ context }) => context.auth.userId === documentOwner })
+  @Public()
+  @Handle(routes.draft)
+  draft(input: { id: string }) {
+    return { id: input.id, calls: ++calls }
+  }
+}
+
+async function createTestApp(options: CachePluginOptions = {}) {
+  return createApp<AuthenticatedContext>({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: {
+        public: { producer: implement(routes).$context<AuthenticatedContext>() },
+        auth: { uses: 'public', middleware: ({ next }: { next: () => unknown }) => next() },
+      },
+    }),
+    controllers: [PlanetController],
+    createContext: ({ honoContext }) => ({
+      honoContext,
+      auth: { userId: honoContext.req.header('x-user') ?? 'anonymous' },
+    }),
+    plugins: [cachePlugin({ cache, ...options })],
+  })
+}
+
+const get = (app: { fetch: (request: Request) => Response | Promise<Response> }, path: string, headers = {}) =>
+  app.fetch(new Request(`http://localhost/api${path}`, { headers }))
+
+beforeEach(async () => {
+  await cache.invalidatePath('planet', 'account', 'profile', 'time', 'document', 'draft')
+  calls = 0
+  documentOwner = 'ada'
+  planets = { earth: { id: 'earth', name: 'Earth', version: 1 } }
+})
+
+describe('cachePlugin', () => {
+  it('serves repeated GET calls from the cache with ETag and Cache-Control', async () => {
+    const app = await createTestApp()
+
+    const first = await get(app, '/planets/earth')
+    const second = await get(app, '/planets/earth')
+
+    expect(first.headers.get('X-Cache')).toBe('MISS')
+    expect(second.headers.get('X-Cache')).toBe('HIT')
+    expect(await second.json()).toEqual(await first.json())
+    expect(second.headers.get('ETag')).toMatch(/^W\/"[0-9a-f]{40}"$/)
+    expect(second.headers.get('ETag')).toBe(first.headers.get('ETag'))
+    expect(first.headers.get('Cache-Control')).toBe('public, max-age=60')
+    expect(calls).toBe(1)
+  })
+
+  it('keys entries by the normalized input', async () => {
+    const app = await createTestApp()
+
+    await get(app, '/planets?sort=name&order=asc')
+    const reordered = await get(app, '/planets?order=asc&sort=name')
+    const other = await get(app, '/planets?sort=id')
+
+    expect(reordered.headers.get('X-Cache')).toBe('HIT')
+    expect(other.headers.get('X-Cache')).toBe('MISS')
+    expect(calls).toBe(2)
+  })
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const app = await createTestApp()
+    const etag = (await get(app, '/planets/earth')).headers.get('ETag')!
+
+    const response = await get(app, '/planets/earth', { 'If-None-Match': etag })
+
+    expect(response.status).toBe(304)
+    expect(response.headers.get('ETag')).toBe(etag)
+    expect(response.headers.get('Content-Type')).toBeNull()
+    expect(await response.text()).toBe('')
+  })
+
+  it('caches per user and marks the response private when varying by user', async () => {
+    const app = await createTestApp()
+
+    const ada = await (await get(app, '/profile', { 'x-user': 'ada' })).json()
+    const grace = await get(app, '/profile', { 'x-user': 'grace' })
+    const adaAgain = await (await get(app, '/profile', { 'x-user': 'ada' })).json()
+
+    expect(await grace.json()).toEqual({ userId: 'grace', calls: 2 })
+    expect(adaAgain).toEqual(ada)
+    expect(grace.headers.get('Cache-Control')).toBe('private, max-age=60')
+  })
+
+  it('invalidates entries by tag after a mutation', async () => {
+    const app = await createTestApp()
+    const etag = (await get(app, '/planets/earth')).headers.get('ETag')!
+    await get(app, '/planets')
+
+    await app.fetch(
+      new Request('http://localhost/api/planets/earth', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'Terra' }),
+      })
+    )
+
+    const planet = await get(app, '/planets/earth', { 'If-None-Match': etag })
+    const list = await get(app, '/planets')
+
+    expect(planet.status).toBe(200)
+    expect(await planet.json()).toMatchObject({ name: 'Terra', version: 2 })
+    expect(list.headers.get('X-Cache')).toBe('MISS')
+  })
+
+  it('invalidates entries by contract path, including nested paths', async () => {
+    const app = await createTestApp()
+    await get(app, '/planets')
+    await get(app, '/planets/earth')
+    await get(app, '/profile')
+
+    await expect(cache.invalidatePath('planet')).resolves.toBe(2)
+    expect((await get(app, '/planets/earth')).headers.get('X-Cache')).toBe('MISS')
+    expect((await get(app, '/profile')).headers.get('X-Cache')).toBe('HIT')
+  })
+
+  it('applies the default ttl to GET endpoints only and skips exempted ones', async () => {
+    const app = await createTestApp({ ttl: 5_000 })
+
+    await get(app, '/time')
+    const time = await get(app, '/time')
+
+    expect(await time.json()).toEqual({ calls: 2 })
+    expect(time.headers.get('ETag')).toBeNull()
+  })
+
+  it('does not share default entries of endpoints behind an access policy', async () => {
+    const app = await createTestApp({ ttl: 5_000 })
+
+    await get(app, '/account', { 'x-user': 'ada' })
+    const grace = await get(app, '/account', { 'x-user': 'grace' })
+
+    expect(await grace.json()).toEqual({ userId: 'grace', calls: 2 })
+    expect(grace.headers.get('ETag')).toBeNull()
+  })
+
+  it('caches endpoints behind an access policy per user and privately when the default varies by user', async () => {
+    const app = await createTestApp({ ttl: 5_000, varyByUser: true })
+
+    await get(app, '/account', { 'x-user': 'ada' })
+    const grace = await get(app, '/account', { 'x-user': 'grace' })
+    const adaAgain = await get(app, '/account', { 'x-user': 'ada' })
+
+    expect(await grace.json()).toEqual({ userId: 'grace', calls: 2 })
+    expect(await adaAgain.json()).toEqual({ userId: 'ada', calls: 1 })
+    expect(adaAgain.headers.get('Cache-Control')).toBe('private, max-age=5')
+  })
+})
+
+describe('cachePlugin with authorization rules', () => {
+  it('runs the rule before serving a cached response', async () => {
+    const app = await createTestApp()
+
+    expect((await get(app, '/documents/d1', { 'x-user': 'ada' })).status).toBe(200)
+    expect((await get(app, '/documents/d1', { 'x-user': 'grace' })).status).toBe(403)
+
+    documentOwner = 'grace'
+    expect((await get(app, '/documents/d1', { 'x-user': 'ada' })).status).toBe(403)
+    expect(calls).toBe(1)
+  })
+
+  it('refuses to share cached responses of endpoints with an authorization rule', async () => {
+    @Controller()
+    class SharedDocumentController {
+      @Cache({ ttl: 60_000 })
+      @Authorize({ when: () => true })
+      @Public()
+      @Handle(routes.document)
+      document(input: { id: string }) {
+        return { id: input.id, body: 'secret' }
+      }
+    }
+
+    await expect(
+      createApp({
+        routes: { document: routes.document },
+        access: defineAccess({
+          default: 'public',
+          policies: { public: { producer: implement({ document: routes.document }).$context<AuthenticatedContext>() } },
+        }),
+        controllers: [SharedDocumentController],
+        plugins: [cachePlugin({ cache })],
+      })
+    ).rejects.toThrow(
+      'Invalid options on SharedDocumentController.document: responses guarded by an authorization rule must be cached with varyByUser'
+    )
+  })
+
+  it('does not apply a shared default policy to endpoints with an authorization rule', async () => {
+    const app = await createTestApp({ ttl: 5_000 })
+
+    await get(app, '/drafts/d1', { 'x-user': 'ada' })
+    const draft = await get(app, '/drafts/d1', { 'x-user': 'ada' })
+
+    expect(await draft.json()).toEqual({ id: 'd1', calls: 2 })
+    expect(draft.headers.get('ETag')).toBeNull()
+  })
+})
+
+describe('MemoryCacheStore', () => {
+  const entry = (path: string, expiresAt = Date.now() + 60_000) => ({
+    value: path,
+    etag: 'W/"0"',
+    path,
+    tags: [],
+    expiresAt,
+  })
+
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 })
+    await store.set('a', entry('a'))
+    await store.set('b', entry('b'))
+    await store.get('a')
+    await store.set('c', entry('c'))
+
+    expect(await store.get('a')).toBeDefined()
+    expect(await store.get('b')).toBeUndefined()
+    expect(store.size).toBe(2)
+  })
+
+  it('drops expired entries on read', async () => {
+    const store = new MemoryCacheStore()
+    await store.set('a', entry('a', Date.now() - 1))
+
+    expect(await store.get('a')).toBeUndefined()
+    expect(store.size).toBe(0)
+  })
+})
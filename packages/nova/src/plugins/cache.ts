@@ -0,0 +1,185 @@
+import type { Context, Next } from 'hono'
+import type { PluginFactory } from './types'
+import type { AuthContext, BaseORPCContext } from '../domain/context'
+import type { EndpointDescriptor, ProcedureInterceptor } from '../domain/endpoint'
+import { computeETag, matchesETag, type CacheEntry, type CachePolicy } from '../domain/cache'
+import { isEventStream } from '../domain/stream'
+import { ResponseCache } from '../infrastructure/response-cache'
+
+/**
+ * Cache plugin options
+ */
+export interface CachePluginOptions {
+  /**
+   * Default time to live in milliseconds for GET endpoints without their own
+   * policy. When omitted, only endpoints with a declared policy are cached.
+   * Unless `varyByUser` is set, the default only applies to public endpoints
+   * without an authorization rule.
+   */
+  ttl?: number
+
+  /**
+   * Cache default responses per user
+   * @default false
+   */
+  varyByUser?: boolean
+
+  /**
+   * Cache holding responses; share it with handlers that invalidate entries
+   * @default new ResponseCache()
+   */
+  cache?: ResponseCache
+
+  /**
+   * Send `ETag`, `Cache-Control` and `X-Cache` headers and answer
+   * `If-None-Match` with 304
+   * @default true
+   */
+  headers?: boolean
+}
+
+/**
+ * Create a response cache plugin.
+ *
+ * Caches the outputs of GET procedures after the access policy and the
+ * authorization rule have run, so `varyByUser` can use `context.auth.userId`
+ * and every hit is authorized. Endpoints declare their own policy with
+ * `@Cache()` (or `false` to opt out of the default). The default only shares
+ * responses of public endpoints without an authorization rule, and responses
+ * of endpoints behind an access policy are sent as `private`. Entries are kept
+ * per tenant (`context.tenant`). Streamed outputs are never cached.
+ * Conditional GET requests whose `If-None-Match` matches the response's ETag
+ * receive 304.
+ *
+ * @param options - Cache configuration options
+ * @returns A plugin that caches procedure outputs
+ *
+ * @example
+ * ```typescript
+ * export const cache = new ResponseCache()
+ *
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [cachePlugin({ cache })],
+ * })
+ *
+ * // Per endpoint
+ * @Cache({ ttl: 60_000, tags: (input) => [`planet:${input.id}`] })
+ * @Public()
+ * @Handle(routes.planet.get)
+ * get(input: { id: string }) {}
+ *
+ * // After a mutation
+ * await cache.invalidateTags(`planet:${input.id}`)
+ * ```
+ */
+export const cachePlugin: PluginFactory<CachePluginOptions, BaseORPCContext> = (options = {}) => {
+  const { ttl, varyByUser = false, cache = new ResponseCache(), headers = true } = options
+
+  const defaultPolicy: CachePolicy | undefined =
+    ttl !== undefined ? { ttl, varyByUser } : undefined
+
+  const resolvePolicy = (endpoint: EndpointDescriptor): CachePolicy | undefined => {
+    const declared = endpoint.options.cache
+    if (declared === false || endpoint.route?.method !== 'GET') {
+      return undefined
+    }
+    if (declared) {
+      return declared
+    }
+    // The default never shares responses of endpoints behind a policy or an authorization rule
+    const shared = endpoint.public && !endpoint.options.authorize
+    return shared || defaultPolicy?.varyByUser ? defaultPolicy : undefined
+  }
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, input, context }, next) => {
+    const policy = resolvePolicy(endpoint)
+    if (!policy) {
+      return next()
+    }
+
+    const path = endpoint.path.join('.')
+    const userId = policy.varyByUser
+      ? ((context as { auth?: Partial<AuthContext> }).auth?.userId ?? 'anonymous')
+      : undefined
+    const key = cache.key(path, input, userId, context.tenant?.id)
+
+    const cached = await cache.get(key)
+    if (cached) {
+      if (headers) {
+        setCacheHeaders(context.honoContext, endpoint, policy, cached, 'HIT')
+      }
+      return cached.value
+    }
+
+    const value = await next()
+    if (isEventStream(value)) {
+      return value
+    }
+
+    const entry: CacheEntry = {
+      value,
+      etag: await computeETag(value),
+      path,
+      tags: typeof policy.tags === 'function' ? policy.tags(input) : (policy.tags ?? []),
+      expiresAt: Date.now() + policy.ttl,
+    }
+    await cache.set(key, entry)
+
+    if (headers) {
+      setCacheHeaders(context.honoContext, endpoint, policy, entry, 'MISS')
+    }
+    return value
+  }
+
+  // Turns matching conditional requests into 304 once the response is known
+  const middleware = async (c: Context, next: Next): Promise<void> => {
+    await next()
+
+    const ifNoneMatch = c.req.header('If-None-Match')
+    const etag = c.res.headers.get('ETag')
+    if (c.req.method !== 'GET' || c.res.status !== 200 || !ifNoneMatch || !etag) {
+      return
+    }
+
+    if (matchesETag(ifNoneMatch, etag)) {
+      const notModified = new Headers()
+      for (const name of ['ETag', 'Cache-Control', 'Vary', 'X-Cache']) {
+        const value = c.res.headers.get(name)
+        if (value !== null) {
+          notModified.set(name, value)
+        }
+      }
+      // Replace rather than merge, so no headers of the full body are kept
+      c.res = undefined
+      c.res = new Response(null, { status: 304, headers: notModified })
+    }
+  }
+
+  return {
+    name: 'cache',
+    middleware: headers ? middleware : undefined,
+    procedureInterceptor,
+  }
+}
+
+/**
+ * Set the cache validator and freshness headers of a response
+ */
+function setCacheHeaders(
+  c: Context,
+  endpoint: EndpointDescriptor,
+  policy: CachePolicy,
+  entry: CacheEntry,
+  status: 'HIT' | 'MISS'
+): void {
+  const maxAge = Math.max(0, Math.ceil((entry.expiresAt - Date.now()) / 1000))
+  // Shared caches must not keep responses of endpoints behind an access policy
+  const visibility = policy.varyByUser || !endpoint.public ? 'private' : 'public'
+
+  c.header('ETag', entry.etag)
+  c.header('Cache-Control', policy.cacheControl ?? `${visibility}, max-age=${maxAge}`)
+  c.header('X-Cache', status)
+}
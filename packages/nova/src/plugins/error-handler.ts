@@ -2,6 +2,7 @@ import type { Context } from 'hono'
 import type { Plugin, PluginFactory } from './types'
 import type { BaseORPCContext } from '../domain/context'
 import { toORPCHonoError, isORPCHonoError } from '../domain/errors'
+import { getTraceContext } from '../core/tracing'
 
 /**
  * Error handler plugin options
@@ -44,6 +45,10 @@ export interface ErrorResponse {
   status: number
   data?: unknown
   stack?: string
+  /** Request ID, for correlating the response with logs */
+  requestId?: string
+  /** W3C trace ID of the request */
+  traceId?: string
 }
 
 /**
@@ -52,6 +57,7 @@ export interface ErrorResponse {
  * This plugin:
  * - Catches all unhandled errors
  * - Formats errors into a consistent response structure
+ * - Adds the request ID and trace ID to error bodies, including those of oRPC procedures
  * - Optionally logs errors
  * - Supports custom error transformation
  *
@@ -119,6 +125,13 @@ export const errorHandlerPlugin: PluginFactory<ErrorHandlerPluginOptions, BaseOR
           }
         }
 
+        // Reference the request so clients can report it
+        const trace = getTraceContext(c)
+        if (trace) {
+          errorResponse.requestId = trace.requestId
+          errorResponse.traceId = trace.traceId
+        }
+
         // Include stack trace in development
         if (includeStack && error instanceof Error) {
           errorResponse.stack = error.stack
@@ -127,5 +140,42 @@ export const errorHandlerPlugin: PluginFactory<ErrorHandlerPluginOptions, BaseOR
         return c.json(errorResponse, errorResponse.status as any)
       })
     },
+
+    // oRPC answers errors thrown by procedures itself, so they never reach app.onError
+    async middleware(c, next) {
+      await next()
+
+      const trace = getTraceContext(c)
+      if (!trace || c.res.status < 400 || !c.res.headers.get('content-type')?.includes('application/json')) {
+        return
+      }
+
+      const body: unknown = await c.res.clone().json().catch(() => undefined)
+      if (!isORPCErrorBody(body) || body.requestId !== undefined) {
+        return
+      }
+
+      const { status } = c.res
+      const headers = new Headers(c.res.headers)
+      headers.delete('content-length')
+      // Reset first, otherwise Hono copies the stale headers onto the new response
+      c.res = undefined
+      c.res = new Response(JSON.stringify({ ...body, requestId: trace.requestId, traceId: trace.traceId }), {
+        status,
+        headers,
+      })
+    },
   }
 }
+
+/**
+ * Whether a JSON body is an error encoded by oRPC's OpenAPI handler
+ */
+function isORPCErrorBody(body: unknown): body is Record<string, unknown> {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof (body as { code?: unknown }).code === 'string' &&
+    typeof (body as { message?: unknown }).message === 'string'
+  )
+}
@@ -0,0 +1,131 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { healthPlugin } from './health'
+import type { Plugin } from './types'
+import { createApp } from '../core/create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { HealthCheckRegistry } from '../domain/health'
+import { Controller, Handle, Public } from '../infrastructure/decorators'
+import { prismaHealthCheck } from '../utils/prisma'
+
+const routes = {
+  planet: {
+    get: oc
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string() })),
+  },
+}
+
+@Controller()
+class PlanetController {
+  @Public()
+  @Handle(routes.planet.get)
+  get(input: { id: string }) {
+    return { id: input.id }
+  }
+}
+
+async function createTestApp(plugins: Plugin<BaseORPCContext>[]) {
+  const producer = implement(routes).$context<BaseORPCContext>()
+
+  return createApp({
+    routes,
+    access: defineAccess({ default: 'public', policies: { public: { producer } } }),
+    controllers: [PlanetController],
+    plugins,
+  })
+}
+
+const failing = () => {
+  throw new Error('connection refused')
+}
+
+describe('healthPlugin', () => {
+  it('reports per-check status and latency', async () => {
+    const app = await createTestApp([
+      healthPlugin({ checks: { database: prismaHealthCheck({ $queryRaw: async () => 1 }) } }),
+    ])
+
+    const response = await app.hono.fetch(new Request('http://localhost/readyz'))
+    const report = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(report.status).toBe('pass')
+    expect(report.checks.database).toMatchObject({ status: 'pass', critical: true })
+    expect(report.checks.database.latencyMs).toBeTypeOf('number')
+  })
+
+  it('fails readiness on critical checks and warns on non-critical ones', async () => {
+    const registry = new HealthCheckRegistry()
+    registry.register('search', failing, { critical: false })
+    const app = await createTestApp([healthPlugin({ registry })])
+
+    let response = await app.hono.fetch(new Request('http://localhost/readyz'))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      status: 'warn',
+      checks: { search: { status: 'fail', error: 'connection refused' } },
+    })
+
+    registry.register('database', failing)
+    response = await app.hono.fetch(new Request('http://localhost/readyz'))
+    expect(response.status).toBe(503)
+    expect((await response.json()).status).toBe('fail')
+  })
+
+  it('runs only liveness checks on the liveness endpoint', async () => {
+    const app = await createTestApp([
+      healthPlugin({
+        checks: {
+          database: failing,
+          eventLoop: { check: () => true, liveness: true },
+        },
+      }),
+    ])
+
+    const response = await app.hono.fetch(new Request('http://localhost/healthz'))
+    const report = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(Object.keys(report.checks)).toEqual(['eventLoop'])
+  })
+
+  it('collects checks contributed by other plugins', async () => {
+    const cache: Plugin<BaseORPCContext> = { name: 'cache', healthChecks: { cache: failing } }
+    const app = await createTestApp([cache, healthPlugin()])
+
+    const response = await app.hono.fetch(new Request('http://localhost/readyz'))
+    expect(response.status).toBe(503)
+    expect((await response.json()).checks.cache.status).toBe('fail')
+  })
+
+  it('fails checks that exceed their timeout', async () => {
+    const registry = new HealthCheckRegistry({ timeout: 20 })
+    registry.register('slow', () => new Promise(resolve => setTimeout(resolve, 200)))
+
+    const report = await registry.run()
+
+    expect(report.status).toBe('fail')
+    expect(report.checks.slow.error).toBe('Timed out after 20ms')
+  })
+
+  it('fails readiness as soon as shutdown begins', async () => {
+    const app = await createTestApp([healthPlugin({ checks: { database: () => true } })])
+
+    const shutdown = app.shutdown()
+
+    const readiness = await app.hono.fetch(new Request('http://localhost/readyz'))
+    expect(readiness.status).toBe(503)
+    expect(await readiness.json()).toEqual({ status: 'fail', checks: {}, shuttingDown: true })
+
+    const liveness = await app.hono.fetch(new Request('http://localhost/healthz'))
+    expect(liveness.status).toBe(200)
+
+    await shutdown
+  })
+})
@@ -0,0 +1,221 @@
+import 'reflect-metadata'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { idempotencyPlugin, type IdempotencyPluginOptions } from './idempotency'
+import { defineAccess } from '../domain/access'
+import type { AuthenticatedContext } from '../domain/context'
+import { createApp } from '../core/create-app'
+import { Authorize, Controller, Handle, Idempotent, Public } from '../infrastructure/decorators'
+
+const order = z.object({ id: z.number(), item: z.string() })
+
+const routes = {
+  order: {
+    create: oc
+      .route({ method: 'POST', path: '/orders' })
+      .input(z.object({ item: z.string(), delay: z.number().optional(), fail: z.boolean().optional() }))
+      .output(order),
+    pay: oc.route({ method: 'POST', path: '/orders/pay' }).input(z.object({ id: z.number() })).output(order),
+    note: oc.route({ method: 'POST', path: '/orders/note' }).input(z.object({ item: z.string() })).output(order),
+    ship: oc
+      .route({ method: 'POST', path: '/orders/ship', successStatus: 201 })
+      .input(z.object({ item: z.string() }))
+      .output(order),
+    refund: oc.route({ method: 'POST', path: '/orders/refund' }).input(z.object({ id: z.number() })).output(order),
+  },
+}
+
+let created = 0
+let failures = 0
+let refundsAllowed = true
+
+@Controller()
+class OrderController {
+  @Idempotent()
+  @Public()
+  @Handle(routes.order.create)
+  async create(input: { item: string; delay?: number; fail?: boolean }) {
+    if (input.delay) {
+      await new Promise((resolve) => setTimeout(resolve, input.delay))
+    }
+    if (input.fail && failures++ === 0) {
+      throw new Error('Payment provider unavailable')
+    }
+    return { id: ++created, item: input.item }
+  }
+
+  @Idempotent({ required: true })
+  @Public()
+  @Handle(routes.order.pay)
+  pay(input: { id: number }) {
+    return { id: input.id, item: 'paid' }
+  }
+
+  @Public()
+  @Handle(routes.order.note)
+  note(input: { item: string }) {
+    return { id: ++created, item: input.item }
+  }
+
+  @Idempotent()
+  @Public()
+  @Handle(routes.order.ship)
+  ship(input: { item: string }, context: AuthenticatedContext) {
+    const id = ++created
+    context.honoContext.header('Location', `/orders/${id}`)
+    return { id, item: input.item }
+  }
+
+  @Idempotent()
+  @Authorize({ when: () => refundsAllowed })
+  @Public()
+  @Handle(routes.order.refund)
+  refund(input: { id: number }) {
+    return { id: input.id, item: 'refunded' }
+  }
+}
+
+async function createTestApp(options: IdempotencyPluginOptions = {}) {
+  return createApp<AuthenticatedContext>({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: { public: { producer: implement(routes).$context<AuthenticatedContext>() } },
+    }),
+    controllers: [OrderController],
+    createContext: ({ honoContext }) => ({
+      honoContext,
+      auth: { userId: honoContext.req.header('x-user') ?? 'ada' },
+    }),
+    plugins: [idempotencyPlugin(options)],
+  })
+}
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return new Request(`http://localhost/api${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  created = 0
+  failures = 0
+  refundsAllowed = true
+})
+
+describe('idempotencyPlugin', () => {
+  it('replays the stored output for retries with the same key', async () => {
+    const app = await createTestApp()
+
+    const first = await app.fetch(post('/orders', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+    const retry = await app.fetch(post('/orders', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+
+    expect(await first.json()).toEqual({ id: 1, item: 'tea' })
+    expect(await retry.json()).toEqual({ id: 1, item: 'tea' })
+    expect(first.headers.get('Idempotent-Replayed')).toBeNull()
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(created).toBe(1)
+  })
+
+  it('replays the status and the headers set by the handler', async () => {
+    const app = await createTestApp()
+
+    const first = await app.fetch(post('/orders/ship', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+    const retry = await app.fetch(post('/orders/ship', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+
+    expect(first.status).toBe(201)
+    expect(retry.status).toBe(201)
+    expect(first.headers.get('Location')).toBe('/orders/1')
+    expect(retry.headers.get('Location')).toBe('/orders/1')
+    expect(await retry.json()).toEqual({ id: 1, item: 'tea' })
+  })
+
+  it('runs authorization rules before replaying', async () => {
+    const app = await createTestApp()
+
+    const first = await app.fetch(post('/orders/refund', { id: 1 }, { 'Idempotency-Key': 'k1' }))
+    refundsAllowed = false
+    const retry = await app.fetch(post('/orders/refund', { id: 1 }, { 'Idempotency-Key': 'k1' }))
+
+    expect(first.status).toBe(200)
+    expect(retry.status).toBe(403)
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull()
+  })
+
+  it('scopes keys per user', async () => {
+    const app = await createTestApp()
+
+    await app.fetch(post('/orders', { item: 'tea' }, { 'Idempotency-Key': 'k1', 'x-user': 'ada' }))
+    const other = await app.fetch(post('/orders', { item: 'tea' }, { 'Idempotency-Key': 'k1', 'x-user': 'grace' }))
+
+    expect(await other.json()).toEqual({ id: 2, item: 'tea' })
+  })
+
+  it('rejects reuse of a key with a different payload with 422', async () => {
+    const app = await createTestApp()
+
+    await app.fetch(post('/orders', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+    const reused = await app.fetch(post('/orders', { item: 'coffee' }, { 'Idempotency-Key': 'k1' }))
+
+    expect(reused.status).toBe(422)
+    expect(await reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' })
+    expect(created).toBe(1)
+  })
+
+  it('runs the handler once for concurrent duplicates', async () => {
+    const app = await createTestApp()
+    const request = () => app.fetch(post('/orders', { item: 'tea', delay: 100 }, { 'Idempotency-Key': 'k1' }))
+
+    const responses = await Promise.all([request(), request(), request()])
+
+    for (const response of responses) {
+      expect(await response.json()).toEqual({ id: 1, item: 'tea' })
+    }
+    expect(created).toBe(1)
+  })
+
+  it('rejects duplicates with 409 when the first call outlasts waitTimeout', async () => {
+    const app = await createTestApp({ waitTimeout: 20 })
+    const request = () => app.fetch(post('/orders', { item: 'tea', delay: 200 }, { 'Idempotency-Key': 'k1' }))
+
+    const [first, duplicate] = await Promise.all([request(), request()])
+
+    expect(first.status).toBe(200)
+    expect(duplicate.status).toBe(409)
+    expect(duplicate.headers.get('Retry-After')).toBe('1')
+  })
+
+  it('releases the key when the call fails, so a retry runs the handler', async () => {
+    const app = await createTestApp()
+
+    const failed = await app.fetch(post('/orders', { item: 'tea', fail: true }, { 'Idempotency-Key': 'k1' }))
+    const retry = await app.fetch(post('/orders', { item: 'tea', fail: true }, { 'Idempotency-Key': 'k1' }))
+
+    expect(failed.status).toBe(500)
+    expect(await retry.json()).toEqual({ id: 1, item: 'tea' })
+  })
+
+  it('requires a key on endpoints declared with required: true', async () => {
+    const app = await createTestApp()
+
+    const missing = await app.fetch(post('/orders/pay', { id: 1 }))
+    const paid = await app.fetch(post('/orders/pay', { id: 1 }, { 'Idempotency-Key': 'k1' }))
+
+    expect(missing.status).toBe(400)
+    expect(await missing.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_MISSING' })
+    expect(paid.status).toBe(200)
+  })
+
+  it('ignores the header on endpoints that did not opt in', async () => {
+    const app = await createTestApp()
+
+    await app.fetch(post('/orders/note', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+    await app.fetch(post('/orders/note', { item: 'tea' }, { 'Idempotency-Key': 'k1' }))
+
+    expect(created).toBe(2)
+  })
+})
@@ -0,0 +1,210 @@
+import type { PluginFactory } from './types'
+import type { AuthContext, BaseORPCContext } from '../domain/context'
+import type { ProcedureInterceptor } from '../domain/endpoint'
+import {
+  IdempotencyConflictError,
+  IdempotencyKeyMissingError,
+  IdempotencyKeyReuseError,
+  fingerprintRequest,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+} from '../domain/idempotency'
+import { isEventStream } from '../domain/stream'
+import { MemoryIdempotencyStore } from '../infrastructure/idempotency-store'
+import { getClientIp } from '../utils/request'
+
+/**
+ * Idempotency plugin options
+ */
+export interface IdempotencyPluginOptions {
+  /**
+   * Store holding keys and stored outputs
+   * @default new MemoryIdempotencyStore()
+   */
+  store?: IdempotencyStore
+
+  /**
+   * Request header carrying the key
+   * @default 'Idempotency-Key'
+   */
+  header?: string
+
+  /**
+   * How long stored outputs are replayed, in milliseconds
+   * @default 86400000 (24 hours)
+   */
+  ttl?: number
+
+  /**
+   * How long a key stays locked by a call that never completes
+   * (e.g. because the process crashed), in milliseconds
+   * @default 60000
+   */
+  lockTtl?: number
+
+  /**
+   * How long a duplicate waits for the first call to complete before
+   * being rejected with 409, in milliseconds
+   * @default 5000
+   */
+  waitTimeout?: number
+
+  /**
+   * Trust proxy headers when scoping keys of anonymous clients by IP
+   * @default false
+   */
+  trustProxy?: boolean
+
+  /**
+   * Prefix for store keys
+   * @default 'idempotency'
+   */
+  prefix?: string
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  header: 'Idempotency-Key',
+  ttl: 24 * 60 * 60 * 1000,
+  lockTtl: 60_000,
+  waitTimeout: 5000,
+  pollInterval: 50,
+  maxKeyLength: 255,
+  prefix: 'idempotency',
+}
+
+/**
+ * Create an idempotency plugin.
+ *
+ * Endpoints opt in with `@Idempotent()`. The first call with an
+ * `Idempotency-Key` header runs the handler and stores its output and the
+ * response headers it set; retries with the same key replay them with an
+ * `Idempotent-Replayed: true` header. The status follows from the route and
+ * the output, so replays answer with the status of the first call.
+ * Authorization rules still run before a replay.
+ * Keys are scoped per tenant and per user (`context.auth.userId`, or the
+ * client IP for anonymous calls). Reusing a key with a different payload is rejected
+ * with 422. Duplicates arriving while the first call runs wait for it, and
+ * are rejected with 409 after `waitTimeout`. Failed calls release the key,
+ * so they can be retried; streamed outputs are not stored.
+ *
+ * @param options - Idempotency configuration options
+ * @returns A plugin that deduplicates retried calls
+ *
+ * @example
+ * ```typescript
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [idempotencyPlugin({ ttl: 24 * 60 * 60 * 1000 })],
+ * })
+ *
+ * // Per endpoint
+ * @Idempotent({ required: true })
+ * @Auth()
+ * @Handle(routes.payment.create)
+ * create(input: CreatePaymentInput) {}
+ * ```
+ */
+export const idempotencyPlugin: PluginFactory<IdempotencyPluginOptions, BaseORPCContext> = (
+  options = {}
+) => {
+  const {
+    store = new MemoryIdempotencyStore(),
+    header = DEFAULTS.header,
+    ttl = DEFAULTS.ttl,
+    lockTtl = DEFAULTS.lockTtl,
+    waitTimeout = DEFAULTS.waitTimeout,
+    trustProxy = false,
+    prefix = DEFAULTS.prefix,
+  } = options
+
+  const resolveScope = (context: BaseORPCContext): string => {
+    const auth = (context as { auth?: Partial<AuthContext> }).auth
+    return auth?.userId
+      ? `user:${auth.userId}`
+      : `ip:${getClientIp(context.honoContext, { trustProxy })}`
+  }
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, input, context }, next) => {
+    const policy = endpoint.options.idempotent
+    if (!policy) {
+      return next()
+    }
+
+    const idempotencyKey = context.honoContext.req.header(header)
+    if (!idempotencyKey || idempotencyKey.length > DEFAULTS.maxKeyLength) {
+      if (policy.required || idempotencyKey) {
+        throw new IdempotencyKeyMissingError(header)
+      }
+      return next()
+    }
+
+    const key = `${prefix}:${context.tenant?.id ?? '*'}:${resolveScope(context)}:${idempotencyKey}`
+    const fingerprint = await fingerprintRequest(endpoint.path.join('.'), input)
+    const deadline = Date.now() + waitTimeout
+
+    let record: IdempotencyRecord | undefined = await store.begin(key, fingerprint, lockTtl)
+    while (record) {
+      if (record.fingerprint !== fingerprint) {
+        throw new IdempotencyKeyReuseError()
+      }
+
+      if (record.status === 'completed') {
+        for (const [name, value] of Object.entries(record.response.headers)) {
+          context.honoContext.header(name, value)
+        }
+        context.honoContext.header('Idempotent-Replayed', 'true')
+        return record.response.value
+      }
+
+      if (Date.now() >= deadline) {
+        context.honoContext.header('Retry-After', '1')
+        throw new IdempotencyConflictError()
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, DEFAULTS.pollInterval))
+      // Claims the key if the first call failed or its lock expired meanwhile
+      record = await store.begin(key, fingerprint, lockTtl)
+    }
+
+    const headersBefore = new Headers(context.honoContext.res.headers)
+    let value: unknown
+    try {
+      value = await next()
+    } catch (error) {
+      await store.release(key)
+      throw error
+    }
+
+    if (isEventStream(value)) {
+      await store.release(key)
+      return value
+    }
+
+    const headers = changedHeaders(headersBefore, context.honoContext.res.headers)
+    await store.complete(key, fingerprint, { value, headers }, policy.ttl ?? ttl)
+    return value
+  }
+
+  return {
+    name: 'idempotency',
+    procedureInterceptor,
+  }
+}
+
+/**
+ * Headers set or changed between two snapshots of the response headers
+ */
+function changedHeaders(before: Headers, after: Headers): Record<string, string> {
+  const changed: Record<string, string> = {}
+  after.forEach((value, name) => {
+    if (before.get(name) !== value) {
+      changed[name] = value
+    }
+  })
+  return changed
+}
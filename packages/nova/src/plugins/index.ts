@@ -5,7 +5,16 @@
  */
 
 // Plugin types
-export type { Plugin, PluginFactory, PluginContext, AppConfig, OutscopeApp, ServerInfo, ErrorHandler } from './types'
+export type {
+  Plugin,
+  PluginFactory,
+  PluginContext,
+  AppConfig,
+  ApiVersionConfig,
+  OutscopeApp,
+  ServerInfo,
+  ErrorHandler,
+} from './types'
 
 // CORS plugin
 export { corsPlugin } from './cors'
@@ -22,3 +31,35 @@ export type { OpenAPIPluginOptions } from './openapi'
 // Error handler plugin
 export { errorHandlerPlugin } from './error-handler'
 export type { ErrorHandlerPluginOptions, ErrorResponse } from './error-handler'
+
+// Rate limit plugin
+export { rateLimitPlugin } from './rate-limit'
+export type { RateLimitPluginOptions } from './rate-limit'
+
+// OpenTelemetry plugin
+export { otelPlugin } from './otel'
+export type { OtelPluginOptions } from './otel'
+
+// Metrics plugin
+export { metricsPlugin } from './metrics'
+export type { MetricsPluginOptions } from './metrics'
+
+// Health plugin
+export { healthPlugin } from './health'
+export type { HealthPluginOptions } from './health'
+
+// Upload plugin
+export { uploadPlugin } from './upload'
+export type { UploadPluginOptions } from './upload'
+
+// Cache plugin
+export { cachePlugin } from './cache'
+export type { CachePluginOptions } from './cache'
+
+// Idempotency plugin
+export { idempotencyPlugin } from './idempotency'
+export type { IdempotencyPluginOptions } from './idempotency'
+
+// Transaction plugin
+export { transactionPlugin } from './transaction'
+export type { TransactionPluginOptions } from './transaction'
@@ -1,6 +1,8 @@
 import type { Context } from 'hono'
 import type { Plugin, PluginFactory } from './types'
 import type { BaseORPCContext } from '../domain/context'
+import { getTraceContext } from '../core/tracing'
+import { getRequestTenant } from '../domain/tenancy'
 
 /**
  * Logger plugin options
@@ -46,6 +48,12 @@ export interface RequestLogInfo {
   status: number
   duration: number
   userAgent?: string
+  /** Request ID assigned by createApp's tracing */
+  requestId?: string
+  /** W3C trace ID of the request */
+  traceId?: string
+  /** ID of the request's tenant, when `tenancy` is configured */
+  tenantId?: string
 }
 
 /**
@@ -118,8 +126,15 @@ export const loggerPlugin: PluginFactory<LoggerPluginOptions, BaseORPCContext> =
           return next()
         }
 
+        const trace = getTraceContext(c)
+        const tenant = getRequestTenant(c)?.tenant
+        const correlation = {
+          ...(trace ? { requestId: trace.requestId, traceId: trace.traceId } : {}),
+          ...(tenant ? { tenantId: tenant.id } : {}),
+        }
+
         // Log request start
-        logger.debug({ method, path }, 'Request started')
+        logger.debug({ method, path, ...correlation }, 'Request started')
 
         await next()
 
@@ -133,6 +148,7 @@ export const loggerPlugin: PluginFactory<LoggerPluginOptions, BaseORPCContext> =
           status,
           duration,
           userAgent: c.req.header('user-agent'),
+          ...correlation,
         }
 
         const message = format
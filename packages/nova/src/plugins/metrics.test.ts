@@ -0,0 +1,124 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { ORPCError, oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { metricsPlugin } from './metrics'
+import { createApp } from '../core/create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { Auth, Controller, Handle, Public } from '../infrastructure/decorators'
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../infrastructure/metrics-registry'
+
+const routes = {
+  planet: {
+    get: oc
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string() })),
+    mine: oc.route({ method: 'GET', path: '/planets/mine' }),
+  },
+}
+
+@Controller()
+class PlanetController {
+  @Public()
+  @Handle(routes.planet.get)
+  get(input: { id: string }) {
+    if (input.id === 'crash') {
+      throw new Error('database unavailable')
+    }
+    return { id: input.id }
+  }
+
+  @Auth()
+  @Handle(routes.planet.mine)
+  mine() {
+    return []
+  }
+}
+
+async function createTestApp(registry: MetricsRegistry) {
+  const producer = implement(routes).$context<BaseORPCContext>()
+
+  const app = await createApp({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: {
+        public: { producer },
+        auth: {
+          producer: producer.use(() => {
+            throw new ORPCError('UNAUTHORIZED')
+          }),
+        },
+      },
+    }),
+    controllers: [PlanetController],
+    plugins: [metricsPlugin({ registry, path: '/internal/metrics' })],
+  })
+
+  app.hono.get('/health', (c) => c.text('ok'))
+
+  return app
+}
+
+describe('metricsPlugin', () => {
+  it('labels requests by contract path, never the raw URL', async () => {
+    const registry = new MetricsRegistry()
+    const app = await createTestApp(registry)
+
+    await app.hono.fetch(new Request('http://localhost/api/planets/earth'))
+    await app.hono.fetch(new Request('http://localhost/api/planets/mars'))
+    await app.hono.fetch(new Request('http://localhost/health'))
+    await app.hono.fetch(new Request('http://localhost/nowhere'))
+    await app.hono.fetch(new Request('http://localhost/nowhere', { method: 'PURGE' }))
+
+    const response = await app.hono.fetch(new Request('http://localhost/internal/metrics'))
+    const body = await response.text()
+
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE)
+    expect(body).toContain('http_requests_total{method="GET",path="planet.get",status="200",policy="public"} 2')
+    expect(body).toContain('http_requests_total{method="GET",path="/health",status="200",policy=""} 1')
+    expect(body).toContain('http_requests_total{method="GET",path="unmatched",status="404",policy=""} 1')
+    expect(body).toContain('http_requests_total{method="OTHER",path="unmatched",status="404",policy=""} 1')
+    expect(body).not.toContain('PURGE')
+    expect(body).not.toContain('earth')
+    expect(body).not.toContain('internal/metrics')
+    expect(body).toContain(
+      'http_request_duration_seconds_count{method="GET",path="planet.get",status="200",policy="public"} 2'
+    )
+    expect(body).toContain(
+      'http_request_duration_seconds_bucket{method="GET",path="planet.get",status="200",policy="public",le="+Inf"} 2'
+    )
+    expect(body).toContain('# TYPE http_requests_in_flight gauge\nhttp_requests_in_flight 0')
+  })
+
+  it('keeps the contract path and policy of requests rejected by the access policy', async () => {
+    const registry = new MetricsRegistry()
+    const app = await createTestApp(registry)
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/planets/mine'))
+    expect(response.status).toBe(401)
+
+    expect(registry.metrics()).toContain(
+      'http_requests_total{method="GET",path="planet.mine",status="401",policy="auth"} 1'
+    )
+  })
+
+  it('counts server errors and serves application metrics from the same registry', async () => {
+    const registry = new MetricsRegistry()
+    const signups = registry.counter('signups_total', 'Completed signups', ['plan'])
+    const app = await createTestApp(registry)
+
+    signups.inc({ plan: 'pro' })
+    await app.hono.fetch(new Request('http://localhost/api/planets/crash'))
+
+    const body = registry.metrics()
+    expect(body).toContain('signups_total{plan="pro"} 1')
+    expect(body).toContain(
+      'http_request_errors_total{method="GET",path="planet.get",status="500",policy="public"} 1'
+    )
+    expect(() => metricsPlugin({ registry })).toThrow('Metric "http_requests_total" is already registered')
+  })
+})
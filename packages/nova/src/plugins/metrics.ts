@@ -0,0 +1,175 @@
+import type { Context, Next } from 'hono'
+import { matchedRoutes } from 'hono/route'
+import type { PluginFactory } from './types'
+import type { BaseORPCContext } from '../domain/context'
+import { getRequestEndpoint } from '../domain/endpoint'
+import { getRequestTenant } from '../domain/tenancy'
+import { DEFAULT_BUCKETS, MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../infrastructure/metrics-registry'
+
+/**
+ * Metrics plugin options
+ */
+export interface MetricsPluginOptions {
+  /**
+   * Path serving the metrics in the Prometheus text format
+   * @default '/metrics'
+   */
+  path?: string
+
+  /**
+   * Registry to record into; pass your own to serve application metrics
+   * from the same endpoint
+   * @default new MetricsRegistry()
+   */
+  registry?: MetricsRegistry
+
+  /**
+   * Prefix for metric names, e.g. 'planets_'
+   * @default ''
+   */
+  prefix?: string
+
+  /**
+   * Latency histogram buckets, in seconds
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[]
+
+  /**
+   * Add a `tenant` label with the ID of the request's tenant. Every tenant
+   * multiplies the number of series, so only enable it for a bounded
+   * number of tenants.
+   * @default false
+   */
+  tenantLabel?: boolean
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  path: '/metrics',
+  prefix: '',
+}
+
+/**
+ * Label of requests that matched neither a procedure nor a route
+ */
+const UNMATCHED_PATH = 'unmatched'
+
+/**
+ * Methods recorded as they are; any other method is labelled `OTHER`, so
+ * clients cannot create new series with made-up methods
+ */
+const KNOWN_METHODS = new Set(['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'CONNECT', 'OPTIONS', 'TRACE', 'PATCH'])
+
+/**
+ * Create a Prometheus metrics plugin.
+ *
+ * Records RED metrics for every request:
+ * - `http_requests_total`: request count
+ * - `http_request_errors_total`: responses with a 5xx status
+ * - `http_request_duration_seconds`: latency histogram
+ * - `http_requests_in_flight`: requests currently being handled
+ *
+ * Requests are labelled with `method`, `status`, `policy` and `path`, and
+ * optionally `tenant`. Non-standard methods share the `OTHER` method label.
+ * The `path` label is the contract path (`planet.get`), never the raw URL,
+ * so label cardinality stays bounded. Requests rejected by the access
+ * policy keep their contract path. Other Hono routes use their route
+ * pattern.
+ *
+ * @param options - Metrics configuration options
+ * @returns A plugin that records and serves metrics
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetricsRegistry()
+ * export const signups = registry.counter('signups_total', 'Completed signups', ['plan'])
+ *
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [
+ *     metricsPlugin({ registry, path: '/internal/metrics' }),
+ *   ],
+ * })
+ * ```
+ */
+export const metricsPlugin: PluginFactory<MetricsPluginOptions, BaseORPCContext> = (options = {}) => {
+  const {
+    path = DEFAULTS.path,
+    registry = new MetricsRegistry(),
+    prefix = DEFAULTS.prefix,
+    buckets = DEFAULT_BUCKETS,
+    tenantLabel = false,
+  } = options
+
+  const labelNames = ['method', 'path', 'status', 'policy', ...(tenantLabel ? ['tenant'] : [])]
+  const requests = registry.counter(`${prefix}http_requests_total`, 'Total HTTP requests', labelNames)
+  const errors = registry.counter(
+    `${prefix}http_request_errors_total`,
+    'HTTP requests that ended with a 5xx status',
+    labelNames
+  )
+  const duration = registry.histogram(
+    `${prefix}http_request_duration_seconds`,
+    'HTTP request latency in seconds',
+    labelNames,
+    buckets
+  )
+  const inFlight = registry.gauge(`${prefix}http_requests_in_flight`, 'HTTP requests currently being handled')
+
+  return {
+    name: 'metrics',
+
+    middleware: async (c: Context, next: Next) => {
+      if (c.req.path === path) {
+        return next()
+      }
+
+      const start = performance.now()
+      inFlight.inc()
+
+      try {
+        await next()
+      } finally {
+        inFlight.dec()
+
+        const endpoint = getRequestEndpoint(c)
+        const labels = {
+          method: KNOWN_METHODS.has(c.req.method) ? c.req.method : 'OTHER',
+          path: endpoint ? endpoint.path.join('.') : routePattern(c),
+          status: String(c.res.status),
+          policy: endpoint?.access.policy ?? '',
+          ...(tenantLabel ? { tenant: getRequestTenant(c)?.tenant?.id ?? '' } : {}),
+        }
+
+        requests.inc(labels)
+        duration.observe(labels, (performance.now() - start) / 1000)
+        if (c.res.status >= 500) {
+          errors.inc(labels)
+        }
+      }
+    },
+
+    onReady({ app }) {
+      app.get(path, (c) => c.body(registry.metrics(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }))
+    },
+  }
+}
+
+/**
+ * Route pattern of a plain Hono route. Middleware is registered for method
+ * ALL, so the last route with a concrete method is the handler.
+ */
+function routePattern(c: Context): string {
+  const routes = matchedRoutes(c)
+  for (let i = routes.length - 1; i >= 0; i--) {
+    if (routes[i].method !== 'ALL') {
+      return routes[i].path
+    }
+  }
+  return UNMATCHED_PATH
+}
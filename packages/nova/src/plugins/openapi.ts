@@ -1,5 +1,8 @@
+import type { AnyContractRouter } from '@orpc/contract'
 import type { Plugin, PluginFactory } from './types'
 import type { BaseORPCContext } from '../domain/context'
+import { loadSchemaConverters } from '../core/openapi'
+import { markOperationsDeprecated } from '../core/versioning'
 
 /**
  * OpenAPI plugin options
@@ -73,6 +76,7 @@ export interface OpenAPIPluginOptions {
  * - Generates OpenAPI 3.0 specification from your routes
  * - Serves Swagger UI at the configured path
  * - Serves the OpenAPI JSON spec at the configured path
+ * - Serves one spec per additional API version, e.g. `/openapi/v1.json`
  *
  * @param options - OpenAPI configuration options
  * @returns A plugin that adds OpenAPI documentation
@@ -109,42 +113,56 @@ export const openapiPlugin: PluginFactory<OpenAPIPluginOptions, BaseORPCContext>
     name: 'openapi',
 
     async onReady({ app, routes, config }) {
-      let openApiSpec: object | null = null
-
-      // Generate OpenAPI spec
-      try {
-        const { OpenAPIGenerator } = await import('@orpc/openapi')
-        const { ZodToJsonSchemaConverter } = await import('@orpc/zod')
-
-        const generator = new OpenAPIGenerator({
-          schemaConverters: [new ZodToJsonSchemaConverter()],
-        })
-
-        openApiSpec = await generator.generate(routes, {
-          info: {
-            title,
-            version,
-            description,
-            contact,
-            license,
-          },
-          servers: servers ?? [
-            {
-              url: config.apiPrefix ?? '/api',
-              description: 'API Server',
+      const generateSpec = async (
+        specRoutes: AnyContractRouter,
+        specVersion: string,
+        specServers: NonNullable<OpenAPIPluginOptions['servers']>
+      ): Promise<object> => {
+        try {
+          const { OpenAPIGenerator } = await import('@orpc/openapi')
+          const generator = new OpenAPIGenerator({ schemaConverters: await loadSchemaConverters(console) })
+
+          return await generator.generate(specRoutes, {
+            info: {
+              title,
+              version: specVersion,
+              description,
+              contact,
+              license,
             },
-          ],
-          externalDocs,
-        })
-      } catch (error) {
-        console.warn('Failed to generate OpenAPI spec:', error)
-        openApiSpec = {
-          openapi: '3.0.0',
-          info: { title, version, description },
-          paths: {},
+            servers: specServers,
+            externalDocs,
+          })
+        } catch (error) {
+          console.warn('Failed to generate OpenAPI spec:', error)
+          return {
+            openapi: '3.0.0',
+            info: { title, version: specVersion, description },
+            paths: {},
+          }
         }
       }
 
+      // Generate OpenAPI spec
+      const openApiSpec = await generateSpec(
+        routes,
+        version,
+        servers ?? [{ url: config.apiPrefix ?? '/api', description: 'API Server' }]
+      )
+
+      // Additional API versions get their own spec, e.g. /openapi/v1.json,
+      // outside of their prefixes so reading docs is not logged as usage
+      const specUrls = [{ url: specPath, name: version }]
+      for (const [name, apiVersion] of Object.entries(config.versions ?? {})) {
+        const versionSpec = await generateSpec(apiVersion.routes, name, [
+          { url: apiVersion.apiPrefix, description: `API Server (${name})` },
+        ])
+        const versionSpecPath = `${specPath.replace(/\.json$/, '')}/${name}.json`
+        const served = apiVersion.deprecated ? markOperationsDeprecated(versionSpec) : versionSpec
+        app.get(versionSpecPath, (c) => c.json(served))
+        specUrls.push({ url: versionSpecPath, name })
+      }
+
       // Serve OpenAPI spec
       app.get(specPath, (c) => c.json(openApiSpec))
 
@@ -154,10 +172,14 @@ export const openapiPlugin: PluginFactory<OpenAPIPluginOptions, BaseORPCContext>
 
         app.get(
           swaggerPath,
-          swaggerUI({
-            url: specPath,
-            spec: openApiSpec as any,
-          })
+          swaggerUI(
+            specUrls.length > 1
+              ? { urls: specUrls }
+              : {
+                  url: specPath,
+                  spec: openApiSpec as any,
+                }
+          )
         )
       } catch {
         // Swagger UI not available, serve basic HTML fallback
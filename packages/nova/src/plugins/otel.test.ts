@@ -0,0 +1,156 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { ORPCError, eventIterator, oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { z } from 'zod'
+import { otelPlugin } from './otel'
+import { createApp } from '../core/create-app'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { parseTraceparent } from '../domain/trace'
+import { Controller, Handle, Permission, Public } from '../infrastructure/decorators'
+
+const routes = {
+  planet: {
+    get: oc
+      .route({ method: 'GET', path: '/planets/{id}' })
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string(), traceId: z.string() })),
+    remove: oc.route({ method: 'DELETE', path: '/planets/{id}' }).input(z.object({ id: z.string() })),
+    watch: oc.route({ method: 'GET', path: '/planets/watch' }).output(eventIterator(z.object({ n: z.number() }))),
+  },
+}
+
+@Controller()
+class PlanetController {
+  @Public()
+  @Handle(routes.planet.get)
+  get(input: { id: string }, context: BaseORPCContext) {
+    if (input.id === 'pluto') {
+      throw new ORPCError('NOT_FOUND', { message: 'Planet not found' })
+    }
+    return { id: input.id, traceId: context.trace!.traceId }
+  }
+
+  @Permission('planet:delete')
+  @Handle(routes.planet.remove)
+  remove() {
+    throw new Error('database unavailable')
+  }
+
+  @Public()
+  @Handle(routes.planet.watch)
+  async *watch() {
+    yield { n: 0 }
+    yield { n: 1 }
+  }
+}
+
+async function createTestApp(exporter: InMemorySpanExporter, batch = false) {
+  const processor = batch
+    ? new BatchSpanProcessor(exporter, { scheduledDelayMillis: 60_000 })
+    : new SimpleSpanProcessor(exporter)
+  const producer = implement(routes).$context<BaseORPCContext>()
+
+  return createApp({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: { public: { producer }, permission: { producer } },
+    }),
+    controllers: [PlanetController],
+    plugins: [otelPlugin({ tracerProvider: new BasicTracerProvider({ spanProcessors: [processor] }) })],
+  })
+}
+
+describe('otelPlugin', () => {
+  it('creates a server span and a child procedure span named after the contract path', async () => {
+    const exporter = new InMemorySpanExporter()
+    const app = await createTestApp(exporter)
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/planets/earth'))
+    const body = await response.json()
+
+    const [procedure, server] = exporter.getFinishedSpans()
+    expect(server).toMatchObject({ name: 'GET planet.get', kind: SpanKind.SERVER })
+    expect(server.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'url.path': '/api/planets/earth',
+      'http.response.status_code': 200,
+    })
+    expect(procedure).toMatchObject({ name: 'planet.get', kind: SpanKind.INTERNAL })
+    expect(procedure.attributes).toMatchObject({ 'rpc.method': 'planet.get', 'nova.access.policy': 'public' })
+    expect(procedure.parentSpanContext?.spanId).toBe(server.spanContext().spanId)
+
+    // The request's trace context follows the exported server span
+    expect(body.traceId).toBe(server.spanContext().traceId)
+    expect(parseTraceparent(response.headers.get('traceparent'))?.spanId).toBe(server.spanContext().spanId)
+  })
+
+  it('continues the incoming traceparent', async () => {
+    const exporter = new InMemorySpanExporter()
+    const app = await createTestApp(exporter)
+
+    await app.hono.fetch(
+      new Request('http://localhost/api/planets/earth', {
+        headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+      })
+    )
+
+    const server = exporter.getFinishedSpans().find(span => span.kind === SpanKind.SERVER)!
+    expect(server.spanContext().traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+    expect(server.parentSpanContext).toMatchObject({ spanId: '00f067aa0ba902b7', isRemote: true })
+  })
+
+  it('records error codes, failing the spans only for server errors', async () => {
+    const exporter = new InMemorySpanExporter()
+    const app = await createTestApp(exporter)
+
+    await app.hono.fetch(new Request('http://localhost/api/planets/pluto'))
+    const [notFound, notFoundServer] = exporter.getFinishedSpans()
+    expect(notFound.attributes['nova.error.code']).toBe('NOT_FOUND')
+    expect(notFound.status.code).toBe(SpanStatusCode.UNSET)
+    expect(notFoundServer.attributes['http.response.status_code']).toBe(404)
+
+    exporter.reset()
+    await app.hono.fetch(new Request('http://localhost/api/planets/earth', { method: 'DELETE' }))
+    const [failed, failedServer] = exporter.getFinishedSpans()
+    expect(failed.attributes).toMatchObject({
+      'nova.access.policy': 'permission',
+      'nova.access.permissions': ['planet:delete'],
+      'nova.error.code': 'INTERNAL_SERVER_ERROR',
+    })
+    expect(failed.status).toMatchObject({ code: SpanStatusCode.ERROR, message: 'database unavailable' })
+    expect(failedServer.status.code).toBe(SpanStatusCode.ERROR)
+  })
+
+  it('keeps the procedure span open until a streamed output ends', async () => {
+    const exporter = new InMemorySpanExporter()
+    const app = await createTestApp(exporter)
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/planets/watch'))
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['GET planet.watch'])
+
+    await response.text()
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['GET planet.watch', 'planet.watch'])
+  })
+
+  it('flushes batched spans on shutdown', async () => {
+    const exporter = new InMemorySpanExporter()
+    const app = await createTestApp(exporter, true)
+
+    const response = await app.hono.fetch(new Request('http://localhost/api/planets/earth'))
+    await response.text()
+    expect(exporter.getFinishedSpans()).toHaveLength(0)
+
+    await app.shutdown()
+    expect(exporter.getFinishedSpans()).toHaveLength(2)
+  })
+})
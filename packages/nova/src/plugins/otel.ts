@@ -0,0 +1,293 @@
+import type { Context, Next } from 'hono'
+import type { Context as OtelContext, Span, Tracer, TracerProvider } from '@opentelemetry/api'
+import { ORPCError } from '@orpc/contract'
+import type { PluginFactory } from './types'
+import type { BaseORPCContext } from '../domain/context'
+import type { ProcedureInterceptor } from '../domain/endpoint'
+import { isORPCHonoError } from '../domain/errors'
+import { isEventStream, mapEventStream } from '../domain/stream'
+import { bindTraceSpan, getTraceContext } from '../core/tracing'
+
+type OpenTelemetryApi = typeof import('@opentelemetry/api')
+
+/**
+ * Tracer provider methods used on shutdown, when the SDK provides them
+ */
+interface FlushableTracerProvider extends TracerProvider {
+  forceFlush?: () => Promise<void>
+  shutdown?: () => Promise<void>
+  getDelegate?: () => TracerProvider
+}
+
+/**
+ * OpenTelemetry plugin options
+ */
+export interface OtelPluginOptions {
+  /**
+   * Tracer provider to create spans with
+   * @default the globally registered provider
+   */
+  tracerProvider?: TracerProvider
+
+  /**
+   * Instrumentation scope name of the tracer
+   * @default '@outscope/nova'
+   */
+  tracerName?: string
+
+  /**
+   * Request paths that get no spans, e.g. health checks
+   * @default []
+   */
+  ignorePaths?: string[]
+
+  /**
+   * Shut the tracer provider down after flushing it on app shutdown.
+   * Leave disabled when the provider is shared with other code.
+   * @default false
+   */
+  shutdownProvider?: boolean
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  tracerName: '@outscope/nova',
+}
+
+/**
+ * Create an OpenTelemetry tracing plugin.
+ *
+ * Starts a server span per HTTP request and a child span per procedure,
+ * both named after the contract path (`GET planet.list` and `planet.list`).
+ * Procedure spans carry the access policy, permissions and the error code of
+ * failed calls. Requests rejected by the access policy only get a server span.
+ *
+ * The server span continues the request's incoming `traceparent`, and its IDs
+ * become the request's trace context, so `context.trace`, request logs and
+ * the echoed `traceparent` match the exported spans. Spans are flushed on
+ * `app.shutdown()`.
+ *
+ * Requires the `@opentelemetry/api` package.
+ *
+ * @param options - OpenTelemetry configuration options
+ * @returns A plugin that traces requests and procedures
+ *
+ * @example
+ * ```typescript
+ * const provider = new NodeTracerProvider({
+ *   spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+ * })
+ *
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [
+ *     otelPlugin({ tracerProvider: provider, ignorePaths: ['/health'] }),
+ *   ],
+ * })
+ * ```
+ */
+export const otelPlugin: PluginFactory<OtelPluginOptions, BaseORPCContext> = (options = {}) => {
+  const { tracerName = DEFAULTS.tracerName, ignorePaths = [], shutdownProvider = false } = options
+
+  let api: OpenTelemetryApi
+  let provider: FlushableTracerProvider
+  let tracer: Tracer
+  const serverSpans = new WeakMap<Context, Span>()
+
+  const parentContext = (c: Context): OtelContext => {
+    const trace = getTraceContext(c)
+
+    if (!trace) {
+      return api.propagation.extract(api.ROOT_CONTEXT, c.req.header())
+    }
+
+    if (!trace.parentSpanId) {
+      return api.ROOT_CONTEXT
+    }
+
+    return api.trace.setSpanContext(api.ROOT_CONTEXT, {
+      traceId: trace.traceId,
+      spanId: trace.parentSpanId,
+      traceFlags: trace.sampled ? api.TraceFlags.SAMPLED : api.TraceFlags.NONE,
+      isRemote: true,
+      ...(trace.tracestate ? { traceState: api.createTraceState(trace.tracestate) } : {}),
+    })
+  }
+
+  const serverSpanMiddleware = async (c: Context, next: Next) => {
+    if (ignorePaths.includes(c.req.path)) {
+      return next()
+    }
+
+    const trace = getTraceContext(c)
+    const span = tracer.startSpan(
+      c.req.method,
+      {
+        kind: api.SpanKind.SERVER,
+        attributes: {
+          'http.request.method': c.req.method,
+          'url.path': c.req.path,
+          ...(c.req.header('user-agent') ? { 'user_agent.original': c.req.header('user-agent') } : {}),
+          ...(trace ? { 'nova.request_id': trace.requestId } : {}),
+        },
+      },
+      parentContext(c)
+    )
+    serverSpans.set(c, span)
+
+    const { traceId, spanId, traceFlags } = span.spanContext()
+    bindTraceSpan(c, {
+      traceId,
+      spanId,
+      sampled: (traceFlags & api.TraceFlags.SAMPLED) === api.TraceFlags.SAMPLED,
+    })
+
+    try {
+      await next()
+    } catch (error) {
+      recordError(span, error)
+      throw error
+    } finally {
+      // Hono's error handler has already produced the response for thrown errors
+      if (c.error) {
+        span.recordException(c.error)
+      }
+
+      const status = c.res.status
+      span.setAttribute('http.response.status_code', status)
+      if (status >= 500) {
+        span.setStatus({ code: api.SpanStatusCode.ERROR })
+      }
+
+      span.end()
+    }
+  }
+
+  const recordError = (span: Span, error: unknown) => {
+    span.recordException(error instanceof Error ? error : String(error))
+    span.setStatus({
+      code: api.SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : undefined,
+    })
+  }
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, context }, next) => {
+    const name = endpoint.path.join('.')
+    const server = serverSpans.get(context.honoContext)
+    server?.updateName(`${context.honoContext.req.method} ${name}`)
+
+    const parent = server ? api.trace.setSpan(api.context.active(), server) : api.context.active()
+    const span = tracer.startSpan(
+      name,
+      {
+        kind: api.SpanKind.INTERNAL,
+        attributes: {
+          'rpc.system': 'orpc',
+          'rpc.method': name,
+          'nova.access.policy': endpoint.access.policy,
+          ...(endpoint.access.permissions ? { 'nova.access.permissions': endpoint.access.permissions } : {}),
+        },
+      },
+      parent
+    )
+
+    const fail = (error: unknown) => {
+      const { code, status } = describeError(error)
+      span.setAttribute('nova.error.code', code)
+      server?.setAttribute('nova.error.code', code)
+
+      // Client errors are expected outcomes, only server errors fail the span
+      if (status >= 500) {
+        recordError(span, error)
+      }
+    }
+
+    const end = () => {
+      if (context.authorization) {
+        span.setAttribute('nova.authorization.allowed', context.authorization.allowed)
+        if (context.authorization.rule) {
+          span.setAttribute('nova.authorization.rule', context.authorization.rule)
+        }
+      }
+
+      span.end()
+    }
+
+    let streaming = false
+    try {
+      const result = await api.context.with(api.trace.setSpan(parent, span), () => next())
+
+      // Streamed outputs keep the span open until the stream ends or the client disconnects
+      if (isEventStream(result)) {
+        streaming = true
+        return mapEventStream(result, {
+          finally: (error) => {
+            if (error !== undefined) {
+              fail(error)
+            }
+            end()
+          },
+        })
+      }
+
+      return result
+    } catch (error) {
+      fail(error)
+      throw error
+    } finally {
+      if (!streaming) {
+        end()
+      }
+    }
+  }
+
+  return {
+    name: 'otel',
+
+    onInit: async ({ app }) => {
+      api = await loadOpenTelemetry()
+      provider = options.tracerProvider ?? api.trace.getTracerProvider()
+      tracer = provider.getTracer(tracerName)
+
+      app.use('*', serverSpanMiddleware)
+    },
+
+    procedureInterceptor,
+
+    onShutdown: async () => {
+      // The global provider is a proxy around the SDK's provider
+      const target = (provider.getDelegate?.() ?? provider) as FlushableTracerProvider
+
+      await target.forceFlush?.()
+      if (shutdownProvider) {
+        await target.shutdown?.()
+      }
+    },
+  }
+}
+
+/**
+ * Load the OpenTelemetry API, which is an optional peer dependency
+ */
+async function loadOpenTelemetry(): Promise<OpenTelemetryApi> {
+  try {
+    return await import('@opentelemetry/api')
+  } catch {
+    throw new Error('otelPlugin requires @opentelemetry/api. Install it with: npm install @opentelemetry/api')
+  }
+}
+
+/**
+ * Error code and HTTP status of a thrown error
+ */
+function describeError(error: unknown): { code: string; status: number } {
+  if (error instanceof ORPCError || isORPCHonoError(error)) {
+    return { code: error.code, status: error.status }
+  }
+
+  return { code: 'INTERNAL_SERVER_ERROR', status: 500 }
+}
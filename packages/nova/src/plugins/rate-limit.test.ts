@@ -0,0 +1,114 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { rateLimitPlugin } from './rate-limit'
+import { applyRateLimit, type RateLimitState } from '../domain/rate-limit'
+import { defineAccess } from '../domain/access'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Public, RateLimit } from '../infrastructure/decorators'
+import type { AuthenticatedContext } from '../domain/context'
+
+const routes = {
+  ping: oc.route({ method: 'GET', path: '/ping' }).output(z.object({ ok: z.boolean() })),
+  login: oc.route({ method: 'POST', path: '/login' }).output(z.object({ ok: z.boolean() })),
+  health: oc.route({ method: 'GET', path: '/health' }).output(z.object({ ok: z.boolean() })),
+}
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: implement(routes).$context<AuthenticatedContext>() },
+  },
+})
+
+@Controller()
+class TestController {
+  @Public()
+  @Handle(routes.ping)
+  ping() {
+    return { ok: true }
+  }
+
+  @RateLimit({ limit: 1, windowMs: 60_000, key: 'user' })
+  @Public()
+  @Handle(routes.login)
+  login() {
+    return { ok: true }
+  }
+
+  @RateLimit(false)
+  @Public()
+  @Handle(routes.health)
+  health() {
+    return { ok: true }
+  }
+}
+
+async function createTestApp() {
+  return createApp<AuthenticatedContext>({
+    routes,
+    access,
+    controllers: [TestController],
+    createContext: ({ honoContext }) => ({
+      honoContext,
+      auth: { userId: honoContext.req.header('x-user') ?? 'anonymous' },
+    }),
+    plugins: [rateLimitPlugin({ limit: 2, windowMs: 60_000 })],
+  })
+}
+
+describe('rateLimitPlugin', () => {
+  it('applies the default limit and rejects with 429 and Retry-After', async () => {
+    const app = await createTestApp()
+    const ping = () => app.fetch(new Request('http://localhost/api/ping'))
+
+    const first = await ping()
+    expect(first.status).toBe(200)
+    expect(first.headers.get('RateLimit-Limit')).toBe('2')
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1')
+    expect(first.headers.get('RateLimit-Policy')).toBe('2;w=60')
+
+    expect((await ping()).status).toBe(200)
+
+    const rejected = await ping()
+    expect(rejected.status).toBe(429)
+    expect(rejected.headers.get('Retry-After')).toBe('60')
+    expect(await rejected.json()).toMatchObject({ code: 'TOO_MANY_REQUESTS' })
+  })
+
+  it('uses endpoint rules keyed by user and honors opt-outs', async () => {
+    const app = await createTestApp()
+    const login = (user: string) =>
+      app.fetch(new Request('http://localhost/api/login', { method: 'POST', headers: { 'x-user': user } }))
+
+    expect((await login('ada')).status).toBe(200)
+    expect((await login('ada')).status).toBe(429)
+    expect((await login('grace')).status).toBe(200)
+
+    for (let i = 0; i < 3; i++) {
+      const response = await app.fetch(new Request('http://localhost/api/health'))
+      expect(response.status).toBe(200)
+      expect(response.headers.get('RateLimit-Limit')).toBeNull()
+    }
+  })
+})
+
+describe('applyRateLimit', () => {
+  it('refills token buckets over the window', () => {
+    const rule = { limit: 2, windowMs: 1000, algorithm: 'token-bucket' as const }
+    let state: RateLimitState | undefined
+
+    const take = (now: number) => {
+      const next = applyRateLimit(state, rule, now)
+      state = next.state
+      return next.result
+    }
+
+    expect(take(0)).toMatchObject({ allowed: true, remaining: 1 })
+    expect(take(0)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(take(0)).toMatchObject({ allowed: false, retryAfterMs: 500 })
+    expect(take(500)).toMatchObject({ allowed: true, remaining: 0 })
+  })
+})
@@ -0,0 +1,192 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { eventIterator, oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { transactionPlugin } from './transaction'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import type { TransactionalContext, TransactionPolicy } from '../domain/transaction'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Public, Timeout, Transactional } from '../infrastructure/decorators'
+import type { PrismaTransactionClientLike } from '../utils/prisma'
+
+const routes = {
+  transfer: {
+    create: oc
+      .route({ method: 'POST', path: '/transfers' })
+      .input(z.object({ amount: z.number() }))
+      .output(z.object({ ok: z.boolean() })),
+    preview: oc.route({ method: 'POST', path: '/transfers/preview' }).output(z.object({ inTransaction: z.boolean() })),
+    slow: oc.route({ method: 'POST', path: '/transfers/slow' }).output(z.object({ ok: z.boolean() })),
+  },
+}
+
+interface FakeTransactionClient {
+  write(entry: string): void
+}
+
+/**
+ * Fake Prisma client: writes made through a transaction client only reach
+ * `committed` when the transaction callback resolves
+ */
+function createFakePrisma() {
+  const committed: string[] = []
+  const options: TransactionPolicy[] = []
+
+  const prisma: PrismaTransactionClientLike<FakeTransactionClient> = {
+    async $transaction(fn, transactionOptions = {}) {
+      options.push(transactionOptions)
+      const pending: string[] = []
+      const result = await fn({ write: (entry) => pending.push(entry) })
+      committed.push(...pending)
+      return result
+    },
+  }
+
+  return { prisma, committed, options }
+}
+
+@Controller()
+class TransferController {
+  @Transactional({ isolationLevel: 'Serializable' })
+  @Public()
+  @Handle(routes.transfer.create)
+  create(input: { amount: number }, context: TransactionalContext<FakeTransactionClient>) {
+    context.tx.write(`debit ${input.amount}`)
+    if (input.amount > 100) {
+      throw new Error('Insufficient funds')
+    }
+    context.tx.write(`credit ${input.amount}`)
+    return { ok: true }
+  }
+
+  @Transactional()
+  @Timeout(20)
+  @Public()
+  @Handle(routes.transfer.slow)
+  async slow(_input: unknown, context: TransactionalContext<FakeTransactionClient>) {
+    context.tx.write('debit 10')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    context.tx.write('credit 10')
+    return { ok: true }
+  }
+
+  @Public()
+  @Handle(routes.transfer.preview)
+  preview(_input: unknown, context: BaseORPCContext & { tx?: unknown }) {
+    return { inTransaction: context.tx !== undefined }
+  }
+}
+
+async function createTestApp(prisma: PrismaTransactionClientLike) {
+  return createApp({
+    routes,
+    access: defineAccess({
+      default: 'public',
+      policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+    }),
+    controllers: [TransferController],
+    plugins: [transactionPlugin({ prisma, timeout: 10_000, isolationLevel: 'ReadCommitted' })],
+  })
+}
+
+function post(app: { fetch: (request: Request) => Promise<Response> }, path: string, body: unknown = {}) {
+  return app.fetch(
+    new Request(`http://localhost/api${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  )
+}
+
+describe('transactionPlugin', () => {
+  it('commits the writes of a transactional endpoint that succeeds', async () => {
+    const { prisma, committed, options } = createFakePrisma()
+    const app = await createTestApp(prisma)
+
+    const response = await post(app, '/transfers', { amount: 40 })
+
+    expect(await response.json()).toEqual({ ok: true })
+    expect(committed).toEqual(['debit 40', 'credit 40'])
+    expect(options).toEqual([{ timeout: 10_000, isolationLevel: 'Serializable' }])
+  })
+
+  it('rolls back the writes of a transactional endpoint that throws', async () => {
+    const { prisma, committed } = createFakePrisma()
+    const app = await createTestApp(prisma)
+
+    const response = await post(app, '/transfers', { amount: 500 })
+
+    expect(response.status).toBe(500)
+    expect(committed).toEqual([])
+  })
+
+  it('rolls back when the call times out, even if the handler ignores the signal', async () => {
+    const { prisma, committed } = createFakePrisma()
+    const app = await createTestApp(prisma)
+
+    const response = await post(app, '/transfers/slow')
+    await new Promise((resolve) => setTimeout(resolve, 150))
+
+    expect(response.status).toBe(504)
+    expect(committed).toEqual([])
+  })
+
+  it('rejects transactional endpoints with a streamed output', async () => {
+    const streamRoutes = {
+      feed: oc.route({ method: 'GET', path: '/feed' }).output(eventIterator(z.object({ n: z.number() }))),
+    }
+
+    @Controller()
+    class FeedController {
+      @Transactional()
+      @Public()
+      @Handle(streamRoutes.feed)
+      async *feed() {
+        yield { n: 1 }
+      }
+    }
+
+    await expect(
+      createApp({
+        routes: streamRoutes,
+        access: defineAccess({
+          default: 'public',
+          policies: { public: { producer: implement(streamRoutes).$context<BaseORPCContext>() } },
+        }),
+        controllers: [FeedController],
+        plugins: [transactionPlugin({ prisma: createFakePrisma().prisma })],
+      })
+    ).rejects.toThrow('Invalid options on FeedController.feed: streamed outputs cannot run in a transaction')
+  })
+
+  it('leaves other endpoints outside transactions', async () => {
+    const { prisma, options } = createFakePrisma()
+    const app = await createTestApp(prisma)
+
+    const response = await post(app, '/transfers/preview')
+
+    expect(await response.json()).toEqual({ inTransaction: false })
+    expect(options).toEqual([])
+  })
+
+  it('reports transactional endpoints when the plugin is not installed', async () => {
+    const app = createApp({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: { public: { producer: implement(routes).$context<BaseORPCContext>() } },
+      }),
+      controllers: [TransferController],
+      validation: 'strict',
+    })
+
+    await expect(app).rejects.toThrow(
+      'App validation found 2 issues:\n' +
+        '  - TransferController.create is transactional, but transactionPlugin is not installed\n' +
+        '  - TransferController.slow is transactional, but transactionPlugin is not installed'
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import type { PluginFactory } from './types'
+import type { BaseORPCContext } from '../domain/context'
+import type { ProcedureInterceptor } from '../domain/endpoint'
+import type { TransactionalContext, TransactionPolicy } from '../domain/transaction'
+import type { PrismaTransactionClientLike } from '../utils/prisma'
+
+/**
+ * Transaction plugin options; the policy fields are defaults for every
+ * transactional endpoint
+ */
+export interface TransactionPluginOptions extends TransactionPolicy {
+  /**
+   * Client opening the transactions, usually your PrismaClient
+   */
+  prisma: PrismaTransactionClientLike
+}
+
+/**
+ * Create a plugin running transactional endpoints in a Prisma transaction.
+ *
+ * Endpoints opt in with `@Transactional()`. Their handler runs inside an
+ * interactive transaction, with the transaction client as `context.tx`.
+ * The transaction is committed when the handler returns and rolled back
+ * when it throws, so the writes of every repository given `context.tx`
+ * succeed or fail together. Access policy middlewares run before the
+ * transaction is opened. When `context.signal` aborts (a timeout or a
+ * client disconnect), the transaction is rolled back even if the handler
+ * ignores the signal. Endpoints with a streamed output cannot be
+ * transactional.
+ *
+ * @param options - Client and default transaction options
+ * @returns A plugin that wraps transactional endpoints in a transaction
+ *
+ * @example
+ * ```typescript
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [transactionPlugin({ prisma, timeout: 10_000 })],
+ * })
+ *
+ * // Per endpoint
+ * @Transactional({ isolationLevel: 'Serializable' })
+ * @Auth()
+ * @Handle(routes.order.create)
+ * create(input: CreateOrderInput, context: TransactionalContext<Prisma.TransactionClient>) {
+ *   return this.orders.create(context.tx, input)
+ * }
+ * ```
+ */
+export const transactionPlugin: PluginFactory<TransactionPluginOptions, BaseORPCContext> = (options) => {
+  const { prisma, ...defaults } = options
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, context }, next) => {
+    const policy = endpoint.options.transactional
+    if (!policy) {
+      return next()
+    }
+
+    return prisma.$transaction(
+      (tx) => {
+        const transactional: TransactionalContext = { ...context, tx }
+        return rejectOnAbort(next({ context: transactional }), context.signal)
+      },
+      { ...defaults, ...policy }
+    )
+  }
+
+  return {
+    name: 'transaction',
+    procedureInterceptor,
+  }
+}
+
+/**
+ * Reject with the abort reason once the signal aborts, so the transaction
+ * callback fails and Prisma rolls back instead of committing late writes
+ */
+function rejectOnAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason)
+    if (signal.aborted) {
+      abort()
+      return
+    }
+    signal.addEventListener('abort', abort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+  })
+}
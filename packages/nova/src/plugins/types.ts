@@ -1,8 +1,19 @@
 import type { Hono, Context } from 'hono'
 import type { AnyContractRouter } from '@orpc/contract'
 import type { BaseORPCContext, ContextFactory } from '../domain/context'
-import type { ControllerClass } from '../application/controller-loader'
+import type { ControllerClass, DependencyContainer } from '../application/controller-loader'
 import type { AccessConfig } from '../domain/access'
+import type { ServerLifecycle, ShutdownOptions } from '../core/server-lifecycle'
+import type { TenancyOptions } from '../core/tenancy'
+import type { TracingOptions } from '../core/tracing'
+import type { WebSocketOptions } from '../core/websocket'
+import type { HotReloadOptions } from '../core/hot-reload'
+import type { DeprecationOptions } from '../core/versioning'
+import type { ValidationMode } from '../domain/app-validation'
+import type { ProcedureInterceptor } from '../domain/endpoint'
+import type { HealthCheckInput } from '../domain/health'
+import type { StreamingOptions } from '../domain/stream'
+import type { RouteDescription } from '../domain/route-table'
 
 /**
  * Plugin system types for @outscope/nova
@@ -11,11 +22,14 @@ import type { AccessConfig } from '../domain/access'
 /**
  * Configuration passed to createApp
  */
-export interface AppConfig<TContext extends BaseORPCContext = BaseORPCContext> {
+export interface AppConfig<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter
+> {
   /**
    * Root route router defining the API structure
    */
-  routes: AnyContractRouter
+  routes: TRoutes
 
   /**
    * Controllers to register.
@@ -62,6 +76,115 @@ export interface AppConfig<TContext extends BaseORPCContext = BaseORPCContext> {
    * Global Hono middleware interceptors
    */
   interceptors?: ((c: Context, next: () => Promise<void>) => Promise<void>)[]
+
+  /**
+   * Dependency container used to instantiate controller classes.
+   * Also used by `registerController()` when given a class.
+   * @default controllers are created with `new Controller()`
+   */
+  container?: DependencyContainer
+
+  /**
+   * Graceful shutdown behaviour of the server started by listen()/serve()
+   */
+  shutdown?: ShutdownOptions
+
+  /**
+   * Request ID and trace context propagation; `false` disables it
+   * @default {}
+   */
+  tracing?: TracingOptions | false
+
+  /**
+   * Heartbeats of streamed procedure outputs (SSE and oRPC event streams)
+   */
+  streaming?: StreamingOptions
+
+  /**
+   * Serve the RPC router over WebSocket on the server started by
+   * listen()/serve(); `true` uses the default options
+   * @default false
+   */
+  websocket?: WebSocketOptions | boolean
+
+  /**
+   * Default procedure timeout in milliseconds; endpoints override it with
+   * @Timeout(). Timed out calls abort `context.signal` and get 504.
+   */
+  timeout?: number
+
+  /**
+   * Watch the `controllers` glob and swap changed controllers into the
+   * running server; `true` uses the default options. For development only.
+   * @default false
+   */
+  hotReload?: HotReloadOptions | boolean
+
+  /**
+   * Check the controllers against `routes` and `access` at startup:
+   * unimplemented and duplicate procedures, handlers of procedures missing
+   * from `routes`, conflicting REST routes and unknown access policies.
+   * `strict` throws an AppValidationError listing every issue, `warn`
+   * logs it, `false` skips the check.
+   * @default 'warn'
+   */
+  validation?: ValidationMode | false
+
+  /**
+   * Additional API versions, keyed by name (e.g. 'v1'), served next to
+   * the main one with their own routes, controllers and prefixes
+   */
+  versions?: Record<string, ApiVersionConfig>
+
+  /**
+   * Resolve the tenant of each request (from the subdomain, a header, a
+   * path segment or a JWT claim), check it against a tenant store and
+   * expose it as `context.tenant`. Require it with tenantPolicy().
+   */
+  tenancy?: TenancyOptions
+}
+
+/**
+ * An API version served next to the main one
+ */
+export interface ApiVersionConfig {
+  /**
+   * Route router of the version
+   */
+  routes: AnyContractRouter
+
+  /**
+   * Controllers of the version, as a glob pattern or an array of classes.
+   * They are not hot reloaded.
+   */
+  controllers: string | ControllerClass[]
+
+  /**
+   * URL prefix for the OpenAPI/REST endpoints of the version, e.g. '/v1'.
+   * The main API does not serve requests under the prefixes of a version,
+   * so they may be inside its prefixes.
+   */
+  apiPrefix: string
+
+  /**
+   * URL prefix for the RPC endpoints of the version
+   * @default `${rpcPrefix}/${name}`
+   */
+  rpcPrefix?: string
+
+  /**
+   * Access policy registry of the version
+   * @default the app's `access`
+   */
+  access?: AccessConfig
+
+  /**
+   * Announce that the version will be retired: responses carry
+   * `Deprecation`, `Sunset` and `Link` headers, requests are logged and
+   * its OpenAPI operations are marked deprecated
+   * @default false
+   */
+  deprecated?: DeprecationOptions | boolean
 }
 
 /**
@@ -76,6 +199,8 @@ export interface PluginContext<TContext extends BaseORPCContext = BaseORPCContex
   router: AnyContractRouter
   /** The original app configuration */
   config: AppConfig<TContext>
+  /** Request draining and shutdown state of the app */
+  lifecycle: ServerLifecycle
 }
 
 /**
@@ -99,6 +224,19 @@ export interface Plugin<TContext extends BaseORPCContext = BaseORPCContext> {
    */
   middleware?: (c: Context, next: () => Promise<void>) => Promise<void | Response>
 
+  /**
+   * Wraps every handler invocation, after access policy middlewares.
+   * Receives the endpoint descriptor (path, route, access, endpoint options).
+   * Interceptors run in plugin registration order, outermost first.
+   */
+  procedureInterceptor?: ProcedureInterceptor<TContext>
+
+  /**
+   * Named health checks contributed by the plugin, run by healthPlugin.
+   * Use them for dependencies the plugin owns, e.g. a cache connection.
+   */
+  healthChecks?: Record<string, HealthCheckInput>
+
   /**
    * Called after all controllers are registered.
    * Use this to add additional routes like documentation.
@@ -111,7 +249,8 @@ export interface Plugin<TContext extends BaseORPCContext = BaseORPCContext> {
   onStart?: (info: { port: number }) => void
 
   /**
-   * Called on graceful shutdown.
+   * Called on graceful shutdown, after in-flight requests have drained.
+   * Plugins are shut down in reverse registration order.
    */
   onShutdown?: () => void | Promise<void>
 }
@@ -136,7 +275,10 @@ export interface ServerInfo {
 /**
  * Application wrapper returned by createApp
  */
-export interface OutscopeApp<TContext extends BaseORPCContext = BaseORPCContext> {
+export interface OutscopeApp<
+  TContext extends BaseORPCContext = BaseORPCContext,
+  TRoutes extends AnyContractRouter = AnyContractRouter
+> {
   /**
    * The underlying Hono application instance
    */
@@ -150,7 +292,12 @@ export interface OutscopeApp<TContext extends BaseORPCContext = BaseORPCContext>
   /**
    * The routes used to create the application
    */
-  routes: AnyContractRouter
+  routes: TRoutes
+
+  /**
+   * URL prefix the RPC handler is mounted on
+   */
+  rpcPrefix: string
 
   /**
    * The registered plugins
@@ -180,19 +327,30 @@ export interface OutscopeApp<TContext extends BaseORPCContext = BaseORPCContext>
 
   /**
    * Get the generated OpenAPI specification
+   * @param version - Name of an additional API version; the main API by default
+   */
+  getOpenAPISpec(version?: string): Promise<object>
+
+  /**
+   * Describe every mounted procedure: its URLs, access policy, implementing
+   * controller method and middleware chain. Procedures of additional API
+   * versions follow the main ones.
    */
-  getOpenAPISpec(): Promise<object>
+  describeRoutes(): RouteDescription[]
 
   /**
    * Programmatically register a controller (useful for testing)
-   * @param controller - Controller instance to register
+   * @param controller - Controller instance, or class resolved through `config.container`
    */
   registerController(controller: unknown): Promise<void>
 
   /**
-   * Gracefully shutdown the application
+   * Gracefully shutdown the application.
+   * Stops accepting connections, waits for in-flight requests (up to the
+   * configured timeout), then runs plugin `onShutdown` hooks in reverse order.
+   * @param options - Overrides `config.shutdown.timeout` for this call
    */
-  shutdown(): Promise<void>
+  shutdown(options?: { timeout?: number }): Promise<void>
 }
 
 /**
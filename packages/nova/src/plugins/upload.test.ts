@@ -0,0 +1,217 @@
+import 'reflect-metadata'
+import { afterEach, describe, expect, it } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { uploadPlugin, type UploadPluginOptions } from './upload'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { InvalidStorageKeyError, matchesMimeType } from '../domain/upload'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Public, Upload } from '../infrastructure/decorators'
+import { LocalDiskStorage, MemoryStorage } from '../infrastructure/upload-storage'
+
+const stored = z.object({ key: z.string(), size: z.number(), type: z.string().optional() })
+
+const routes = {
+  document: oc
+    .route({ method: 'POST', path: '/documents' })
+    .input(z.object({ title: z.string(), attachments: z.array(z.file()) }))
+    .output(z.array(stored)),
+  avatar: oc
+    .route({ method: 'POST', path: '/avatar' })
+    .input(z.object({ avatar: z.file() }))
+    .output(stored),
+  import: oc
+    .route({ method: 'POST', path: '/import' })
+    .input(z.object({ archive: z.file() }))
+    .output(z.object({ size: z.number() })),
+}
+
+const storage = new MemoryStorage()
+
+@Controller()
+class UploadController {
+  @Public()
+  @Handle(routes.document)
+  document(input: { title: string; attachments: File[] }) {
+    return Promise.all(
+      input.attachments.map((file, index) => storage.put(`${input.title}/${index}`, file))
+    )
+  }
+
+  @Upload({ maxFileSize: 8, accept: ['image/*'] })
+  @Public()
+  @Handle(routes.avatar)
+  avatar(input: { avatar: File }) {
+    return storage.put('avatar', input.avatar)
+  }
+
+  @Upload(false)
+  @Public()
+  @Handle(routes.import)
+  import(input: { archive: File }) {
+    return { size: input.archive.size }
+  }
+}
+
+async function createTestApp(options?: UploadPluginOptions) {
+  const producer = implement(routes).$context<BaseORPCContext>()
+
+  return createApp({
+    routes,
+    access: defineAccess({ default: 'public', policies: { public: { producer } } }),
+    controllers: [UploadController],
+    plugins: [uploadPlugin(options)],
+  })
+}
+
+function upload(path: string, fields: Record<string, string | File | File[]>) {
+  const body = new FormData()
+  for (const [name, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => body.append(`${name}[]`, item))
+    } else {
+      body.append(name, value)
+    }
+  }
+  return new Request(`http://localhost/api${path}`, { method: 'POST', body })
+}
+
+const file = (content: string, type = 'text/plain', name = 'file.txt') =>
+  new File([content], name, { type })
+
+describe('uploadPlugin', () => {
+  it('maps multipart file parts onto File fields of the input', async () => {
+    const app = await createTestApp()
+
+    const response = await app.fetch(
+      upload('/documents', { title: 'report', attachments: [file('hello'), file('world!')] })
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual([
+      { key: 'report/0', size: 5, type: 'text/plain' },
+      { key: 'report/1', size: 6, type: 'text/plain' },
+    ])
+    const object = await storage.get('report/1')
+    expect(await new Response(object!.body).text()).toBe('world!')
+  })
+
+  it('rejects files larger than the default limit with 413', async () => {
+    const app = await createTestApp({ maxFileSize: 4 })
+
+    const response = await app.fetch(upload('/documents', { title: 'report', attachments: [file('hello')] }))
+
+    expect(response.status).toBe(413)
+    expect(await response.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' })
+  })
+
+  it('enforces the total size of all files of a request', async () => {
+    const app = await createTestApp({ maxTotalSize: 8 })
+
+    const response = await app.fetch(
+      upload('/documents', { title: 'report', attachments: [file('hello'), file('world')] })
+    )
+
+    expect(response.status).toBe(413)
+  })
+
+  it('applies the limits and accepted types declared on the endpoint', async () => {
+    const app = await createTestApp()
+
+    const accepted = await app.fetch(upload('/avatar', { avatar: file('png', 'image/png', 'a.png') }))
+    const wrongType = await app.fetch(upload('/avatar', { avatar: file('text') }))
+    const tooLarge = await app.fetch(upload('/avatar', { avatar: file('large image', 'image/png', 'a.png') }))
+
+    expect(accepted.status).toBe(200)
+    expect(wrongType.status).toBe(415)
+    expect(await wrongType.json()).toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' })
+    expect(tooLarge.status).toBe(413)
+  })
+
+  it('exempts endpoints declared with @Upload(false)', async () => {
+    const app = await createTestApp({ maxFileSize: 1 })
+
+    const response = await app.fetch(upload('/import', { archive: file('archive') }))
+
+    expect(await response.json()).toEqual({ size: 7 })
+  })
+
+  it('rejects request bodies above maxRequestSize by their Content-Length', async () => {
+    const app = await createTestApp({ maxRequestSize: 64 })
+    const request = upload('/import', { archive: file('x'.repeat(128)) })
+    const body = await request.arrayBuffer()
+
+    const response = await app.fetch(
+      new Request(request.url, {
+        method: 'POST',
+        headers: { 'content-type': request.headers.get('content-type')!, 'content-length': String(body.byteLength) },
+        body,
+      })
+    )
+
+    expect(response.status).toBe(413)
+    expect(await response.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' })
+  })
+
+  it('rejects streamed request bodies once they exceed maxRequestSize', async () => {
+    const app = await createTestApp({ maxRequestSize: 64 })
+
+    const response = await app.fetch(upload('/import', { archive: file('x'.repeat(128)) }))
+
+    expect(response.status).toBe(413)
+    expect(await response.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' })
+  })
+})
+
+describe('matchesMimeType', () => {
+  it('matches exact types, wildcards and ignores parameters', () => {
+    expect(matchesMimeType('image/png', ['image/*'])).toBe(true)
+    expect(matchesMimeType('text/plain; charset=utf-8', ['text/plain'])).toBe(true)
+    expect(matchesMimeType('application/pdf', ['*/*'])).toBe(true)
+    expect(matchesMimeType('text/html', ['image/*', 'application/pdf'])).toBe(false)
+    expect(matchesMimeType('', ['image/*'])).toBe(false)
+  })
+})
+
+describe('LocalDiskStorage', () => {
+  let directory: string | undefined
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true })
+      directory = undefined
+    }
+  })
+
+  it('streams files to and from the directory', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'nova-upload-'))
+    const disk = new LocalDiskStorage({ directory })
+
+    await expect(disk.put('avatars/earth.png', file('pixels', 'image/png'))).resolves.toEqual({
+      key: 'avatars/earth.png',
+      size: 6,
+      type: 'image/png',
+    })
+    expect(await readFile(join(directory, 'avatars/earth.png'), 'utf8')).toBe('pixels')
+
+    const object = await disk.get('avatars/earth.png')
+    expect(object?.size).toBe(6)
+    expect(await new Response(object!.body).text()).toBe('pixels')
+
+    await disk.delete('avatars/earth.png')
+    await expect(disk.get('avatars/earth.png')).resolves.toBeUndefined()
+  })
+
+  it('rejects keys escaping the directory', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'nova-upload-'))
+    const disk = new LocalDiskStorage({ directory })
+
+    await expect(disk.put('../outside', file('x'))).rejects.toBeInstanceOf(InvalidStorageKeyError)
+    await expect(disk.get('')).rejects.toBeInstanceOf(InvalidStorageKeyError)
+  })
+})
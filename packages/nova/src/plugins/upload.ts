@@ -0,0 +1,143 @@
+import type { Context, Next } from 'hono'
+import type { PluginFactory } from './types'
+import type { BaseORPCContext } from '../domain/context'
+import type { EndpointDescriptor, ProcedureInterceptor } from '../domain/endpoint'
+import {
+  FileTooLargeError,
+  collectFiles,
+  enforceUploadLimits,
+  type UploadLimits,
+} from '../domain/upload'
+
+/**
+ * Upload plugin options
+ */
+export interface UploadPluginOptions extends UploadLimits {
+  /**
+   * Default maximum size of a single file in bytes
+   * @default 10485760 (10 MiB)
+   */
+  maxFileSize?: number
+
+  /**
+   * Maximum size of any request body in bytes, enforced while the body is
+   * read so oversized uploads are rejected before being buffered.
+   * Endpoint limits cannot exceed it.
+   */
+  maxRequestSize?: number
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULTS = {
+  maxFileSize: 10 * 1024 * 1024,
+}
+
+/**
+ * Create a file upload plugin.
+ *
+ * Files of multipart/form-data requests arrive on the zod `File`/`Blob`
+ * fields of the contract input. The plugin checks them against the endpoint's
+ * limits (declared with `@Upload()`) or the plugin defaults, after the access
+ * policy has run. Oversized files are rejected with 413 and files of other
+ * types with 415.
+ *
+ * @param options - Default limits and the request size ceiling
+ * @returns A plugin that enforces upload limits
+ *
+ * @example
+ * ```typescript
+ * const app = await createApp({
+ *   routes,
+ *   access,
+ *   controllers: [...],
+ *   plugins: [
+ *     uploadPlugin({ maxFileSize: 5 * 1024 * 1024, maxRequestSize: 20 * 1024 * 1024 }),
+ *   ],
+ * })
+ *
+ * // Per endpoint
+ * @Upload({ maxFileSize: 2 * 1024 * 1024, accept: ['image/*'] })
+ * @Auth()
+ * @Handle(routes.avatar.upload)
+ * async upload(input: { avatar: File }) {
+ *   return storage.put(`avatars/${crypto.randomUUID()}`, input.avatar)
+ * }
+ * ```
+ */
+export const uploadPlugin: PluginFactory<UploadPluginOptions, BaseORPCContext> = (
+  options = {}
+) => {
+  const { maxFileSize = DEFAULTS.maxFileSize, maxTotalSize, accept, maxRequestSize } = options
+  const defaults: UploadLimits = { maxFileSize, maxTotalSize, accept }
+
+  const resolveLimits = (endpoint: EndpointDescriptor): UploadLimits | undefined => {
+    const declared = endpoint.options.upload
+    if (declared === false) {
+      return undefined
+    }
+    return declared ? { ...defaults, ...declared } : defaults
+  }
+
+  const procedureInterceptor: ProcedureInterceptor = async ({ endpoint, input }, next) => {
+    const limits = resolveLimits(endpoint)
+    if (limits) {
+      enforceUploadLimits(collectFiles(input), limits)
+    }
+    return next()
+  }
+
+  const middleware =
+    maxRequestSize !== undefined ? limitRequestSize(maxRequestSize) : undefined
+
+  return {
+    name: 'upload',
+    middleware,
+    procedureInterceptor,
+  }
+}
+
+/**
+ * Reject request bodies above a size, whether or not Content-Length is sent.
+ * Bodies without Content-Length are counted while they are read.
+ */
+function limitRequestSize(maxSize: number) {
+  const reject = (c: Context) =>
+    c.json(new FileTooLargeError(`Request body exceeds ${maxSize} bytes`, maxSize).toJSON(), 413)
+
+  return async (c: Context, next: Next): Promise<void | Response> => {
+    const length = c.req.header('content-length')
+    if (length !== undefined) {
+      return Number(length) > maxSize ? reject(c) : next()
+    }
+
+    if (!c.req.raw.body) {
+      return next()
+    }
+
+    let size = 0
+    let exceeded = false
+    const body = c.req.raw.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          size += chunk.byteLength
+          if (size > maxSize) {
+            exceeded = true
+            controller.error(new FileTooLargeError(`Request body exceeds ${maxSize} bytes`, maxSize))
+            return
+          }
+          controller.enqueue(chunk)
+        },
+      })
+    )
+    c.req.raw = new Request(c.req.raw, { body, duplex: 'half' } as RequestInit)
+
+    await next()
+
+    // The handler saw a failed read; answer with the limit instead
+    if (exceeded) {
+      c.res = reject(c)
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { authPolicy } from './auth'
+import { defineAccess } from '../domain/access'
+import type { AuthenticatedContext, BaseORPCContext } from '../domain/context'
+import { createApp } from '../core/create-app'
+import { Auth, Controller, Handle } from '../infrastructure/decorators'
+import { verifyJwt, type JsonWebKeySet } from '../utils/jwt'
+
+const encoder = new TextEncoder()
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+async function sign(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  key: CryptoKey,
+  algorithm: AlgorithmIdentifier | EcdsaParams
+): Promise<string> {
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`
+  const signature = await crypto.subtle.sign(algorithm, key, encoder.encode(signingInput))
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`
+}
+
+const secret = 'test-secret'
+const now = () => Math.floor(Date.now() / 1000)
+
+async function signHS256(payload: Record<string, unknown>): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return sign({ alg: 'HS256', typ: 'JWT' }, payload, key, 'HMAC')
+}
+
+const routes = {
+  me: oc.route({ method: 'GET', path: '/me' }).output(z.object({ userId: z.string() })),
+}
+
+const publicProducer = implement(routes).$context<BaseORPCContext>()
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: publicProducer },
+    auth: authPolicy({
+      producer: publicProducer,
+      jwt: { secret, issuer: 'https://auth.example.com', audience: 'api' },
+    }),
+  },
+})
+
+@Controller()
+class MeController {
+  @Auth()
+  @Handle(routes.me)
+  me(_input: unknown, context: AuthenticatedContext) {
+    return { userId: context.auth.userId }
+  }
+}
+
+async function callMe(token?: string) {
+  const app = await createApp({ routes, access, controllers: [MeController] })
+  return app.fetch(
+    new Request('http://localhost/api/me', {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    })
+  )
+}
+
+describe('authPolicy', () => {
+  it('populates context.auth from a valid JWT', async () => {
+    const token = await signHS256({
+      sub: 'user_1',
+      iss: 'https://auth.example.com',
+      aud: ['api'],
+      exp: now() + 60,
+    })
+
+    const response = await callMe(token)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ userId: 'user_1' })
+  })
+
+  it.each([
+    ['missing token', undefined],
+    ['expired token', { sub: 'user_1', iss: 'https://auth.example.com', aud: 'api', exp: now() - 10 }],
+    ['wrong audience', { sub: 'user_1', iss: 'https://auth.example.com', aud: 'web' }],
+    ['wrong issuer', { sub: 'user_1', iss: 'https://evil.example.com', aud: 'api' }],
+    ['future nbf', { sub: 'user_1', iss: 'https://auth.example.com', aud: 'api', nbf: now() + 60 }],
+  ])('rejects %s with 401', async (_name, payload) => {
+    const response = await callMe(payload ? await signHS256(payload) : undefined)
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' })
+  })
+
+  it('rejects tokens with a tampered signature', async () => {
+    const token = await signHS256({ sub: 'user_1', iss: 'https://auth.example.com', aud: 'api' })
+    const [header, , signature] = token.split('.')
+    const forged = `${header}.${base64Url(JSON.stringify({ sub: 'admin', iss: 'https://auth.example.com', aud: 'api' }))}.${signature}`
+
+    const response = await callMe(forged)
+
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('verifyJwt', () => {
+  it('verifies ES256 tokens against a JWKS provider by kid', async () => {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )
+    const jwks: JsonWebKeySet = {
+      keys: [{ ...(await crypto.subtle.exportKey('jwk', publicKey)), kid: 'key-1' }],
+    }
+    const token = await sign(
+      { alg: 'ES256', kid: 'key-1' },
+      { sub: 'user_2' },
+      privateKey,
+      { name: 'ECDSA', hash: 'SHA-256' }
+    )
+
+    await expect(verifyJwt(token, { jwks: () => jwks })).resolves.toMatchObject({ sub: 'user_2' })
+    await expect(
+      verifyJwt(token, { jwks: () => ({ keys: [{ ...jwks.keys[0], kid: 'key-2' }] }) })
+    ).rejects.toThrow('No key matches the token')
+  })
+
+  it('rejects tokens whose algorithm does not fit a CryptoKey public key', async () => {
+    const { publicKey } = await crypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    )
+    const { privateKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )
+    const token = await sign({ alg: 'ES256' }, { sub: 'user_2' }, privateKey, {
+      name: 'ECDSA',
+      hash: 'SHA-256',
+    })
+
+    await expect(verifyJwt(token, { publicKey })).rejects.toThrow('No key matches the token')
+  })
+
+  it('accepts HMAC and asymmetric tokens when both a secret and a JWKS are configured', async () => {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )
+    const jwks: JsonWebKeySet = { keys: [await crypto.subtle.exportKey('jwk', publicKey)] }
+    const esToken = await sign({ alg: 'ES256' }, { sub: 'user_2' }, privateKey, {
+      name: 'ECDSA',
+      hash: 'SHA-256',
+    })
+
+    await expect(verifyJwt(esToken, { secret, jwks })).resolves.toMatchObject({ sub: 'user_2' })
+    await expect(verifyJwt(await signHS256({ sub: 'user_1' }), { secret, jwks })).resolves.toMatchObject({
+      sub: 'user_1',
+    })
+  })
+
+  it('rejects algorithms outside the allow list', async () => {
+    const token = await signHS256({ sub: 'user_1' })
+
+    await expect(verifyJwt(token, { secret, algorithms: ['HS512'] })).rejects.toThrow(
+      'Unsupported token algorithm'
+    )
+  })
+})
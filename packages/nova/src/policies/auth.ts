@@ -0,0 +1,148 @@
+import type { AccessPolicy, AccessProducerFactory } from '../domain/access'
+import type { AuthContext, BaseORPCContext } from '../domain/context'
+import { toORPCError } from '../domain/error-catalogue'
+import { AuthenticationError } from '../domain/errors'
+import { extractToken, type ExtractTokenOptions } from '../utils/auth'
+import { createJwtVerifier, type JwtPayload, type VerifyJwtOptions } from '../utils/jwt'
+
+/**
+ * Auth policy options
+ */
+export interface AuthPolicyOptions<TContext extends BaseORPCContext = BaseORPCContext> {
+  /**
+   * Policy (or policies) to build on, usually your public policy
+   */
+  uses?: string | string[]
+
+  /** Producer to attach the middleware to, when not inherited through `uses` */
+  producer?: unknown | AccessProducerFactory
+
+  /** Verify the token as a JWT */
+  jwt?: VerifyJwtOptions
+
+  /**
+   * Map verified JWT claims to `context.auth`
+   * @default `sub` as `userId`, plus `email` and `roles` when present
+   */
+  claims?: (payload: JwtPayload) => AuthContext
+
+  /**
+   * Verify an opaque session token instead of a JWT,
+   * e.g. by looking it up in your session store. Return null to reject.
+   */
+  session?: (token: string, context: TContext) => AuthContext | null | Promise<AuthContext | null>
+
+  /** Where to read the token from; bearer header first, then the cookie */
+  token?: ExtractTokenOptions
+}
+
+/**
+ * Create an access policy that authenticates requests
+ *
+ * Reads a bearer token or session cookie, verifies it and populates
+ * `context.auth`. Missing or invalid credentials are rejected with
+ * 401 `UNAUTHORIZED`.
+ *
+ * @param options - Auth policy options
+ * @returns An access policy for `defineAccess`
+ * @throws Error unless exactly one of `jwt` or `session` is configured
+ *
+ * @example
+ * ```typescript
+ * export const access = defineAccess({
+ *   default: 'public',
+ *   policies: {
+ *     public: { producer: implement(routes).$context<AppContext>() },
+ *     auth: authPolicy({
+ *       uses: 'public',
+ *       jwt: { jwks: './jwks.json', issuer: 'https://auth.example.com', audience: 'api' },
+ *     }),
+ *   },
+ * })
+ * ```
+ */
+export function authPolicy<TContext extends BaseORPCContext = BaseORPCContext>(
+  options: AuthPolicyOptions<TContext>
+): AccessPolicy & { kind: 'plain' } {
+  const { uses, producer, ...authOptions } = options
+
+  return {
+    kind: 'plain',
+    uses,
+    producer,
+    middleware: createAuthMiddleware(authOptions),
+  }
+}
+
+/**
+ * Create the oRPC middleware used by authPolicy()
+ *
+ * @param options - Auth policy options
+ * @returns Middleware that adds `auth` to the context
+ */
+export function createAuthMiddleware<TContext extends BaseORPCContext = BaseORPCContext>(
+  options: Omit<AuthPolicyOptions<TContext>, 'uses' | 'producer'>
+) {
+  const authenticate = createAuthenticator(options)
+
+  return async ({
+    context,
+    next,
+  }: {
+    context: TContext
+    next: (params: { context: { auth: AuthContext } }) => unknown
+  }) => {
+    let auth: AuthContext
+    try {
+      auth = await authenticate(context)
+    } catch (error) {
+      throw toORPCError(error)
+    }
+
+    return next({ context: { auth } })
+  }
+}
+
+function createAuthenticator<TContext extends BaseORPCContext>(
+  options: Omit<AuthPolicyOptions<TContext>, 'uses' | 'producer'>
+): (context: TContext) => Promise<AuthContext> {
+  const { jwt, session, claims = defaultClaims, token: tokenOptions } = options
+
+  if (!jwt === !session) {
+    throw new Error('authPolicy requires either a jwt or a session option')
+  }
+
+  const verifyJwt = jwt ? createJwtVerifier(jwt) : undefined
+
+  return async context => {
+    const { token } = extractToken(context, tokenOptions)
+    if (!token) {
+      throw new AuthenticationError('Missing authentication token')
+    }
+
+    if (session) {
+      const auth = await session(token, context)
+      if (!auth) {
+        throw new AuthenticationError('Invalid session')
+      }
+      return auth
+    }
+
+    return claims(await verifyJwt!(token))
+  }
+}
+
+function defaultClaims(payload: JwtPayload): AuthContext {
+  if (typeof payload.sub !== 'string' || payload.sub === '') {
+    throw new AuthenticationError('Token has no subject')
+  }
+
+  return {
+    userId: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email : undefined,
+    roles: Array.isArray(payload.roles)
+      ? payload.roles.filter((role): role is string => typeof role === 'string')
+      : undefined,
+    claims: payload,
+  }
+}
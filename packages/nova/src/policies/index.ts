@@ -0,0 +1,17 @@
+/**
+ * @outscope/nova access policies
+ *
+ * Ready-made access policies for `defineAccess`.
+ */
+
+// Auth policy
+export { authPolicy, createAuthMiddleware } from './auth'
+export type { AuthPolicyOptions } from './auth'
+
+// Permission policy
+export { permissionPolicy } from './permission'
+export type { PermissionPolicyOptions, PermissionResolver } from './permission'
+
+// Tenant policy
+export { tenantPolicy } from './tenant'
+export type { TenantPolicyOptions } from './tenant'
@@ -0,0 +1,95 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement } from '@orpc/server'
+import { z } from 'zod'
+import { authPolicy } from './auth'
+import { permissionPolicy } from './permission'
+import { defineAccess } from '../domain/access'
+import type { BaseORPCContext } from '../domain/context'
+import { defineRoles } from '../domain/rbac'
+import { createApp } from '../core/create-app'
+import { Controller, Handle, Permission } from '../infrastructure/decorators'
+
+const routes = {
+  createTask: oc.route({ method: 'POST', path: '/tasks' }).output(z.object({ ok: z.boolean() })),
+  listTasks: oc.route({ method: 'GET', path: '/tasks' }).output(z.object({ ok: z.boolean() })),
+}
+
+const roles = defineRoles({
+  viewer: { permissions: ['task:read'] },
+  editor: { inherits: 'viewer', permissions: ['task:*'] },
+})
+
+const sessions: Record<string, string[]> = {
+  'viewer-token': ['viewer'],
+  'editor-token': ['editor'],
+}
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: implement(routes).$context<BaseORPCContext>() },
+    auth: authPolicy({
+      uses: 'public',
+      session: token => (sessions[token] ? { userId: token, roles: sessions[token] } : null),
+    }),
+    permission: permissionPolicy({ uses: 'auth', resolve: roles }),
+  },
+})
+
+@Controller()
+class TaskController {
+  @Permission('task:create')
+  @Handle(routes.createTask)
+  createTask() {
+    return { ok: true }
+  }
+
+  @Permission([])
+  @Handle(routes.listTasks)
+  listTasks() {
+    return { ok: true }
+  }
+}
+
+describe('permissionPolicy', () => {
+  it('allows granted roles and rejects others with 401 or 403', async () => {
+    const app = await createApp({ routes, access, controllers: [TaskController] })
+    const createTask = (token?: string) =>
+      app.fetch(
+        new Request('http://localhost/api/tasks', {
+          method: 'POST',
+          headers: token ? { authorization: `Bearer ${token}` } : {},
+        })
+      )
+
+    expect((await createTask('editor-token')).status).toBe(200)
+
+    const denied = await createTask('viewer-token')
+    expect(denied.status).toBe(403)
+    expect(await denied.json()).toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Missing permission: task:create',
+    })
+
+    expect((await createTask()).status).toBe(401)
+  })
+
+  it('requires authentication even when no permission is declared', async () => {
+    const app = await createApp({
+      routes,
+      access: defineAccess({
+        default: 'public',
+        policies: {
+          public: { producer: implement(routes).$context<BaseORPCContext>() },
+          permission: permissionPolicy({ uses: 'public', resolve: roles }),
+        },
+      }),
+      controllers: [TaskController],
+    })
+
+    const response = await app.fetch(new Request('http://localhost/api/tasks'))
+    expect(response.status).toBe(401)
+  })
+})
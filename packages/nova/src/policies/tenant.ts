@@ -0,0 +1,90 @@
+import type { AccessPolicy, AccessProducerFactory } from '../domain/access'
+import type { BaseORPCContext, Tenant } from '../domain/context'
+import { toORPCError } from '../domain/error-catalogue'
+import { PermissionDeniedError } from '../domain/errors'
+import { getRequestTenant, TenantRequiredError, UnknownTenantError } from '../domain/tenancy'
+
+/**
+ * Tenant policy options
+ */
+export interface TenantPolicyOptions<TContext extends BaseORPCContext = BaseORPCContext> {
+  /**
+   * Policy (or policies) to build on, e.g. your auth policy
+   */
+  uses?: string | string[]
+
+  /** Producer to attach the middleware to, when not inherited through `uses` */
+  producer?: unknown | AccessProducerFactory
+
+  /**
+   * Whether the caller may act for the tenant, e.g. whether
+   * `context.auth` is a member of it. Return false to reject with 403.
+   */
+  authorize?: (tenant: Tenant, context: TContext) => boolean | Promise<boolean>
+}
+
+/**
+ * Create an access policy that requires a tenant
+ *
+ * Requires the tenant resolved by createApp's `tenancy` option. Requests
+ * without a tenant ID are rejected with 400 `TENANT_REQUIRED`, IDs unknown
+ * to the tenant store with 404 `TENANT_NOT_FOUND`.
+ *
+ * @param options - Tenant policy options
+ * @returns An access policy for `defineAccess`
+ *
+ * @example
+ * ```typescript
+ * export const access = defineAccess({
+ *   default: 'tenant',
+ *   policies: {
+ *     public: { producer: implement(routes).$context<AppContext>() },
+ *     auth: authPolicy({ uses: 'public', jwt }),
+ *     tenant: tenantPolicy<AuthenticatedContext>({
+ *       uses: 'auth',
+ *       authorize: (tenant, context) => memberships.has(context.auth.userId, tenant.id),
+ *     }),
+ *   },
+ * })
+ * ```
+ */
+export function tenantPolicy<TContext extends BaseORPCContext = BaseORPCContext>(
+  options: TenantPolicyOptions<TContext> = {}
+): AccessPolicy & { kind: 'plain' } {
+  const { uses, producer, authorize } = options
+
+  const requireTenant = async (context: TContext): Promise<Tenant> => {
+    if (!context.tenant) {
+      const id = getRequestTenant(context.honoContext)?.id
+      throw id === undefined ? new TenantRequiredError() : new UnknownTenantError(id)
+    }
+
+    if (authorize && !(await authorize(context.tenant, context))) {
+      throw new PermissionDeniedError()
+    }
+
+    return context.tenant
+  }
+
+  return {
+    kind: 'plain',
+    uses,
+    producer,
+    middleware: async ({
+      context,
+      next,
+    }: {
+      context: TContext
+      next: (params: { context: { tenant: Tenant } }) => unknown
+    }) => {
+      let tenant: Tenant
+      try {
+        tenant = await requireTenant(context)
+      } catch (error) {
+        throw toORPCError(error)
+      }
+
+      return next({ context: { tenant } })
+    },
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * @outscope/nova testing utilities
+ *
+ * Helpers for testing apps in-process. Requires `@orpc/client`.
+ */
+
+// Test client
+export { createTestClient } from './test-client'
+export type { TestClient, TestClientHelpers, TestClientOptions, TestResult, TestRouterClient } from './test-client'
@@ -0,0 +1,129 @@
+import 'reflect-metadata'
+import { describe, expect, it } from 'vitest'
+import { oc } from '@orpc/contract'
+import { implement, ORPCError } from '@orpc/server'
+import { z } from 'zod'
+import { createTestClient } from './test-client'
+import { defineAccess } from '../domain/access'
+import type { AuthenticatedContext, BaseORPCContext } from '../domain/context'
+import { createApp } from '../core/create-app'
+import { Auth, Controller, Handle, Public } from '../infrastructure/decorators'
+import { authPolicy } from '../policies/auth'
+
+const task = z.object({ id: z.number(), title: z.string(), owner: z.string(), dueAt: z.date().optional() })
+
+const routes = {
+  tasks: {
+    create: oc
+      .route({ method: 'POST', path: '/tasks' })
+      .input(z.object({ title: z.string().min(1), dueAt: z.date().optional() }))
+      .output(task),
+    get: oc
+      .route({ method: 'GET', path: '/tasks/{id}' })
+      .input(z.object({ id: z.coerce.number() }))
+      .output(task)
+      .errors({ NOT_FOUND: { status: 404 } }),
+  },
+  preferences: oc
+    .route({ method: 'GET', path: '/preferences' })
+    .output(z.object({ theme: z.string(), locale: z.string() })),
+}
+
+const publicProducer = implement(routes).$context<BaseORPCContext>()
+
+const access = defineAccess({
+  default: 'public',
+  policies: {
+    public: { producer: publicProducer },
+    auth: authPolicy({
+      producer: publicProducer,
+      session: (token) => (token.startsWith('session-') ? { userId: token.slice('session-'.length) } : null),
+    }),
+  },
+})
+
+@Controller()
+class TaskController {
+  @Auth()
+  @Handle(routes.tasks.create)
+  create(input: { title: string; dueAt?: Date }, context: AuthenticatedContext) {
+    context.honoContext.header('Location', '/tasks/1')
+    return { id: 1, title: input.title, owner: context.auth.userId, dueAt: input.dueAt }
+  }
+
+  @Public()
+  @Handle(routes.tasks.get)
+  get(input: { id: number }) {
+    throw new ORPCError('NOT_FOUND', { message: `Task ${input.id} not found` })
+  }
+
+  @Public()
+  @Handle(routes.preferences)
+  preferences(_input: unknown, context: BaseORPCContext) {
+    return {
+      theme: context.honoContext.req.header('x-theme') ?? 'light',
+      locale: context.honoContext.req.header('cookie')?.match(/locale=([^;]+)/)?.[1] ?? 'en',
+    }
+  }
+}
+
+async function createTestApp() {
+  const app = await createApp({ routes, access, controllers: [TaskController] })
+  return createTestClient(app, {
+    impersonate: (user) => ({ authorization: `Bearer session-${user.userId}` }),
+  })
+}
+
+describe('createTestClient', () => {
+  it('calls procedures through the contract and returns status and headers', async () => {
+    const client = await createTestApp()
+    const dueAt = new Date('2026-01-01T00:00:00Z')
+
+    const result = await client.$as({ userId: 'ada' }).tasks.create({ title: 'Write tests', dueAt })
+
+    expect(result.status).toBe(200)
+    expect(result.headers.get('Location')).toBe('/tasks/1')
+    expect(result.error).toBeUndefined()
+    expect(result.data).toEqual({ id: 1, title: 'Write tests', owner: 'ada', dueAt })
+  })
+
+  it('returns errors with their status instead of throwing', async () => {
+    const client = await createTestApp()
+
+    const missing = await client.tasks.get({ id: 7 })
+    const invalid = await client.$as({ userId: 'ada' }).tasks.create({ title: '' })
+
+    expect(missing.status).toBe(404)
+    expect(missing.data).toBeUndefined()
+    expect(missing.error).toBeInstanceOf(ORPCError)
+    expect(missing.error).toMatchObject({ code: 'NOT_FOUND', message: 'Task 7 not found' })
+    expect(invalid.status).toBe(400)
+    expect(invalid.error?.code).toBe('BAD_REQUEST')
+  })
+
+  it('runs the access policies, so calls without a user are rejected', async () => {
+    const client = await createTestApp()
+
+    const result = await client.tasks.create({ title: 'Write tests' })
+
+    expect(result.status).toBe(401)
+    expect(result.error?.code).toBe('UNAUTHORIZED')
+  })
+
+  it('sends headers and cookies set on derived clients', async () => {
+    const client = await createTestApp()
+
+    const { data } = await client.$headers({ 'x-theme': 'dark' }).$cookies({ locale: 'fr' }).preferences()
+    const defaults = await client.preferences()
+
+    expect(data).toEqual({ theme: 'dark', locale: 'fr' })
+    expect(defaults.data).toEqual({ theme: 'light', locale: 'en' })
+  })
+
+  it('requires the impersonate option to call as a user', async () => {
+    const app = await createApp({ routes, access, controllers: [TaskController] })
+    const client = createTestClient(app)
+
+    expect(() => client.$as({ userId: 'ada' })).toThrow('impersonate')
+  })
+})
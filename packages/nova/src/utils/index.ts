@@ -15,10 +15,29 @@ export {
   type TokenExtractionContext,
 } from './auth'
 
+// JWT utilities
+export {
+  decodeJwt,
+  verifyJwt,
+  createJwtVerifier,
+  type JwtAlgorithm,
+  type JwtHeader,
+  type JwtPayload,
+  type JsonWebKeySet,
+  type JwksProvider,
+  type VerifyJwtOptions,
+  type DecodedJwt,
+} from './jwt'
+
+// Request utilities
+export { getClientIp, type ClientIpOptions } from './request'
+
 // Prisma integration utilities
 export {
   attachPrismaLogging,
   createSqlFormatter,
+  prismaHealthCheck,
   type PrismaClientLike,
+  type PrismaTransactionClientLike,
   type PrismaLoggingOptions,
 } from './prisma'
@@ -0,0 +1,62 @@
+/**
+ * Request utilities
+ *
+ * Helpers for reading client information from the Hono context
+ * across Node.js, Bun and edge runtimes.
+ */
+
+import type { Context as HonoContext } from 'hono'
+
+/**
+ * Options for client IP resolution
+ */
+export interface ClientIpOptions {
+  /**
+   * Trust `X-Forwarded-For` / `X-Real-IP` set by a reverse proxy.
+   * Only enable behind a proxy you control; clients can forge these headers.
+   * @default false
+   */
+  trustProxy?: boolean
+}
+
+/**
+ * Resolve the client IP address of a request
+ *
+ * Reads proxy headers when trusted, then the socket address exposed by
+ * @hono/node-server (`env.incoming`) or Bun (`env.requestIP`).
+ *
+ * @param c - Hono context
+ * @param options - Resolution options
+ * @returns The IP address, or 'unknown' when the runtime does not expose it
+ *
+ * @example
+ * ```typescript
+ * const ip = getClientIp(context.honoContext, { trustProxy: true })
+ * ```
+ */
+export function getClientIp(c: HonoContext, options: ClientIpOptions = {}): string {
+  if (options.trustProxy) {
+    const forwarded = c.req.header('x-forwarded-for')?.split(',')[0]?.trim()
+    if (forwarded) {
+      return forwarded
+    }
+
+    const realIp = c.req.header('x-real-ip')?.trim()
+    if (realIp) {
+      return realIp
+    }
+  }
+
+  const env = c.env as
+    | {
+        incoming?: { socket?: { remoteAddress?: string } }
+        requestIP?: (request: Request) => { address: string } | null
+      }
+    | undefined
+
+  return (
+    env?.incoming?.socket?.remoteAddress ??
+    env?.requestIP?.(c.req.raw)?.address ??
+    'unknown'
+  )
+}